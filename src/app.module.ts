@@ -1,16 +1,22 @@
-import { Module } from '@nestjs/common';
+import { ClassSerializerInterceptor, Module } from '@nestjs/common';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { ThrottlerGuard, ThrottlerModule } from '@nestjs/throttler';
+import { ScheduleModule } from '@nestjs/schedule';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { UsersModule } from './modules/users/users.module';
 import { AuthModule } from './modules/auth/auth.module';
-import { APP_FILTER, APP_GUARD } from '@nestjs/core';
+import { APP_FILTER, APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
 import { HttpExceptionFilter } from './common/filters/http-exception.filter';
 import { LoggerModule } from './common/logger/logger.module';
 import { RabbitMQModule } from './modules/rabbitmq/rabbitmq.module';
 import { RedisModule } from './modules/redis/redis.module';
+import { EmailModule } from './modules/email/email.module';
+import { RbacModule } from './modules/rbac/rbac.module';
+import { OAuthModule } from './modules/oauth/oauth.module';
+import { AuditModule } from './modules/audit/audit.module';
+import { OrganizationsModule } from './modules/organizations/organizations.module';
 import { MetricsModule } from './modules/metrics/metrics.module';
 
 @Module({
@@ -34,6 +40,8 @@ import { MetricsModule } from './modules/metrics/metrics.module';
         },
       ],
     }),
+    // 定时任务模块 - 用于 JWT 签名密钥轮换等周期任务
+    ScheduleModule.forRoot(),
     // TypeORM 数据库模块 - 异步配置
     TypeOrmModule.forRootAsync({
       imports: [ConfigModule],
@@ -73,9 +81,15 @@ import { MetricsModule } from './modules/metrics/metrics.module';
     // 业务模块
     UsersModule, // 用户模块（必须在认证模块之前，因为认证模块依赖用户模块）
     AuthModule, // 认证模块
+    RbacModule, // 角色权限模块
+    OAuthModule, // 第三方登录模块
+    AuditModule, // 安全审计模块
+    OrganizationsModule, // 组织（多租户）模块
 
     // RabbitMQ模块
     RabbitMQModule,
+    // 邮件模块
+    EmailModule,
     // redis
     RedisModule.forRoot(),
     MetricsModule,
@@ -91,6 +105,11 @@ import { MetricsModule } from './modules/metrics/metrics.module';
       provide: APP_FILTER,
       useClass: HttpExceptionFilter,
     },
+    {
+      // 序列化响应中的实体，使 @Exclude() 标记的字段（密码、双因素密钥等）不会返回给客户端
+      provide: APP_INTERCEPTOR,
+      useClass: ClassSerializerInterceptor,
+    },
   ],
 })
 export class AppModule {}
@@ -0,0 +1,28 @@
+import { createParamDecorator, type ExecutionContext } from '@nestjs/common';
+
+import type { User } from '../../modules/users/entities/user.entity';
+import type { AuthenticatedUser } from '../../modules/auth/interfaces/jwt-payload.interface';
+
+/**
+ * 真实用户装饰器
+ * 模拟登录时 @CurrentUser() 返回被模拟的用户，@RealUser() 返回实际操作的管理员；
+ * 非模拟登录时两者相同
+ *
+ * 使用示例：
+ * @Get('whoami')
+ * @UseGuards(JwtAuthGuard)
+ * whoami(@CurrentUser() user: User, @RealUser() realUser: User) {
+ *   return { effectiveUserId: user.id, realUserId: realUser.id };
+ * }
+ */
+export const RealUser = createParamDecorator(
+  (data: keyof User | undefined, ctx: ExecutionContext) => {
+    const request = ctx
+      .switchToHttp()
+      .getRequest<{ user?: AuthenticatedUser }>();
+    const user: User | undefined = request.user?.impersonator ?? request.user; // 由认证守卫注入的用户信息
+
+    // 如果指定了特定属性，则返回该属性值
+    return data ? user?.[data] : user;
+  },
+);
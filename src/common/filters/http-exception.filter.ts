@@ -26,6 +26,7 @@ export class HttpExceptionFilter implements ExceptionFilter {
     let status: number;
     let message: string | object;
     let stack: string | undefined;
+    let details: Record<string, unknown> = {};
 
     if (exception instanceof HttpException) {
       status = exception.getStatus();
@@ -35,6 +36,10 @@ export class HttpExceptionFilter implements ExceptionFilter {
           ? exceptionResponse
           : (exceptionResponse as any).message || exception.message;
       stack = exception.stack;
+      // 保留自定义异常中的附加字段（如错误码），便于客户端识别
+      if (typeof exceptionResponse === 'object') {
+        details = this.extractDetails(exceptionResponse);
+      }
     } else if (exception instanceof Error) {
       status = HttpStatus.INTERNAL_SERVER_ERROR;
       message = exception.message;
@@ -51,6 +56,7 @@ export class HttpExceptionFilter implements ExceptionFilter {
       path: request.url,
       method: request.method,
       message: Array.isArray(message) ? message : [message],
+      ...details,
       requestId: request.headers['x-request-id'],
       ...(process.env.NODE_ENV === 'development' && { stack }),
     };
@@ -76,6 +82,16 @@ export class HttpExceptionFilter implements ExceptionFilter {
     response.status(status).json(errorResponse);
   }
 
+  /**
+   * 提取异常响应中除标准字段外的附加字段
+   */
+  private extractDetails(response: object): Record<string, unknown> {
+    const standardFields = ['statusCode', 'message', 'error'];
+    return Object.fromEntries(
+      Object.entries(response).filter(([key]) => !standardFields.includes(key)),
+    );
+  }
+
   private sanitizeBody(body: any): any {
     if (!body || typeof body !== 'object') return body;
 
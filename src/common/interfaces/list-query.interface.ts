@@ -0,0 +1,92 @@
+import type { FindOptionsWhere } from 'typeorm';
+
+/**
+ * 字段的值类型，决定查询参数的解析方式和可用的过滤运算符
+ */
+export type ListFieldType = 'string' | 'enum' | 'boolean' | 'number' | 'date';
+
+/**
+ * 过滤运算符，查询参数写作 field[op]=value，省略 [op] 时为 eq
+ */
+export type ListFilterOperator =
+  | 'eq'
+  | 'ne'
+  | 'in' // 逗号分隔的多个值
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'like' // 包含子串
+  | 'null'; // true 为空，false 不为空
+
+/**
+ * 排序方向
+ */
+export type ListSortDirection = 'ASC' | 'DESC';
+
+/**
+ * 列表接口可查询的字段
+ */
+export interface ListQueryField<T = unknown> {
+  type: ListFieldType;
+  values?: readonly string[]; // enum 类型的可选值
+  nullable?: boolean; // 可为空的字段才支持 null 运算符
+  filterable?: boolean;
+  sortable?: boolean;
+  selectable?: boolean;
+  /**
+   * 不对应数据库列的过滤条件（如根据 lockedUntil 计算的锁定状态），只支持 eq
+   */
+  where?: (value: unknown) => FindOptionsWhere<T>;
+}
+
+/**
+ * 列表查询配置
+ * 字段名即实体属性名
+ */
+export interface ListQuerySchema<T = unknown> {
+  fields: Record<string, ListQueryField<T>>;
+  primaryKey?: string; // 排序的最后一个字段，保证顺序唯一，默认 id
+  defaultSort: ListSort[];
+  defaultLimit?: number; // 默认 20
+  maxLimit?: number; // 默认 100
+}
+
+/**
+ * 过滤条件
+ */
+export interface ListFilter {
+  field: string;
+  operator: ListFilterOperator;
+  value: unknown; // 已按字段类型转换，in 运算符为数组
+}
+
+/**
+ * 排序字段
+ */
+export interface ListSort {
+  field: string;
+  direction: ListSortDirection;
+}
+
+/**
+ * 解析后的列表查询
+ */
+export interface ListQuery {
+  filters: ListFilter[];
+  sort: ListSort[]; // 末尾总是主键
+  fields: string[]; // 返回的字段，未指定时为全部可返回字段
+  limit: number;
+  page?: number; // 偏移分页
+  cursor?: unknown[]; // 游标分页，上一页最后一条记录的排序字段值
+  withTotal: boolean; // 是否统计总数
+}
+
+/**
+ * 列表查询结果
+ */
+export interface ListResult<T> {
+  items: T[];
+  total?: number; // 未要求统计时不返回
+  nextCursor: string | null; // 没有下一页时为 null
+}
@@ -0,0 +1,108 @@
+import { BadRequestException } from '@nestjs/common';
+
+import { ListQueryPipe } from './list-query.pipe';
+import { encodeCursor } from '../utils/list-query.util';
+import { USER_LIST_QUERY_SCHEMA } from '../../modules/users/dto/user-list-query.dto';
+
+describe('ListQueryPipe', () => {
+  const pipe = new ListQueryPipe(USER_LIST_QUERY_SCHEMA);
+  const parse = (query: Record<string, unknown>) => pipe.transform(query);
+
+  it('parses filters, sort and pagination', () => {
+    expect(
+      parse({
+        role: { in: 'admin,moderator' },
+        isActive: 'true',
+        'createdAt[gte]': '2024-01-01',
+        sort: '-lastLoginAt',
+        limit: '50',
+        page: '2',
+      }),
+    ).toMatchObject({
+      filters: [
+        { field: 'role', operator: 'in', value: ['admin', 'moderator'] },
+        { field: 'isActive', operator: 'eq', value: true },
+        {
+          field: 'createdAt',
+          operator: 'gte',
+          value: new Date('2024-01-01'),
+        },
+      ],
+      sort: [
+        { field: 'lastLoginAt', direction: 'DESC' },
+        { field: 'id', direction: 'ASC' },
+      ],
+      limit: 50,
+      page: 2,
+      withTotal: true,
+    });
+  });
+
+  it('returns only the selectable fields by default', () => {
+    const { fields } = parse({});
+
+    expect(fields).toContain('email');
+    expect(fields).not.toContain('password');
+    expect(fields).not.toContain('locked');
+  });
+
+  describe('rejects', () => {
+    it.each([
+      ['filters on fields outside the schema', { password: 'secret' }],
+      ['filters on fields that are not filterable', { avatarUrl: 'x' }],
+      ['operators the field type does not support', { 'role[like]': 'adm' }],
+      ['the null operator on non-nullable fields', { 'email[null]': 'true' }],
+      ['operators other than eq on computed fields', { 'locked[ne]': 'true' }],
+      ['malformed parameter names', { 'email[eq][x]': 'a' }],
+      ['unknown enum values', { role: 'root' }],
+      ['invalid booleans', { isActive: 'yes' }],
+      ['invalid dates', { 'createdAt[gte]': 'yesterday' }],
+      ['sorting on fields that are not sortable', { sort: 'password' }],
+      ['duplicate sort fields', { sort: 'email,-email' }],
+      ['fields that are not selectable', { fields: 'id,password' }],
+      ['computed fields in the selection', { fields: 'locked' }],
+      ['a limit above the maximum', { limit: '101' }],
+      ['a limit that is not a positive integer', { limit: '0' }],
+    ])('%s', (_description, query: Record<string, unknown>) => {
+      expect(() => parse(query)).toThrow(BadRequestException);
+    });
+
+    it('page together with cursor', () => {
+      const { sort } = parse({});
+      const cursor = encodeCursor(
+        { createdAt: new Date(), id: 'user-1' },
+        sort,
+      );
+
+      expect(() => parse({ page: '2', cursor })).toThrow(
+        'page 和 cursor 不能同时使用',
+      );
+    });
+
+    it('a tampered cursor or one made for another sort order', () => {
+      const cursor = encodeCursor(
+        { createdAt: new Date(), id: 'user-1' },
+        parse({}).sort,
+      );
+
+      expect(() => parse({ cursor: 'not-a-cursor' })).toThrow(
+        'cursor 无效或与排序条件不匹配',
+      );
+      expect(() => parse({ cursor, sort: 'email' })).toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  it('accepts a cursor from the previous page and skips the total by default', () => {
+    const { sort } = parse({});
+    const createdAt = new Date('2024-01-01T00:00:00Z');
+    const cursor = encodeCursor({ createdAt, id: 'user-1' }, sort);
+
+    expect(parse({ cursor })).toMatchObject({
+      cursor: [createdAt, 'user-1'],
+      page: undefined,
+      withTotal: false,
+    });
+  });
+});
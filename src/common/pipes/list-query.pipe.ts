@@ -0,0 +1,258 @@
+import {
+  BadRequestException,
+  Injectable,
+  type PipeTransform,
+} from '@nestjs/common';
+
+import { decodeCursor } from '../utils/list-query.util';
+import type {
+  ListFilter,
+  ListFilterOperator,
+  ListQuery,
+  ListQueryField,
+  ListQuerySchema,
+  ListSort,
+} from '../interfaces/list-query.interface';
+
+// 不是过滤条件的查询参数
+const RESERVED_PARAMS = ['page', 'limit', 'sort', 'fields', 'cursor', 'count'];
+
+// 各类型字段可用的过滤运算符（null 运算符另外要求字段可为空）
+const OPERATORS: Record<ListQueryField['type'], ListFilterOperator[]> = {
+  string: ['eq', 'ne', 'in', 'like', 'null'],
+  enum: ['eq', 'ne', 'in', 'null'],
+  boolean: ['eq', 'null'],
+  number: ['eq', 'ne', 'in', 'gt', 'gte', 'lt', 'lte', 'null'],
+  date: ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'null'],
+};
+
+/**
+ * 列表查询管道 - 将查询参数解析为 ListQuery，字段、运算符和取值都按配置校验
+ *
+ * 查询参数格式：
+ * - 过滤：field=value 或 field[op]=value，同一字段的多个条件为 AND 关系，
+ *   如 createdAt[gte]=2024-01-01&createdAt[lt]=2024-02-01、role[in]=admin,moderator
+ * - 排序：sort=-createdAt,email，- 表示倒序
+ * - 字段：fields=id,email,role，未指定时返回全部可返回（selectable）字段，主键和排序字段总是返回
+ * - 分页：limit=20 配合 page=2（偏移分页）或 cursor=上一页的 nextCursor（游标分页）
+ * - 总数：count=false 不统计总数；偏移分页默认统计，游标分页默认不统计
+ *
+ * 使用示例：
+ * @Get()
+ * findAll(@Query(new ListQueryPipe(USER_LIST_QUERY_SCHEMA)) query: ListQuery) {}
+ */
+@Injectable()
+export class ListQueryPipe
+  implements PipeTransform<Record<string, unknown>, ListQuery>
+{
+  constructor(private readonly schema: ListQuerySchema) {}
+
+  transform(value: Record<string, unknown>): ListQuery {
+    const params = this.flatten(value ?? {});
+
+    const sort = this.parseSort(params.sort);
+    const limit = this.parseInteger('limit', params.limit) ?? this.defaultLimit;
+    if (limit > (this.schema.maxLimit ?? 100)) {
+      throw new BadRequestException(
+        `limit 不能超过 ${this.schema.maxLimit ?? 100}`,
+      );
+    }
+    const page = this.parseInteger('page', params.page);
+    if (page !== undefined && params.cursor !== undefined) {
+      throw new BadRequestException('page 和 cursor 不能同时使用');
+    }
+
+    let cursor: unknown[] | undefined;
+    if (params.cursor !== undefined) {
+      cursor = decodeCursor(params.cursor, sort, this.schema) ?? undefined;
+      if (!cursor) {
+        throw new BadRequestException('cursor 无效或与排序条件不匹配');
+      }
+    }
+
+    const filters: ListFilter[] = [];
+    for (const [key, raw] of Object.entries(params)) {
+      if (!RESERVED_PARAMS.includes(key)) {
+        filters.push(this.parseFilter(key, raw));
+      }
+    }
+
+    return {
+      filters,
+      sort,
+      fields: this.parseFields(params.fields, sort),
+      limit,
+      page: cursor ? undefined : (page ?? 1),
+      cursor,
+      withTotal:
+        params.count === undefined
+          ? !cursor
+          : this.parseBoolean('count', params.count),
+    };
+  }
+
+  private get defaultLimit(): number {
+    return this.schema.defaultLimit ?? 20;
+  }
+
+  private get primaryKey(): string {
+    return this.schema.primaryKey ?? 'id';
+  }
+
+  /**
+   * 将查询参数展开为 key=value 形式
+   * 兼容 extended 查询解析器生成的嵌套对象（{ createdAt: { gte: '...' } }）和重复参数生成的数组
+   */
+  private flatten(
+    value: Record<string, unknown>,
+    prefix?: string,
+  ): Record<string, string> {
+    const params: Record<string, string> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const name = prefix ? `${prefix}[${key}]` : key;
+      if (Array.isArray(item)) {
+        params[name] = item.map(String).join(',');
+      } else if (item !== null && typeof item === 'object') {
+        Object.assign(
+          params,
+          this.flatten(item as Record<string, unknown>, name),
+        );
+      } else {
+        params[name] = String(item);
+      }
+    }
+    return params;
+  }
+
+  /**
+   * 解析排序参数，末尾补充主键保证顺序唯一
+   */
+  private parseSort(raw?: string): ListSort[] {
+    const sort: ListSort[] = raw
+      ? raw.split(',').map((item) => {
+          const field = item.replace(/^[-+]/, '');
+          if (!this.schema.fields[field]?.sortable) {
+            throw new BadRequestException(`不支持按 ${field} 排序`);
+          }
+          return { field, direction: item.startsWith('-') ? 'DESC' : 'ASC' };
+        })
+      : [...this.schema.defaultSort];
+
+    const fields = sort.map((item) => item.field);
+    if (new Set(fields).size !== fields.length) {
+      throw new BadRequestException('排序字段不能重复');
+    }
+    if (!fields.includes(this.primaryKey)) {
+      sort.push({ field: this.primaryKey, direction: 'ASC' });
+    }
+    return sort;
+  }
+
+  /**
+   * 解析返回字段，游标分页需要主键和排序字段
+   * 未指定时只返回配置中允许返回的字段，不会带出实体上的其他列
+   */
+  private parseFields(raw: string | undefined, sort: ListSort[]): string[] {
+    const fields =
+      raw === undefined
+        ? Object.keys(this.schema.fields).filter(
+            (field) => this.schema.fields[field].selectable,
+          )
+        : raw.split(',').filter(Boolean);
+    for (const field of fields) {
+      if (!this.schema.fields[field]?.selectable) {
+        throw new BadRequestException(`不支持返回字段 ${field}`);
+      }
+    }
+    return [...new Set([...fields, ...sort.map((item) => item.field)])];
+  }
+
+  /**
+   * 解析过滤条件
+   */
+  private parseFilter(key: string, raw: string): ListFilter {
+    const match = /^(\w+)(?:\[(\w+)\])?$/.exec(key);
+    const field = match?.[1] ?? key;
+    const definition = this.schema.fields[field];
+    if (!match || !definition?.filterable) {
+      throw new BadRequestException(`不支持的查询参数: ${key}`);
+    }
+
+    const operator = (match[2] ?? 'eq') as ListFilterOperator;
+    const allowed = definition.where
+      ? ['eq']
+      : OPERATORS[definition.type].filter(
+          (item) => item !== 'null' || definition.nullable,
+        );
+    if (!allowed.includes(operator)) {
+      throw new BadRequestException(`${field} 不支持 ${operator} 运算符`);
+    }
+
+    let value: unknown;
+    if (operator === 'null') {
+      value = this.parseBoolean(key, raw);
+    } else if (operator === 'in') {
+      value = raw
+        .split(',')
+        .map((item) => this.parseValue(key, definition, item));
+    } else {
+      value = this.parseValue(key, definition, raw);
+    }
+    return { field, operator, value };
+  }
+
+  /**
+   * 按字段类型转换取值
+   */
+  private parseValue(
+    key: string,
+    definition: ListQueryField,
+    raw: string,
+  ): unknown {
+    switch (definition.type) {
+      case 'boolean':
+        return this.parseBoolean(key, raw);
+      case 'number': {
+        const value = Number(raw);
+        if (raw === '' || !Number.isFinite(value)) {
+          throw new BadRequestException(`${key} 必须是数字`);
+        }
+        return value;
+      }
+      case 'date': {
+        const value = new Date(raw);
+        if (Number.isNaN(value.getTime())) {
+          throw new BadRequestException(`${key} 必须是有效的日期`);
+        }
+        return value;
+      }
+      case 'enum':
+        if (!definition.values?.includes(raw)) {
+          throw new BadRequestException(
+            `${key} 必须是以下值之一: ${definition.values?.join(', ')}`,
+          );
+        }
+        return raw;
+      default:
+        return raw;
+    }
+  }
+
+  private parseBoolean(key: string, raw: string): boolean {
+    if (raw !== 'true' && raw !== 'false') {
+      throw new BadRequestException(`${key} 必须是 true 或 false`);
+    }
+    return raw === 'true';
+  }
+
+  private parseInteger(key: string, raw?: string): number | undefined {
+    if (raw === undefined) {
+      return undefined;
+    }
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < 1) {
+      throw new BadRequestException(`${key} 必须是正整数`);
+    }
+    return value;
+  }
+}
@@ -0,0 +1,306 @@
+import {
+  And,
+  Equal,
+  FindOperator,
+  In,
+  IsNull,
+  LessThan,
+  LessThanOrEqual,
+  Like,
+  MoreThan,
+  MoreThanOrEqual,
+  Not,
+  Or,
+  type FindOptionsOrder,
+  type FindOptionsSelect,
+  type FindOptionsWhere,
+  type ObjectLiteral,
+  type Repository,
+} from 'typeorm';
+
+import type {
+  ListFilter,
+  ListQuery,
+  ListQuerySchema,
+  ListResult,
+  ListSort,
+} from '../interfaces/list-query.interface';
+
+type WhereObject = Record<string, unknown>;
+
+/**
+ * 按列表查询分页查询记录
+ * 游标分页使用键集（keyset）条件，翻页开销与页码无关，适合大表；
+ * 空值排序位置按 MySQL 的默认行为处理：正序时在最前，倒序时在最后
+ *
+ * 使用示例：
+ * const { items, total, nextCursor } = await findList(
+ *   this.userRepository,
+ *   query,
+ *   USER_LIST_QUERY_SCHEMA,
+ *   [{ isActive: true }],
+ * );
+ *
+ * @param repository 实体仓库
+ * @param query 列表查询（ListQueryPipe 的解析结果）
+ * @param schema 列表查询配置
+ * @param wheres 基础条件（OR），如租户范围或访问能力生成的条件
+ * @returns 当前页记录、总数（按需）和下一页游标
+ */
+export async function findList<T extends ObjectLiteral>(
+  repository: Repository<T>,
+  query: ListQuery,
+  schema: ListQuerySchema<T>,
+  wheres: FindOptionsWhere<T>[] = [{}],
+): Promise<ListResult<T>> {
+  const filterWhere = buildFilterWhere(query.filters, schema);
+  const filtered = wheres.map((where) =>
+    mergeConditions(where as WhereObject, filterWhere),
+  );
+
+  let paged = filtered;
+  if (query.cursor) {
+    const branches = buildKeysetBranches(query.sort, query.cursor, schema);
+    paged = filtered.flatMap((where) =>
+      branches.map((branch) => mergeConditions(where, branch)),
+    );
+  }
+
+  // 键集条件为空时后面已经没有记录，TypeORM 会把空数组当作没有条件，不能直接查询
+  const rows =
+    paged.length === 0
+      ? []
+      : await repository.find({
+          where: paged as FindOptionsWhere<T>[],
+          order: Object.fromEntries(
+            query.sort.map(({ field, direction }) => [field, direction]),
+          ) as FindOptionsOrder<T>,
+          select: Object.fromEntries(
+            query.fields.map((field) => [field, true]),
+          ) as FindOptionsSelect<T>,
+          skip: query.page ? (query.page - 1) * query.limit : undefined,
+          take: query.limit + 1, // 多取一条判断是否还有下一页
+        });
+
+  const items = rows.slice(0, query.limit);
+  const last = items[items.length - 1];
+  return {
+    items,
+    ...(query.withTotal && {
+      total: await repository.count({
+        where: filtered as FindOptionsWhere<T>[],
+      }),
+    }),
+    nextCursor:
+      rows.length > query.limit
+        ? encodeCursor(last as WhereObject, query.sort)
+        : null,
+  };
+}
+
+/**
+ * 生成游标：记录在各排序字段上的值
+ * 游标中同时保存排序条件，换了排序条件后旧游标无法使用
+ */
+export function encodeCursor(record: WhereObject, sort: ListSort[]): string {
+  const values = sort.map(({ field }) => {
+    const value = record[field];
+    return value instanceof Date ? value.toISOString() : (value ?? null);
+  });
+  return Buffer.from(
+    JSON.stringify({ s: describeSort(sort), v: values }),
+  ).toString('base64url');
+}
+
+/**
+ * 解析游标
+ * @returns 各排序字段的值，游标格式错误或与排序条件不匹配时返回 null
+ */
+export function decodeCursor(
+  cursor: string,
+  sort: ListSort[],
+  schema: ListQuerySchema,
+): unknown[] | null {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  const { s, v } = (decoded ?? {}) as { s?: unknown; v?: unknown };
+  if (
+    s !== describeSort(sort) ||
+    !Array.isArray(v) ||
+    v.length !== sort.length
+  ) {
+    return null;
+  }
+
+  const values: unknown[] = [];
+  for (const [index, { field }] of sort.entries()) {
+    const value: unknown = v[index];
+    const definition = schema.fields[field];
+    if (value === null) {
+      if (!definition?.nullable) {
+        return null;
+      }
+      values.push(null);
+    } else if (definition?.type === 'date') {
+      const date = new Date(value as string);
+      if (typeof value !== 'string' || Number.isNaN(date.getTime())) {
+        return null;
+      }
+      values.push(date);
+    } else if (
+      typeof value !==
+      (definition?.type === 'number'
+        ? 'number'
+        : definition?.type === 'boolean'
+          ? 'boolean'
+          : 'string')
+    ) {
+      return null;
+    } else {
+      values.push(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * 将过滤条件转换为查询条件，同一字段的多个条件为 AND 关系
+ */
+function buildFilterWhere<T>(
+  filters: ListFilter[],
+  schema: ListQuerySchema<T>,
+): WhereObject {
+  let where: WhereObject = {};
+  for (const { field, operator, value } of filters) {
+    const custom = schema.fields[field]?.where;
+    where = mergeConditions(
+      where,
+      custom
+        ? (custom(value) as WhereObject)
+        : { [field]: toFindOperator(operator, value) },
+    );
+  }
+  return where;
+}
+
+/**
+ * 将过滤运算符转换为 TypeORM 查询运算符
+ */
+function toFindOperator(
+  operator: ListFilter['operator'],
+  value: unknown,
+): FindOperator<unknown> {
+  switch (operator) {
+    case 'ne':
+      return Not(value);
+    case 'in':
+      return In(value as unknown[]);
+    case 'gt':
+      return MoreThan(value);
+    case 'gte':
+      return MoreThanOrEqual(value);
+    case 'lt':
+      return LessThan(value);
+    case 'lte':
+      return LessThanOrEqual(value);
+    case 'like':
+      return Like(`%${(value as string).replace(/[\\%_]/g, '\\$&')}%`);
+    case 'null':
+      return value ? IsNull() : Not(IsNull());
+    default:
+      return Equal(value);
+  }
+}
+
+/**
+ * 生成键集分页条件：排在游标记录之后的记录
+ * 第 i 组条件为前 i 个排序字段与游标相等且第 i+1 个字段排在游标之后，各组之间为 OR 关系
+ */
+function buildKeysetBranches<T>(
+  sort: ListSort[],
+  cursor: unknown[],
+  schema: ListQuerySchema<T>,
+): WhereObject[] {
+  const branches: WhereObject[] = [];
+  for (const [index, { field, direction }] of sort.entries()) {
+    const value = cursor[index];
+    const after = afterOperator(
+      direction,
+      value,
+      schema.fields[field]?.nullable,
+    );
+    if (after) {
+      const branch: WhereObject = {};
+      sort.slice(0, index).forEach((previous, i) => {
+        branch[previous.field] =
+          cursor[i] === null ? IsNull() : Equal(cursor[i]);
+      });
+      branch[field] = after;
+      branches.push(branch);
+    }
+  }
+  return branches;
+}
+
+/**
+ * 排在指定值之后的条件，没有记录能排在其后时返回 null
+ */
+function afterOperator(
+  direction: ListSort['direction'],
+  value: unknown,
+  nullable?: boolean,
+): FindOperator<unknown> | null {
+  if (value === null) {
+    // 空值正序时在最前，之后是所有非空值；倒序时在最后
+    return direction === 'ASC' ? Not(IsNull()) : null;
+  }
+  if (direction === 'ASC') {
+    return MoreThan(value);
+  }
+  return nullable ? Or(LessThan(value), IsNull()) : LessThan(value);
+}
+
+/**
+ * 合并两组查询条件（AND）
+ * 同一字段都有条件时用 And 组合，关联实体上的条件逐字段合并
+ */
+function mergeConditions(base: WhereObject, extra: WhereObject): WhereObject {
+  const merged: WhereObject = { ...base };
+  for (const [field, value] of Object.entries(extra)) {
+    const existing = merged[field];
+    if (existing === undefined) {
+      merged[field] = value;
+    } else if (isNestedWhere(existing) && isNestedWhere(value)) {
+      merged[field] = mergeConditions(existing, value);
+    } else {
+      merged[field] = And(toOperator(existing), toOperator(value));
+    }
+  }
+  return merged;
+}
+
+function toOperator(value: unknown): FindOperator<unknown> {
+  return value instanceof FindOperator ? value : Equal(value);
+}
+
+/**
+ * 判断是否为关联实体上的条件（而不是字段值或查询运算符）
+ */
+function isNestedWhere(value: unknown): value is WhereObject {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    !(value instanceof FindOperator) &&
+    !(value instanceof Date) &&
+    !Array.isArray(value)
+  );
+}
+
+function describeSort(sort: ListSort[]): string {
+  return sort.map(({ field, direction }) => `${field}:${direction}`).join(',');
+}
@@ -3,14 +3,17 @@ import { AppModule } from './app.module';
 import { Logger, ValidationPipe } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
+import cookieParser from 'cookie-parser';
 
 async function bootstrap() {
   const logger = new Logger('Bootstrap');
   const app = await NestFactory.create(AppModule);
   // 获取配置服务
   const configService = app.get(ConfigService);
-  // 设置全局路由前缀
-  app.setGlobalPrefix('api/v1');
+  // 设置全局路由前缀（JWKS 按约定固定在 /.well-known 下）
+  app.setGlobalPrefix('api/v1', { exclude: ['.well-known/jwks.json'] });
+  // 解析 Cookie（Cookie 模式下刷新令牌通过 httpOnly Cookie 提交）
+  app.use(cookieParser());
   // CORS 配置 - 允许跨域请求
   app.enableCors({
     origin: [
@@ -19,7 +22,13 @@ async function bootstrap() {
       configService.get('FRONTEND_URL', 'http://localhost:3000'), // 从环境变量读取
     ],
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'Accept'],
+    allowedHeaders: [
+      'Content-Type',
+      'Authorization',
+      'Accept',
+      'X-Refresh-Token',
+      'X-API-Key',
+    ],
     credentials: true, // 允许携带认证信息
   });
 
@@ -52,8 +61,21 @@ async function bootstrap() {
       },
       'JWT-auth', // 这个名字要和控制器中的 @ApiBearerAuth() 对应
     )
+    .addApiKey(
+      {
+        type: 'apiKey',
+        name: 'X-API-Key',
+        description: '机器客户端使用的 API Key',
+        in: 'header',
+      },
+      'api-key',
+    )
     .addTag('Authentication', '认证相关接口')
     .addTag('Users', '用户管理接口')
+    .addTag('Invitations', '注册邀请接口')
+    .addTag('Roles', '角色权限管理接口')
+    .addTag('Audit', '安全审计接口')
+    .addTag('Organizations', '组织与成员管理接口')
     .addTag('Application', '应用基础接口')
     .build();
 
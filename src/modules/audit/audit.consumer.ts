@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+import { QueueConsumer } from '../rabbitmq/decorators/rabbitmq.decorators';
+import { QueueType } from '../rabbitmq/enums/queue-type.enum';
+import type { Message } from '../rabbitmq/interfaces/rabbitmq.interface';
+import { AuditService } from './audit.service';
+import type { AuditEventMessage } from './interfaces/audit.interface';
+
+/**
+ * 审计消费者
+ * 处理 audit-events 队列中的审计事件，写入数据库
+ */
+@Injectable()
+export class AuditConsumer {
+  constructor(private readonly auditService: AuditService) {}
+
+  /**
+   * 保存审计事件
+   */
+  @QueueConsumer({
+    queue: 'audit-events',
+    type: QueueType.DIRECT,
+    exchange: 'work-exchange',
+    routingKey: 'audit',
+    maxRetries: 5,
+  })
+  async handleAuditEvent(message: Message<AuditEventMessage>): Promise<void> {
+    await this.auditService.save(message.data);
+  }
+}
@@ -0,0 +1,46 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+
+import { AuditService } from './audit.service';
+import { QueryAuditEventsDto } from './dto/query-audit-events.dto';
+import { AuditEventListResponseDto } from './dto/audit-event-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { PlatformOnly } from '../auth/decorators/platform-only.decorator';
+import { UserRole } from '../users/enums/user-role.enum';
+
+/**
+ * 审计事件控制器 - 管理员查询安全审计记录
+ */
+@ApiTags('Audit')
+@Controller('audit-events') // 路由前缀 /audit-events
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN) // 只有管理员可以查看审计记录
+@PlatformOnly() // 审计记录不区分组织，组织管理员不能查看
+@ApiBearerAuth()
+export class AuditController {
+  constructor(private readonly auditService: AuditService) {}
+
+  /**
+   * 查询审计事件
+   * GET /audit-events?action=auth.login_failed&targetId=...&from=...&to=...
+   */
+  @Get()
+  @ApiOperation({ summary: '查询审计事件（仅管理员）' })
+  @ApiResponse({
+    status: 200,
+    description: '查询成功',
+    type: AuditEventListResponseDto,
+  })
+  async find(
+    @Query() query: QueryAuditEventsDto,
+  ): Promise<AuditEventListResponseDto> {
+    return this.auditService.find(query);
+  }
+}
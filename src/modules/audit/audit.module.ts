@@ -0,0 +1,20 @@
+import { Global, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { AuditController } from './audit.controller';
+import { AuditService } from './audit.service';
+import { AuditConsumer } from './audit.consumer';
+import { AuditEvent } from './entities/audit-event.entity';
+
+/**
+ * 审计模块 - 记录认证和账户管理相关的安全事件
+ * 设为全局模块，各业务模块无需导入即可注入 AuditService
+ */
+@Global()
+@Module({
+  imports: [TypeOrmModule.forFeature([AuditEvent])],
+  controllers: [AuditController],
+  providers: [AuditService, AuditConsumer],
+  exports: [AuditService],
+})
+export class AuditModule {}
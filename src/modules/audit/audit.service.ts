@@ -0,0 +1,172 @@
+import { ForbiddenException, Injectable, Logger } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  Between,
+  LessThan,
+  MoreThanOrEqual,
+  Repository,
+  type FindOptionsWhere,
+} from 'typeorm';
+
+import { AuditEvent } from './entities/audit-event.entity';
+import { AuditAction } from './enums/audit-action.enum';
+import { RabbitMQEasyService } from '../rabbitmq/services/rabbitmq-easy.service';
+import { TenantContextService } from '../organizations/services/tenant-context.service';
+import { QueryAuditEventsDto } from './dto/query-audit-events.dto';
+import type {
+  AuditChanges,
+  AuditContext,
+  AuditEventInput,
+  AuditEventMessage,
+} from './interfaces/audit.interface';
+
+/**
+ * 审计服务 - 记录和查询安全审计事件
+ * 事件先投递到 audit-events 队列，由 AuditConsumer 写入数据库，不阻塞请求
+ */
+@Injectable()
+export class AuditService {
+  private readonly logger = new Logger(AuditService.name);
+
+  constructor(
+    @InjectRepository(AuditEvent)
+    private readonly auditEventRepository: Repository<AuditEvent>, // 审计事件仓库
+    private readonly rabbitMQEasyService: RabbitMQEasyService, // 消息队列服务
+    private readonly tenantContext: TenantContextService, // 租户上下文
+  ) {}
+
+  /**
+   * 记录审计事件
+   * 入队失败只记录日志，不影响调用方的主流程
+   * @param event 事件内容
+   * @param context 操作者和客户端信息
+   */
+  async record(
+    event: AuditEventInput,
+    context: AuditContext = {},
+  ): Promise<void> {
+    const message: AuditEventMessage = {
+      ...event,
+      actorId: context.actorId,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent?.slice(0, 500),
+      requestId: context.requestId,
+      occurredAt: new Date().toISOString(),
+    };
+
+    try {
+      await this.rabbitMQEasyService.sendAuditEvent(message);
+    } catch (error) {
+      this.logger.error(
+        `审计事件入队失败: ${event.action} (目标: ${event.targetId ?? '-'})`,
+        (error as Error).message,
+      );
+    }
+  }
+
+  /**
+   * 保存审计事件（由队列消费者调用）
+   * @param message 队列中的事件消息
+   */
+  async save(message: AuditEventMessage): Promise<AuditEvent> {
+    return this.auditEventRepository.save(
+      this.auditEventRepository.create({
+        ...message,
+        occurredAt: new Date(message.occurredAt),
+      }),
+    );
+  }
+
+  /**
+   * 按条件分页查询审计事件
+   * @param query 查询条件
+   */
+  async find(
+    query: QueryAuditEventsDto,
+  ): Promise<{ events: AuditEvent[]; total: number }> {
+    // 审计事件不记录所属组织，无法按组织过滤
+    if (this.tenantContext.getOrganizationId()) {
+      throw new ForbiddenException('组织内不能查询审计记录');
+    }
+
+    const { page = 1, limit = 20 } = query;
+    const where: FindOptionsWhere<AuditEvent> = {
+      action: query.action,
+      actorId: query.actorId,
+      targetId: query.targetId,
+      ipAddress: query.ipAddress,
+      requestId: query.requestId,
+    };
+    if (query.from && query.to) {
+      where.occurredAt = Between(new Date(query.from), new Date(query.to));
+    } else if (query.from) {
+      where.occurredAt = MoreThanOrEqual(new Date(query.from));
+    } else if (query.to) {
+      where.occurredAt = LessThan(new Date(query.to));
+    }
+
+    // 值为 undefined 的条件会被 TypeORM 忽略
+    const [events, total] = await this.auditEventRepository.findAndCount({
+      where,
+      order: { occurredAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+    return { events, total };
+  }
+
+  /**
+   * 统计用户在指定时间之后的登录失败次数
+   * @param userId 用户ID
+   * @param since 起始时间
+   */
+  async countFailedLogins(userId: string, since: Date): Promise<number> {
+    return this.auditEventRepository.count({
+      where: {
+        action: AuditAction.LOGIN_FAILED,
+        targetId: userId,
+        occurredAt: MoreThanOrEqual(since),
+      },
+    });
+  }
+
+  /**
+   * 查询用户账户的安全事件（登录、密码变更、管理员对该账户的操作等）
+   * @param userId 用户ID
+   * @param page 页码
+   * @param limit 每页数量
+   */
+  async findSecurityActivity(
+    userId: string,
+    page = 1,
+    limit = 20,
+  ): Promise<{ events: AuditEvent[]; total: number }> {
+    const [events, total] = await this.auditEventRepository.findAndCount({
+      where: { targetId: userId },
+      order: { occurredAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+    return { events, total };
+  }
+
+  /**
+   * 比较变更前后的字段值，只保留发生变化的字段
+   * @param before 变更前
+   * @param after 变更后
+   * @returns 没有变化时返回 undefined
+   */
+  diff(
+    before: Record<string, unknown>,
+    after: Record<string, unknown>,
+  ): AuditChanges | undefined {
+    const changes: AuditChanges = { before: {}, after: {} };
+    for (const key of Object.keys(after)) {
+      if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+        changes.before[key] = before[key];
+        changes.after[key] = after[key];
+      }
+    }
+    return Object.keys(changes.after).length > 0 ? changes : undefined;
+  }
+}
@@ -0,0 +1,33 @@
+import { createParamDecorator, type ExecutionContext } from '@nestjs/common';
+import type { Request } from 'express';
+
+import type { AuditContext } from '../interfaces/audit.interface';
+import type { AuthenticatedUser } from '../../auth/interfaces/jwt-payload.interface';
+
+/**
+ * 审计上下文装饰器
+ * 从请求中提取操作者、IP、User-Agent 和请求ID，传给需要记录审计事件的服务方法
+ * 模拟登录时操作者记为实际操作的管理员
+ *
+ * 使用示例：
+ * @Patch(':id/role')
+ * updateRole(@Param('id') id: string, @RequestAuditContext() context: AuditContext) {
+ *   return this.usersService.updateRole(id, role, context);
+ * }
+ */
+export const RequestAuditContext = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): AuditContext => {
+    const request = ctx
+      .switchToHttp()
+      .getRequest<Request & { user?: AuthenticatedUser }>();
+    const actor = request.user?.impersonator ?? request.user;
+    const requestId = request.headers['x-request-id'];
+
+    return {
+      actorId: actor?.id,
+      ipAddress: request.ip,
+      userAgent: request.get('user-agent'),
+      requestId: typeof requestId === 'string' ? requestId : undefined,
+    };
+  },
+);
@@ -0,0 +1,80 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+import type { AuditChanges } from '../interfaces/audit.interface';
+
+/**
+ * 审计事件信息
+ */
+export class AuditEventResponseDto {
+  @ApiProperty({ description: '事件ID' })
+  id: string;
+
+  @ApiProperty({ example: 'auth.login_succeeded', description: '事件类型' })
+  action: string;
+
+  @ApiProperty({ required: false, description: '操作者ID' })
+  actorId?: string | null;
+
+  @ApiProperty({ required: false, description: '被操作的用户ID' })
+  targetId?: string | null;
+
+  @ApiProperty({ required: false, example: '127.0.0.1', description: 'IP地址' })
+  ipAddress?: string | null;
+
+  @ApiProperty({ required: false, description: '客户端 User-Agent' })
+  userAgent?: string | null;
+
+  @ApiProperty({ required: false, description: '请求ID' })
+  requestId?: string | null;
+
+  @ApiProperty({
+    required: false,
+    example: { before: { role: 'user' }, after: { role: 'moderator' } },
+    description: '变更前后的字段值',
+  })
+  changes?: AuditChanges | null;
+
+  @ApiProperty({ required: false, description: '补充信息' })
+  metadata?: Record<string, unknown> | null;
+
+  @ApiProperty({ description: '事件发生时间' })
+  occurredAt: Date;
+}
+
+/**
+ * 审计事件分页结果
+ */
+export class AuditEventListResponseDto {
+  @ApiProperty({ type: [AuditEventResponseDto] })
+  events: AuditEventResponseDto[];
+
+  @ApiProperty({ example: 42, description: '总数' })
+  total: number;
+}
+
+/**
+ * 当前用户的安全动态
+ * 不包含请求ID等内部排查信息
+ */
+export class SecurityActivityResponseDto {
+  @ApiProperty({ description: '事件ID' })
+  id: string;
+
+  @ApiProperty({ example: 'auth.login_succeeded', description: '事件类型' })
+  action: string;
+
+  @ApiProperty({
+    description:
+      '是否由本人操作，为 false 时表示由管理员操作或来自未登录的请求',
+  })
+  byCurrentUser: boolean;
+
+  @ApiProperty({ required: false, example: '127.0.0.1', description: 'IP地址' })
+  ipAddress?: string | null;
+
+  @ApiProperty({ required: false, description: '客户端 User-Agent' })
+  userAgent?: string | null;
+
+  @ApiProperty({ description: '事件发生时间' })
+  occurredAt: Date;
+}
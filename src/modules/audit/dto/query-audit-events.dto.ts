@@ -0,0 +1,78 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+import { AuditAction } from '../enums/audit-action.enum';
+
+/**
+ * 审计事件查询条件
+ */
+export class QueryAuditEventsDto {
+  @ApiProperty({ required: false, enum: AuditAction, description: '事件类型' })
+  @IsOptional()
+  @IsEnum(AuditAction, { message: '事件类型无效' })
+  action?: AuditAction;
+
+  @ApiProperty({ required: false, description: '操作者ID' })
+  @IsOptional()
+  @IsUUID('all', { message: '操作者ID格式无效' })
+  actorId?: string;
+
+  @ApiProperty({ required: false, description: '被操作的用户ID' })
+  @IsOptional()
+  @IsUUID('all', { message: '用户ID格式无效' })
+  targetId?: string;
+
+  @ApiProperty({ required: false, example: '127.0.0.1', description: 'IP地址' })
+  @IsOptional()
+  @IsString()
+  ipAddress?: string;
+
+  @ApiProperty({ required: false, description: '请求ID' })
+  @IsOptional()
+  @IsString()
+  requestId?: string;
+
+  @ApiProperty({
+    required: false,
+    example: '2025-01-01T00:00:00Z',
+    description: '开始时间（包含）',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: '开始时间格式无效' })
+  from?: string;
+
+  @ApiProperty({
+    required: false,
+    example: '2025-12-31T23:59:59Z',
+    description: '结束时间（不包含）',
+  })
+  @IsOptional()
+  @IsDateString({}, { message: '结束时间格式无效' })
+  to?: string;
+
+  @ApiProperty({ required: false, example: 1, description: '页码，从1开始' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiProperty({
+    required: false,
+    example: 20,
+    description: '每页数量，最多100',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
@@ -0,0 +1,44 @@
+import { Entity, PrimaryGeneratedColumn, Column, Index } from 'typeorm';
+
+import type { AuditChanges } from '../interfaces/audit.interface';
+
+/**
+ * 审计事件实体 - 记录认证和账户管理相关的安全事件
+ * 事件经 audit-events 队列异步写入，只追加不修改；
+ * 审计记录需要长期保留，不与用户表建立外键，用户删除后记录仍然保留
+ */
+@Entity('audit_events') // 数据库表名
+@Index(['targetId', 'occurredAt'])
+@Index(['actorId', 'occurredAt'])
+@Index(['action', 'occurredAt'])
+export class AuditEvent {
+  @PrimaryGeneratedColumn('uuid') // 使用 UUID 作为主键
+  id: string;
+
+  @Column({ length: 64 }) // 事件类型，见 AuditAction
+  action: string;
+
+  @Column({ name: 'actor_id', type: 'varchar', length: 36, nullable: true }) // 操作者ID，未登录的操作（如登录失败）为空
+  actorId?: string | null;
+
+  @Column({ name: 'target_id', type: 'varchar', length: 36, nullable: true }) // 被操作的用户ID
+  targetId?: string | null;
+
+  @Column({ name: 'ip_address', type: 'varchar', length: 45, nullable: true }) // 客户端IP地址
+  ipAddress?: string | null;
+
+  @Column({ name: 'user_agent', type: 'varchar', length: 500, nullable: true }) // 客户端 User-Agent
+  userAgent?: string | null;
+
+  @Column({ name: 'request_id', type: 'varchar', length: 64, nullable: true }) // 请求ID，便于与请求日志关联
+  requestId?: string | null;
+
+  @Column({ type: 'json', nullable: true }) // 变更前后的字段值
+  changes?: AuditChanges | null;
+
+  @Column({ type: 'json', nullable: true }) // 补充信息
+  metadata?: Record<string, unknown> | null;
+
+  @Column({ name: 'occurred_at', type: 'datetime', precision: 3 }) // 事件发生时间
+  occurredAt: Date;
+}
@@ -0,0 +1,41 @@
+/**
+ * 审计事件类型
+ * 命名格式为 <对象>.<动作>，查询时可按前缀过滤（如 auth.）
+ */
+export enum AuditAction {
+  /**
+   * 认证相关
+   */
+  LOGIN_SUCCEEDED = 'auth.login_succeeded',
+  LOGIN_FAILED = 'auth.login_failed',
+  ACCOUNT_LOCKED = 'auth.account_locked',
+  PASSWORD_CHANGED = 'auth.password_changed',
+  PASSWORD_RESET_REQUESTED = 'auth.password_reset_requested',
+  PASSWORD_RESET_COMPLETED = 'auth.password_reset_completed',
+  REAUTHENTICATED = 'auth.reauthenticated',
+  REFRESH_TOKEN_REUSED = 'auth.refresh_token_reused',
+
+  /**
+   * 账户管理相关（由管理员操作）
+   */
+  USER_ROLE_CHANGED = 'user.role_changed',
+  USER_ROLES_ASSIGNED = 'user.roles_assigned',
+  USER_PERMISSIONS_CHANGED = 'user.permissions_changed',
+  USER_STATUS_CHANGED = 'user.status_changed',
+  USER_DELETED = 'user.deleted',
+
+  /**
+   * 注册邀请相关
+   */
+  INVITATION_CREATED = 'invitation.created',
+  INVITATION_REVOKED = 'invitation.revoked',
+  INVITATION_ACCEPTED = 'invitation.accepted',
+
+  /**
+   * 组织成员相关
+   */
+  ORGANIZATION_MEMBER_INVITED = 'organization.member_invited',
+  ORGANIZATION_MEMBER_JOINED = 'organization.member_joined',
+  ORGANIZATION_MEMBER_UPDATED = 'organization.member_updated',
+  ORGANIZATION_MEMBER_REMOVED = 'organization.member_removed',
+}
@@ -0,0 +1,36 @@
+import type { AuditAction } from '../enums/audit-action.enum';
+
+/**
+ * 审计上下文 - 发起操作的用户和客户端信息
+ */
+export interface AuditContext {
+  actorId?: string; // 实际操作者ID（模拟登录时为管理员）
+  ipAddress?: string; // 客户端IP地址
+  userAgent?: string; // 客户端 User-Agent
+  requestId?: string; // 请求ID（X-Request-ID）
+}
+
+/**
+ * 变更前后的字段值，只包含发生变化的字段
+ */
+export interface AuditChanges {
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+}
+
+/**
+ * 待记录的审计事件
+ */
+export interface AuditEventInput {
+  action: AuditAction;
+  targetId?: string; // 被操作的用户ID
+  changes?: AuditChanges;
+  metadata?: Record<string, unknown>; // 其他补充信息，如失败原因
+}
+
+/**
+ * audit-events 队列中的消息
+ */
+export interface AuditEventMessage extends AuditEventInput, AuditContext {
+  occurredAt: string; // 事件发生时间（ISO 8601），以入队时间为准而不是写库时间
+}
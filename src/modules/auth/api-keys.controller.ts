@@ -0,0 +1,118 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Delete,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+
+import { ApiKeyService } from './services/api-key.service';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RecentAuthGuard } from './guards/recent-auth.guard';
+import { NoApiKey } from './decorators/no-api-key.decorator';
+import { NoImpersonation } from './decorators/no-impersonation.decorator';
+import { RequireRecentAuth } from './decorators/require-recent-auth.decorator';
+import { CreateApiKeyDto } from './dto/create-api-key.dto';
+import {
+  ApiKeyResponseDto,
+  CreatedApiKeyResponseDto,
+} from './dto/api-key-response.dto';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { User } from '../users/entities/user.entity';
+import { ApiKey } from './entities/api-key.entity';
+
+/**
+ * API Key 控制器 - 管理当前用户的 API Key（个人访问令牌）
+ * 只能通过访问令牌操作，API Key 不能用来创建或撤销其他 API Key
+ */
+@ApiTags('Authentication')
+@Controller('auth/api-keys') // 路由前缀为 /auth/api-keys
+@UseGuards(JwtAuthGuard)
+@NoApiKey()
+@NoImpersonation() // 模拟登录期间不能创建或撤销长期凭据
+@ApiBearerAuth()
+export class ApiKeysController {
+  constructor(private readonly apiKeyService: ApiKeyService) {}
+
+  /**
+   * 创建 API Key 接口
+   * POST /auth/api-keys
+   * 完整密钥只在本次响应中返回
+   */
+  @Post()
+  @UseGuards(RecentAuthGuard)
+  @RequireRecentAuth(300)
+  @ApiOperation({ summary: '创建 API Key' })
+  @ApiResponse({
+    status: 201,
+    description: '创建成功，完整密钥仅显示一次',
+    type: CreatedApiKeyResponseDto,
+  })
+  @ApiResponse({ status: 401, description: '需要重新验证身份' })
+  async create(
+    @CurrentUser() user: User,
+    @Body() createApiKeyDto: CreateApiKeyDto,
+  ): Promise<CreatedApiKeyResponseDto> {
+    const { apiKey, key } = await this.apiKeyService.create(
+      user,
+      createApiKeyDto,
+    );
+    return { ...this.toResponse(apiKey), key };
+  }
+
+  /**
+   * 获取 API Key 列表接口
+   * GET /auth/api-keys
+   */
+  @Get()
+  @ApiOperation({ summary: '获取当前用户的 API Key 列表' })
+  @ApiResponse({
+    status: 200,
+    description: 'API Key 列表获取成功',
+    type: [ApiKeyResponseDto],
+  })
+  async list(@CurrentUser() user: User): Promise<ApiKeyResponseDto[]> {
+    const apiKeys = await this.apiKeyService.list(user.id);
+    return apiKeys.map((apiKey) => this.toResponse(apiKey));
+  }
+
+  /**
+   * 撤销 API Key 接口
+   * DELETE /auth/api-keys/:id
+   */
+  @Delete(':id')
+  @ApiOperation({ summary: '撤销 API Key' })
+  @ApiResponse({ status: 200, description: 'API Key 已撤销' })
+  @ApiResponse({ status: 404, description: 'API Key 不存在' })
+  async revoke(
+    @CurrentUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<{ message: string }> {
+    await this.apiKeyService.revoke(user.id, id);
+    return { message: 'API Key 已撤销' };
+  }
+
+  /**
+   * 转换为响应对象，确保不会返回密钥哈希
+   */
+  private toResponse(apiKey: ApiKey): ApiKeyResponseDto {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes ?? [],
+      expiresAt: apiKey.expiresAt,
+      lastUsedAt: apiKey.lastUsedAt,
+      createdAt: apiKey.createdAt,
+    };
+  }
+}
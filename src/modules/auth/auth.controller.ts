@@ -7,25 +7,64 @@ import {
   HttpCode,
   HttpStatus,
   Get,
+  Delete,
+  Param,
+  ParseUUIDPipe,
+  Headers,
+  Ip,
+  Res,
 } from '@nestjs/common';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
+  ApiBody,
+  ApiHeader,
 } from '@nestjs/swagger';
 import { Throttle } from '@nestjs/throttler';
+import type { Request as ExpressRequest, Response } from 'express';
 
 import { AuthService } from './auth.service';
+import { TwoFactorService } from './services/two-factor.service';
+import { RefreshTokenCookieService } from './services/refresh-token-cookie.service';
 import { JwtAuthGuard } from './guards/jwt-auth.guard';
-// import { JwtRefreshGuard } from "./guards/jwt-refresh.guard"
+import { LocalAuthGuard } from './guards/local-auth.guard';
+import { JwtRefreshGuard } from './guards/jwt-refresh.guard';
+import { RecentAuthGuard } from './guards/recent-auth.guard';
+import { NoApiKey } from './decorators/no-api-key.decorator';
+import { NoImpersonation } from './decorators/no-impersonation.decorator';
+import { RequireRecentAuth } from './decorators/require-recent-auth.decorator';
 import { RegisterDto } from './dto/register.dto';
+import { LoginDto } from './dto/login.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
 import { ChangePasswordDto } from './dto/change-password.dto';
 import { ForgotPasswordDto } from './dto/forgot-password.dto';
 import { ResetPasswordDto } from './dto/reset-password.dto';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import { ResendVerificationDto } from './dto/resend-verification.dto';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { User } from '../users/entities/user.entity';
 import { AuthResponseDto } from './dto/auth-response.dto';
+import { SessionResponseDto } from './dto/session-response.dto';
+import { TwoFactorCodeDto } from './dto/two-factor-code.dto';
+import { VerifyTwoFactorDto } from './dto/verify-two-factor.dto';
+import { TwoFactorSetupDto } from './dto/two-factor-setup.dto';
+import { TwoFactorChallengeDto } from './dto/two-factor-challenge.dto';
+import { LoginVerificationChallengeDto } from './dto/login-verification-challenge.dto';
+import { VerifyLoginDto } from './dto/verify-login.dto';
+import { ReauthenticateDto } from './dto/reauthenticate.dto';
+import { ReauthenticateResponseDto } from './dto/reauthenticate-response.dto';
+import { MagicLinkDto } from './dto/magic-link.dto';
+import { VerifyMagicLinkDto } from './dto/verify-magic-link.dto';
+import { PasswordPolicyDto } from './dto/password-policy.dto';
+import { SwitchOrganizationDto } from './dto/switch-organization.dto';
+import { RequestAuditContext } from '../audit/decorators/request-audit-context.decorator';
+import type { AuditContext } from '../audit/interfaces/audit.interface';
+import type {
+  AuthenticatedUser,
+  RefreshTokenUser,
+} from './interfaces/jwt-payload.interface';
 
 /**
  * 认证控制器 - 处理所有认证相关的 HTTP 请求
@@ -33,8 +72,13 @@ import { AuthResponseDto } from './dto/auth-response.dto';
  */
 @ApiTags('Authentication') // Swagger 文档标签
 @Controller('auth') // 路由前缀为 /auth
+@NoApiKey() // 账户和会话管理只允许用户本人操作，不接受 API Key
 export class AuthController {
-  constructor(private readonly authService: AuthService) {}
+  constructor(
+    private readonly authService: AuthService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly refreshTokenCookieService: RefreshTokenCookieService,
+  ) {}
 
   /**
    * 用户注册接口
@@ -48,8 +92,17 @@ export class AuthController {
     description: '用户注册成功',
     type: AuthResponseDto,
   })
-  async register(@Body() registerDto: RegisterDto): Promise<AuthResponseDto> {
-    return this.authService.register(registerDto);
+  async register(
+    @Body() registerDto: RegisterDto,
+    @Headers('user-agent') userAgent: string,
+    @Ip() ipAddress: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<AuthResponseDto> {
+    const authResponse = await this.authService.register(registerDto, {
+      userAgent,
+      ipAddress,
+    });
+    return this.refreshTokenCookieService.apply(res, authResponse);
   }
 
   /**
@@ -57,39 +110,253 @@ export class AuthController {
    * POST /auth/login
    * 使用 LocalAuthGuard 验证用户名密码
    */
+  @UseGuards(LocalAuthGuard) // 使用本地策略验证邮箱和密码
   @Post('login')
   @HttpCode(HttpStatus.OK) // 返回 200 状态码而不是默认的 201
   @Throttle({ default: { limit: 5, ttl: 60000 } }) // 限流：每分钟最多5次登录尝试
   @ApiOperation({ summary: '用户登录' })
-  @ApiResponse({ status: 200, description: '登录成功', type: AuthResponseDto })
-  async login(@Request() req): Promise<AuthResponseDto> {
+  @ApiBody({ type: LoginDto })
+  @ApiResponse({
+    status: 200,
+    description:
+      '登录成功；已启用双因素认证时返回挑战令牌，需调用 /auth/2fa/verify 完成登录；登录风险较高时返回验证令牌，需调用 /auth/login/verify 完成登录',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({ status: 423, description: '登录失败次数过多，账户已被锁定' })
+  async login(
+    @Request() req: ExpressRequest & { user: User },
+    @Body() loginDto: LoginDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<
+    AuthResponseDto | TwoFactorChallengeDto | LoginVerificationChallengeDto
+  > {
     // req.user 是由 LocalAuthGuard 验证后注入的用户信息
-    return this.authService.login(req.user);
+    const result = await this.authService.login(req.user, {
+      deviceName: loginDto.deviceName,
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip,
+      requestId: req.get('x-request-id'),
+    });
+
+    // 双因素认证和登录验证挑战不包含令牌，原样返回
+    if ('requiresTwoFactor' in result || 'requiresVerification' in result) {
+      return result;
+    }
+    return this.refreshTokenCookieService.apply(res, result);
+  }
+
+  /**
+   * 登录验证接口
+   * POST /auth/login/verify
+   * 使用登录返回的验证令牌和邮件中的验证码换取正式令牌
+   */
+  @Post('login/verify')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60000 } }) // 限流：每分钟最多5次，防止暴力猜测验证码
+  @ApiOperation({ summary: '高风险登录验证' })
+  @ApiResponse({ status: 200, description: '登录成功', type: AuthResponseDto })
+  @ApiResponse({ status: 401, description: '验证令牌无效或验证码不正确' })
+  async verifyLogin(
+    @Body() verifyLoginDto: VerifyLoginDto,
+    @Headers('user-agent') userAgent: string,
+    @Headers('x-request-id') requestId: string,
+    @Ip() ipAddress: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<AuthResponseDto> {
+    const authResponse = await this.authService.verifyLogin(verifyLoginDto, {
+      userAgent,
+      ipAddress,
+      requestId,
+    });
+    return this.refreshTokenCookieService.apply(res, authResponse);
+  }
+
+  /**
+   * 双因素认证登录接口
+   * POST /auth/2fa/verify
+   * 使用登录返回的挑战令牌和口令换取正式令牌
+   */
+  @Post('2fa/verify')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60000 } }) // 限流：每分钟最多5次，防止暴力猜测口令
+  @ApiOperation({ summary: '双因素认证登录' })
+  @ApiResponse({ status: 200, description: '登录成功', type: AuthResponseDto })
+  @ApiResponse({ status: 401, description: '挑战令牌无效或验证码不正确' })
+  async verifyTwoFactor(
+    @Body() verifyTwoFactorDto: VerifyTwoFactorDto,
+    @Headers('user-agent') userAgent: string,
+    @Headers('x-request-id') requestId: string,
+    @Ip() ipAddress: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<AuthResponseDto> {
+    const authResponse = await this.authService.verifyTwoFactorLogin(
+      verifyTwoFactorDto,
+      { userAgent, ipAddress, requestId },
+    );
+    return this.refreshTokenCookieService.apply(res, authResponse);
+  }
+
+  /**
+   * 请求免密登录链接接口
+   * POST /auth/magic-link
+   * 向邮箱发送一次性登录链接
+   */
+  @Post('magic-link')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 3, ttl: 300000 } }) // 限流：5分钟内最多3次请求，防止邮件轰炸
+  @ApiOperation({ summary: '请求免密登录链接' })
+  @ApiResponse({ status: 200, description: '登录链接已发送' })
+  async requestMagicLink(
+    @Body() magicLinkDto: MagicLinkDto,
+  ): Promise<{ message: string }> {
+    await this.authService.requestMagicLink(magicLinkDto.email);
+    // 为了安全，不管邮箱是否存在都返回相同消息
+    return { message: '如果邮箱已注册，登录链接已发送' };
+  }
+
+  /**
+   * 免密登录接口
+   * POST /auth/magic-link/verify
+   * 使用邮件链接中的令牌换取正式令牌，令牌只能使用一次
+   */
+  @Post('magic-link/verify')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({ summary: '使用免密登录链接登录' })
+  @ApiResponse({
+    status: 200,
+    description:
+      '登录成功；已启用双因素认证时返回挑战令牌，需调用 /auth/2fa/verify 完成登录',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({ status: 401, description: '登录链接无效或已过期' })
+  async verifyMagicLink(
+    @Body() verifyMagicLinkDto: VerifyMagicLinkDto,
+    @Headers('user-agent') userAgent: string,
+    @Headers('x-request-id') requestId: string,
+    @Ip() ipAddress: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<
+    AuthResponseDto | TwoFactorChallengeDto | LoginVerificationChallengeDto
+  > {
+    const result = await this.authService.verifyMagicLink(
+      verifyMagicLinkDto.token,
+      {
+        deviceName: verifyMagicLinkDto.deviceName,
+        userAgent,
+        ipAddress,
+        requestId,
+      },
+    );
+
+    // 双因素认证和登录验证挑战不包含令牌，原样返回
+    if ('requiresTwoFactor' in result || 'requiresVerification' in result) {
+      return result;
+    }
+    return this.refreshTokenCookieService.apply(res, result);
+  }
+
+  /**
+   * 设置双因素认证接口
+   * POST /auth/2fa/setup
+   * 生成新的 TOTP 密钥，需调用 /auth/2fa/enable 确认后才会生效
+   */
+  @UseGuards(JwtAuthGuard)
+  @NoImpersonation()
+  @Post('2fa/setup')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '设置双因素认证（生成密钥）' })
+  @ApiResponse({ status: 200, type: TwoFactorSetupDto })
+  async setupTwoFactor(@CurrentUser() user: User): Promise<TwoFactorSetupDto> {
+    return this.twoFactorService.setup(user);
+  }
+
+  /**
+   * 启用双因素认证接口
+   * POST /auth/2fa/enable
+   * 确认验证器应用中的口令，返回一次性备用码
+   */
+  @UseGuards(JwtAuthGuard)
+  @NoImpersonation()
+  @Post('2fa/enable')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '启用双因素认证' })
+  @ApiResponse({
+    status: 200,
+    description: '启用成功，返回备用码（仅显示一次）',
+  })
+  async enableTwoFactor(
+    @CurrentUser() user: User,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ): Promise<{ message: string; backupCodes: string[] }> {
+    const backupCodes = await this.twoFactorService.enable(
+      user,
+      twoFactorCodeDto.code,
+    );
+    return { message: '双因素认证已启用，请妥善保存备用码', backupCodes };
+  }
+
+  /**
+   * 关闭双因素认证接口
+   * POST /auth/2fa/disable
+   * 需要提供口令或备用码
+   */
+  @UseGuards(JwtAuthGuard)
+  @NoImpersonation()
+  @Post('2fa/disable')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '关闭双因素认证' })
+  @ApiResponse({ status: 200, description: '双因素认证已关闭' })
+  async disableTwoFactor(
+    @CurrentUser() user: User,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ): Promise<{ message: string }> {
+    await this.twoFactorService.disable(user, twoFactorCodeDto.code);
+    return { message: '双因素认证已关闭' };
   }
 
   /**
    * 刷新访问令牌接口
    * POST /auth/refresh
    * 使用刷新令牌获取新的访问令牌
+   * 刷新令牌可通过请求体、X-Refresh-Token 请求头或 Cookie 提交
    */
-  // @UseGuards(JwtRefreshGuard) // 使用刷新令牌守卫
+  @UseGuards(JwtRefreshGuard) // 使用刷新令牌守卫
   @Post('refresh')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: '刷新访问令牌' })
+  @ApiBody({ type: RefreshTokenDto, required: false })
+  @ApiHeader({ name: 'X-Refresh-Token', required: false })
   @ApiResponse({
     status: 200,
     description: '令牌刷新成功',
     type: AuthResponseDto,
   })
-  async refresh(@Request() req): Promise<AuthResponseDto> {
+  @ApiResponse({ status: 401, description: '刷新令牌无效或已过期' })
+  async refresh(
+    @CurrentUser() user: RefreshTokenUser,
+    @Headers('user-agent') userAgent: string,
+    @Ip() ipAddress: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<AuthResponseDto> {
     // 使用用户ID和刷新令牌生成新的令牌对
-    return this.authService.refreshTokens(req.user.id, req.user.refreshToken);
+    const authResponse = await this.authService.refreshTokens(
+      user.id,
+      user.refreshToken,
+      { userAgent, ipAddress },
+    );
+    return this.refreshTokenCookieService.apply(res, authResponse);
   }
 
   /**
    * 用户登出接口
    * POST /auth/logout
-   * 清除用户的刷新令牌
+   * 注销当前会话，其他设备保持登录
    */
   @UseGuards(JwtAuthGuard) // 需要有效的访问令牌
   @Post('logout')
@@ -97,12 +364,133 @@ export class AuthController {
   @ApiBearerAuth() // Swagger 文档中显示需要 Bearer Token
   @ApiOperation({ summary: '用户登出' })
   @ApiResponse({ status: 200, description: '登出成功' })
-  async logout(@CurrentUser() user: User): Promise<{ message: string }> {
-    // 删除用户的所有刷新令牌，使其无法再刷新访问令牌
-    await this.authService.logout(user.id);
+  async logout(
+    @CurrentUser() user: AuthenticatedUser,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<{ message: string }> {
+    // 删除当前会话的刷新令牌，并撤销当前访问令牌
+    await this.authService.logout(user);
+    this.refreshTokenCookieService.clear(res);
     return { message: '登出成功' };
   }
 
+  /**
+   * 切换组织接口
+   * POST /auth/switch-organization
+   * 重新签发带组织声明的令牌对，之后的请求默认在该组织内
+   */
+  @UseGuards(JwtAuthGuard)
+  @NoImpersonation()
+  @Post('switch-organization')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '切换当前所在的组织' })
+  @ApiResponse({ status: 200, description: '切换成功', type: AuthResponseDto })
+  @ApiResponse({ status: 403, description: '不是该组织的成员' })
+  async switchOrganization(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() switchOrganizationDto: SwitchOrganizationDto,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<AuthResponseDto> {
+    const authResponse = await this.authService.switchOrganization(
+      user,
+      switchOrganizationDto.organizationId ?? null,
+    );
+    return this.refreshTokenCookieService.apply(res, authResponse);
+  }
+
+  /**
+   * 重新验证身份接口
+   * POST /auth/reauthenticate
+   * 使用密码或双因素口令换取短期访问令牌，用于修改密码、删除用户等要求最近认证的操作
+   */
+  @UseGuards(JwtAuthGuard)
+  @NoImpersonation()
+  @Post('reauthenticate')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60000 } }) // 限流：每分钟最多5次，防止暴力猜测密码
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '重新验证身份' })
+  @ApiResponse({
+    status: 200,
+    description: '验证成功',
+    type: ReauthenticateResponseDto,
+  })
+  @ApiResponse({ status: 400, description: '密码或验证码不正确' })
+  async reauthenticate(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() reauthenticateDto: ReauthenticateDto,
+    @Headers('user-agent') userAgent: string,
+    @Headers('x-request-id') requestId: string,
+    @Ip() ipAddress: string,
+  ): Promise<ReauthenticateResponseDto> {
+    return this.authService.reauthenticate(user, reauthenticateDto, {
+      userAgent,
+      ipAddress,
+      requestId,
+    });
+  }
+
+  /**
+   * 获取登录会话列表接口
+   * GET /auth/sessions
+   */
+  @UseGuards(JwtAuthGuard)
+  @Get('sessions')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '获取当前用户的登录会话（设备）列表' })
+  @ApiResponse({
+    status: 200,
+    description: '会话列表获取成功',
+    type: [SessionResponseDto],
+  })
+  async getSessions(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<SessionResponseDto[]> {
+    return this.authService.getSessions(user.id, user.sessionId);
+  }
+
+  /**
+   * 注销其他设备接口
+   * POST /auth/sessions/revoke-others
+   * 保留当前会话，注销其他所有设备上的会话
+   */
+  @UseGuards(JwtAuthGuard)
+  @NoImpersonation()
+  @Post('sessions/revoke-others')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '在其他所有设备上退出登录' })
+  @ApiResponse({ status: 200, description: '其他会话已注销' })
+  async revokeOtherSessions(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<{ message: string; revoked: number }> {
+    const revoked = await this.authService.revokeOtherSessions(
+      user.id,
+      user.sessionId,
+    );
+    return { message: '已在其他设备上退出登录', revoked };
+  }
+
+  /**
+   * 注销指定会话接口
+   * DELETE /auth/sessions/:id
+   */
+  @UseGuards(JwtAuthGuard)
+  @NoImpersonation()
+  @Delete('sessions/:id')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '注销指定会话（设备）' })
+  @ApiResponse({ status: 200, description: '会话已注销' })
+  @ApiResponse({ status: 404, description: '会话不存在' })
+  async revokeSession(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<{ message: string }> {
+    await this.authService.revokeSession(user.id, id);
+    return { message: '会话已注销' };
+  }
+
   /**
    * 获取当前用户信息接口
    * GET /auth/profile
@@ -117,22 +505,46 @@ export class AuthController {
     return user;
   }
 
+  /**
+   * 获取密码策略接口
+   * GET /auth/password-policy
+   * 供前端展示密码要求
+   */
+  @Get('password-policy')
+  @ApiOperation({ summary: '获取密码策略' })
+  @ApiResponse({
+    status: 200,
+    description: '获取成功',
+    type: PasswordPolicyDto,
+  })
+  getPasswordPolicy(): PasswordPolicyDto {
+    return this.authService.getPasswordPolicy();
+  }
+
   /**
    * 修改密码接口
    * POST /auth/change-password
    * 需要提供当前密码和新密码
    */
-  @UseGuards(JwtAuthGuard) // 需要登录
+  @UseGuards(JwtAuthGuard, RecentAuthGuard) // 需要登录，且最近5分钟内认证过
+  @RequireRecentAuth(300)
+  @NoImpersonation()
   @Post('change-password')
   @HttpCode(HttpStatus.OK)
   @ApiBearerAuth()
   @ApiOperation({ summary: '修改用户密码' })
   @ApiResponse({ status: 200, description: '密码修改成功' })
+  @ApiResponse({
+    status: 400,
+    description: '当前密码不正确或新密码不符合密码策略',
+  })
+  @ApiResponse({ status: 401, description: '需要重新验证身份' })
   async changePassword(
     @CurrentUser() user: User,
     @Body() changePasswordDto: ChangePasswordDto,
+    @RequestAuditContext() context: AuditContext,
   ): Promise<{ message: string }> {
-    await this.authService.changePassword(user.id, changePasswordDto);
+    await this.authService.changePassword(user.id, changePasswordDto, context);
     return { message: '密码修改成功' };
   }
 
@@ -148,8 +560,9 @@ export class AuthController {
   @ApiResponse({ status: 200, description: '密码重置邮件已发送' })
   async forgotPassword(
     @Body() forgotPasswordDto: ForgotPasswordDto,
+    @RequestAuditContext() context: AuditContext,
   ): Promise<{ message: string }> {
-    await this.authService.forgotPassword(forgotPasswordDto.email);
+    await this.authService.forgotPassword(forgotPasswordDto.email, context);
     // 为了安全，不管邮箱是否存在都返回相同消息
     return { message: '如果邮箱存在，密码重置链接已发送' };
   }
@@ -163,13 +576,53 @@ export class AuthController {
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: '使用重置令牌重置密码' })
   @ApiResponse({ status: 200, description: '密码重置成功' })
+  @ApiResponse({
+    status: 400,
+    description: '重置令牌无效或新密码不符合密码策略',
+  })
   async resetPassword(
     @Body() resetPasswordDto: ResetPasswordDto,
+    @RequestAuditContext() context: AuditContext,
   ): Promise<{ message: string }> {
-    await this.authService.resetPassword(resetPasswordDto);
+    await this.authService.resetPassword(resetPasswordDto, context);
     return { message: '密码重置成功' };
   }
 
+  /**
+   * 验证邮箱接口
+   * POST /auth/verify-email
+   * 使用邮件中的验证令牌完成邮箱验证
+   */
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // 限流：每分钟最多10次，防止暴力猜测令牌
+  @ApiOperation({ summary: '验证邮箱' })
+  @ApiResponse({ status: 200, description: '邮箱验证成功' })
+  @ApiResponse({ status: 400, description: '验证令牌无效或已过期' })
+  async verifyEmail(
+    @Body() verifyEmailDto: VerifyEmailDto,
+  ): Promise<{ message: string }> {
+    await this.authService.verifyEmail(verifyEmailDto.token);
+    return { message: '邮箱验证成功' };
+  }
+
+  /**
+   * 重新发送验证邮件接口
+   * POST /auth/resend-verification
+   */
+  @Post('resend-verification')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 3, ttl: 300000 } }) // 限流：5分钟内最多3次请求，防止邮件轰炸
+  @ApiOperation({ summary: '重新发送邮箱验证邮件' })
+  @ApiResponse({ status: 200, description: '验证邮件已发送' })
+  async resendVerification(
+    @Body() resendVerificationDto: ResendVerificationDto,
+  ): Promise<{ message: string }> {
+    await this.authService.resendVerificationEmail(resendVerificationDto.email);
+    // 为了安全，不管邮箱是否存在都返回相同消息
+    return { message: '如果邮箱存在且未验证，验证邮件已发送' };
+  }
+
   @Post('test')
   @UseGuards(JwtAuthGuard)
   @HttpCode(HttpStatus.OK)
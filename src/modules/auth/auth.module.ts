@@ -1,18 +1,53 @@
-import { Module } from '@nestjs/common';
+import {
+  Module,
+  RequestMethod,
+  type MiddlewareConsumer,
+  type NestModule,
+} from '@nestjs/common';
 import { JwtModule } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { TypeOrmModule } from '@nestjs/typeorm';
 
 import { AuthController } from './auth.controller';
+import { ApiKeysController } from './api-keys.controller';
+import { JwksController } from './jwks.controller';
+import { ImpersonationController } from './impersonation.controller';
+import { InvitationsController } from './invitations.controller';
+import { WebAuthnController } from './webauthn.controller';
 import { AuthService } from './auth.service';
 import { UsersModule } from '../users/users.module';
+import { EmailModule } from '../email/email.module';
 import { JwtStrategy } from './strategies/jwt.strategy';
 import { LocalStrategy } from './strategies/local.strategy';
 import { JwtRefreshStrategy } from './strategies/jwt-refresh.strategy';
+import { ApiKeyStrategy } from './strategies/api-key.strategy';
 import { RefreshToken } from './entities/refresh-token.entity';
+import { SigningKey } from './entities/signing-key.entity';
+import { ApiKey } from './entities/api-key.entity';
+import { PasswordHistory } from './entities/password-history.entity';
+import { ImpersonationLog } from './entities/impersonation-log.entity';
+import { Invitation } from './entities/invitation.entity';
+import { WebAuthnCredential } from './entities/webauthn-credential.entity';
+import { LoginHistory } from './entities/login-history.entity';
 import { TokenService } from './services/token.service';
 import { PasswordService } from './services/password.service';
+import { PasswordPolicyService } from './services/password-policy.service';
+import { SessionService } from './services/session.service';
+import { TokenRevocationService } from './services/token-revocation.service';
+import { TotpService } from './services/totp.service';
+import { TwoFactorService } from './services/two-factor.service';
+import { MagicLinkService } from './services/magic-link.service';
+import { RefreshTokenCookieService } from './services/refresh-token-cookie.service';
+import { ApiKeyService } from './services/api-key.service';
+import { JwtKeyService } from './services/jwt-key.service';
+import { ImpersonationService } from './services/impersonation.service';
+import { InvitationService } from './services/invitation.service';
+import { WebAuthnService } from './services/webauthn.service';
+import { GeoIpService } from './services/geo-ip.service';
+import { LoginRiskService } from './services/login-risk.service';
+import { LoginVerificationService } from './services/login-verification.service';
+import { ImpersonationAuditMiddleware } from './middleware/impersonation-audit.middleware';
 
 /**
  * 认证模块 - 负责用户认证和授权的核心模块
@@ -22,34 +57,80 @@ import { PasswordService } from './services/password.service';
   imports: [
     ConfigModule, // 配置模块，用于读取环境变量
     UsersModule, // 用户模块，提供用户相关服务
+    EmailModule, // 邮件模块，发送验证、重置密码等通知邮件
 
     // Passport 模块配置，设置默认认证策略为 JWT
     PassportModule.register({ defaultStrategy: 'jwt' }),
 
-    // JWT 模块异步配置，从环境变量读取密钥和过期时间
+    // JWT 模块异步配置，从环境变量读取过期时间
+    // 签名密钥由 TokenService 按令牌类型指定（访问令牌使用 JwtKeyService 管理的非对称密钥）
     JwtModule.registerAsync({
       imports: [ConfigModule],
       inject: [ConfigService],
       useFactory: async (configService: ConfigService) => ({
-        secret: configService.get('JWT_SECRET'), // JWT 密钥
         signOptions: {
           expiresIn: configService.get('JWT_EXPIRES_IN', '15m'), // 默认15分钟过期
         },
       }),
     }),
 
-    // TypeORM 模块，注册刷新令牌实体
-    TypeOrmModule.forFeature([RefreshToken]),
+    // TypeORM 模块，注册刷新令牌、API Key、签名密钥、密码历史、模拟登录审计、注册邀请、通行密钥和登录历史实体
+    TypeOrmModule.forFeature([
+      RefreshToken,
+      ApiKey,
+      SigningKey,
+      PasswordHistory,
+      ImpersonationLog,
+      Invitation,
+      WebAuthnCredential,
+      LoginHistory,
+    ]),
+  ],
+  // 注册认证、API Key、JWKS、模拟登录、注册邀请和通行密钥控制器
+  controllers: [
+    AuthController,
+    ApiKeysController,
+    JwksController,
+    ImpersonationController,
+    InvitationsController,
+    WebAuthnController,
   ],
-  controllers: [AuthController], // 注册认证控制器
   providers: [
     AuthService, // 认证服务
     TokenService, // 令牌服务
     PasswordService, // 密码服务
+    PasswordPolicyService, // 密码策略服务
+    SessionService, // 会话服务
+    TokenRevocationService, // 令牌撤销服务
+    TotpService, // TOTP 动态口令服务
+    TwoFactorService, // 双因素认证服务
+    MagicLinkService, // 免密登录链接服务
+    RefreshTokenCookieService, // 刷新令牌 Cookie 服务
+    ApiKeyService, // API Key 服务
+    JwtKeyService, // JWT 签名密钥服务
+    ImpersonationService, // 模拟登录服务
+    InvitationService, // 注册邀请服务
+    WebAuthnService, // 通行密钥服务
+    GeoIpService, // GeoIP 服务
+    LoginRiskService, // 登录风险服务
+    LoginVerificationService, // 登录验证服务
     JwtStrategy, // JWT 认证策略
     LocalStrategy, // 本地认证策略（用户名密码）
     JwtRefreshStrategy, // JWT 刷新令牌策略
+    ApiKeyStrategy, // API Key 认证策略
   ],
-  exports: [AuthService, TokenService, PasswordService], // 导出服务供其他模块使用
+  exports: [
+    AuthService,
+    TokenService,
+    PasswordService,
+    RefreshTokenCookieService,
+  ], // 导出服务供其他模块使用
 })
-export class AuthModule {}
+export class AuthModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    // 全局记录模拟登录期间的请求
+    consumer
+      .apply(ImpersonationAuditMiddleware)
+      .forRoutes({ path: '{*path}', method: RequestMethod.ALL });
+  }
+}
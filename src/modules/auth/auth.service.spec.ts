@@ -0,0 +1,282 @@
+import { generateKeyPairSync } from 'crypto';
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { Test } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+
+import { AuthService } from './auth.service';
+import { TokenService } from './services/token.service';
+import { JwtKeyService } from './services/jwt-key.service';
+import { SessionService } from './services/session.service';
+import { LoginRiskService } from './services/login-risk.service';
+import { PasswordService } from './services/password.service';
+import { PasswordPolicyService } from './services/password-policy.service';
+import { RefreshToken } from './entities/refresh-token.entity';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/entities/user.entity';
+import { UserRole } from '../users/enums/user-role.enum';
+import { RedisService } from '../redis/redis.service';
+import { EmailService } from '../email/email.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/enums/audit-action.enum';
+import type { AuthResponseDto } from './dto/auth-response.dto';
+import { TenantContextService } from '../organizations/services/tenant-context.service';
+import { InMemoryRepository } from '../../testing/in-memory-repository';
+import { InMemoryRedis } from '../../testing/in-memory-redis';
+
+describe('AuthService (refresh tokens)', () => {
+  let authService: AuthService;
+  let repository: InMemoryRepository<RefreshToken>;
+  let recordAudit: jest.Mock;
+
+  const user = Object.assign(new User(), {
+    id: 'user-1',
+    email: 'alice@example.com',
+    role: UserRole.USER,
+    permissions: [],
+    isActive: true,
+    twoFactorEnabled: false,
+  });
+  const context = { ipAddress: '203.0.113.1', userAgent: 'jest' };
+
+  // 登录并返回令牌对
+  const login = async () =>
+    (await authService.login(user, context)) as AuthResponseDto;
+
+  // 令牌的签发时间精确到秒，刷新前把时钟拨快一秒，模拟两次请求之间的间隔
+  const refresh = (refreshToken?: string) => {
+    jest.advanceTimersByTime(1000);
+    return authService.refreshTokens(user.id, refreshToken as string, context);
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    repository = new InMemoryRepository(RefreshToken, {
+      user: (session) => (session.userId === user.id ? user : undefined),
+    });
+    recordAudit = jest.fn();
+    const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+    const app = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        SessionService,
+        TokenService,
+        { provide: JwtService, useValue: new JwtService() },
+        {
+          provide: JwtKeyService,
+          useValue: {
+            getSigningKey: () =>
+              Promise.resolve({
+                kid: 'test',
+                algorithm: 'ES256',
+                privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+              }),
+          },
+        },
+        {
+          provide: getRepositoryToken(RefreshToken),
+          useValue: repository.asRepository(),
+        },
+        {
+          provide: UsersService,
+          useValue: { recordSuccessfulLogin: jest.fn() },
+        },
+        {
+          provide: LoginRiskService,
+          useValue: {
+            assess: () =>
+              Promise.resolve({
+                factors: [],
+                score: 0,
+                requiresStepUp: false,
+              }),
+            record: jest.fn(),
+          },
+        },
+        { provide: AuditService, useValue: { record: recordAudit } },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({ JWT_REFRESH_SECRET: 'refresh-secret' }),
+        },
+      ],
+    })
+      // 刷新令牌用不到的其他依赖
+      .useMocker(() => ({}))
+      .compile();
+
+    authService = app.get(AuthService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('rotates the refresh token and keeps the same session', async () => {
+    const { refreshToken } = await login();
+
+    const rotated = await refresh(refreshToken);
+
+    expect(rotated.refreshToken).toBeDefined();
+    expect(rotated.refreshToken).not.toBe(refreshToken);
+    expect(rotated.user).toMatchObject({ id: user.id });
+    expect(repository.rows).toHaveLength(1);
+
+    // 新令牌可以继续刷新
+    await expect(refresh(rotated.refreshToken)).resolves.toHaveProperty(
+      'accessToken',
+    );
+  });
+
+  it('revokes the session and records a security event when a rotated token is reused', async () => {
+    const { refreshToken } = await login();
+    const rotated = await refresh(refreshToken);
+
+    await expect(refresh(refreshToken)).rejects.toThrow(
+      '刷新令牌已失效，请重新登录',
+    );
+
+    expect(repository.rows).toHaveLength(0);
+    expect(recordAudit).toHaveBeenCalledWith(
+      {
+        action: AuditAction.REFRESH_TOKEN_REUSED,
+        targetId: user.id,
+        metadata: { sessionId: expect.any(String) as string },
+      },
+      expect.objectContaining({ ipAddress: '203.0.113.1' }),
+    );
+
+    // 整个令牌家族都已注销，持有最新令牌的一方也要重新登录
+    await expect(refresh(rotated.refreshToken)).rejects.toThrow(
+      '刷新令牌无效或已过期',
+    );
+  });
+
+  it('lets only one of two concurrent refreshes with the same token succeed', async () => {
+    const { refreshToken } = await login();
+    jest.advanceTimersByTime(1000);
+
+    const results = await Promise.allSettled([
+      authService.refreshTokens(user.id, refreshToken as string),
+      authService.refreshTokens(user.id, refreshToken as string),
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual([
+      'fulfilled',
+      'rejected',
+    ]);
+    expect(repository.rows).toHaveLength(0);
+  });
+
+  it('does not affect the sessions on other devices', async () => {
+    const first = await login();
+    const second = await login();
+    await refresh(first.refreshToken);
+
+    await expect(refresh(first.refreshToken)).rejects.toThrow(
+      UnauthorizedException,
+    );
+
+    expect(repository.rows).toHaveLength(1);
+    await expect(refresh(second.refreshToken)).resolves.toHaveProperty(
+      'accessToken',
+    );
+  });
+});
+
+describe('AuthService (one-time tokens)', () => {
+  let authService: AuthService;
+  let users: InMemoryRepository<User>;
+  let user: User;
+  let emailedTokens: string[];
+
+  beforeEach(async () => {
+    users = new InMemoryRepository(User);
+    user = await users.save(
+      users.create({
+        email: 'alice@example.com',
+        password: 'old-hash',
+        emailVerified: false,
+      }),
+    );
+    emailedTokens = [];
+    const collectToken = (_user: User, token: string) => {
+      emailedTokens.push(token);
+      return Promise.resolve(true);
+    };
+
+    const app = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        UsersService,
+        TenantContextService,
+        { provide: getRepositoryToken(User), useValue: users.asRepository() },
+        {
+          provide: PasswordService,
+          useValue: { hashPassword: () => Promise.resolve('new-hash') },
+        },
+        {
+          provide: PasswordPolicyService,
+          useValue: {
+            validate: () => Promise.resolve(),
+            recordPassword: () => Promise.resolve(),
+          },
+        },
+        {
+          provide: SessionService,
+          useValue: { revokeAllSessions: () => Promise.resolve() },
+        },
+        {
+          provide: EmailService,
+          useValue: {
+            sendPasswordResetEmail: collectToken,
+            sendVerificationEmail: collectToken,
+            sendPasswordChangedEmail: () => Promise.resolve(true),
+            sendWelcomeEmail: () => Promise.resolve(true),
+          },
+        },
+        { provide: RedisService, useValue: new InMemoryRedis().asService() },
+        { provide: AuditService, useValue: { record: jest.fn() } },
+        { provide: ConfigService, useValue: new ConfigService({}) },
+      ],
+    })
+      // 一次性令牌用不到的其他依赖
+      .useMocker(() => ({}))
+      .compile();
+
+    authService = app.get(AuthService);
+  });
+
+  it('does not accept a password reset token twice', async () => {
+    await authService.forgotPassword(user.email);
+    const [token] = emailedTokens;
+
+    await authService.resetPassword({ token, newPassword: 'new-password' });
+    expect(users.rows[0]).toMatchObject({
+      password: 'new-hash',
+      resetToken: null,
+      resetTokenExpiry: null,
+    });
+
+    await expect(
+      authService.resetPassword({ token, newPassword: 'attacker-password' }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('does not accept an email verification token twice', async () => {
+    await authService.resendVerificationEmail(user.email);
+    const [token] = emailedTokens;
+
+    await authService.verifyEmail(token);
+    expect(users.rows[0]).toMatchObject({
+      emailVerified: true,
+      emailVerificationToken: null,
+      emailVerificationExpiry: null,
+    });
+
+    await expect(authService.verifyEmail(token)).rejects.toThrow(
+      '验证令牌无效或已过期',
+    );
+  });
+});
@@ -1,25 +1,80 @@
 import {
   Injectable,
+  Logger,
   UnauthorizedException,
   BadRequestException,
   ConflictException,
   NotFoundException,
+  ForbiddenException,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { Repository } from 'typeorm';
-import { InjectRepository } from '@nestjs/typeorm';
-import { randomBytes } from 'crypto';
+import { randomBytes, randomUUID } from 'crypto';
 
 import { UsersService } from '../users/users.service';
 import { TokenService } from './services/token.service';
 import { PasswordService } from './services/password.service';
+import { SessionService } from './services/session.service';
+import { TokenRevocationService } from './services/token-revocation.service';
+import { TwoFactorService } from './services/two-factor.service';
+import { MagicLinkService } from './services/magic-link.service';
+import { PasswordPolicyService } from './services/password-policy.service';
+import { InvitationService } from './services/invitation.service';
+import { WebAuthnService } from './services/webauthn.service';
+import { LoginRiskService } from './services/login-risk.service';
+import { LoginVerificationService } from './services/login-verification.service';
 import { User } from '../users/entities/user.entity';
-import { RefreshToken } from './entities/refresh-token.entity';
 import { RegisterDto } from './dto/register.dto';
 import { ChangePasswordDto } from './dto/change-password.dto';
 import { ResetPasswordDto } from './dto/reset-password.dto';
 import { AuthResponseDto } from './dto/auth-response.dto';
+import { SessionResponseDto } from './dto/session-response.dto';
+import { PasswordPolicyDto } from './dto/password-policy.dto';
+import { TwoFactorChallengeDto } from './dto/two-factor-challenge.dto';
+import { VerifyTwoFactorDto } from './dto/verify-two-factor.dto';
+import { AcceptInvitationDto } from './dto/accept-invitation.dto';
+import { WebAuthnAuthenticationDto } from './dto/webauthn-authentication.dto';
+import { LoginVerificationChallengeDto } from './dto/login-verification-challenge.dto';
+import { VerifyLoginDto } from './dto/verify-login.dto';
+import { ReauthenticateDto } from './dto/reauthenticate.dto';
+import { ReauthenticateResponseDto } from './dto/reauthenticate-response.dto';
+import { RefreshToken } from './entities/refresh-token.entity';
+import { AccountLockedException } from './exceptions/account-locked.exception';
+import { AuthMethodReference } from './enums/auth-method-reference.enum';
 import { UserRole } from '../users/enums/user-role.enum';
+import { RedisService } from '../redis/redis.service';
+import { EmailService } from '../email/email.service';
+import type {
+  AuthenticatedUser,
+  JwtPayload,
+} from './interfaces/jwt-payload.interface';
+import type { SessionContext } from './interfaces/session.interface';
+import type { LoginRiskAssessment } from './interfaces/login-risk.interface';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/enums/audit-action.enum';
+import type { AuditContext } from '../audit/interfaces/audit.interface';
+import { OrganizationsService } from '../organizations/organizations.service';
+
+// 认证响应中返回的用户字段，密码、令牌、双因素密钥和锁定状态等内部字段都不返回
+const AUTH_USER_FIELDS = [
+  'id',
+  'email',
+  'firstName',
+  'lastName',
+  'role',
+  'permissions',
+  'isActive',
+  'emailVerified',
+  'hasPassword',
+  'avatarUrl',
+  'phoneNumber',
+  'birthday',
+  'gender',
+  'address',
+  'twoFactorEnabled',
+  'lastLoginAt',
+  'createdAt',
+  'updatedAt',
+] as const satisfies readonly (keyof User)[];
 
 /**
  * 认证服务 - 处理所有认证相关的业务逻辑
@@ -27,57 +82,154 @@ import { UserRole } from '../users/enums/user-role.enum';
  */
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
   constructor(
     private readonly usersService: UsersService, // 用户服务
     private readonly tokenService: TokenService, // 令牌服务
     private readonly passwordService: PasswordService, // 密码服务
+    private readonly passwordPolicyService: PasswordPolicyService, // 密码策略服务
     private readonly configService: ConfigService, // 配置服务
-    @InjectRepository(RefreshToken)
-    private readonly refreshTokenRepository: Repository<RefreshToken>, // 刷新令牌仓库
+    private readonly sessionService: SessionService, // 会话服务
+    private readonly tokenRevocationService: TokenRevocationService, // 令牌撤销服务
+    private readonly twoFactorService: TwoFactorService, // 双因素认证服务
+    private readonly magicLinkService: MagicLinkService, // 免密登录链接服务
+    private readonly emailService: EmailService, // 邮件服务
+    private readonly redisService: RedisService, // Redis 服务
+    private readonly auditService: AuditService, // 审计服务
+    private readonly organizationsService: OrganizationsService, // 组织服务
+    private readonly invitationService: InvitationService, // 注册邀请服务
+    private readonly webAuthnService: WebAuthnService, // 通行密钥服务
+    private readonly loginRiskService: LoginRiskService, // 登录风险服务
+    private readonly loginVerificationService: LoginVerificationService, // 登录验证服务
   ) {}
 
   /**
    * 验证用户凭据（用于本地策略）
+   * 连续登录失败达到上限后会临时锁定账户，失败和锁定都会记录审计事件
    * @param email 用户邮箱
    * @param password 用户密码
+   * @param context 客户端信息
    * @returns 验证成功返回用户信息，失败返回 null
+   * @throws AccountLockedException 账户处于锁定状态
    */
-  async validateUser(email: string, password: string): Promise<User | null> {
+  async validateUser(
+    email: string,
+    password: string,
+    context: SessionContext = {},
+  ): Promise<User | null> {
+    const ip = context.ipAddress;
+    const auditContext = this.toAuditContext(context);
+
     // 根据邮箱查找用户
     const user = await this.usersService.findByEmail(email);
     if (!user) {
+      await this.auditService.record(
+        {
+          action: AuditAction.LOGIN_FAILED,
+          metadata: { email, reason: 'unknown_email' },
+        },
+        auditContext,
+      );
       return null; // 用户不存在
     }
 
+    // 锁定期间直接拒绝，不再校验密码
+    if (user.isLocked) {
+      await this.auditService.record(
+        {
+          action: AuditAction.LOGIN_FAILED,
+          targetId: user.id,
+          metadata: { email, reason: 'account_locked' },
+        },
+        auditContext,
+      );
+      throw new AccountLockedException(user.lockedUntil as Date);
+    }
+
     // 验证密码是否正确
     const isPasswordValid = await this.passwordService.comparePassword(
       password,
       user.password,
     );
     if (!isPasswordValid) {
+      // 记录失败次数，达到上限时锁定账户
+      const updatedUser = await this.usersService.recordFailedLogin(
+        user.id,
+        Number(this.configService.get('LOGIN_MAX_FAILED_ATTEMPTS', 5)),
+        Number(this.configService.get('LOGIN_LOCK_DURATION_MINUTES', 30)),
+      );
+      await this.auditService.record(
+        {
+          action: AuditAction.LOGIN_FAILED,
+          targetId: user.id,
+          metadata: { email, reason: 'invalid_password' },
+        },
+        auditContext,
+      );
+      if (updatedUser?.isLocked) {
+        this.logger.warn(`账户因多次登录失败被锁定: ${user.id}, IP: ${ip}`);
+        await this.auditService.record(
+          {
+            action: AuditAction.ACCOUNT_LOCKED,
+            targetId: user.id,
+            metadata: { lockedUntil: updatedUser.lockedUntil },
+          },
+          auditContext,
+        );
+        throw new AccountLockedException(updatedUser.lockedUntil as Date);
+      }
       return null; // 密码错误
     }
 
     // 检查用户账户是否被激活
     if (!user.isActive) {
+      await this.auditService.record(
+        {
+          action: AuditAction.LOGIN_FAILED,
+          targetId: user.id,
+          metadata: { email, reason: 'account_inactive' },
+        },
+        auditContext,
+      );
       throw new UnauthorizedException('账户已被停用');
     }
 
+    // 哈希使用的算法或参数已过时，借助本次登录的明文密码透明升级
+    await this.upgradePasswordHash(user, password);
+
+    // 登录时间和失败次数在完成双因素认证和登录验证、签发令牌时才更新
     return user; // 验证成功，返回用户信息
   }
 
   /**
    * 用户注册
+   * REGISTRATION_INVITE_ONLY=true 时关闭公开注册，只能通过邀请创建账户
    * @param registerDto 注册信息
+   * @param context 客户端信息
    * @returns 包含用户信息和令牌的响应
+   * @throws ForbiddenException 仅限邀请注册
    */
-  async register(registerDto: RegisterDto): Promise<AuthResponseDto> {
+  async register(
+    registerDto: RegisterDto,
+    context: SessionContext = {},
+  ): Promise<AuthResponseDto> {
+    if (this.isInviteOnly()) {
+      throw new ForbiddenException('当前仅支持通过邀请注册');
+    }
+
     // 检查邮箱是否已被注册
     const existingUser = await this.usersService.findByEmail(registerDto.email);
     if (existingUser) {
       throw new ConflictException('该邮箱已被注册');
     }
 
+    // 校验密码是否符合密码策略
+    await this.passwordPolicyService.validate(
+      registerDto.password,
+      registerDto,
+    );
+
     // 加密密码
     const hashedPassword = await this.passwordService.hashPassword(
       registerDto.password,
@@ -89,12 +241,15 @@ export class AuthService {
       password: hashedPassword,
       role: UserRole.USER,
     });
+    await this.passwordPolicyService.recordPassword(user.id, hashedPassword);
 
-    // 生成访问令牌和刷新令牌
-    const tokens = await this.generateTokens(user);
+    // 发送邮箱验证邮件
+    await this.sendVerificationEmail(user);
 
-    // 存储刷新令牌到数据库
-    await this.storeRefreshToken(user.id, tokens.refreshToken);
+    // 创建登录会话并生成令牌
+    const tokens = await this.createSession(user, context, [
+      AuthMethodReference.PASSWORD,
+    ]);
 
     return {
       user: this.sanitizeUser(user), // 移除敏感信息后返回用户数据
@@ -102,52 +257,293 @@ export class AuthService {
     };
   }
 
+  /**
+   * 接受注册邀请 - 设置密码并创建账户
+   * 邮箱、角色和权限以邀请为准；邀请链接发送到受邀邮箱，账户创建后邮箱即为已验证
+   * @param token 邀请令牌
+   * @param acceptInvitationDto 姓名和密码
+   * @param context 客户端信息
+   * @returns 包含用户信息和令牌的响应
+   */
+  async acceptInvitation(
+    token: string,
+    acceptInvitationDto: AcceptInvitationDto,
+    context: SessionContext = {},
+  ): Promise<AuthResponseDto> {
+    const invitation = await this.invitationService.findValidByToken(token);
+    const { password, deviceName, ...profile } = acceptInvitationDto;
+
+    await this.passwordPolicyService.validate(password, {
+      ...profile,
+      email: invitation.email,
+    });
+    const hashedPassword = await this.passwordService.hashPassword(password);
+
+    const user = await this.usersService.createFromInvitation({
+      ...profile,
+      email: invitation.email,
+      password: hashedPassword,
+      role: invitation.role,
+      permissions: invitation.permissions ?? [],
+    });
+    await this.passwordPolicyService.recordPassword(user.id, hashedPassword);
+    await this.invitationService.markAccepted(
+      invitation,
+      user.id,
+      this.toAuditContext(context),
+    );
+
+    await this.emailService.sendWelcomeEmail(user);
+    return this.issueTokens(user, { ...context, deviceName }, [
+      AuthMethodReference.PASSWORD,
+    ]);
+  }
+
   /**
    * 用户登录
+   * 每次登录创建一个新会话，不影响其他设备上的会话
+   * 启用双因素认证的用户返回挑战令牌，需通过 verifyTwoFactorLogin 换取正式令牌（通行密钥登录除外）；
+   * 其他用户登录风险较高且开启了登录验证（LOGIN_STEP_UP_ENABLED=true）时，
+   * 向邮箱发送验证码并返回验证令牌，需通过 verifyLogin 换取正式令牌
    * @param user 已验证的用户信息
+   * @param context 客户端信息
+   * @param method 登录方式
+   * @returns 包含用户信息和令牌的响应，或双因素认证挑战、登录验证挑战
+   */
+  async login(
+    user: User,
+    context: SessionContext = {},
+    method = 'password',
+  ): Promise<
+    AuthResponseDto | TwoFactorChallengeDto | LoginVerificationChallengeDto
+  > {
+    // 通行密钥本身即为多因素认证，不再进行双因素认证挑战
+    if (user.twoFactorEnabled && method !== 'webauthn') {
+      const challenge = await this.twoFactorService.createChallenge(user.id);
+      return { requiresTwoFactor: true, ...challenge };
+    }
+
+    const assessment = await this.loginRiskService.assess(user, context);
+    // 免密登录链接已经证明用户能收到邮件，不再发送邮箱验证码
+    if (assessment.requiresStepUp && method !== 'magic_link') {
+      const challenge = await this.loginVerificationService.createChallenge(
+        user,
+        assessment,
+        method,
+        this.loginRiskService.describeFactors(assessment.factors),
+      );
+      return { requiresVerification: true, ...challenge };
+    }
+
+    await this.recordLogin(user, context, { method, assessment });
+    return this.issueTokens(user, context, this.getAuthMethods(method));
+  }
+
+  /**
+   * 登录验证 - 使用验证令牌和邮件中的验证码换取正式令牌
+   * @param verifyLoginDto 验证令牌和验证码
+   * @param context 客户端信息
    * @returns 包含用户信息和令牌的响应
    */
-  async login(user: User): Promise<AuthResponseDto> {
-    // 生成新的令牌对
-    const tokens = await this.generateTokens(user);
+  async verifyLogin(
+    verifyLoginDto: VerifyLoginDto,
+    context: SessionContext = {},
+  ): Promise<AuthResponseDto> {
+    const { userId, method, assessment } =
+      await this.loginVerificationService.completeChallenge(
+        verifyLoginDto.verificationToken,
+        verifyLoginDto.code,
+      );
 
-    // 存储刷新令牌（会覆盖旧的刷新令牌）
-    await this.storeRefreshToken(user.id, tokens.refreshToken);
+    // 等待验证期间账户可能已被停用或锁定
+    const user = await this.usersService.findById(userId);
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('用户不存在或账户已被停用');
+    }
+    if (user.isLocked) {
+      throw new AccountLockedException(user.lockedUntil as Date);
+    }
 
-    return {
-      user: this.sanitizeUser(user),
-      ...tokens,
-    };
+    await this.recordLogin(user, context, {
+      method,
+      assessment,
+      stepUpVerified: true,
+    });
+    return this.issueTokens(user, context, this.getAuthMethods(method, true));
+  }
+
+  /**
+   * 双因素认证登录 - 使用挑战令牌和口令换取正式令牌
+   * @param verifyTwoFactorDto 挑战令牌和口令
+   * @param context 客户端信息
+   * @returns 包含用户信息和令牌的响应
+   */
+  async verifyTwoFactorLogin(
+    verifyTwoFactorDto: VerifyTwoFactorDto,
+    context: SessionContext = {},
+  ): Promise<AuthResponseDto> {
+    const user = await this.twoFactorService.completeChallenge(
+      verifyTwoFactorDto.challengeToken,
+      verifyTwoFactorDto.code,
+    );
+
+    await this.recordLogin(user, context, {
+      twoFactor: true,
+      method: 'two_factor',
+    });
+    return this.issueTokens(user, context, this.getAuthMethods('two_factor'));
+  }
+
+  /**
+   * 通行密钥登录
+   * 登录时要求认证器验证用户（PIN 或生物识别），通行密钥本身即为多因素认证，不再进行双因素认证挑战；
+   * 与其他登录方式一样进行风险评估，风险较高时返回登录验证挑战
+   * @param authenticationDto 认证器的登录断言
+   * @param context 客户端信息
+   * @returns 包含用户信息和令牌的响应，或登录验证挑战
+   */
+  async verifyPasskeyLogin(
+    authenticationDto: WebAuthnAuthenticationDto,
+    context: SessionContext = {},
+  ): Promise<
+    AuthResponseDto | TwoFactorChallengeDto | LoginVerificationChallengeDto
+  > {
+    const user =
+      await this.webAuthnService.verifyAuthentication(authenticationDto);
+    if (!user.isActive) {
+      throw new UnauthorizedException('账户已被停用');
+    }
+    if (user.isLocked) {
+      throw new AccountLockedException(user.lockedUntil as Date);
+    }
+
+    return this.login(user, context, 'webauthn');
+  }
+
+  /**
+   * 发送免密登录链接
+   * 为了安全，邮箱不存在或账户已停用时同样静默返回，不透露账户是否存在
+   * @param email 用户邮箱
+   */
+  async requestMagicLink(email: string): Promise<void> {
+    const user = await this.usersService.findByEmail(email);
+    if (!user || !user.isActive) {
+      return;
+    }
+
+    const token = await this.magicLinkService.createToken(user.id);
+    if (!token) {
+      return; // 冷却期内不重复发送
+    }
+
+    await this.emailService.sendMagicLinkEmail(
+      user,
+      token,
+      this.magicLinkService.expiresInMinutes,
+    );
+  }
+
+  /**
+   * 使用免密登录链接登录
+   * 能打开邮件中的链接说明用户拥有该邮箱，未验证的邮箱同时标记为已验证
+   * @param token 登录令牌
+   * @param context 客户端信息
+   * @returns 令牌对；已启用双因素认证时返回挑战令牌
+   */
+  async verifyMagicLink(
+    token: string,
+    context: SessionContext = {},
+  ): Promise<
+    AuthResponseDto | TwoFactorChallengeDto | LoginVerificationChallengeDto
+  > {
+    const userId = await this.magicLinkService.consumeToken(token);
+    if (!userId) {
+      throw new UnauthorizedException('登录链接无效或已过期');
+    }
+
+    const user = await this.usersService.findById(userId);
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('用户不存在或账户已被停用');
+    }
+    if (user.isLocked) {
+      throw new AccountLockedException(user.lockedUntil as Date);
+    }
+
+    if (!user.emailVerified) {
+      await this.usersService.verifyEmail(user.id);
+      user.emailVerified = true;
+    }
+
+    return this.login(user, context, 'magic_link');
+  }
+
+  /**
+   * 获取密码策略
+   */
+  getPasswordPolicy(): PasswordPolicyDto {
+    return this.passwordPolicyService.getPolicy();
   }
 
   /**
    * 刷新访问令牌
    * @param userId 用户ID
    * @param refreshToken 刷新令牌
+   * @param context 客户端信息
    * @returns 新的令牌对
    */
   async refreshTokens(
     userId: string,
     refreshToken: string,
+    context: SessionContext = {},
   ): Promise<AuthResponseDto> {
-    // 从数据库中查找刷新令牌
-    const storedToken = await this.refreshTokenRepository.findOne({
-      where: { userId, token: refreshToken },
-      relations: ['user'], // 关联查询用户信息
-    });
+    // 从令牌载荷中取出会话ID（签名已由刷新令牌策略校验）
+    const payload = (await this.tokenService.decodeToken(
+      refreshToken,
+    )) as JwtPayload | null;
+    if (!payload?.sid) {
+      throw new UnauthorizedException('刷新令牌无效或已过期');
+    }
+
+    const session = await this.sessionService.findSession(userId, payload.sid);
 
-    // 验证刷新令牌是否存在且未过期
-    if (!storedToken || storedToken.expiresAt < new Date()) {
+    // 验证会话是否存在且未过期
+    if (!session || session.expiresAt < new Date()) {
       throw new UnauthorizedException('刷新令牌无效或已过期');
     }
 
-    const user = storedToken.user;
-    // 生成新的令牌对
-    const tokens = await this.generateTokens(user);
+    // 签名有效但不是会话当前令牌，说明是已被轮换的旧令牌被再次使用
+    if (!this.sessionService.isCurrentToken(session, refreshToken)) {
+      await this.handleRefreshTokenReuse(session, context);
+    }
 
-    // 删除旧的刷新令牌，存储新的刷新令牌（令牌轮换机制）
-    await this.refreshTokenRepository.remove(storedToken);
-    await this.storeRefreshToken(user.id, tokens.refreshToken);
+    const user = session.user;
+    // 会话所在的组织已不再有效时，新令牌回到全局身份
+    const organizationId =
+      session.organizationId &&
+      (await this.organizationsService.findActiveMembership(
+        user.id,
+        session.organizationId,
+      ))
+        ? session.organizationId
+        : null;
+    // 生成新的令牌对，会话ID和认证时间保持不变
+    const tokens = await this.generateTokens(
+      user,
+      session.id,
+      organizationId,
+      this.getSessionAuthentication(session),
+    );
+
+    // 替换会话中的刷新令牌（令牌轮换机制），并发请求中已被其他请求轮换时按重用处理
+    const rotated = await this.sessionService.rotateToken(
+      session,
+      refreshToken,
+      tokens.refreshToken,
+      context,
+    );
+    if (!rotated) {
+      await this.handleRefreshTokenReuse(session, context);
+    }
 
     return {
       user: this.sanitizeUser(user),
@@ -156,12 +552,253 @@ export class AuthService {
   }
 
   /**
-   * 用户登出
+   * 切换当前会话所在的组织
+   * 重新签发带 org 声明的令牌对，之后刷新令牌时保持该组织；当前访问令牌立即撤销
+   * @param user 当前登录用户
+   * @param organizationId 目标组织ID，null 表示退出组织
+   * @returns 新的令牌对
+   * @throws ForbiddenException 不是目标组织的正式成员
+   */
+  async switchOrganization(
+    user: AuthenticatedUser,
+    organizationId: string | null,
+  ): Promise<AuthResponseDto> {
+    // API Key 和模拟登录令牌没有会话
+    if (!user.sessionId) {
+      throw new BadRequestException('当前登录方式不支持切换组织');
+    }
+    const session = await this.sessionService.findSession(
+      user.id,
+      user.sessionId,
+    );
+    if (!session || session.expiresAt < new Date()) {
+      throw new UnauthorizedException('会话已失效，请重新登录');
+    }
+
+    if (
+      organizationId &&
+      !(await this.organizationsService.findActiveMembership(
+        user.id,
+        organizationId,
+      ))
+    ) {
+      throw new ForbiddenException('不是该组织的成员');
+    }
+
+    const tokens = await this.generateTokens(
+      session.user,
+      session.id,
+      organizationId,
+      this.getSessionAuthentication(session),
+    );
+    await this.sessionService.switchOrganization(
+      session.id,
+      tokens.refreshToken,
+      organizationId,
+    );
+    if (user.tokenId && user.tokenExpiresAt) {
+      await this.tokenRevocationService.revoke(
+        user.tokenId,
+        user.tokenExpiresAt,
+      );
+    }
+
+    return {
+      user: this.sanitizeUser(session.user),
+      ...tokens,
+    };
+  }
+
+  /**
+   * 重新验证身份 - 使用密码或双因素口令证明当前操作者仍是账户本人
+   * 签发认证时间为当前时间的短期访问令牌（REAUTH_TOKEN_EXPIRES_IN，默认5分钟），
+   * 用于调用要求最近认证的敏感接口；刷新令牌不变，刷新后认证时间回到登录时间
+   * @param user 当前登录用户
+   * @param reauthenticateDto 密码或验证码
+   * @param context 客户端信息
+   * @returns 新的访问令牌
+   * @throws AccountLockedException 账户处于锁定状态
+   */
+  async reauthenticate(
+    user: AuthenticatedUser,
+    reauthenticateDto: ReauthenticateDto,
+    context: SessionContext = {},
+  ): Promise<ReauthenticateResponseDto> {
+    const { password, code } = reauthenticateDto;
+    if (!password === !code) {
+      throw new BadRequestException('请提供密码或验证码');
+    }
+    // API Key 和模拟登录令牌没有会话
+    if (!user.sessionId) {
+      throw new BadRequestException('当前登录方式不支持重新验证身份');
+    }
+    const session = await this.sessionService.findSession(
+      user.id,
+      user.sessionId,
+    );
+    if (!session || session.expiresAt < new Date()) {
+      throw new UnauthorizedException('会话已失效，请重新登录');
+    }
+
+    const account = session.user;
+    if (account.isLocked) {
+      throw new AccountLockedException(account.lockedUntil as Date);
+    }
+
+    let verified: boolean;
+    let amr: AuthMethodReference[];
+    if (password) {
+      if (!account.hasPassword) {
+        throw new BadRequestException('账户未设置密码，请使用验证码');
+      }
+      verified = await this.passwordService.comparePassword(
+        password,
+        account.password,
+      );
+      amr = [AuthMethodReference.PASSWORD];
+    } else {
+      if (!account.twoFactorEnabled) {
+        throw new BadRequestException('未启用双因素认证，请使用密码');
+      }
+      verified = await this.twoFactorService.verifyCode(
+        account,
+        code as string,
+      );
+      amr = [AuthMethodReference.OTP];
+    }
+
+    const auditContext = { ...this.toAuditContext(context), actorId: user.id };
+    if (!verified) {
+      // 与登录共用失败次数，避免借助重新验证接口无限猜测密码
+      const updatedUser = await this.usersService.recordFailedLogin(
+        account.id,
+        Number(this.configService.get('LOGIN_MAX_FAILED_ATTEMPTS', 5)),
+        Number(this.configService.get('LOGIN_LOCK_DURATION_MINUTES', 30)),
+      );
+      await this.auditService.record(
+        {
+          action: AuditAction.LOGIN_FAILED,
+          targetId: account.id,
+          metadata: { reason: 'reauthentication_failed', methods: amr },
+        },
+        auditContext,
+      );
+      if (updatedUser?.isLocked) {
+        throw new AccountLockedException(updatedUser.lockedUntil as Date);
+      }
+      throw new BadRequestException(password ? '密码不正确' : '验证码不正确');
+    }
+
+    const authTime = Math.floor(Date.now() / 1000);
+    const expiresIn = this.configService.get<string>(
+      'REAUTH_TOKEN_EXPIRES_IN',
+      '5m',
+    );
+    const accessToken = await this.tokenService.generateAccessToken(
+      {
+        ...this.buildPayload(
+          account,
+          session.id,
+          session.organizationId ?? null,
+          {
+            authTime,
+            amr,
+          },
+        ),
+        jti: randomUUID(),
+      },
+      expiresIn,
+    );
+    await this.auditService.record(
+      {
+        action: AuditAction.REAUTHENTICATED,
+        targetId: account.id,
+        metadata: { methods: amr },
+      },
+      auditContext,
+    );
+
+    return { accessToken, expiresIn, authTime };
+  }
+
+  /**
+   * 用户登出 - 只注销当前会话，其他设备保持登录
+   * 当前访问令牌同时加入黑名单，登出后立即失效
+   * @param user 当前登录用户
+   */
+  async logout(user: AuthenticatedUser): Promise<void> {
+    const { id: userId, sessionId, tokenId, tokenExpiresAt } = user;
+
+    if (tokenId && tokenExpiresAt) {
+      await this.tokenRevocationService.revoke(tokenId, tokenExpiresAt);
+    }
+
+    // 模拟登录令牌没有会话，只撤销令牌本身，不能影响被模拟用户的登录状态
+    if (user.impersonator) {
+      return;
+    }
+
+    if (!sessionId) {
+      // 旧版令牌不包含会话ID，无法定位当前会话，注销所有会话
+      await this.sessionService.revokeAllSessions(userId);
+      return;
+    }
+
+    try {
+      await this.sessionService.revokeSession(userId, sessionId);
+    } catch (error) {
+      // 会话已在其他设备上被注销，视为登出成功
+      if (!(error instanceof NotFoundException)) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * 获取用户的登录会话列表
+   * @param userId 用户ID
+   * @param currentSessionId 当前会话ID，用于标记当前设备
+   */
+  async getSessions(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<SessionResponseDto[]> {
+    const sessions = await this.sessionService.listSessions(userId);
+    return sessions.map((session) => ({
+      id: session.id,
+      deviceName: session.deviceName,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      expiresAt: session.expiresAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * 注销指定会话
+   * @param userId 用户ID
+   * @param sessionId 会话ID
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    await this.sessionService.revokeSession(userId, sessionId);
+  }
+
+  /**
+   * 注销除当前会话外的所有会话（在其他设备上退出登录）
    * @param userId 用户ID
+   * @param currentSessionId 当前会话ID
+   * @returns 注销的会话数量
    */
-  async logout(userId: string): Promise<void> {
-    // 删除用户的所有刷新令牌，使其无法再刷新访问令牌
-    await this.refreshTokenRepository.delete({ userId });
+  async revokeOtherSessions(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<number> {
+    if (!currentSessionId) {
+      throw new BadRequestException('当前令牌不包含会话信息，请重新登录');
+    }
+    return this.sessionService.revokeOtherSessions(userId, currentSessionId);
   }
 
   /**
@@ -172,6 +809,7 @@ export class AuthService {
   async changePassword(
     userId: string,
     changePasswordDto: ChangePasswordDto,
+    context: AuditContext = {},
   ): Promise<void> {
     // 查找用户
     const user = await this.usersService.findById(userId);
@@ -189,21 +827,39 @@ export class AuthService {
       throw new BadRequestException('当前密码不正确');
     }
 
+    // 校验新密码是否符合密码策略（包括不能重复使用最近的密码）
+    await this.passwordPolicyService.validate(
+      changePasswordDto.newPassword,
+      user,
+    );
+
     // 加密新密码并更新
     const hashedNewPassword = await this.passwordService.hashPassword(
       changePasswordDto.newPassword,
     );
     await this.usersService.updatePassword(userId, hashedNewPassword);
+    await this.passwordPolicyService.recordPassword(userId, hashedNewPassword);
+    await this.auditService.record(
+      { action: AuditAction.PASSWORD_CHANGED, targetId: userId },
+      context,
+    );
+
+    // 密码修改后，注销所有会话，强制用户重新登录
+    await this.sessionService.revokeAllSessions(userId);
 
-    // 密码修改后，删除所有刷新令牌，强制用户重新登录
-    await this.refreshTokenRepository.delete({ userId });
+    // 通知用户密码已修改
+    await this.emailService.sendPasswordChangedEmail(user);
   }
 
   /**
    * 忘记密码 - 发送重置邮件
    * @param email 用户邮箱
+   * @param context 操作者和客户端信息
    */
-  async forgotPassword(email: string): Promise<void> {
+  async forgotPassword(
+    email: string,
+    context: AuditContext = {},
+  ): Promise<void> {
     const user = await this.usersService.findByEmail(email);
     if (!user) {
       // 为了安全，不透露邮箱是否存在，直接返回
@@ -212,8 +868,11 @@ export class AuthService {
 
     // 生成32字节的随机重置令牌
     const resetToken = randomBytes(32).toString('hex');
-    // 设置重置令牌1小时后过期
-    const resetTokenExpiry = new Date(Date.now() + 3600000); // 1 hour
+    // 重置令牌有效期，默认60分钟
+    const expiresInMinutes = Number(
+      this.configService.get('PASSWORD_RESET_EXPIRES_MINUTES', 60),
+    );
+    const resetTokenExpiry = new Date(Date.now() + expiresInMinutes * 60000);
 
     // 保存重置令牌到用户记录
     await this.usersService.updateResetToken(
@@ -221,17 +880,28 @@ export class AuthService {
       resetToken,
       resetTokenExpiry,
     );
+    await this.auditService.record(
+      { action: AuditAction.PASSWORD_RESET_REQUESTED, targetId: user.id },
+      context,
+    );
 
-    // TODO: 发送重置密码邮件
-    // await this.emailService.sendPasswordResetEmail(user.email, resetToken);
-    console.log(`密码重置令牌: ${resetToken}`); // 开发环境下打印令牌
+    // 发送重置密码邮件
+    await this.emailService.sendPasswordResetEmail(
+      user,
+      resetToken,
+      expiresInMinutes,
+    );
   }
 
   /**
    * 重置密码
    * @param resetPasswordDto 重置密码信息
+   * @param context 操作者和客户端信息
    */
-  async resetPassword(resetPasswordDto: ResetPasswordDto): Promise<void> {
+  async resetPassword(
+    resetPasswordDto: ResetPasswordDto,
+    context: AuditContext = {},
+  ): Promise<void> {
     // 根据重置令牌查找用户
     const user = await this.usersService.findByResetToken(
       resetPasswordDto.token,
@@ -240,37 +910,224 @@ export class AuthService {
       throw new BadRequestException('重置令牌无效或已过期');
     }
 
+    // 校验新密码是否符合密码策略
+    await this.passwordPolicyService.validate(
+      resetPasswordDto.newPassword,
+      user,
+    );
+
     // 加密新密码并更新
     const hashedPassword = await this.passwordService.hashPassword(
       resetPasswordDto.newPassword,
     );
     await this.usersService.updatePassword(user.id, hashedPassword);
+    await this.passwordPolicyService.recordPassword(user.id, hashedPassword);
 
     // 清除重置令牌
     await this.usersService.clearResetToken(user.id);
+    await this.auditService.record(
+      { action: AuditAction.PASSWORD_RESET_COMPLETED, targetId: user.id },
+      context,
+    );
+
+    // 密码重置后，注销所有会话，强制用户重新登录
+    await this.sessionService.revokeAllSessions(user.id);
+
+    // 通知用户密码已修改
+    await this.emailService.sendPasswordChangedEmail(user);
+  }
+
+  /**
+   * 验证邮箱
+   * @param token 邮箱验证令牌
+   */
+  async verifyEmail(token: string): Promise<void> {
+    // 根据验证令牌查找用户
+    const user = await this.usersService.findByEmailVerificationToken(token);
+    if (
+      !user ||
+      !user.emailVerificationExpiry ||
+      user.emailVerificationExpiry < new Date()
+    ) {
+      throw new BadRequestException('验证令牌无效或已过期');
+    }
+
+    // 标记邮箱已验证并清除验证令牌
+    await this.usersService.verifyEmail(user.id);
+
+    // 验证完成后发送欢迎邮件
+    await this.emailService.sendWelcomeEmail(user);
+  }
+
+  /**
+   * 重新发送验证邮件
+   * @param email 用户邮箱
+   */
+  async resendVerificationEmail(email: string): Promise<void> {
+    const user = await this.usersService.findByEmail(email);
+    if (!user || user.emailVerified) {
+      // 为了安全，不透露邮箱是否存在或是否已验证，直接返回
+      return;
+    }
+
+    // 冷却时间内不重复发送，防止邮件轰炸
+    const cooldownKey = this.getVerificationCooldownKey(user.id);
+    if (await this.redisService.get(cooldownKey)) {
+      this.logger.warn(`验证邮件发送过于频繁: ${user.id}`);
+      return;
+    }
+
+    await this.sendVerificationEmail(user);
+  }
+
+  /**
+   * 是否关闭公开注册，第三方登录也不再自动创建账户（REGISTRATION_INVITE_ONLY=true）
+   */
+  isInviteOnly(): boolean {
+    return this.configService.get('REGISTRATION_INVITE_ONLY') === 'true';
+  }
+
+  /**
+   * 生成邮箱验证令牌并通过邮件队列发送验证邮件
+   * @param user 用户信息
+   */
+  private async sendVerificationEmail(user: User): Promise<void> {
+    // 生成32字节的随机验证令牌
+    const token = randomBytes(32).toString('hex');
+    // 验证令牌有效期，默认24小时
+    const expiresInHours = Number(
+      this.configService.get('EMAIL_VERIFICATION_EXPIRES_HOURS', 24),
+    );
+    const expiry = new Date(Date.now() + expiresInHours * 3600000);
+
+    // 保存验证令牌到用户记录（会覆盖之前的令牌）
+    await this.usersService.setEmailVerificationToken(user.id, token, expiry);
+
+    // 记录发送时间，用于限制重发频率
+    await this.redisService.set(
+      this.getVerificationCooldownKey(user.id),
+      Date.now(),
+      Number(this.configService.get('EMAIL_VERIFICATION_RESEND_COOLDOWN', 60)),
+    );
+
+    // 邮件入队失败不影响主流程，用户可以重新发送
+    await this.emailService.sendVerificationEmail(user, token, expiresInHours);
+  }
+
+  /**
+   * 获取验证邮件重发冷却键
+   * @param userId 用户ID
+   */
+  private getVerificationCooldownKey(userId: string): string {
+    return `auth:email-verification:cooldown:${userId}`;
+  }
+
+  /**
+   * 按当前配置重新加密密码哈希
+   * 升级失败不影响本次登录，下次登录时会再次尝试
+   * @param user 用户
+   * @param password 已验证的明文密码
+   */
+  private async upgradePasswordHash(user: User, password: string) {
+    if (!this.passwordService.needsRehash(user.password)) {
+      return;
+    }
+    try {
+      const hashedPassword = await this.passwordService.hashPassword(password);
+      await this.usersService.updatePasswordHash(user.id, hashedPassword);
+      user.password = hashedPassword;
+    } catch (error) {
+      this.logger.warn(
+        `密码哈希升级失败: ${user.id}`,
+        (error as Error).message,
+      );
+    }
+  }
 
-    // 密码重置后，删除所有刷新令牌，强制用户重新登录
-    await this.refreshTokenRepository.delete({ userId: user.id });
+  /**
+   * 记录登录时间、登录历史和登录成功事件，风险较高时发送登录提醒
+   * 只在签发令牌前调用，返回双因素认证或登录验证挑战时登录尚未成功
+   * @param options.twoFactor 是否经过双因素认证
+   * @param options.method 登录方式，默认为 password
+   * @param options.assessment 风险评估结果，未提供时在此评估
+   * @param options.stepUpVerified 是否经过邮箱验证码确认
+   */
+  private async recordLogin(
+    user: User,
+    context: SessionContext,
+    options: {
+      twoFactor?: boolean;
+      method?: string;
+      assessment?: LoginRiskAssessment;
+      stepUpVerified?: boolean;
+    } = {},
+  ) {
+    const { twoFactor = false, method = 'password', stepUpVerified } = options;
+    const assessment =
+      options.assessment ?? (await this.loginRiskService.assess(user, context));
+
+    // 记录登录时间和IP，并重置失败次数
+    await this.usersService.recordSuccessfulLogin(user.id, context.ipAddress);
+    await this.loginRiskService.record(
+      user,
+      assessment,
+      method,
+      stepUpVerified,
+    );
+    await this.auditService.record(
+      {
+        action: AuditAction.LOGIN_SUCCEEDED,
+        targetId: user.id,
+        metadata: {
+          twoFactor,
+          method,
+          ...(assessment.factors.length > 0 && {
+            riskScore: assessment.score,
+            riskFactors: assessment.factors,
+          }),
+          ...(stepUpVerified && { stepUpVerified }),
+        },
+      },
+      { ...this.toAuditContext(context), actorId: user.id },
+    );
+  }
+
+  /**
+   * 将会话客户端信息转换为审计上下文
+   */
+  private toAuditContext(context: SessionContext): AuditContext {
+    return {
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+      requestId: context.requestId,
+    };
   }
 
   /**
    * 生成访问令牌和刷新令牌
    * @param user 用户信息
+   * @param sessionId 会话ID
+   * @param organizationId 会话所在的组织ID
+   * @param authentication 认证时间（秒级时间戳）和认证方式
    * @returns 令牌对象
    */
-  private async generateTokens(user: User) {
-    // JWT 载荷信息
-    const payload = {
-      sub: user.id, // 用户ID
-      email: user.email, // 用户邮箱
-      role: user.role, // 用户角色
-      permissions: user.permissions || [], // 用户权限列表
-    };
+  private async generateTokens(
+    user: User,
+    sessionId: string,
+    organizationId: string | null,
+    authentication: { authTime: number; amr: string[] },
+  ) {
+    const payload = this.buildPayload(
+      user,
+      sessionId,
+      organizationId,
+      authentication,
+    );
 
-    // 并行生成访问令牌和刷新令牌
+    // 并行生成访问令牌和刷新令牌，各自带有唯一的 jti
     const [accessToken, refreshToken] = await Promise.all([
-      this.tokenService.generateAccessToken(payload),
-      this.tokenService.generateRefreshToken(payload),
+      this.tokenService.generateAccessToken({ ...payload, jti: randomUUID() }),
+      this.tokenService.generateRefreshToken({ ...payload, jti: randomUUID() }),
     ]);
 
     return {
@@ -281,37 +1138,162 @@ export class AuthService {
   }
 
   /**
-   * 存储刷新令牌到数据库
-   * @param userId 用户ID
-   * @param token 刷新令牌
+   * 组装 JWT 载荷
+   * @param user 用户信息
+   * @param sessionId 会话ID
+   * @param organizationId 会话所在的组织ID
+   * @param authentication 认证时间（秒级时间戳）和认证方式
    */
-  private async storeRefreshToken(
-    userId: string,
-    token: string,
-  ): Promise<void> {
-    // 设置刷新令牌7天后过期
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 7); // 7 days
+  private buildPayload(
+    user: User,
+    sessionId: string,
+    organizationId: string | null,
+    authentication: { authTime: number; amr: string[] },
+  ): JwtPayload {
+    return {
+      sub: user.id, // 用户ID
+      email: user.email, // 用户邮箱
+      role: user.role, // 用户角色
+      permissions: user.permissions || [], // 用户权限列表
+      sid: sessionId, // 会话ID
+      ...(organizationId && { org: organizationId }), // 所在组织
+      auth_time: authentication.authTime, // 认证时间
+      amr: authentication.amr, // 认证方式
+    };
+  }
 
-    // 创建刷新令牌记录
-    const refreshTokenRecord = this.refreshTokenRepository.create({
-      userId,
-      token,
-      expiresAt,
+  /**
+   * 登录方式对应的认证方式（amr）
+   * @param method 登录方式
+   * @param stepUpVerified 是否经过邮箱验证码确认
+   */
+  private getAuthMethods(method: string, stepUpVerified = false): string[] {
+    const amr: Record<string, AuthMethodReference[]> = {
+      password: [AuthMethodReference.PASSWORD],
+      magic_link: [AuthMethodReference.EMAIL],
+      oauth: [AuthMethodReference.FEDERATED],
+      webauthn: [AuthMethodReference.HARDWARE_KEY, AuthMethodReference.MFA],
+      two_factor: [AuthMethodReference.OTP, AuthMethodReference.MFA], // 挑战令牌不区分第一步的登录方式
+    };
+    const methods = amr[method] ?? [];
+    return stepUpVerified
+      ? [
+          ...new Set([
+            ...methods,
+            AuthMethodReference.OTP,
+            AuthMethodReference.MFA,
+          ]),
+        ]
+      : methods;
+  }
+
+  /**
+   * 会话的认证时间和认证方式
+   * 刷新令牌和切换组织不是重新认证，认证时间始终为会话创建（登录）时间
+   */
+  private getSessionAuthentication(session: RefreshToken) {
+    return {
+      authTime: Math.floor(session.createdAt.getTime() / 1000),
+      amr: session.amr ?? [],
+    };
+  }
+
+  /**
+   * 创建登录会话并组装登录响应
+   * @param user 用户信息
+   * @param context 客户端信息
+   * @param amr 登录时使用的认证方式
+   */
+  private async issueTokens(
+    user: User,
+    context: SessionContext,
+    amr: string[],
+  ): Promise<AuthResponseDto> {
+    // 创建登录会话并生成令牌
+    const tokens = await this.createSession(user, context, amr);
+
+    return {
+      user: this.sanitizeUser(user),
+      ...tokens,
+    };
+  }
+
+  /**
+   * 创建登录会话
+   * 预先生成会话ID写入令牌载荷，再保存刷新令牌记录
+   * @param user 用户信息
+   * @param context 客户端信息
+   * @param amr 登录时使用的认证方式
+   * @returns 令牌对象
+   */
+  private async createSession(
+    user: User,
+    context: SessionContext,
+    amr: string[],
+  ) {
+    const sessionId = randomUUID();
+    const tokens = await this.generateTokens(user, sessionId, null, {
+      authTime: Math.floor(Date.now() / 1000),
+      amr,
     });
 
-    // 保存到数据库
-    await this.refreshTokenRepository.save(refreshTokenRecord);
+    await this.sessionService.createSession(
+      sessionId,
+      user.id,
+      tokens.refreshToken,
+      context,
+      amr,
+    );
+
+    return tokens;
+  }
+
+  /**
+   * 处理刷新令牌重用
+   * 旧令牌可能已泄露，注销整个令牌家族（会话），持有新令牌的一方也需要重新登录
+   * @param session 被重用令牌所属的会话
+   * @param context 客户端信息
+   * @throws UnauthorizedException 始终抛出
+   */
+  private async handleRefreshTokenReuse(
+    session: RefreshToken,
+    context: SessionContext,
+  ): Promise<never> {
+    try {
+      await this.sessionService.revokeSession(session.userId, session.id);
+    } catch (error) {
+      // 会话可能已被并发请求注销
+      if (!(error instanceof NotFoundException)) {
+        throw error;
+      }
+    }
+
+    this.logger.warn(
+      `[安全事件] 检测到刷新令牌重用，已注销会话: userId=${session.userId}, sessionId=${session.id}, IP=${context.ipAddress}, UA=${context.userAgent}`,
+    );
+    await this.auditService.record(
+      {
+        action: AuditAction.REFRESH_TOKEN_REUSED,
+        targetId: session.userId,
+        metadata: { sessionId: session.id },
+      },
+      this.toAuditContext(context),
+    );
+
+    throw new UnauthorizedException('刷新令牌已失效，请重新登录');
   }
 
   /**
    * 清理用户敏感信息
+   * 按允许列表挑选字段，实体新增的内部字段不会被意外返回
    * @param user 用户对象
    * @returns 清理后的用户信息
    */
-  private sanitizeUser(user: User) {
-    // 移除密码、重置令牌等敏感信息
-    const { password, resetToken, resetTokenExpiry, ...sanitizedUser } = user;
-    return sanitizedUser;
+  private sanitizeUser(
+    user: User,
+  ): Pick<User, (typeof AUTH_USER_FIELDS)[number]> {
+    return Object.fromEntries(
+      AUTH_USER_FIELDS.map((field) => [field, user[field]]),
+    ) as Pick<User, (typeof AUTH_USER_FIELDS)[number]>;
   }
 }
@@ -0,0 +1,21 @@
+import { SetMetadata } from '@nestjs/common';
+import type { PolicyHandler } from '../../rbac/interfaces/ability.interface';
+
+// 策略元数据键
+export const CHECK_POLICIES_KEY = 'check_policies';
+
+/**
+ * 策略装饰器
+ * 用于标记访问路由需要满足的策略，所有策略都通过才允许访问；
+ * 与具体记录相关的条件需要在加载记录后使用 @CurrentAbility() 注入的访问能力再次判断
+ *
+ * 使用示例：
+ * @UseGuards(PoliciesGuard)
+ * @CheckPolicies((ability) => ability.can(Action.UPDATE, 'User'))
+ * @Patch(':id')
+ * update(@Param('id') id: string, @CurrentAbility() ability: Ability) {
+ *   return this.usersService.update(id, dto, ability);
+ * }
+ */
+export const CheckPolicies = (...handlers: PolicyHandler[]) =>
+  SetMetadata(CHECK_POLICIES_KEY, handlers);
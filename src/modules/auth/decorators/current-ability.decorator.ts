@@ -0,0 +1,11 @@
+import { createParamDecorator, type ExecutionContext } from '@nestjs/common';
+import type { Ability } from '../../rbac/ability/ability';
+
+/**
+ * 当前访问能力装饰器
+ * 提取 PoliciesGuard 生成的访问能力，路由上必须使用 PoliciesGuard
+ */
+export const CurrentAbility = createParamDecorator(
+  (_data: unknown, ctx: ExecutionContext): Ability | undefined =>
+    ctx.switchToHttp().getRequest<{ ability?: Ability }>().ability,
+);
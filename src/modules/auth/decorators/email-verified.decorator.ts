@@ -0,0 +1,19 @@
+import { SetMetadata } from '@nestjs/common';
+
+// 邮箱验证要求元数据键
+export const REQUIRE_EMAIL_VERIFIED_KEY = 'requireEmailVerified';
+
+/**
+ * 邮箱已验证装饰器
+ * 用于标记只有邮箱已验证的用户才能访问的路由，需配合 EmailVerifiedGuard 使用
+ *
+ * 使用示例：
+ * @UseGuards(JwtAuthGuard, EmailVerifiedGuard)
+ * @RequireEmailVerified()
+ * @Post('orders')
+ * createOrder() {
+ *   return { message: '只有邮箱已验证的用户可以下单' }
+ * }
+ */
+export const RequireEmailVerified = () =>
+  SetMetadata(REQUIRE_EMAIL_VERIFIED_KEY, true);
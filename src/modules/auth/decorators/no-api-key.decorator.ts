@@ -0,0 +1,17 @@
+import { SetMetadata } from '@nestjs/common';
+
+// 禁止 API Key 访问标识键
+export const NO_API_KEY_KEY = 'noApiKey';
+
+/**
+ * 禁止 API Key 访问装饰器
+ * 用于标记只允许用户本人（访问令牌）调用的路由，如修改密码、管理 API Key
+ *
+ * 使用示例：
+ * @NoApiKey()
+ * @Post('change-password')
+ * changePassword() {
+ *   return { message: '只能由用户本人操作' }
+ * }
+ */
+export const NoApiKey = () => SetMetadata(NO_API_KEY_KEY, true);
@@ -0,0 +1,17 @@
+import { SetMetadata } from '@nestjs/common';
+
+// 禁止模拟登录访问标识键
+export const NO_IMPERSONATION_KEY = 'noImpersonation';
+
+/**
+ * 禁止模拟登录访问装饰器
+ * 用于标记模拟登录期间不允许执行的敏感操作，如修改密码、变更角色
+ *
+ * 使用示例：
+ * @NoImpersonation()
+ * @Post('change-password')
+ * changePassword() {
+ *   return { message: '只能由用户本人操作' }
+ * }
+ */
+export const NoImpersonation = () => SetMetadata(NO_IMPERSONATION_KEY, true);
@@ -0,0 +1,20 @@
+import { SetMetadata } from '@nestjs/common';
+
+// 平台级接口标识键
+export const PLATFORM_ONLY_KEY = 'platformOnly';
+
+/**
+ * 平台级接口装饰器
+ * 标记影响整个平台的接口（如审计记录、注册邀请、账户管理），RolesGuard 只按用户的全局角色判断，
+ * 组织成员角色（包括组织创建者的管理员角色）不能满足这些接口的 @Roles
+ *
+ * 使用示例：
+ * @UseGuards(JwtAuthGuard, RolesGuard)
+ * @Roles(UserRole.ADMIN)
+ * @PlatformOnly()
+ * @Get('audit-events')
+ * findAuditEvents() {
+ *   return { message: '只有平台管理员可以访问' }
+ * }
+ */
+export const PlatformOnly = () => SetMetadata(PLATFORM_ONLY_KEY, true);
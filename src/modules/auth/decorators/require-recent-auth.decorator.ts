@@ -0,0 +1,21 @@
+import { SetMetadata } from '@nestjs/common';
+
+// 认证时效元数据键
+export const REQUIRE_RECENT_AUTH_KEY = 'requireRecentAuth';
+
+/**
+ * 认证时效装饰器
+ * 用于标记要求最近完成过认证的敏感操作，需配合 RecentAuthGuard 使用
+ *
+ * 使用示例：
+ * @UseGuards(JwtAuthGuard, RecentAuthGuard)
+ * @RequireRecentAuth(300)
+ * @Post('change-password')
+ * changePassword() {
+ *   return { message: '5分钟内登录或重新验证过身份才能访问' }
+ * }
+ *
+ * @param maxAgeSeconds 距离上次认证的最长时间（秒），默认5分钟
+ */
+export const RequireRecentAuth = (maxAgeSeconds = 300) =>
+  SetMetadata(REQUIRE_RECENT_AUTH_KEY, maxAgeSeconds);
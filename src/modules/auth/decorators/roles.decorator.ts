@@ -6,7 +6,8 @@ export const ROLES_KEY = 'roles';
 
 /**
  * 角色装饰器
- * 用于标记访问路由所需的用户角色
+ * 用于标记访问路由所需的用户角色（满足其一即可）
+ * 除 UserRole 内置角色外，也可以使用数据库中自定义的角色标识
  *
  * 使用示例：
  * @Roles(UserRole.ADMIN, UserRole.MODERATOR)
@@ -15,4 +16,5 @@ export const ROLES_KEY = 'roles';
  *   return { message: '只有管理员可以访问' }
  * }
  */
-export const Roles = (...roles: UserRole[]) => SetMetadata(ROLES_KEY, roles);
+export const Roles = (...roles: Array<UserRole | string>) =>
+  SetMetadata(ROLES_KEY, roles);
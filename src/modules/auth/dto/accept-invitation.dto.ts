@@ -0,0 +1,38 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 接受注册邀请数据传输对象
+ * 邮箱、角色和权限以邀请为准，受邀者只需填写姓名并设置密码
+ */
+export class AcceptInvitationDto {
+  @ApiProperty({ example: '张三', description: '用户名字' })
+  @IsNotEmpty({ message: '名字不能为空' })
+  @IsString({ message: '名字必须是字符串' })
+  @MaxLength(50, { message: '名字长度不能超过50个字符' })
+  firstName: string;
+
+  @ApiProperty({ example: '李', description: '用户姓氏' })
+  @IsNotEmpty({ message: '姓氏不能为空' })
+  @IsString({ message: '姓氏必须是字符串' })
+  @MaxLength(50, { message: '姓氏长度不能超过50个字符' })
+  lastName: string;
+
+  @ApiProperty({
+    example: 'SecurePass123!',
+    description: '密码，须符合密码策略（见 GET /auth/password-policy）',
+  })
+  @IsNotEmpty({ message: '密码不能为空' })
+  @IsString({ message: '密码必须是字符串' })
+  password: string;
+
+  @ApiProperty({
+    example: 'My MacBook',
+    description: '设备名称，不提供时根据 User-Agent 推断',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  deviceName?: string;
+}
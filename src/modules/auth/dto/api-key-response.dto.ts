@@ -0,0 +1,38 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * API Key 信息（不包含密钥）
+ */
+export class ApiKeyResponseDto {
+  @ApiProperty({ description: 'API Key ID' })
+  id: string;
+
+  @ApiProperty({ example: 'GitHub Actions', description: '名称' })
+  name: string;
+
+  @ApiProperty({ example: 'a1b2c3d4', description: '密钥前缀，用于识别' })
+  prefix: string;
+
+  @ApiProperty({ example: ['users:read'], description: '授权范围' })
+  scopes: string[];
+
+  @ApiProperty({ description: '过期时间', required: false })
+  expiresAt?: Date | null;
+
+  @ApiProperty({ description: '最近使用时间', required: false })
+  lastUsedAt?: Date | null;
+
+  @ApiProperty({ description: '创建时间' })
+  createdAt: Date;
+}
+
+/**
+ * 创建 API Key 响应，完整密钥只返回这一次
+ */
+export class CreatedApiKeyResponseDto extends ApiKeyResponseDto {
+  @ApiProperty({
+    example: 'sk_a1b2c3d4_3q2+7w...',
+    description: '完整密钥，请立即保存，之后无法再次查看',
+  })
+  key: string;
+}
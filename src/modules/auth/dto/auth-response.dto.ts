@@ -8,8 +8,12 @@ export class AuthResponseDto {
   @ApiProperty()
   accessToken: string;
 
-  @ApiProperty()
-  refreshToken: string;
+  @ApiProperty({
+    required: false,
+    description:
+      '刷新令牌，Cookie 模式下通过 httpOnly Cookie 下发，不在响应体中返回',
+  })
+  refreshToken?: string;
 
   @ApiProperty()
   expiresIn: string;
@@ -1,10 +1,4 @@
-import {
-  IsNotEmpty,
-  IsString,
-  MinLength,
-  MaxLength,
-  Matches,
-} from 'class-validator';
+import { IsNotEmpty, IsString } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 /**
@@ -18,16 +12,9 @@ export class ChangePasswordDto {
   currentPassword: string;
 
   @ApiProperty({
-    description:
-      '新密码必须包含至少8个字符，包括大写字母、小写字母、数字和特殊字符',
+    description: '新密码，须符合密码策略（见 GET /auth/password-policy）',
   })
   @IsNotEmpty({ message: '新密码不能为空' })
   @IsString({ message: '新密码必须是字符串' })
-  @MinLength(8, { message: '新密码长度至少8个字符' })
-  @MaxLength(128, { message: '新密码长度不能超过128个字符' })
-  @Matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/, {
-    message:
-      '新密码必须包含至少一个大写字母、一个小写字母、一个数字和一个特殊字符',
-  })
   newPassword: string;
 }
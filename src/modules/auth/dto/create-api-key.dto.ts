@@ -0,0 +1,45 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { PERMISSION_PATTERN } from '../../rbac/dto/create-role.dto';
+
+/**
+ * 创建 API Key 数据传输对象
+ */
+export class CreateApiKeyDto {
+  @ApiProperty({ example: 'GitHub Actions', description: 'API Key 名称' })
+  @IsNotEmpty({ message: '名称不能为空' })
+  @IsString({ message: '名称必须是字符串' })
+  @MaxLength(100, { message: '名称不能超过100个字符' })
+  name: string;
+
+  @ApiProperty({
+    example: ['users:read'],
+    description:
+      '授权范围，格式同权限标识，支持通配符；实际权限不会超过所属用户的权限',
+  })
+  @IsArray({ message: '授权范围必须是数组' })
+  @ArrayNotEmpty({ message: '授权范围不能为空' })
+  @Matches(PERMISSION_PATTERN, {
+    each: true,
+    message: '授权范围格式应为 资源:操作，例如 users:read 或 users:*',
+  })
+  scopes: string[];
+
+  @ApiProperty({
+    example: '2027-01-01T00:00:00.000Z',
+    description: '过期时间，不传表示永不过期',
+    required: false,
+  })
+  @IsOptional()
+  @IsDateString({}, { message: '过期时间格式不正确' })
+  expiresAt?: string;
+}
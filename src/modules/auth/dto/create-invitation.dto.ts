@@ -0,0 +1,44 @@
+import {
+  IsArray,
+  IsEmail,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  Matches,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { UserRole } from '../../users/enums/user-role.enum';
+import { PERMISSION_PATTERN } from '../../rbac/dto/create-role.dto';
+
+/**
+ * 创建注册邀请数据传输对象
+ */
+export class CreateInvitationDto {
+  @ApiProperty({ example: 'user@example.com', description: '受邀邮箱' })
+  @IsNotEmpty({ message: '邮箱不能为空' })
+  @IsEmail({}, { message: '请输入有效的邮箱地址' })
+  email: string;
+
+  @ApiProperty({
+    example: UserRole.USER,
+    description: '账户创建后的角色，默认为普通用户',
+    enum: UserRole,
+    required: false,
+  })
+  @IsOptional()
+  @IsEnum(UserRole, { message: '无效的用户角色' })
+  role?: UserRole;
+
+  @ApiProperty({
+    example: ['users:read'],
+    description: '账户创建后直接授予的权限',
+    required: false,
+  })
+  @IsOptional()
+  @IsArray({ message: '权限必须是数组' })
+  @Matches(PERMISSION_PATTERN, {
+    each: true,
+    message: '权限格式应为 资源:操作，例如 users:read 或 users:*',
+  })
+  permissions?: string[];
+}
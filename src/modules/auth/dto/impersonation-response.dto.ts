@@ -0,0 +1,33 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 被模拟用户的基本信息
+ */
+export class ImpersonatedUserDto {
+  @ApiProperty({ description: '用户ID' })
+  id: string;
+
+  @ApiProperty({ example: 'user@example.com' })
+  email: string;
+
+  @ApiProperty({ example: '张三' })
+  fullName: string;
+
+  @ApiProperty({ example: 'user' })
+  role: string;
+}
+
+/**
+ * 模拟登录响应
+ * 只签发短期访问令牌，不创建会话，也不签发刷新令牌
+ */
+export class ImpersonationResponseDto {
+  @ApiProperty({ description: '模拟登录访问令牌（带 act 声明）' })
+  accessToken: string;
+
+  @ApiProperty({ example: '10m', description: '访问令牌有效期' })
+  expiresIn: string;
+
+  @ApiProperty({ type: ImpersonatedUserDto })
+  user: ImpersonatedUserDto;
+}
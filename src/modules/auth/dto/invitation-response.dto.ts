@@ -0,0 +1,71 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { UserRole } from '../../users/enums/user-role.enum';
+import { InvitationStatus } from '../enums/invitation-status.enum';
+
+/**
+ * 邀请信息（管理员视角）
+ * 不包含邀请令牌，令牌只通过邮件发送给受邀者
+ */
+export class InvitationResponseDto {
+  @ApiProperty({ description: '邀请ID' })
+  id: string;
+
+  @ApiProperty({ example: 'user@example.com', description: '受邀邮箱' })
+  email: string;
+
+  @ApiProperty({ enum: UserRole, description: '预设角色' })
+  role: UserRole;
+
+  @ApiProperty({ example: ['users:read'], description: '预设权限' })
+  permissions: string[];
+
+  @ApiProperty({ enum: InvitationStatus, description: '邀请状态' })
+  status: InvitationStatus;
+
+  @ApiProperty({ required: false, description: '邀请人ID' })
+  invitedById?: string | null;
+
+  @ApiProperty({ description: '过期时间' })
+  expiresAt: Date;
+
+  @ApiProperty({ required: false, description: '接受时间' })
+  acceptedAt?: Date | null;
+
+  @ApiProperty({ required: false, description: '接受邀请后创建的用户ID' })
+  acceptedUserId?: string | null;
+
+  @ApiProperty({ required: false, description: '撤销时间' })
+  revokedAt?: Date | null;
+
+  @ApiProperty({ description: '创建时间' })
+  createdAt: Date;
+}
+
+/**
+ * 邀请列表
+ */
+export class InvitationListResponseDto {
+  @ApiProperty({ type: [InvitationResponseDto] })
+  invitations: InvitationResponseDto[];
+
+  @ApiProperty({ example: 42, description: '总数' })
+  total: number;
+}
+
+/**
+ * 邀请预览（受邀者视角）
+ * 只包含接受邀请前需要展示的信息
+ */
+export class InvitationPreviewDto {
+  @ApiProperty({ example: 'user@example.com', description: '受邀邮箱' })
+  email: string;
+
+  @ApiProperty({ enum: UserRole, description: '账户创建后的角色' })
+  role: UserRole;
+
+  @ApiProperty({ required: false, example: '张三', description: '邀请人姓名' })
+  inviterName?: string;
+
+  @ApiProperty({ description: '过期时间' })
+  expiresAt: Date;
+}
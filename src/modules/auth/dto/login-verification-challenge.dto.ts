@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 登录验证挑战响应
+ * 高风险登录时返回，验证码已发送到邮箱，需通过 /auth/login/verify 换取正式令牌
+ */
+export class LoginVerificationChallengeDto {
+  @ApiProperty({ example: true })
+  requiresVerification: true;
+
+  @ApiProperty({ description: '验证令牌' })
+  verificationToken: string;
+
+  @ApiProperty({ example: 600, description: '验证令牌有效期（秒）' })
+  expiresIn: number;
+}
@@ -0,0 +1,12 @@
+import { IsEmail, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 请求免密登录链接数据传输对象
+ */
+export class MagicLinkDto {
+  @ApiProperty({ example: 'user@example.com', description: '用户邮箱' })
+  @IsEmail({}, { message: '请提供有效的邮箱地址' })
+  @IsNotEmpty({ message: '邮箱不能为空' })
+  email: string;
+}
@@ -0,0 +1,43 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 密码策略响应
+ * 前端据此展示密码要求并在提交前做本地校验，最终以服务端校验为准
+ */
+export class PasswordPolicyDto {
+  @ApiProperty({ example: 8, description: '最小长度' })
+  minLength: number;
+
+  @ApiProperty({ example: 128, description: '最大长度' })
+  maxLength: number;
+
+  @ApiProperty({ example: true, description: '是否要求包含大写字母' })
+  requireUppercase: boolean;
+
+  @ApiProperty({ example: true, description: '是否要求包含小写字母' })
+  requireLowercase: boolean;
+
+  @ApiProperty({ example: true, description: '是否要求包含数字' })
+  requireDigit: boolean;
+
+  @ApiProperty({
+    example: true,
+    description: '是否要求包含特殊字符（字母和数字以外的字符）',
+  })
+  requireSymbol: boolean;
+
+  @ApiProperty({
+    example: true,
+    description: '是否禁止包含邮箱或姓名',
+  })
+  forbidPersonalInfo: boolean;
+
+  @ApiProperty({
+    example: 5,
+    description: '禁止重复使用的最近密码数量，0 表示不限制',
+  })
+  historySize: number;
+
+  @ApiProperty({ example: true, description: '是否检查已泄露密码列表' })
+  breachCheck: boolean;
+}
@@ -0,0 +1,44 @@
+import { IsEmail, IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+import { InvitationStatus } from '../enums/invitation-status.enum';
+
+/**
+ * 邀请查询条件
+ */
+export class QueryInvitationsDto {
+  @ApiProperty({
+    required: false,
+    enum: InvitationStatus,
+    description: '邀请状态',
+  })
+  @IsOptional()
+  @IsEnum(InvitationStatus, { message: '邀请状态无效' })
+  status?: InvitationStatus;
+
+  @ApiProperty({
+    required: false,
+    example: 'user@example.com',
+    description: '受邀邮箱',
+  })
+  @IsOptional()
+  @IsEmail({}, { message: '请输入有效的邮箱地址' })
+  email?: string;
+
+  @ApiProperty({ required: false, example: 1, description: '页码，从1开始' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiProperty({
+    required: false,
+    example: 20,
+    description: '每页数量，最多100',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 20;
+}
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 重新验证身份响应
+ * 返回短期有效的访问令牌，刷新令牌不变
+ */
+export class ReauthenticateResponseDto {
+  @ApiProperty({ description: '认证时间为当前时间的访问令牌' })
+  accessToken: string;
+
+  @ApiProperty({ example: '5m', description: '访问令牌有效期' })
+  expiresIn: string;
+
+  @ApiProperty({ example: 1760000000, description: '认证时间（秒级时间戳）' })
+  authTime: number;
+}
@@ -0,0 +1,27 @@
+import { IsOptional, IsString, Length } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 重新验证身份数据传输对象
+ * 密码和验证码二选一
+ */
+export class ReauthenticateDto {
+  @ApiProperty({
+    example: 'Password123!',
+    description: '当前密码',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: '密码必须是字符串' })
+  password?: string;
+
+  @ApiProperty({
+    example: '123456',
+    description: '验证器应用中的6位口令，或一次性备用码（需已启用双因素认证）',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: '验证码必须是字符串' })
+  @Length(6, 20, { message: '验证码格式不正确' })
+  code?: string;
+}
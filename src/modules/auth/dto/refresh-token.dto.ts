@@ -0,0 +1,13 @@
+import { IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 刷新令牌数据传输对象
+ * 刷新令牌也可以通过 X-Refresh-Token 请求头或 Cookie 提交，因此为可选字段
+ */
+export class RefreshTokenDto {
+  @ApiProperty({ description: '刷新令牌', required: false })
+  @IsOptional()
+  @IsString({ message: '刷新令牌必须是字符串' })
+  refreshToken?: string;
+}
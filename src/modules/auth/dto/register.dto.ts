@@ -1,11 +1,4 @@
-import {
-  IsEmail,
-  IsNotEmpty,
-  IsString,
-  MinLength,
-  MaxLength,
-  Matches,
-} from 'class-validator';
+import { IsEmail, IsNotEmpty, IsString, MaxLength } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 /**
@@ -32,16 +25,9 @@ export class RegisterDto {
 
   @ApiProperty({
     example: 'SecurePass123!',
-    description:
-      '密码必须包含至少8个字符，包括大写字母、小写字母、数字和特殊字符',
+    description: '密码，须符合密码策略（见 GET /auth/password-policy）',
   })
   @IsNotEmpty({ message: '密码不能为空' })
   @IsString({ message: '密码必须是字符串' })
-  @MinLength(8, { message: '密码长度至少8个字符' })
-  @MaxLength(128, { message: '密码长度不能超过128个字符' })
-  @Matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/, {
-    message:
-      '密码必须包含至少一个大写字母、一个小写字母、一个数字和一个特殊字符',
-  })
   password: string;
 }
@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 重命名通行密钥数据传输对象
+ */
+export class RenameWebAuthnCredentialDto {
+  @ApiProperty({ example: 'iPhone 15', description: '凭据名称' })
+  @IsNotEmpty({ message: '名称不能为空' })
+  @IsString({ message: '名称必须是字符串' })
+  @MaxLength(100, { message: '名称长度不能超过100个字符' })
+  name: string;
+}
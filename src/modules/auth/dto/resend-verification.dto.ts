@@ -0,0 +1,12 @@
+import { IsEmail, IsNotEmpty } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 重新发送验证邮件数据传输对象
+ */
+export class ResendVerificationDto {
+  @ApiProperty({ example: 'zhangsan@example.com', description: '用户邮箱' })
+  @IsEmail({}, { message: '请输入有效的邮箱地址' })
+  @IsNotEmpty({ message: '邮箱不能为空' })
+  email: string;
+}
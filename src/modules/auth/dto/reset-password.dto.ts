@@ -1,10 +1,4 @@
-import {
-  IsNotEmpty,
-  IsString,
-  MinLength,
-  MaxLength,
-  Matches,
-} from 'class-validator';
+import { IsNotEmpty, IsString } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export class ResetPasswordDto {
@@ -15,15 +9,9 @@ export class ResetPasswordDto {
 
   @ApiProperty({
     description:
-      'Password must contain at least 8 characters, including uppercase, lowercase, number and special character',
+      'New password, must satisfy the password policy (see GET /auth/password-policy)',
   })
   @IsNotEmpty()
   @IsString()
-  @MinLength(8)
-  @MaxLength(128)
-  @Matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/, {
-    message:
-      'Password must contain at least one uppercase letter, one lowercase letter, one number and special character',
-  })
   newPassword: string;
 }
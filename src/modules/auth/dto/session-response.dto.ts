@@ -0,0 +1,34 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 登录会话信息
+ */
+export class SessionResponseDto {
+  @ApiProperty({ description: '会话ID' })
+  id: string;
+
+  @ApiProperty({
+    required: false,
+    example: 'Chrome on macOS',
+    description: '设备名称',
+  })
+  deviceName?: string;
+
+  @ApiProperty({ required: false, description: '客户端 User-Agent' })
+  userAgent?: string;
+
+  @ApiProperty({ required: false, example: '127.0.0.1', description: 'IP地址' })
+  ipAddress?: string;
+
+  @ApiProperty({ description: '登录时间' })
+  createdAt: Date;
+
+  @ApiProperty({ required: false, description: '最近使用时间' })
+  lastUsedAt?: Date;
+
+  @ApiProperty({ description: '过期时间' })
+  expiresAt: Date;
+
+  @ApiProperty({ description: '是否为当前会话' })
+  current: boolean;
+}
@@ -0,0 +1,16 @@
+import { IsOptional, IsUUID } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 切换组织数据传输对象
+ */
+export class SwitchOrganizationDto {
+  @ApiProperty({
+    description: '目标组织ID，不传表示退出组织，回到全局身份',
+    required: false,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsUUID('all', { message: '组织ID格式无效' })
+  organizationId?: string | null;
+}
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 双因素认证挑战响应
+ * 启用双因素认证的用户登录时返回，需通过 /auth/2fa/verify 换取正式令牌
+ */
+export class TwoFactorChallengeDto {
+  @ApiProperty({ example: true })
+  requiresTwoFactor: true;
+
+  @ApiProperty({ description: '挑战令牌' })
+  challengeToken: string;
+
+  @ApiProperty({ example: 300, description: '挑战令牌有效期（秒）' })
+  expiresIn: number;
+}
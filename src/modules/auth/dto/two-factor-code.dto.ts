@@ -0,0 +1,16 @@
+import { IsNotEmpty, IsString, Length } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 双因素认证口令数据传输对象
+ */
+export class TwoFactorCodeDto {
+  @ApiProperty({
+    example: '123456',
+    description: '验证器应用中的6位口令，或一次性备用码',
+  })
+  @IsNotEmpty({ message: '验证码不能为空' })
+  @IsString({ message: '验证码必须是字符串' })
+  @Length(6, 20, { message: '验证码格式不正确' })
+  code: string;
+}
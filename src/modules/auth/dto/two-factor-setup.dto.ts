@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 双因素认证设置响应
+ */
+export class TwoFactorSetupDto {
+  @ApiProperty({ description: 'Base32 编码的 TOTP 密钥，可手动输入验证器应用' })
+  secret: string;
+
+  @ApiProperty({
+    example: 'otpauth://totp/NestAuth:john.doe%40example.com?secret=...',
+    description: 'otpauth URI，可生成二维码供验证器应用扫描',
+  })
+  otpauthUrl: string;
+}
@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 邮箱验证数据传输对象
+ */
+export class VerifyEmailDto {
+  @ApiProperty({ description: '邮箱验证令牌' })
+  @IsNotEmpty({ message: '验证令牌不能为空' })
+  @IsString({ message: '验证令牌必须是字符串' })
+  token: string;
+}
@@ -0,0 +1,17 @@
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 登录验证数据传输对象
+ */
+export class VerifyLoginDto {
+  @ApiProperty({ description: '登录接口返回的验证令牌' })
+  @IsNotEmpty({ message: '验证令牌不能为空' })
+  @IsString({ message: '验证令牌必须是字符串' })
+  verificationToken: string;
+
+  @ApiProperty({ example: '123456', description: '邮件中的6位验证码' })
+  @IsNotEmpty({ message: '验证码不能为空' })
+  @Matches(/^\d{6}$/, { message: '验证码必须是6位数字' })
+  code: string;
+}
@@ -0,0 +1,22 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 免密登录链接验证数据传输对象
+ */
+export class VerifyMagicLinkDto {
+  @ApiProperty({ description: '邮件链接中的登录令牌' })
+  @IsNotEmpty({ message: '登录令牌不能为空' })
+  @IsString({ message: '登录令牌必须是字符串' })
+  token: string;
+
+  @ApiProperty({
+    example: 'My MacBook',
+    description: '设备名称，不提供时根据 User-Agent 推断',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  deviceName?: string;
+}
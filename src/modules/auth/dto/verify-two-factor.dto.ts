@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { TwoFactorCodeDto } from './two-factor-code.dto';
+
+/**
+ * 双因素认证登录校验数据传输对象
+ */
+export class VerifyTwoFactorDto extends TwoFactorCodeDto {
+  @ApiProperty({ description: '登录接口返回的挑战令牌' })
+  @IsNotEmpty({ message: '挑战令牌不能为空' })
+  @IsString({ message: '挑战令牌必须是字符串' })
+  challengeToken: string;
+}
@@ -0,0 +1,84 @@
+import {
+  Equals,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 认证器的登录断言
+ * 二进制字段均为 base64url 编码
+ */
+export class WebAuthnAssertionResponseDto {
+  @ApiProperty({ description: '客户端数据（base64url）' })
+  @IsNotEmpty({ message: '客户端数据不能为空' })
+  @IsString()
+  clientDataJSON: string;
+
+  @ApiProperty({ description: '认证器数据（base64url）' })
+  @IsNotEmpty({ message: '认证器数据不能为空' })
+  @IsString()
+  authenticatorData: string;
+
+  @ApiProperty({ description: '签名（base64url）' })
+  @IsNotEmpty({ message: '签名不能为空' })
+  @IsString()
+  signature: string;
+
+  @ApiProperty({
+    description: '用户句柄（base64url），可发现凭据登录时由认证器返回',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  userHandle?: string;
+}
+
+/**
+ * 通行密钥登录数据传输对象
+ */
+export class WebAuthnAuthenticationDto {
+  @ApiProperty({ description: '凭据ID（base64url）' })
+  @IsNotEmpty({ message: '凭据ID不能为空' })
+  @IsString()
+  id: string;
+
+  @ApiProperty({ description: '凭据ID（base64url），与 id 相同' })
+  @IsNotEmpty({ message: '凭据ID不能为空' })
+  @IsString()
+  rawId: string;
+
+  @ApiProperty({ example: 'public-key', description: '凭据类型' })
+  @Equals('public-key', { message: '凭据类型必须是 public-key' })
+  type: string;
+
+  @ApiProperty({ type: WebAuthnAssertionResponseDto })
+  @ValidateNested()
+  @Type(() => WebAuthnAssertionResponseDto)
+  response: WebAuthnAssertionResponseDto;
+
+  @ApiProperty({ required: false, example: 'platform' })
+  @IsOptional()
+  @IsString()
+  authenticatorAttachment?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsObject()
+  clientExtensionResults?: Record<string, unknown>;
+
+  @ApiProperty({
+    example: 'My MacBook',
+    description: '设备名称，不提供时根据 User-Agent 推断',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  deviceName?: string;
+}
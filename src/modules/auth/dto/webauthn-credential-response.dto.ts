@@ -0,0 +1,27 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 通行密钥信息（不包含公钥）
+ */
+export class WebAuthnCredentialResponseDto {
+  @ApiProperty({ description: '凭据记录ID' })
+  id: string;
+
+  @ApiProperty({ example: 'My MacBook', description: '名称' })
+  name: string;
+
+  @ApiProperty({
+    example: ['internal', 'hybrid'],
+    description: '认证器支持的传输方式',
+  })
+  transports: string[];
+
+  @ApiProperty({ description: '是否已同步备份' })
+  backedUp: boolean;
+
+  @ApiProperty({ description: '最近使用时间', required: false })
+  lastUsedAt?: Date | null;
+
+  @ApiProperty({ description: '创建时间' })
+  createdAt: Date;
+}
@@ -0,0 +1,100 @@
+import {
+  Equals,
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 认证器的注册响应
+ * 二进制字段均为 base64url 编码，与浏览器 PublicKeyCredential.toJSON() 的输出一致
+ */
+export class WebAuthnAttestationResponseDto {
+  @ApiProperty({ description: '客户端数据（base64url）' })
+  @IsNotEmpty({ message: '客户端数据不能为空' })
+  @IsString()
+  clientDataJSON: string;
+
+  @ApiProperty({ description: '证明对象（base64url）' })
+  @IsNotEmpty({ message: '证明对象不能为空' })
+  @IsString()
+  attestationObject: string;
+
+  @ApiProperty({
+    example: ['internal', 'hybrid'],
+    description: '认证器支持的传输方式',
+    required: false,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @MaxLength(20, { each: true })
+  transports?: string[];
+
+  // 以下字段由浏览器附带，服务端从证明对象中解析，不使用这些值
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  authenticatorData?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  publicKey?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsInt()
+  publicKeyAlgorithm?: number;
+}
+
+/**
+ * 通行密钥注册数据传输对象
+ */
+export class WebAuthnRegistrationDto {
+  @ApiProperty({ description: '凭据ID（base64url）' })
+  @IsNotEmpty({ message: '凭据ID不能为空' })
+  @IsString()
+  id: string;
+
+  @ApiProperty({ description: '凭据ID（base64url），与 id 相同' })
+  @IsNotEmpty({ message: '凭据ID不能为空' })
+  @IsString()
+  rawId: string;
+
+  @ApiProperty({ example: 'public-key', description: '凭据类型' })
+  @Equals('public-key', { message: '凭据类型必须是 public-key' })
+  type: string;
+
+  @ApiProperty({ type: WebAuthnAttestationResponseDto })
+  @ValidateNested()
+  @Type(() => WebAuthnAttestationResponseDto)
+  response: WebAuthnAttestationResponseDto;
+
+  @ApiProperty({ required: false, example: 'platform' })
+  @IsOptional()
+  @IsString()
+  authenticatorAttachment?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsObject()
+  clientExtensionResults?: Record<string, unknown>;
+
+  @ApiProperty({
+    example: 'My MacBook',
+    description: '凭据名称，不提供时根据 User-Agent 推断',
+    required: false,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+}
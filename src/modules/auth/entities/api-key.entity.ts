@@ -0,0 +1,54 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * API Key 实体 - 供 CI、第三方集成等机器客户端使用的长期凭据
+ * 完整密钥只在创建时返回一次，数据库中只保存前缀（用于查找）和密钥的 SHA-256 哈希
+ */
+@Entity('api_keys') // 数据库表名
+export class ApiKey {
+  @PrimaryGeneratedColumn('uuid') // 使用 UUID 作为主键
+  id: string;
+
+  @Column({ name: 'user_id' }) // 所属用户ID
+  userId: string;
+
+  /**
+   * 多对一关系：多个 API Key 属于一个用户
+   * 当用户被删除时，相关的 API Key 也会被删除
+   */
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ length: 100 }) // 名称，便于用户区分用途
+  name: string;
+
+  @Column({ unique: true, length: 16 }) // 密钥前缀，唯一，用于快速定位记录
+  prefix: string;
+
+  @Column({ name: 'secret_hash', length: 64 }) // 完整密钥的 SHA-256 哈希
+  secretHash: string;
+
+  @Column('simple-array', { nullable: true }) // 授权范围，格式同权限标识，支持通配符
+  scopes: string[];
+
+  @Column({ name: 'expires_at', type: 'datetime', nullable: true }) // 过期时间，为空表示永不过期
+  expiresAt?: Date | null;
+
+  @Column({ name: 'last_used_at', type: 'datetime', nullable: true }) // 最近使用时间
+  lastUsedAt?: Date | null;
+
+  @Column({ name: 'last_used_ip', length: 45, nullable: true }) // 最近使用的IP地址
+  lastUsedIp?: string;
+
+  @CreateDateColumn({ name: 'created_at' }) // 创建时间，自动设置
+  createdAt: Date;
+}
@@ -0,0 +1,50 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+
+/**
+ * 模拟登录审计记录
+ * start 表示管理员发起模拟登录，request 表示模拟登录期间发出的每个请求
+ * 审计记录需要长期保留，不随用户删除级联删除
+ */
+@Entity('impersonation_logs') // 数据库表名
+@Index(['actorId', 'createdAt'])
+@Index(['userId', 'createdAt'])
+export class ImpersonationLog {
+  @PrimaryGeneratedColumn('uuid') // 使用 UUID 作为主键
+  id: string;
+
+  @Column({ name: 'actor_id' }) // 实际操作的管理员ID
+  actorId: string;
+
+  @Column({ name: 'user_id' }) // 被模拟的用户ID
+  userId: string;
+
+  @Column({ name: 'token_id', length: 36 }) // 模拟登录令牌的 jti，用于串联同一次模拟登录的全部请求
+  tokenId: string;
+
+  @Column({ length: 20 }) // 事件类型：start / request
+  event: 'start' | 'request';
+
+  @Column({ length: 10 }) // 请求方法
+  method: string;
+
+  @Column({ length: 500 }) // 请求路径
+  path: string;
+
+  @Column({ name: 'status_code', type: 'int', nullable: true }) // 响应状态码
+  statusCode?: number | null;
+
+  @Column({ name: 'ip_address', length: 45, nullable: true }) // 客户端IP地址
+  ipAddress?: string;
+
+  @Column({ name: 'user_agent', length: 500, nullable: true }) // 客户端 User-Agent
+  userAgent?: string;
+
+  @CreateDateColumn({ name: 'created_at' }) // 记录时间，自动设置
+  createdAt: Date;
+}
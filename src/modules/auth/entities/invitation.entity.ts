@@ -0,0 +1,85 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { UserRole } from '../../users/enums/user-role.enum';
+import { InvitationStatus } from '../enums/invitation-status.enum';
+
+/**
+ * 注册邀请实体
+ * 邀请链接中的令牌为 <tokenId>.<HMAC 签名>，数据库只保存 tokenId；
+ * 受邀者接受邀请时按预设的角色和权限创建账户
+ */
+@Entity('invitations') // 数据库表名
+@Index(['email', 'status'])
+export class Invitation {
+  @PrimaryGeneratedColumn('uuid') // 使用 UUID 作为主键
+  id: string;
+
+  @Column({ length: 255 }) // 受邀邮箱
+  email: string;
+
+  @Column({ name: 'token_id', length: 64, unique: true }) // 邀请令牌的随机ID部分
+  tokenId: string;
+
+  @Column({ type: 'enum', enum: UserRole, default: UserRole.USER }) // 预设角色
+  role: UserRole;
+
+  @Column('simple-array', { nullable: true }) // 预设权限，存储为逗号分隔的字符串
+  permissions: string[];
+
+  @Column({ length: 20, default: InvitationStatus.PENDING }) // 状态：pending / accepted / revoked
+  status: InvitationStatus;
+
+  @Column({
+    name: 'invited_by_id',
+    type: 'varchar',
+    length: 36,
+    nullable: true,
+  })
+  invitedById?: string | null;
+
+  /**
+   * 多对一关系：邀请人
+   * 邀请人被删除时保留邀请记录
+   */
+  @ManyToOne(() => User, { onDelete: 'SET NULL', nullable: true })
+  @JoinColumn({ name: 'invited_by_id' })
+  invitedBy?: User | null;
+
+  @Column({ name: 'expires_at', type: 'datetime' }) // 过期时间
+  expiresAt: Date;
+
+  @Column({ name: 'accepted_at', type: 'datetime', nullable: true }) // 接受时间
+  acceptedAt?: Date | null;
+
+  @Column({
+    name: 'accepted_user_id',
+    type: 'varchar',
+    length: 36,
+    nullable: true,
+  }) // 接受邀请后创建的用户ID
+  acceptedUserId?: string | null;
+
+  @Column({ name: 'revoked_at', type: 'datetime', nullable: true }) // 撤销时间
+  revokedAt?: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' }) // 创建时间，自动设置
+  createdAt: Date;
+
+  /**
+   * 当前状态（未接受且已过期的邀请视为 expired）
+   */
+  get currentStatus(): InvitationStatus {
+    return this.status === InvitationStatus.PENDING &&
+      this.expiresAt <= new Date()
+      ? InvitationStatus.EXPIRED
+      : this.status;
+  }
+}
@@ -0,0 +1,77 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * 登录历史实体 - 每次成功登录一条记录
+ * 按设备指纹（浏览器和网段）判断是否为新设备，按地理位置和时间间隔判断是否异地登录
+ */
+@Entity('login_history') // 数据库表名
+@Index(['userId', 'fingerprint'])
+@Index(['userId', 'createdAt'])
+export class LoginHistory {
+  @PrimaryGeneratedColumn('uuid') // 使用 UUID 作为主键
+  id: string;
+
+  @Column({ name: 'user_id' }) // 登录的用户ID
+  userId: string;
+
+  /**
+   * 多对一关系：多条登录记录属于一个用户
+   * 当用户被删除时，相关的登录记录也会被删除
+   */
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ length: 64 }) // 设备指纹，浏览器和网段的 SHA-256 哈希
+  fingerprint: string;
+
+  @Column({
+    name: 'user_agent_family',
+    type: 'varchar',
+    length: 100,
+    nullable: true,
+  }) // 浏览器和操作系统，如 "Chrome on Windows"
+  userAgentFamily?: string | null;
+
+  @Column({ name: 'ip_address', type: 'varchar', length: 45, nullable: true }) // 登录IP地址
+  ipAddress?: string | null;
+
+  @Column({ name: 'ip_prefix', type: 'varchar', length: 50, nullable: true }) // 网段，IPv4 为 /24，IPv6 为 /48
+  ipPrefix?: string | null;
+
+  @Column({ type: 'varchar', length: 2, nullable: true }) // 国家代码
+  country?: string | null;
+
+  @Column({ type: 'varchar', length: 100, nullable: true }) // 城市
+  city?: string | null;
+
+  @Column({ type: 'double', nullable: true }) // 纬度
+  latitude?: number | null;
+
+  @Column({ type: 'double', nullable: true }) // 经度
+  longitude?: number | null;
+
+  @Column({ length: 20 }) // 登录方式，如 password、magic_link、oauth、webauthn、two_factor
+  method: string;
+
+  @Column({ name: 'risk_score', type: 'int', default: 0 }) // 风险分数
+  riskScore: number;
+
+  @Column('simple-array', { name: 'risk_factors', nullable: true }) // 命中的风险因素
+  riskFactors: string[];
+
+  @Column({ name: 'step_up_verified', default: false }) // 是否经过邮箱验证码确认
+  stepUpVerified: boolean;
+
+  @CreateDateColumn({ name: 'created_at' }) // 登录时间，自动设置
+  createdAt: Date;
+}
@@ -0,0 +1,38 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * 密码历史实体 - 记录用户最近使用过的密码哈希
+ * 用于禁止重复使用最近的密码，只保留密码策略要求的条数
+ */
+@Entity('password_history') // 数据库表名
+@Index(['userId', 'createdAt'])
+export class PasswordHistory {
+  @PrimaryGeneratedColumn('uuid') // 使用 UUID 作为主键
+  id: string;
+
+  @Column({ name: 'user_id' }) // 所属用户ID
+  userId: string;
+
+  /**
+   * 多对一关系：多条历史记录属于一个用户
+   * 当用户被删除时，相关的历史记录也会被删除
+   */
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ name: 'password_hash' }) // 密码哈希
+  passwordHash: string;
+
+  @CreateDateColumn({ name: 'created_at', precision: 3 }) // 设置时间，毫秒精度保证排序稳定
+  createdAt: Date;
+}
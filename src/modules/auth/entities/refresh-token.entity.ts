@@ -10,15 +10,16 @@ import { User } from '../../users/entities/user.entity';
 
 /**
  * 刷新令牌实体 - 存储用户的刷新令牌
- * 用于实现令牌轮换和安全的令牌管理
+ * 每条记录对应一个登录会话（设备），也是一个令牌轮换家族：
+ * 会话内每次刷新都会替换令牌，只保存当前有效令牌的哈希值
  */
 @Entity('refresh_tokens') // 数据库表名
 export class RefreshToken {
   @PrimaryGeneratedColumn('uuid') // 使用 UUID 作为主键
   id: string;
 
-  @Column() // 刷新令牌字符串
-  token: string;
+  @Column({ name: 'token_hash', length: 64 }) // 刷新令牌的 SHA-256 哈希，不保存明文
+  tokenHash: string;
 
   @Column({ name: 'user_id' }) // 用户ID外键
   userId: string;
@@ -34,6 +35,36 @@ export class RefreshToken {
   @Column({ name: 'expires_at' }) // 令牌过期时间
   expiresAt: Date;
 
+  @Column({ name: 'device_name', length: 100, nullable: true }) // 设备名称
+  deviceName?: string;
+
+  @Column({ name: 'user_agent', length: 500, nullable: true }) // 客户端 User-Agent
+  userAgent?: string;
+
+  @Column({ name: 'ip_address', length: 45, nullable: true }) // 最近使用的IP地址
+  ipAddress?: string;
+
+  /**
+   * 会话当前所在的组织，刷新令牌时写入访问令牌的 org 声明
+   */
+  @Column({
+    name: 'organization_id',
+    type: 'varchar',
+    length: 36,
+    nullable: true,
+  })
+  organizationId?: string | null;
+
+  /**
+   * 登录时使用的认证方式（amr），刷新令牌时写入访问令牌；
+   * 会话创建时间即为认证时间（auth_time），重新验证身份不会改变这两项
+   */
+  @Column('simple-array', { nullable: true })
+  amr?: string[] | null;
+
   @CreateDateColumn({ name: 'created_at' }) // 创建时间，自动设置
   createdAt: Date;
+
+  @Column({ name: 'last_used_at', type: 'datetime', nullable: true }) // 最近一次刷新时间
+  lastUsedAt?: Date;
 }
@@ -0,0 +1,29 @@
+import { Entity, PrimaryColumn, Column, CreateDateColumn } from 'typeorm';
+
+/**
+ * JWT 签名密钥实体 - 保存自动生成的非对称密钥对
+ * 同一时间只有最新的未退役密钥用于签名；退役后在宽限期内仍用于验签并出现在 JWKS 中
+ */
+@Entity('jwt_signing_keys') // 数据库表名
+export class SigningKey {
+  @PrimaryColumn({ length: 32 }) // 密钥ID，对应 JWT 头部的 kid
+  kid: string;
+
+  @Column({ length: 10 }) // 签名算法：RS256 或 ES256
+  algorithm: string;
+
+  @Column({ name: 'private_key', type: 'text' }) // PKCS#8 格式私钥（配置了口令时加密保存）
+  privateKey: string;
+
+  @Column({ name: 'public_key', type: 'text' }) // SPKI 格式公钥
+  publicKey: string;
+
+  @CreateDateColumn({ name: 'created_at' }) // 创建时间，自动设置
+  createdAt: Date;
+
+  @Column({ name: 'retired_at', type: 'datetime', nullable: true }) // 退役时间，退役后不再用于签名
+  retiredAt?: Date | null;
+
+  @Column({ name: 'expires_at', type: 'datetime', nullable: true }) // 宽限期结束时间，之后不再用于验签
+  expiresAt?: Date | null;
+}
@@ -0,0 +1,62 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * WebAuthn 凭据实体 - 用户注册的通行密钥（passkey）或安全密钥
+ * 公钥以 SPKI DER（base64url）保存，登录时直接用于校验签名
+ */
+@Entity('webauthn_credentials') // 数据库表名
+export class WebAuthnCredential {
+  @PrimaryGeneratedColumn('uuid') // 使用 UUID 作为主键
+  id: string;
+
+  @Index()
+  @Column({ name: 'user_id' }) // 所属用户ID
+  userId: string;
+
+  /**
+   * 多对一关系：多个凭据属于一个用户
+   * 当用户被删除时，相关的凭据也会被删除
+   */
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ name: 'credential_id', length: 512, unique: true }) // 认证器生成的凭据ID（base64url）
+  credentialId: string;
+
+  @Column({ name: 'public_key', type: 'text' }) // 凭据公钥，SPKI DER 格式（base64url）
+  publicKey: string;
+
+  @Column({ type: 'int' }) // COSE 算法标识，如 -7（ES256）、-257（RS256）
+  algorithm: number;
+
+  @Column({ name: 'sign_count', type: 'int', unsigned: true, default: 0 }) // 签名计数器，用于发现被克隆的认证器
+  signCount: number;
+
+  @Column('simple-array', { nullable: true }) // 认证器支持的传输方式，如 internal、usb、hybrid
+  transports: string[];
+
+  @Column({ length: 100 }) // 名称，便于用户区分设备
+  name: string;
+
+  @Column({ type: 'varchar', length: 36, nullable: true }) // 认证器型号标识
+  aaguid?: string | null;
+
+  @Column({ name: 'backed_up', default: false }) // 是否已同步备份（如 iCloud 钥匙串中的通行密钥）
+  backedUp: boolean;
+
+  @Column({ name: 'last_used_at', type: 'datetime', nullable: true }) // 最后一次用于登录的时间
+  lastUsedAt?: Date | null;
+
+  @CreateDateColumn({ name: 'created_at' }) // 创建时间，自动设置
+  createdAt: Date;
+}
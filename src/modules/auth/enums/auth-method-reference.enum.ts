@@ -0,0 +1,12 @@
+/**
+ * 认证方式（访问令牌的 amr 声明）
+ * 取值参照 RFC 8176，email 和 fed 为常见的扩展值
+ */
+export enum AuthMethodReference {
+  PASSWORD = 'pwd', // 密码
+  OTP = 'otp', // 一次性口令（TOTP、备用码或邮箱验证码）
+  MFA = 'mfa', // 多因素认证
+  HARDWARE_KEY = 'hwk', // 通行密钥或安全密钥
+  EMAIL = 'email', // 免密登录链接
+  FEDERATED = 'fed', // 第三方登录
+}
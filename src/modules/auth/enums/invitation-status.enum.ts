@@ -0,0 +1,10 @@
+/**
+ * 邀请状态
+ * 数据库中只保存 pending / accepted / revoked，过期由 expiresAt 判断
+ */
+export enum InvitationStatus {
+  PENDING = 'pending', // 等待接受
+  ACCEPTED = 'accepted', // 已接受并创建账户
+  REVOKED = 'revoked', // 已被管理员撤销
+  EXPIRED = 'expired', // 超过有效期未接受
+}
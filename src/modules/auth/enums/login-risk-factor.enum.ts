@@ -0,0 +1,9 @@
+/**
+ * 登录风险因素
+ */
+export enum LoginRiskFactor {
+  NEW_DEVICE = 'new_device', // 从未使用过的设备（浏览器和网段组合）
+  NEW_IP_RANGE = 'new_ip_range', // 从未使用过的网段
+  IMPOSSIBLE_TRAVEL = 'impossible_travel', // 与上次登录地点的距离在间隔时间内不可能到达
+  RECENT_FAILURES = 'recent_failures', // 登录成功前连续多次登录失败
+}
@@ -0,0 +1,19 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * 账户锁定异常
+ * 登录失败次数过多导致账户被临时锁定时抛出，响应中包含解锁时间
+ */
+export class AccountLockedException extends HttpException {
+  constructor(lockedUntil: Date) {
+    super(
+      {
+        statusCode: HttpStatus.LOCKED,
+        message: `账户已被锁定，请于 ${lockedUntil.toISOString()} 后重试`,
+        code: 'ACCOUNT_LOCKED',
+        lockedUntil: lockedUntil.toISOString(),
+      },
+      HttpStatus.LOCKED,
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+import type { PasswordPolicyViolation } from '../interfaces/password-policy.interface';
+
+/**
+ * 密码策略异常
+ * 新密码不符合密码策略时抛出，响应中包含全部违规原因，便于前端逐条提示
+ */
+export class PasswordPolicyException extends HttpException {
+  constructor(violations: PasswordPolicyViolation[]) {
+    super(
+      {
+        statusCode: HttpStatus.BAD_REQUEST,
+        message: violations.map((violation) => violation.message),
+        code: 'PASSWORD_POLICY_VIOLATION',
+        violations,
+      },
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * 需要重新验证身份异常
+ * 敏感操作要求最近完成过认证，客户端收到后应调用 /auth/reauthenticate 获取新的访问令牌后重试
+ */
+export class ReauthenticationRequiredException extends HttpException {
+  constructor(maxAge: number) {
+    super(
+      {
+        statusCode: HttpStatus.UNAUTHORIZED,
+        message: '该操作需要重新验证身份',
+        code: 'REAUTH_REQUIRED',
+        maxAge,
+      },
+      HttpStatus.UNAUTHORIZED,
+    );
+  }
+}
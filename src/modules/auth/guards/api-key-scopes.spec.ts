@@ -0,0 +1,142 @@
+import { Reflector } from '@nestjs/core';
+
+import { RolesGuard } from './roles.guard';
+import { PermissionsGuard } from './permissions.guard';
+import { Roles } from '../decorators/roles.decorator';
+import { RequirePermissions } from '../decorators/permissions.decorator';
+import { AbilityFactory } from '../../rbac/ability/ability.factory';
+import { Action } from '../../rbac/enums/action.enum';
+import { RbacService } from '../../rbac/rbac.service';
+import { User } from '../../users/entities/user.entity';
+import { UserRole } from '../../users/enums/user-role.enum';
+import type { AuthenticatedUser } from '../interfaces/jwt-payload.interface';
+import { createRbacService } from '../../../testing/rbac';
+import { createHttpContext } from '../../../testing/execution-context';
+
+/**
+ * 测试用控制器，只用于挂载角色和权限元数据
+ */
+class ProtectedController {
+  @Roles(UserRole.ADMIN)
+  manageUsers() {}
+
+  @RequirePermissions('users:read')
+  listUsers() {}
+
+  @RequirePermissions('users:delete')
+  deleteUser() {}
+}
+
+describe('API key scopes', () => {
+  let rbacService: RbacService;
+
+  // 以指定角色登录的用户，传入 scopes 时模拟通过 API Key 访问
+  const principal = (role: UserRole, scopes?: string[]): AuthenticatedUser =>
+    Object.assign(new User(), {
+      id: `${role}-1`,
+      role,
+      permissions: [],
+      apiKey: scopes ? { id: 'key-1', scopes } : undefined,
+    });
+
+  const canActivate = (
+    guard: RolesGuard | PermissionsGuard,
+    method: keyof ProtectedController,
+    user: AuthenticatedUser,
+  ) =>
+    guard.canActivate(createHttpContext(ProtectedController, method, { user }));
+
+  beforeEach(async () => {
+    rbacService = await createRbacService();
+  });
+
+  describe('PermissionsGuard', () => {
+    let guard: PermissionsGuard;
+
+    beforeEach(() => {
+      guard = new PermissionsGuard(new Reflector(), rbacService);
+    });
+
+    it('allows only the permissions inside the key scopes', async () => {
+      const user = principal(UserRole.ADMIN, ['users:read']);
+
+      await expect(canActivate(guard, 'listUsers', user)).resolves.toBe(true);
+      await expect(canActivate(guard, 'deleteUser', user)).resolves.toBe(false);
+    });
+
+    it('does not let scopes grant more than the owner has', async () => {
+      const user = principal(UserRole.USER, ['*']);
+
+      await expect(canActivate(guard, 'listUsers', user)).resolves.toBe(false);
+    });
+
+    it('leaves requests without an API key unchanged', async () => {
+      await expect(
+        canActivate(guard, 'deleteUser', principal(UserRole.ADMIN)),
+      ).resolves.toBe(true);
+    });
+  });
+
+  describe('RolesGuard', () => {
+    let guard: RolesGuard;
+
+    beforeEach(() => {
+      guard = new RolesGuard(new Reflector(), rbacService);
+    });
+
+    it('rejects a key whose scopes do not cover the permissions of the required role', async () => {
+      await expect(
+        canActivate(
+          guard,
+          'manageUsers',
+          principal(UserRole.ADMIN, ['users:read']),
+        ),
+      ).resolves.toBe(false);
+    });
+
+    it('accepts a key that covers every permission of the required role', async () => {
+      // 管理员角色含继承的权限：users:*、roles:read、users:read、profile:read、profile:update
+      const scopes = ['users:*', 'roles:read', 'profile:*'];
+
+      await expect(
+        canActivate(guard, 'manageUsers', principal(UserRole.ADMIN, scopes)),
+      ).resolves.toBe(true);
+      await expect(
+        canActivate(guard, 'manageUsers', principal(UserRole.MODERATOR, ['*'])),
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('AbilityFactory', () => {
+    let factory: AbilityFactory;
+    const other = Object.assign(new User(), {
+      id: 'user-2',
+      role: UserRole.USER,
+    });
+
+    beforeEach(() => {
+      factory = new AbilityFactory(rbacService);
+    });
+
+    it('keeps only the actions covered by the key scopes', async () => {
+      const user = principal(UserRole.ADMIN, ['users:read']);
+      const ability = await factory.createForUser(user);
+
+      expect(ability.can(Action.READ, 'User', other)).toBe(true);
+      expect(ability.can(Action.UPDATE, 'User', other)).toBe(false);
+      expect(ability.can(Action.DELETE, 'User', other)).toBe(false);
+      // 修改本人资料需要 profile:update 范围
+      expect(ability.can(Action.UPDATE, 'User', user)).toBe(false);
+    });
+
+    it('does not give a super admin key without the * scope full access', async () => {
+      const user = principal(UserRole.SUPER_ADMIN, ['profile:read']);
+      const ability = await factory.createForUser(user);
+
+      expect(ability.can(Action.READ, 'User', user)).toBe(true);
+      expect(ability.can(Action.UPDATE, 'User', user)).toBe(false);
+      expect(ability.can(Action.READ, 'User', other)).toBe(false);
+      expect(ability.can(Action.MANAGE, 'all')).toBe(false);
+    });
+  });
+});
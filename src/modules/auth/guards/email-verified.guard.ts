@@ -0,0 +1,43 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { REQUIRE_EMAIL_VERIFIED_KEY } from '../decorators/email-verified.decorator';
+import type { User } from '../../users/entities/user.entity';
+
+/**
+ * 邮箱验证守卫 - 阻止未验证邮箱的用户访问标记的路由
+ * 仅对使用 @RequireEmailVerified() 标记的路由生效
+ */
+@Injectable()
+export class EmailVerifiedGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  /**
+   * 判断用户邮箱是否已验证
+   * @param context 执行上下文
+   * @returns 是否允许访问
+   */
+  canActivate(context: ExecutionContext): boolean {
+    const required = this.reflector.getAllAndOverride<boolean>(
+      REQUIRE_EMAIL_VERIFIED_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!required) {
+      return true; // 没有邮箱验证要求，允许访问
+    }
+
+    // 从请求中获取用户信息（由 JWT 守卫注入）
+    const { user } = context.switchToHttp().getRequest<{ user?: User }>();
+
+    if (!user?.emailVerified) {
+      throw new ForbiddenException('请先验证邮箱');
+    }
+
+    return true;
+  }
+}
@@ -1,15 +1,27 @@
-import { Injectable, type ExecutionContext } from '@nestjs/common';
+import {
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+  type ExecutionContext,
+} from '@nestjs/common';
 import { AuthGuard } from '@nestjs/passport';
-import type { Reflector } from '@nestjs/core';
+import { Reflector } from '@nestjs/core';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { NO_API_KEY_KEY } from '../decorators/no-api-key.decorator';
+import { NO_IMPERSONATION_KEY } from '../decorators/no-impersonation.decorator';
+import type {
+  AuthenticatedUser,
+  ImpersonationContext,
+} from '../interfaces/jwt-payload.interface';
 
 /**
  * JWT 认证守卫 - 保护需要认证的路由
- * 继承自 Passport 的 AuthGuard，使用 JWT 策略
- * 支持通过 @Public() 装饰器跳过认证
+ * 继承自 Passport 的 AuthGuard，依次尝试 JWT 和 API Key 策略
+ * 支持通过 @Public() 装饰器跳过认证，通过 @NoApiKey() 装饰器禁止 API Key 访问，
+ * 通过 @NoImpersonation() 装饰器禁止模拟登录访问
  */
 @Injectable()
-export class JwtAuthGuard extends AuthGuard('jwt') {
+export class JwtAuthGuard extends AuthGuard(['jwt', 'api-key']) {
   constructor(private reflector: Reflector) {
     super();
   }
@@ -25,13 +37,56 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
       context.getHandler(), // 方法级别的装饰器
       context.getClass(), // 类级别的装饰器
     ]);
-    console.log('isPublic', isPublic);
 
     if (isPublic) {
       return true; // 公开路由，直接允许访问
     }
 
-    // 非公开路由，执行 JWT 认证
+    // 非公开路由，执行 JWT / API Key 认证
     return super.canActivate(context);
   }
+
+  /**
+   * 处理认证结果
+   * 标记了 @NoApiKey() 的路由拒绝通过 API Key 认证的请求，
+   * 标记了 @NoImpersonation() 的路由拒绝模拟登录的请求；
+   * 模拟登录的请求在判断之前登记审计信息，被拒绝的请求同样由审计中间件记录
+   */
+  handleRequest<TUser = AuthenticatedUser>(
+    err: unknown,
+    user: TUser | false,
+    info: unknown,
+    context: ExecutionContext,
+  ): TUser {
+    if (err || !user) {
+      throw err instanceof Error ? err : new UnauthorizedException();
+    }
+
+    const { id, tokenId, apiKey, impersonator } =
+      user as unknown as AuthenticatedUser;
+    if (impersonator && tokenId) {
+      const request = context
+        .switchToHttp()
+        .getRequest<{ impersonation?: ImpersonationContext }>();
+      request.impersonation = { actorId: impersonator.id, userId: id, tokenId };
+    }
+
+    const noApiKey = this.reflector.getAllAndOverride<boolean>(NO_API_KEY_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (noApiKey && apiKey) {
+      throw new ForbiddenException('该接口不允许通过 API Key 访问');
+    }
+
+    const noImpersonation = this.reflector.getAllAndOverride<boolean>(
+      NO_IMPERSONATION_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (noImpersonation && impersonator) {
+      throw new ForbiddenException('模拟登录期间不允许执行该操作');
+    }
+
+    return user;
+  }
 }
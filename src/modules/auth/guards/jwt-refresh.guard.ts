@@ -0,0 +1,9 @@
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+/**
+ * JWT 刷新令牌守卫 - 使用 jwt-refresh 策略校验刷新令牌
+ * 刷新令牌可以通过请求体、X-Refresh-Token 请求头或 httpOnly Cookie 提交
+ */
+@Injectable()
+export class JwtRefreshGuard extends AuthGuard('jwt-refresh') {}
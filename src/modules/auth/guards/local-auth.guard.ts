@@ -0,0 +1,9 @@
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+/**
+ * 本地认证守卫 - 用于登录接口
+ * 继承自 Passport 的 AuthGuard，使用本地策略验证邮箱和密码
+ */
+@Injectable()
+export class LocalAuthGuard extends AuthGuard('local') {}
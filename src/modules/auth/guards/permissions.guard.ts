@@ -3,23 +3,31 @@ import {
   type CanActivate,
   type ExecutionContext,
 } from '@nestjs/common';
-import type { Reflector } from '@nestjs/core';
+import { Reflector } from '@nestjs/core';
 import { PERMISSIONS_KEY } from '../decorators/permissions.decorator';
+import { RbacService } from '../../rbac/rbac.service';
+import type { AuthenticatedUser } from '../interfaces/jwt-payload.interface';
 
 /**
  * 权限守卫 - 基于用户权限控制访问
  * 提供比角色更细粒度的权限控制
+ * 有效权限为角色（含继承）权限与用户直接授予权限的并集，支持 users:* 等通配符
+ * 在组织内访问时角色和直接授予的权限都取自成员记录
+ * 通过 API Key 访问时，所需权限还必须在密钥的授权范围内
  */
 @Injectable()
 export class PermissionsGuard implements CanActivate {
-  constructor(private reflector: Reflector) {}
+  constructor(
+    private reflector: Reflector,
+    private rbacService: RbacService,
+  ) {}
 
   /**
    * 判断用户是否具有所需权限
    * @param context 执行上下文
    * @returns 是否允许访问
    */
-  canActivate(context: ExecutionContext): boolean {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     // 获取路由或控制器上标记的所需权限
     const requiredPermissions = this.reflector.getAllAndOverride<string[]>(
       PERMISSIONS_KEY,
@@ -34,11 +42,23 @@ export class PermissionsGuard implements CanActivate {
     }
 
     // 从请求中获取用户信息
-    const { user } = context.switchToHttp().getRequest();
+    const { user } = context
+      .switchToHttp()
+      .getRequest<{ user?: AuthenticatedUser }>();
+    if (!user) {
+      return false;
+    }
+
+    // API Key 的授权范围不能超出所属用户的权限，两者取交集
+    const scopes = user.apiKey?.scopes;
+    if (
+      scopes &&
+      !this.rbacService.coversPermissions(scopes, requiredPermissions)
+    ) {
+      return false;
+    }
 
     // 检查用户是否拥有所有所需权限
-    return requiredPermissions.every((permission) =>
-      user.permissions?.includes(permission),
-    );
+    return this.rbacService.hasPermissions(user, requiredPermissions);
   }
 }
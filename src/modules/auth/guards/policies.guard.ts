@@ -0,0 +1,48 @@
+import {
+  Injectable,
+  type CanActivate,
+  type ExecutionContext,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { CHECK_POLICIES_KEY } from '../decorators/check-policies.decorator';
+import { AbilityFactory } from '../../rbac/ability/ability.factory';
+import type { Ability } from '../../rbac/ability/ability';
+import type { PolicyHandler } from '../../rbac/interfaces/ability.interface';
+import type { AuthenticatedUser } from '../interfaces/jwt-payload.interface';
+
+/**
+ * 策略守卫 - 基于资源属性控制访问（ABAC）
+ * 生成当前用户的访问能力并检查 @CheckPolicies() 标记的策略；
+ * 访问能力保存在 request.ability 中，供控制器按具体记录判断或转换为查询条件
+ */
+@Injectable()
+export class PoliciesGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private abilityFactory: AbilityFactory,
+  ) {}
+
+  /**
+   * 判断用户是否满足所有策略
+   * @param context 执行上下文
+   * @returns 是否允许访问
+   */
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const handlers =
+      this.reflector.getAllAndOverride<PolicyHandler[]>(CHECK_POLICIES_KEY, [
+        context.getHandler(), // 方法级别的装饰器
+        context.getClass(), // 类级别的装饰器
+      ]) ?? [];
+
+    const request = context
+      .switchToHttp()
+      .getRequest<{ user?: AuthenticatedUser; ability?: Ability }>();
+    if (!request.user) {
+      return false;
+    }
+
+    const ability = await this.abilityFactory.createForUser(request.user);
+    request.ability = ability;
+    return handlers.every((handler) => handler(ability));
+  }
+}
@@ -0,0 +1,76 @@
+import { Reflector } from '@nestjs/core';
+
+import { RecentAuthGuard } from './recent-auth.guard';
+import { WebAuthnController } from '../webauthn.controller';
+import { ReauthenticationRequiredException } from '../exceptions/reauthentication-required.exception';
+import { User } from '../../users/entities/user.entity';
+import type { AuthenticatedUser } from '../interfaces/jwt-payload.interface';
+import { createHttpContext } from '../../../testing/execution-context';
+
+describe('RecentAuthGuard', () => {
+  const now = new Date('2026-01-01T00:00:00Z');
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  let guard: RecentAuthGuard;
+  let headers: Record<string, string>;
+
+  // 访问令牌的认证时间在 secondsAgo 秒之前
+  const principal = (secondsAgo?: number): AuthenticatedUser =>
+    Object.assign(new User(), {
+      id: 'user-1',
+      authTime: secondsAgo === undefined ? undefined : nowSeconds - secondsAgo,
+    });
+
+  const canActivate = (
+    method: keyof WebAuthnController,
+    user: AuthenticatedUser,
+  ) =>
+    guard.canActivate(
+      createHttpContext(
+        WebAuthnController,
+        method,
+        { user },
+        {
+          setHeader: (name: string, value: string) => {
+            headers[name] = value;
+          },
+        },
+      ),
+    );
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+    guard = new RecentAuthGuard(new Reflector());
+    headers = {};
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe.each([
+    'registrationOptions',
+    'verifyRegistration',
+    'remove',
+  ] as const)('WebAuthnController.%s', (method) => {
+    it('accepts a token authenticated within five minutes', () => {
+      expect(canActivate(method, principal(60))).toBe(true);
+    });
+
+    it('rejects a token with a stale auth_time and asks for reauthentication', () => {
+      expect(() => canActivate(method, principal(10 * 60))).toThrow(
+        ReauthenticationRequiredException,
+      );
+      expect(headers['WWW-Authenticate']).toContain('max_age=300');
+    });
+
+    it('rejects a token without auth_time', () => {
+      expect(() => canActivate(method, principal())).toThrow(
+        ReauthenticationRequiredException,
+      );
+    });
+  });
+
+  it('does not require recent authentication for routes without the requirement', () => {
+    expect(canActivate('list', principal(10 * 60))).toBe(true);
+  });
+});
@@ -0,0 +1,62 @@
+import {
+  Injectable,
+  type CanActivate,
+  type ExecutionContext,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Response } from 'express';
+import { REQUIRE_RECENT_AUTH_KEY } from '../decorators/require-recent-auth.decorator';
+import { ReauthenticationRequiredException } from '../exceptions/reauthentication-required.exception';
+import type { AuthenticatedUser } from '../interfaces/jwt-payload.interface';
+
+/**
+ * 认证时效守卫 - 敏感操作要求访问令牌的认证时间（auth_time）足够近
+ * 登录或通过 /auth/reauthenticate 重新验证身份后得到的访问令牌满足要求；
+ * 不满足时按 RFC 9470 在 WWW-Authenticate 中返回 max_age，响应体 code 为 REAUTH_REQUIRED
+ * API Key 没有认证时间，始终不满足要求
+ */
+@Injectable()
+export class RecentAuthGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  /**
+   * 判断访问令牌的认证时间是否在要求的时效内
+   * @param context 执行上下文
+   * @returns 是否允许访问
+   * @throws ReauthenticationRequiredException 需要重新验证身份
+   */
+  canActivate(context: ExecutionContext): boolean {
+    const maxAge = this.reflector.getAllAndOverride<number>(
+      REQUIRE_RECENT_AUTH_KEY,
+      [
+        context.getHandler(), // 方法级别的装饰器
+        context.getClass(), // 类级别的装饰器
+      ],
+    );
+
+    if (maxAge === undefined) {
+      return true; // 没有时效要求，允许访问
+    }
+
+    const { user } = context
+      .switchToHttp()
+      .getRequest<{ user?: AuthenticatedUser }>();
+    if (!user) {
+      return false;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (user.authTime !== undefined && now - user.authTime <= maxAge) {
+      return true;
+    }
+
+    context
+      .switchToHttp()
+      .getResponse<Response>()
+      .setHeader(
+        'WWW-Authenticate',
+        `Bearer error="insufficient_user_authentication", error_description="A more recent authentication is required", max_age=${maxAge}`,
+      );
+    throw new ReauthenticationRequiredException(maxAge);
+  }
+}
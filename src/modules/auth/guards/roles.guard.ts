@@ -1,24 +1,34 @@
 import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { ROLES_KEY } from '../decorators/roles.decorator';
-import { UserRole } from '../../users/enums/user-role.enum';
+import { PLATFORM_ONLY_KEY } from '../decorators/platform-only.decorator';
+import { RbacService } from '../../rbac/rbac.service';
+import type { AuthenticatedUser } from '../interfaces/jwt-payload.interface';
 
 /**
  * 角色守卫 - 基于用户角色控制访问权限
  * 检查用户是否具有访问特定路由所需的角色
+ * 角色按继承关系展开，例如超级管理员同时满足 @Roles(UserRole.ADMIN)
+ * 通过 API Key 访问时，密钥的授权范围还必须覆盖所需角色（含继承）的全部权限，
+ * 例如只有 users:read 的密钥不能访问要求管理员角色的接口
+ * 在组织内访问时按成员记录中的角色判断，用户的全局角色不生效；
+ * 标记了 @PlatformOnly() 的接口始终按全局角色判断，成员角色不生效
  */
 @Injectable()
 export class RolesGuard implements CanActivate {
-  constructor(private reflector: Reflector) {}
+  constructor(
+    private reflector: Reflector,
+    private rbacService: RbacService,
+  ) {}
 
   /**
    * 判断用户是否具有所需角色
    * @param context 执行上下文
    * @returns 是否允许访问
    */
-  canActivate(context: ExecutionContext): boolean {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     // 获取路由或控制器上标记的所需角色
-    const requiredRoles = this.reflector.getAllAndOverride<UserRole[]>(
+    const requiredRoles = this.reflector.getAllAndOverride<string[]>(
       ROLES_KEY,
       [
         context.getHandler(), // 方法级别的装饰器
@@ -31,9 +41,35 @@ export class RolesGuard implements CanActivate {
     }
 
     // 从请求中获取用户信息（由 JWT 守卫注入）
-    const { user } = context.switchToHttp().getRequest();
+    const { user } = context
+      .switchToHttp()
+      .getRequest<{ user?: AuthenticatedUser }>();
+    if (!user) {
+      return false;
+    }
+
+    const platformOnly = this.reflector.getAllAndOverride<boolean>(
+      PLATFORM_ONLY_KEY,
+      [context.getHandler(), context.getClass()],
+    );
 
-    // 检查用户角色是否在所需角色列表中
-    return requiredRoles.some((role) => user.role === role);
+    // 检查用户的有效角色（含继承）是否包含任一所需角色，API Key 还需授权范围覆盖该角色的权限
+    const roles = await this.rbacService.getEffectiveRoles(
+      platformOnly ? { ...user, membership: undefined } : user,
+    );
+    const scopes = user.apiKey?.scopes;
+    for (const role of requiredRoles) {
+      if (
+        roles.has(role) &&
+        (!scopes ||
+          this.rbacService.coversPermissions(
+            scopes,
+            await this.rbacService.getRolePermissions(role),
+          ))
+      ) {
+        return true;
+      }
+    }
+    return false;
   }
 }
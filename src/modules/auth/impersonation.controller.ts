@@ -0,0 +1,78 @@
+import {
+  Controller,
+  Post,
+  Param,
+  ParseUUIDPipe,
+  UseGuards,
+  Headers,
+  Ip,
+  HttpCode,
+  HttpStatus,
+  Req,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import type { Request } from 'express';
+
+import { ImpersonationService } from './services/impersonation.service';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { Roles } from './decorators/roles.decorator';
+import { PlatformOnly } from './decorators/platform-only.decorator';
+import { NoApiKey } from './decorators/no-api-key.decorator';
+import { NoImpersonation } from './decorators/no-impersonation.decorator';
+import { ImpersonationResponseDto } from './dto/impersonation-response.dto';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { User } from '../users/entities/user.entity';
+import { UserRole } from '../users/enums/user-role.enum';
+
+/**
+ * 模拟登录控制器
+ * 路由挂在 /users 下，放在认证模块中是因为需要签发令牌，避免用户模块反向依赖认证模块
+ */
+@ApiTags('Users')
+@Controller('users') // 路由前缀 /users
+@UseGuards(JwtAuthGuard, RolesGuard)
+@NoApiKey() // 只能由管理员本人发起
+@NoImpersonation() // 不允许在模拟登录期间再次模拟
+@ApiBearerAuth()
+export class ImpersonationController {
+  constructor(private readonly impersonationService: ImpersonationService) {}
+
+  /**
+   * 模拟登录接口
+   * POST /users/:id/impersonate
+   * 签发以指定用户身份访问的短期令牌，期间的所有请求都会写入审计记录
+   */
+  @Post(':id/impersonate')
+  @HttpCode(HttpStatus.OK)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @PlatformOnly()
+  @ApiOperation({ summary: '模拟指定用户登录（仅管理员）' })
+  @ApiResponse({
+    status: 200,
+    description: '模拟登录令牌签发成功',
+    type: ImpersonationResponseDto,
+  })
+  @ApiResponse({ status: 403, description: '权限不足或不能模拟该用户' })
+  @ApiResponse({ status: 404, description: '用户不存在' })
+  async impersonate(
+    @CurrentUser() actor: User,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: Request,
+    @Headers('user-agent') userAgent: string,
+    @Ip() ipAddress: string,
+  ): Promise<ImpersonationResponseDto> {
+    return this.impersonationService.start(actor, id, {
+      method: req.method,
+      path: req.originalUrl.slice(0, 500),
+      statusCode: HttpStatus.OK,
+      ipAddress,
+      userAgent: userAgent?.slice(0, 500),
+    });
+  }
+}
@@ -0,0 +1,22 @@
+import type { JsonWebKey } from 'crypto';
+
+/**
+ * JWT 签名算法
+ */
+export type JwtSigningAlgorithm = 'RS256' | 'ES256';
+
+/**
+ * JWKS 中的公钥
+ */
+export interface PublicJwk extends JsonWebKey {
+  kid: string; // 密钥ID，对应 JWT 头部的 kid
+  alg: JwtSigningAlgorithm; // 签名算法
+  use: 'sig'; // 用途：签名
+}
+
+/**
+ * JSON Web Key Set（GET /.well-known/jwks.json 的响应）
+ */
+export interface JsonWebKeySet {
+  keys: PublicJwk[];
+}
@@ -0,0 +1,67 @@
+import type { User } from '../../users/entities/user.entity';
+import type { Membership } from '../../organizations/entities/membership.entity';
+
+/**
+ * JWT 载荷
+ */
+export interface JwtPayload {
+  sub: string; // 用户ID
+  email: string; // 用户邮箱
+  role: string; // 用户角色
+  permissions: string[]; // 用户权限列表
+  sid?: string; // 会话ID（对应刷新令牌记录）
+  jti?: string; // 令牌唯一ID，用于撤销单个令牌
+  act?: ImpersonationActor; // 模拟登录时的实际操作者（RFC 8693 actor 声明）
+  org?: string; // 当前所在的组织ID
+  auth_time?: number; // 用户完成认证的时间（秒级时间戳），重新验证身份后为验证时间
+  amr?: string[]; // 认证方式（RFC 8176），如 pwd、otp、mfa
+  iat?: number; // 签发时间（秒级时间戳）
+  exp?: number; // 过期时间（秒级时间戳）
+}
+
+/**
+ * 模拟登录令牌中的实际操作者
+ */
+export interface ImpersonationActor {
+  sub: string; // 操作者（管理员）用户ID
+  email: string; // 操作者邮箱
+}
+
+/**
+ * 通过 API Key 认证时附带的密钥信息
+ */
+export interface ApiKeyPrincipal {
+  id: string; // API Key ID
+  scopes: string[]; // 授权范围
+}
+
+/**
+ * 通过访问令牌或 API Key 认证后的用户（注入到 request.user）
+ */
+export type AuthenticatedUser = User & {
+  sessionId?: string; // 当前访问令牌所属的会话ID
+  tokenId?: string; // 当前访问令牌的 jti
+  tokenExpiresAt?: number; // 当前访问令牌的过期时间（秒级时间戳）
+  authTime?: number; // 当前访问令牌的认证时间（秒级时间戳）
+  amr?: string[]; // 当前访问令牌的认证方式
+  apiKey?: ApiKeyPrincipal; // 通过 API Key 认证时存在
+  impersonator?: User; // 模拟登录时的实际操作者（真实用户），此时 request.user 为被模拟的用户
+  membership?: Membership; // 在组织内访问时的成员记录，角色和权限以此为准
+};
+
+/**
+ * 模拟登录请求的审计信息（认证通过时注入到 request.impersonation）
+ * 请求之后即使被守卫拒绝，也按这里的信息写入审计记录
+ */
+export interface ImpersonationContext {
+  actorId: string; // 实际操作的管理员ID
+  userId: string; // 被模拟的用户ID
+  tokenId: string; // 模拟登录令牌的 jti
+}
+
+/**
+ * 通过刷新令牌认证后的用户（注入到 request.user）
+ */
+export type RefreshTokenUser = User & {
+  refreshToken: string; // 本次提交的刷新令牌
+};
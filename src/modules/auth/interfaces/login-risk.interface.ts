@@ -0,0 +1,26 @@
+import type { LoginRiskFactor } from '../enums/login-risk-factor.enum';
+
+/**
+ * IP 地址对应的地理位置，来自离线 GeoIP 数据库
+ */
+export interface GeoLocation {
+  country?: string; // 国家代码（ISO 3166-1），如 CN
+  city?: string; // 城市名称
+  latitude?: number; // 纬度
+  longitude?: number; // 经度
+}
+
+/**
+ * 登录风险评估结果
+ */
+export interface LoginRiskAssessment {
+  fingerprint: string; // 设备指纹（浏览器和网段的哈希）
+  userAgentFamily?: string; // 浏览器和操作系统，如 "Chrome on Windows"
+  ipAddress?: string; // 客户端IP地址
+  ipPrefix?: string; // 网段（IPv4 为 /24，IPv6 为 /48）
+  location: GeoLocation | null; // 地理位置，未配置 GeoIP 数据库或查不到时为 null
+  score: number; // 风险分数，各风险因素的权重之和
+  factors: LoginRiskFactor[]; // 命中的风险因素
+  notify: boolean; // 是否发送登录提醒邮件
+  requiresStepUp: boolean; // 是否需要邮箱验证码确认后才能签发令牌
+}
@@ -0,0 +1,33 @@
+/**
+ * 密码策略违规类型
+ */
+export type PasswordPolicyViolationCode =
+  | 'TOO_SHORT'
+  | 'TOO_LONG'
+  | 'MISSING_UPPERCASE'
+  | 'MISSING_LOWERCASE'
+  | 'MISSING_DIGIT'
+  | 'MISSING_SYMBOL'
+  | 'CONTAINS_PERSONAL_INFO'
+  | 'RECENTLY_USED'
+  | 'BREACHED';
+
+/**
+ * 密码策略违规原因
+ */
+export interface PasswordPolicyViolation {
+  code: PasswordPolicyViolationCode;
+  message: string;
+}
+
+/**
+ * 校验密码时用到的用户信息
+ * 注册时用户尚未创建，没有 id 和历史密码
+ */
+export interface PasswordPolicySubject {
+  id?: string;
+  email: string;
+  firstName?: string;
+  lastName?: string;
+  password?: string; // 当前密码哈希
+}
@@ -0,0 +1,9 @@
+/**
+ * 会话上下文 - 登录或刷新令牌时的客户端信息
+ */
+export interface SessionContext {
+  deviceName?: string; // 客户端上报的设备名称
+  userAgent?: string; // 客户端 User-Agent
+  ipAddress?: string; // 客户端IP地址
+  requestId?: string; // 请求ID（X-Request-ID），用于关联审计记录
+}
@@ -0,0 +1,48 @@
+/**
+ * 凭据描述，用于排除已注册的凭据或限定可用的凭据
+ */
+export interface WebAuthnCredentialDescriptor {
+  type: 'public-key';
+  id: string; // 凭据ID（base64url）
+  transports?: string[];
+}
+
+/**
+ * 注册选项，对应浏览器 PublicKeyCredentialCreationOptionsJSON
+ * 前端可通过 PublicKeyCredential.parseCreationOptionsFromJSON 转换后调用 navigator.credentials.create
+ */
+export interface WebAuthnRegistrationOptions {
+  challenge: string; // 挑战（base64url）
+  rp: { id: string; name: string };
+  user: { id: string; name: string; displayName: string }; // id 为用户ID的 base64url 编码
+  pubKeyCredParams: Array<{ type: 'public-key'; alg: number }>;
+  timeout: number; // 毫秒
+  attestation: 'none';
+  excludeCredentials: WebAuthnCredentialDescriptor[];
+  authenticatorSelection: {
+    residentKey: 'required' | 'preferred' | 'discouraged';
+    userVerification: 'required' | 'preferred' | 'discouraged';
+  };
+}
+
+/**
+ * 登录选项，对应浏览器 PublicKeyCredentialRequestOptionsJSON
+ * 不限定凭据，由认证器列出可用的通行密钥（可发现凭据）
+ */
+export interface WebAuthnAuthenticationOptions {
+  challenge: string; // 挑战（base64url）
+  rpId: string;
+  timeout: number; // 毫秒
+  userVerification: 'required';
+  allowCredentials: WebAuthnCredentialDescriptor[];
+}
+
+/**
+ * 客户端数据（clientDataJSON 解码后的内容）
+ */
+export interface WebAuthnClientData {
+  type: string; // webauthn.create 或 webauthn.get
+  challenge: string;
+  origin: string;
+  crossOrigin?: boolean;
+}
@@ -0,0 +1,209 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  Headers,
+  Ip,
+  Res,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import type { Response } from 'express';
+
+import { AuthService } from './auth.service';
+import { InvitationService } from './services/invitation.service';
+import { RefreshTokenCookieService } from './services/refresh-token-cookie.service';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
+import { Roles } from './decorators/roles.decorator';
+import { PlatformOnly } from './decorators/platform-only.decorator';
+import { NoImpersonation } from './decorators/no-impersonation.decorator';
+import { Invitation } from './entities/invitation.entity';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+import { AcceptInvitationDto } from './dto/accept-invitation.dto';
+import { QueryInvitationsDto } from './dto/query-invitations.dto';
+import {
+  InvitationListResponseDto,
+  InvitationPreviewDto,
+  InvitationResponseDto,
+} from './dto/invitation-response.dto';
+import { AuthResponseDto } from './dto/auth-response.dto';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { User } from '../users/entities/user.entity';
+import { UserRole } from '../users/enums/user-role.enum';
+import { RequestAuditContext } from '../audit/decorators/request-audit-context.decorator';
+import type { AuditContext } from '../audit/interfaces/audit.interface';
+
+/**
+ * 注册邀请控制器
+ * 管理员创建、查询和撤销邀请；受邀者通过邮件中的令牌预览邀请并设置密码完成注册
+ */
+@ApiTags('Invitations')
+@Controller('invitations') // 路由前缀 /invitations
+export class InvitationsController {
+  constructor(
+    private readonly invitationService: InvitationService,
+    private readonly authService: AuthService,
+    private readonly refreshTokenCookieService: RefreshTokenCookieService,
+  ) {}
+
+  /**
+   * 创建邀请
+   * POST /invitations
+   */
+  @Post()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @PlatformOnly()
+  @NoImpersonation()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '邀请用户注册（仅管理员）' })
+  @ApiResponse({
+    status: 201,
+    description: '邀请已发送',
+    type: InvitationResponseDto,
+  })
+  @ApiResponse({ status: 403, description: '预设的角色或权限超出自己的权限' })
+  @ApiResponse({ status: 409, description: '该邮箱已被注册' })
+  async create(
+    @CurrentUser() user: User,
+    @Body() createInvitationDto: CreateInvitationDto,
+    @RequestAuditContext() context: AuditContext,
+  ): Promise<InvitationResponseDto> {
+    const invitation = await this.invitationService.create(
+      createInvitationDto,
+      user,
+      context,
+    );
+    return this.toResponse(invitation);
+  }
+
+  /**
+   * 查询邀请
+   * GET /invitations?status=pending&page=1&limit=20
+   */
+  @Get()
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @PlatformOnly()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '查询邀请（仅管理员）' })
+  @ApiResponse({
+    status: 200,
+    description: '查询成功',
+    type: InvitationListResponseDto,
+  })
+  async find(
+    @Query() query: QueryInvitationsDto,
+  ): Promise<InvitationListResponseDto> {
+    const { invitations, total } = await this.invitationService.find(query);
+    return {
+      invitations: invitations.map((invitation) => this.toResponse(invitation)),
+      total,
+    };
+  }
+
+  /**
+   * 撤销邀请
+   * DELETE /invitations/:id
+   */
+  @Delete(':id')
+  @UseGuards(JwtAuthGuard, RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @PlatformOnly()
+  @NoImpersonation()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '撤销邀请（仅管理员）' })
+  @ApiResponse({
+    status: 200,
+    description: '撤销成功',
+    type: InvitationResponseDto,
+  })
+  @ApiResponse({ status: 400, description: '只能撤销待接受的邀请' })
+  @ApiResponse({ status: 404, description: '邀请不存在' })
+  async revoke(
+    @Param('id', ParseUUIDPipe) id: string,
+    @RequestAuditContext() context: AuditContext,
+  ): Promise<InvitationResponseDto> {
+    const invitation = await this.invitationService.revoke(id, context);
+    return this.toResponse(invitation);
+  }
+
+  /**
+   * 预览邀请
+   * GET /invitations/:token
+   */
+  @Get(':token')
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // 限流：每分钟最多10次，防止暴力猜测令牌
+  @ApiOperation({ summary: '预览邀请' })
+  @ApiResponse({
+    status: 200,
+    description: '邀请有效',
+    type: InvitationPreviewDto,
+  })
+  @ApiResponse({ status: 404, description: '邀请不存在或已失效' })
+  async preview(@Param('token') token: string): Promise<InvitationPreviewDto> {
+    return this.invitationService.preview(token);
+  }
+
+  /**
+   * 接受邀请
+   * POST /invitations/:token/accept
+   * 设置密码并创建账户，成功后直接登录
+   */
+  @Post(':token/accept')
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({ summary: '接受邀请并创建账户' })
+  @ApiResponse({
+    status: 201,
+    description: '账户创建成功',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({ status: 404, description: '邀请不存在或已失效' })
+  @ApiResponse({ status: 409, description: '该邮箱已被注册' })
+  async accept(
+    @Param('token') token: string,
+    @Body() acceptInvitationDto: AcceptInvitationDto,
+    @Headers('user-agent') userAgent: string,
+    @Headers('x-request-id') requestId: string,
+    @Ip() ipAddress: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<AuthResponseDto> {
+    const authResponse = await this.authService.acceptInvitation(
+      token,
+      acceptInvitationDto,
+      { userAgent, ipAddress, requestId },
+    );
+    return this.refreshTokenCookieService.apply(res, authResponse);
+  }
+
+  /**
+   * 转换为邀请响应
+   */
+  private toResponse(invitation: Invitation): InvitationResponseDto {
+    return {
+      id: invitation.id,
+      email: invitation.email,
+      role: invitation.role,
+      permissions: invitation.permissions ?? [],
+      status: invitation.currentStatus,
+      invitedById: invitation.invitedById,
+      expiresAt: invitation.expiresAt,
+      acceptedAt: invitation.acceptedAt,
+      acceptedUserId: invitation.acceptedUserId,
+      revokedAt: invitation.revokedAt,
+      createdAt: invitation.createdAt,
+    };
+  }
+}
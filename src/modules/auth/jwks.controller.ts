@@ -0,0 +1,29 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { SkipThrottle } from '@nestjs/throttler';
+
+import { JwtKeyService } from './services/jwt-key.service';
+import type { JsonWebKeySet } from './interfaces/jwks.interface';
+
+/**
+ * JWKS 控制器 - 公开访问令牌的验签公钥
+ * 路由不带全局前缀，固定为 /.well-known/jwks.json
+ */
+@ApiTags('Authentication')
+@Controller('.well-known')
+@SkipThrottle() // 其他服务会频繁拉取，不参与限流
+export class JwksController {
+  constructor(private readonly jwtKeyService: JwtKeyService) {}
+
+  /**
+   * 获取 JWKS 接口
+   * GET /.well-known/jwks.json
+   */
+  @Get('jwks.json')
+  @Header('Cache-Control', 'public, max-age=300') // 允许缓存5分钟
+  @ApiOperation({ summary: '获取访问令牌的验签公钥（JWKS）' })
+  @ApiResponse({ status: 200, description: 'JSON Web Key Set' })
+  async getJwks(): Promise<JsonWebKeySet> {
+    return this.jwtKeyService.getJwks();
+  }
+}
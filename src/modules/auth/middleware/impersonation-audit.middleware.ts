@@ -0,0 +1,49 @@
+import { Injectable, Logger, type NestMiddleware } from '@nestjs/common';
+import type { Request, Response, NextFunction } from 'express';
+
+import { ImpersonationService } from '../services/impersonation.service';
+import type { ImpersonationContext } from '../interfaces/jwt-payload.interface';
+
+/**
+ * 模拟登录审计中间件（全局）
+ * 模拟登录期间的每个请求在响应完成后写入审计记录，包括被守卫拒绝和处理失败的请求；
+ * 请求是否属于模拟登录由 JWT 认证守卫在认证通过时登记
+ */
+@Injectable()
+export class ImpersonationAuditMiddleware implements NestMiddleware {
+  private readonly logger = new Logger(ImpersonationAuditMiddleware.name);
+
+  constructor(private readonly impersonationService: ImpersonationService) {}
+
+  use(
+    req: Request & { impersonation?: ImpersonationContext },
+    res: Response,
+    next: NextFunction,
+  ) {
+    res.on('finish', () => {
+      const { impersonation } = req;
+      if (!impersonation) {
+        return;
+      }
+
+      // 审计写入失败不影响请求本身
+      this.impersonationService
+        .recordRequest(
+          impersonation.actorId,
+          impersonation.userId,
+          impersonation.tokenId,
+          {
+            method: req.method,
+            path: req.originalUrl.slice(0, 500),
+            statusCode: res.statusCode,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent')?.slice(0, 500),
+          },
+        )
+        .catch((error: Error) =>
+          this.logger.error('写入模拟登录审计记录失败', error.message),
+        );
+    });
+    next();
+  }
+}
@@ -0,0 +1,173 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { ApiKey } from '../entities/api-key.entity';
+import { CreateApiKeyDto } from '../dto/create-api-key.dto';
+import { UsersService } from '../../users/users.service';
+import type { User } from '../../users/entities/user.entity';
+
+// API Key 前缀标识，便于在日志和代码仓库扫描中识别泄露的密钥
+const API_KEY_TAG = 'sk';
+
+// API Key 格式：sk_<8位十六进制前缀>_<base64url 随机密钥>
+const API_KEY_PATTERN = /^sk_([0-9a-f]{8})_([A-Za-z0-9_-]{32})$/;
+
+// 最近使用时间的最小更新间隔（毫秒），避免每个请求都写数据库
+const LAST_USED_UPDATE_INTERVAL = 60 * 1000;
+
+/**
+ * API Key 服务 - 为机器客户端签发和校验长期凭据
+ * 密钥只在创建时返回一次，数据库中只保存 SHA-256 哈希
+ * 通过 API Key 访问时的权限为所属用户权限与密钥授权范围的交集
+ */
+@Injectable()
+export class ApiKeyService {
+  private readonly logger = new Logger(ApiKeyService.name);
+
+  constructor(
+    @InjectRepository(ApiKey)
+    private readonly apiKeyRepository: Repository<ApiKey>, // API Key 仓库
+    private readonly usersService: UsersService, // 用户服务
+  ) {}
+
+  /**
+   * 创建 API Key
+   * @param user 所属用户
+   * @param createApiKeyDto 名称、授权范围和过期时间
+   * @returns 保存的记录和完整密钥（完整密钥不会再次返回）
+   */
+  async create(
+    user: User,
+    createApiKeyDto: CreateApiKeyDto,
+  ): Promise<{ apiKey: ApiKey; key: string }> {
+    const expiresAt = createApiKeyDto.expiresAt
+      ? new Date(createApiKeyDto.expiresAt)
+      : null;
+    if (expiresAt && expiresAt <= new Date()) {
+      throw new BadRequestException('过期时间必须晚于当前时间');
+    }
+
+    const prefix = randomBytes(4).toString('hex');
+    const key = `${API_KEY_TAG}_${prefix}_${randomBytes(24).toString('base64url')}`;
+
+    const apiKey = await this.apiKeyRepository.save(
+      this.apiKeyRepository.create({
+        userId: user.id,
+        name: createApiKeyDto.name,
+        prefix,
+        secretHash: this.hashKey(key),
+        scopes: [...new Set(createApiKeyDto.scopes)],
+        expiresAt,
+      }),
+    );
+
+    this.logger.log(`用户 ${user.id} 创建了 API Key ${prefix}`);
+    return { apiKey, key };
+  }
+
+  /**
+   * 获取用户的全部 API Key
+   * @param userId 用户ID
+   */
+  async list(userId: string): Promise<ApiKey[]> {
+    return this.apiKeyRepository.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * 撤销 API Key
+   * @param userId 用户ID
+   * @param id API Key ID
+   * @throws API Key 不存在或不属于当前用户时抛出未找到异常
+   */
+  async revoke(userId: string, id: string): Promise<void> {
+    const result = await this.apiKeyRepository.delete({ id, userId });
+    if (!result.affected) {
+      throw new NotFoundException('API Key 不存在');
+    }
+    this.logger.log(`用户 ${userId} 撤销了 API Key ${id}`);
+  }
+
+  /**
+   * 校验 API Key
+   * @param key 客户端提交的完整密钥
+   * @param ipAddress 客户端IP地址
+   * @returns 校验通过时返回密钥记录和所属用户，否则返回 null
+   */
+  async authenticate(
+    key: string,
+    ipAddress?: string,
+  ): Promise<{ apiKey: ApiKey; user: User } | null> {
+    const match = API_KEY_PATTERN.exec(key);
+    if (!match) {
+      return null;
+    }
+
+    const apiKey = await this.apiKeyRepository.findOne({
+      where: { prefix: match[1] },
+    });
+    if (!apiKey || !this.isMatchingKey(apiKey, key)) {
+      return null;
+    }
+
+    // 检查是否已过期
+    if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) {
+      return null;
+    }
+
+    // 所属用户被禁用后，其 API Key 同样不可用
+    const user = await this.usersService.findById(apiKey.userId);
+    if (!user || !user.isActive) {
+      return null;
+    }
+
+    await this.touch(apiKey, ipAddress);
+    return { apiKey, user };
+  }
+
+  /**
+   * 更新最近使用信息，一分钟内最多更新一次
+   */
+  private async touch(apiKey: ApiKey, ipAddress?: string): Promise<void> {
+    const now = new Date();
+    if (
+      apiKey.lastUsedAt &&
+      now.getTime() - apiKey.lastUsedAt.getTime() < LAST_USED_UPDATE_INTERVAL &&
+      apiKey.lastUsedIp === ipAddress
+    ) {
+      return;
+    }
+
+    await this.apiKeyRepository.update(apiKey.id, {
+      lastUsedAt: now,
+      lastUsedIp: ipAddress,
+    });
+  }
+
+  /**
+   * 使用常量时间比较密钥哈希，防止时序攻击
+   */
+  private isMatchingKey(apiKey: ApiKey, key: string): boolean {
+    const expected = Buffer.from(apiKey.secretHash, 'hex');
+    const actual = Buffer.from(this.hashKey(key), 'hex');
+    return (
+      expected.length === actual.length && timingSafeEqual(expected, actual)
+    );
+  }
+
+  /**
+   * 计算密钥的 SHA-256 哈希
+   */
+  private hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+}
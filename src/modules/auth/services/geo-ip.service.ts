@@ -0,0 +1,82 @@
+import { Injectable, Logger, type OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFileSync } from 'fs';
+
+import { MmdbReader, isMap, type MmdbValue } from '../utils/mmdb.util';
+import type { GeoLocation } from '../interfaces/login-risk.interface';
+
+/**
+ * GeoIP 服务 - 使用离线数据库（如 GeoLite2-City.mmdb）查询 IP 所在位置
+ * 通过 GEOIP_DATABASE_PATH 指定数据库文件，未配置或加载失败时所有查询返回 null
+ */
+@Injectable()
+export class GeoIpService implements OnModuleInit {
+  private readonly logger = new Logger(GeoIpService.name);
+  private reader: MmdbReader | null = null;
+
+  constructor(
+    private readonly configService: ConfigService, // 配置服务
+  ) {}
+
+  /**
+   * 启动时把数据库文件读入内存
+   */
+  onModuleInit(): void {
+    const path = this.configService.get<string>('GEOIP_DATABASE_PATH');
+    if (!path) {
+      return;
+    }
+
+    try {
+      this.reader = new MmdbReader(readFileSync(path));
+      this.logger.log(`已加载 GeoIP 数据库: ${path}`);
+    } catch (error) {
+      this.logger.warn(
+        `加载 GeoIP 数据库失败，不进行异地登录检测: ${path}`,
+        (error as Error).message,
+      );
+    }
+  }
+
+  /**
+   * 查询 IP 所在位置
+   * @param ip IP地址
+   * @returns 位置信息，未加载数据库、内网地址或查不到时返回 null
+   */
+  lookup(ip?: string): GeoLocation | null {
+    if (!this.reader || !ip) {
+      return null;
+    }
+
+    let record: MmdbValue | null;
+    try {
+      record = this.reader.lookup(ip);
+    } catch (error) {
+      this.logger.warn(`GeoIP 查询失败: ${ip}`, (error as Error).message);
+      return null;
+    }
+    if (!isMap(record)) {
+      return null;
+    }
+
+    const location = isMap(record.location) ? record.location : {};
+    const country = isMap(record.country) ? record.country : {};
+    const cityNames =
+      isMap(record.city) && isMap(record.city.names) ? record.city.names : {};
+
+    return {
+      country: asString(country.iso_code),
+      city: asString(cityNames['zh-CN']) ?? asString(cityNames.en),
+      latitude: asNumber(location.latitude),
+      longitude: asNumber(location.longitude),
+    };
+  }
+}
+
+function asString(value: MmdbValue | undefined): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function asNumber(value: MmdbValue | undefined): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
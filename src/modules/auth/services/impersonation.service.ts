@@ -0,0 +1,151 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomUUID } from 'crypto';
+
+import { ImpersonationLog } from '../entities/impersonation-log.entity';
+import { TokenService } from './token.service';
+import { UsersService } from '../../users/users.service';
+import { RbacService } from '../../rbac/rbac.service';
+import { User } from '../../users/entities/user.entity';
+import { UserRole } from '../../users/enums/user-role.enum';
+import { ImpersonationResponseDto } from '../dto/impersonation-response.dto';
+import type { JwtPayload } from '../interfaces/jwt-payload.interface';
+
+/**
+ * 请求信息（写入审计记录）
+ */
+export interface ImpersonationRequestInfo {
+  method: string;
+  path: string;
+  statusCode?: number;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * 模拟登录服务 - 管理员以指定用户身份查看系统，便于排查问题
+ * 签发带 act 声明的短期访问令牌（IMPERSONATION_EXPIRES_IN，默认10分钟），不创建会话、不签发刷新令牌；
+ * 发起和模拟期间的每个请求都写入审计记录
+ */
+@Injectable()
+export class ImpersonationService {
+  private readonly logger = new Logger(ImpersonationService.name);
+
+  constructor(
+    @InjectRepository(ImpersonationLog)
+    private readonly impersonationLogRepository: Repository<ImpersonationLog>, // 审计记录仓库
+    private readonly usersService: UsersService, // 用户服务
+    private readonly rbacService: RbacService, // 角色权限服务
+    private readonly tokenService: TokenService, // 令牌服务
+    private readonly configService: ConfigService, // 配置服务
+  ) {}
+
+  /**
+   * 开始模拟登录
+   * 只有平台管理员可以发起（按全局角色判断，组织内的成员角色不生效），
+   * 不能模拟自己、已停用的用户或管理员（管理员不能管理其他管理员）
+   * @param actor 发起模拟的管理员
+   * @param userId 被模拟的用户ID
+   * @param request 发起请求的信息
+   */
+  async start(
+    actor: User,
+    userId: string,
+    request: ImpersonationRequestInfo,
+  ): Promise<ImpersonationResponseDto> {
+    const actorRoles = await this.rbacService.getEffectiveRoles({
+      ...actor,
+      membership: undefined,
+    });
+    if (!actorRoles.has(UserRole.ADMIN)) {
+      throw new ForbiddenException('只有平台管理员可以模拟登录');
+    }
+    if (actor.id === userId) {
+      throw new BadRequestException('不能模拟自己');
+    }
+
+    const user = await this.usersService.findById(userId);
+    if (!user) {
+      throw new NotFoundException('用户不存在');
+    }
+    if (!user.isActive) {
+      throw new BadRequestException('不能模拟已停用的用户');
+    }
+    const roles = await this.rbacService.getEffectiveRoles(user);
+    if (roles.has(UserRole.ADMIN)) {
+      throw new ForbiddenException('不能模拟管理员账户');
+    }
+
+    const tokenId = randomUUID();
+    const expiresIn = this.configService.get<string>(
+      'IMPERSONATION_EXPIRES_IN',
+      '10m',
+    );
+    const payload: JwtPayload = {
+      sub: user.id,
+      email: user.email,
+      role: user.role,
+      permissions: user.permissions || [],
+      jti: tokenId,
+      act: { sub: actor.id, email: actor.email }, // 实际操作者
+    };
+    const accessToken = await this.tokenService.generateAccessToken(
+      payload,
+      expiresIn,
+    );
+
+    await this.impersonationLogRepository.save(
+      this.impersonationLogRepository.create({
+        actorId: actor.id,
+        userId: user.id,
+        tokenId,
+        event: 'start',
+        ...request,
+      }),
+    );
+    this.logger.warn(`管理员 ${actor.id} 开始模拟用户 ${user.id}`);
+
+    return {
+      accessToken,
+      expiresIn,
+      user: {
+        id: user.id,
+        email: user.email,
+        fullName: user.fullName,
+        role: user.role,
+      },
+    };
+  }
+
+  /**
+   * 记录模拟登录期间的请求
+   * @param actorId 实际操作的管理员ID
+   * @param userId 被模拟的用户ID
+   * @param tokenId 模拟登录令牌的 jti
+   * @param request 请求信息
+   */
+  async recordRequest(
+    actorId: string,
+    userId: string,
+    tokenId: string,
+    request: ImpersonationRequestInfo,
+  ): Promise<void> {
+    await this.impersonationLogRepository.save(
+      this.impersonationLogRepository.create({
+        actorId,
+        userId,
+        tokenId,
+        event: 'request',
+        ...request,
+      }),
+    );
+  }
+}
@@ -0,0 +1,173 @@
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+import { InvitationService } from './invitation.service';
+import { Invitation } from '../entities/invitation.entity';
+import { InvitationStatus } from '../enums/invitation-status.enum';
+import { User } from '../../users/entities/user.entity';
+import { UserRole } from '../../users/enums/user-role.enum';
+import { UsersService } from '../../users/users.service';
+import { RbacService } from '../../rbac/rbac.service';
+import { EmailService } from '../../email/email.service';
+import { AuditService } from '../../audit/audit.service';
+import { InMemoryRepository } from '../../../testing/in-memory-repository';
+import { createRbacService } from '../../../testing/rbac';
+
+describe('InvitationService', () => {
+  let service: InvitationService;
+  let rbacService: RbacService;
+  let repository: InMemoryRepository<Invitation>;
+  let sentTokens: string[];
+
+  const userWithRole = (role: UserRole, permissions: string[] = []) =>
+    Object.assign(new User(), { id: `${role}-1`, role, permissions });
+
+  // 以指定邀请人创建邀请
+  const invite = (
+    inviter: User,
+    role?: UserRole,
+    permissions?: string[],
+    email = 'new@example.com',
+  ) => service.create({ email, role, permissions }, inviter);
+
+  beforeEach(async () => {
+    repository = new InMemoryRepository(Invitation);
+    rbacService = await createRbacService();
+    sentTokens = [];
+
+    service = new InvitationService(
+      repository.asRepository(),
+      {
+        assertOutsideTenant: () => undefined,
+        findByEmail: () => Promise.resolve(null),
+      } as unknown as UsersService,
+      rbacService,
+      {
+        sendInvitationEmail: (_email: string, token: string) => {
+          sentTokens.push(token);
+          return Promise.resolve(true);
+        },
+      } as unknown as EmailService,
+      { record: () => Promise.resolve() } as unknown as AuditService,
+      new ConfigService({ INVITATION_SECRET: 'invitation-secret' }),
+    );
+  });
+
+  describe('role grants', () => {
+    it('lets an admin invite a regular user or moderator', async () => {
+      const admin = userWithRole(UserRole.ADMIN);
+
+      await expect(invite(admin)).resolves.toMatchObject({
+        role: UserRole.USER,
+      });
+      await expect(
+        invite(admin, UserRole.MODERATOR, [], 'mod@example.com'),
+      ).resolves.toMatchObject({ role: UserRole.MODERATOR });
+    });
+
+    it('only lets a super admin invite an admin', async () => {
+      await expect(
+        invite(userWithRole(UserRole.ADMIN), UserRole.ADMIN),
+      ).rejects.toThrow('只有超级管理员可以邀请管理员');
+      await expect(
+        invite(userWithRole(UserRole.ADMIN), UserRole.SUPER_ADMIN),
+      ).rejects.toThrow(ForbiddenException);
+
+      await expect(
+        invite(userWithRole(UserRole.SUPER_ADMIN), UserRole.ADMIN),
+      ).resolves.toMatchObject({ role: UserRole.ADMIN });
+    });
+
+    it('does not let the inviter grant permissions they do not have', async () => {
+      const moderator = userWithRole(UserRole.MODERATOR);
+
+      await expect(
+        invite(moderator, UserRole.USER, ['users:delete']),
+      ).rejects.toThrow('不能授予自己没有的权限');
+      await expect(
+        invite(moderator, UserRole.USER, ['users:read']),
+      ).resolves.toMatchObject({ permissions: ['users:read'] });
+    });
+
+    it('counts permissions granted directly to the inviter', async () => {
+      const moderator = userWithRole(UserRole.MODERATOR, ['roles:*']);
+
+      await expect(
+        invite(moderator, UserRole.USER, ['roles:read']),
+      ).resolves.toBeDefined();
+    });
+
+    it('ignores the organization role of the inviter', async () => {
+      const inviter = Object.assign(userWithRole(UserRole.USER), {
+        membership: { role: UserRole.SUPER_ADMIN, permissions: ['*'] },
+      });
+
+      await expect(invite(inviter, UserRole.ADMIN)).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+
+  describe('tokens', () => {
+    it('finds the pending invitation by the emailed token', async () => {
+      const invitation = await invite(userWithRole(UserRole.ADMIN));
+
+      await expect(
+        service.findValidByToken(sentTokens[0]),
+      ).resolves.toMatchObject({ id: invitation.id, email: 'new@example.com' });
+    });
+
+    it('rejects a token with a tampered signature', async () => {
+      await invite(userWithRole(UserRole.ADMIN));
+      const [tokenId] = sentTokens[0].split('.');
+
+      await expect(
+        service.findValidByToken(`${tokenId}.${'A'.repeat(43)}`),
+      ).rejects.toThrow(NotFoundException);
+      await expect(service.findValidByToken(tokenId)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('revokes the earlier invitation when the same email is invited again', async () => {
+      const admin = userWithRole(UserRole.ADMIN);
+      await invite(admin);
+      await invite(admin);
+
+      await expect(service.findValidByToken(sentTokens[0])).rejects.toThrow(
+        '邀请不存在或已失效',
+      );
+      await expect(
+        service.findValidByToken(sentTokens[1]),
+      ).resolves.toBeDefined();
+      expect(repository.rows.map((row) => row.status)).toEqual([
+        InvitationStatus.REVOKED,
+        InvitationStatus.PENDING,
+      ]);
+    });
+
+    it('rejects an expired invitation', async () => {
+      const invitation = await invite(userWithRole(UserRole.ADMIN));
+      await repository.update(invitation.id, {
+        expiresAt: new Date(Date.now() - 1000),
+      });
+
+      await expect(service.findValidByToken(sentTokens[0])).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  it('refuses to start without a dedicated signing secret', () => {
+    const withoutSecret = new InvitationService(
+      repository.asRepository(),
+      {} as UsersService,
+      rbacService,
+      {} as EmailService,
+      {} as AuditService,
+      new ConfigService({ JWT_REFRESH_SECRET: 'refresh-secret' }),
+    );
+
+    expect(() => withoutSecret.onModuleInit()).toThrow('INVITATION_SECRET');
+  });
+});
@@ -0,0 +1,310 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  type OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  LessThanOrEqual,
+  MoreThan,
+  Repository,
+  type FindOptionsWhere,
+} from 'typeorm';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+import { Invitation } from '../entities/invitation.entity';
+import { InvitationStatus } from '../enums/invitation-status.enum';
+import { CreateInvitationDto } from '../dto/create-invitation.dto';
+import { QueryInvitationsDto } from '../dto/query-invitations.dto';
+import { InvitationPreviewDto } from '../dto/invitation-response.dto';
+import { UsersService } from '../../users/users.service';
+import { User } from '../../users/entities/user.entity';
+import { UserRole } from '../../users/enums/user-role.enum';
+import { RbacService } from '../../rbac/rbac.service';
+import { EmailService } from '../../email/email.service';
+import { AuditService } from '../../audit/audit.service';
+import { AuditAction } from '../../audit/enums/audit-action.enum';
+import type { AuditContext } from '../../audit/interfaces/audit.interface';
+
+/**
+ * 注册邀请服务 - 创建、撤销、查询和校验邀请
+ * 令牌格式与免密登录链接相同（<随机ID>.<HMAC 签名>），签名不正确的令牌不查询数据库；
+ * 同一邮箱只保留一个待接受的邀请，重新邀请会撤销之前的邀请
+ */
+@Injectable()
+export class InvitationService implements OnModuleInit {
+  private readonly logger = new Logger(InvitationService.name);
+
+  constructor(
+    @InjectRepository(Invitation)
+    private readonly invitationRepository: Repository<Invitation>, // 邀请仓库
+    private readonly usersService: UsersService, // 用户服务
+    private readonly rbacService: RbacService, // 角色权限服务
+    private readonly emailService: EmailService, // 邮件服务
+    private readonly auditService: AuditService, // 审计服务
+    private readonly configService: ConfigService, // 配置服务
+  ) {}
+
+  /**
+   * 启动时检查邀请令牌的签名密钥（INVITATION_SECRET），未配置时阻止启动
+   * 不与其他密钥共用，避免泄露其中一个后可以伪造另一种令牌
+   */
+  onModuleInit() {
+    this.configService.getOrThrow<string>('INVITATION_SECRET');
+  }
+
+  /**
+   * 邀请有效期（小时），默认72小时
+   */
+  get expiresInHours(): number {
+    return Number(this.configService.get('INVITATION_EXPIRES_HOURS', 72));
+  }
+
+  /**
+   * 创建邀请并发送邀请邮件
+   * @param createInvitationDto 受邀邮箱和预设的角色、权限
+   * @param inviter 邀请人
+   * @param context 审计上下文
+   * @throws ConflictException 邮箱已注册
+   * @throws ForbiddenException 预设的角色或权限超出邀请人的权限
+   */
+  async create(
+    createInvitationDto: CreateInvitationDto,
+    inviter: User,
+    context: AuditContext = {},
+  ): Promise<Invitation> {
+    this.usersService.assertOutsideTenant();
+
+    const { email } = createInvitationDto;
+    const role = createInvitationDto.role ?? UserRole.USER;
+    const permissions = createInvitationDto.permissions ?? [];
+
+    if (await this.usersService.findByEmail(email)) {
+      throw new ConflictException('该邮箱已被注册');
+    }
+    await this.assertGrantable(inviter, role, permissions);
+
+    await this.invitationRepository.update(
+      { email, status: InvitationStatus.PENDING },
+      { status: InvitationStatus.REVOKED, revokedAt: new Date() },
+    );
+
+    const tokenId = randomBytes(24).toString('base64url');
+    const invitation = await this.invitationRepository.save(
+      this.invitationRepository.create({
+        email,
+        tokenId,
+        role,
+        permissions,
+        invitedById: inviter.id,
+        expiresAt: new Date(Date.now() + this.expiresInHours * 3600000),
+      }),
+    );
+
+    await this.emailService.sendInvitationEmail(
+      email,
+      `${tokenId}.${this.sign(tokenId)}`,
+      inviter,
+      this.expiresInHours,
+    );
+    await this.auditService.record(
+      {
+        action: AuditAction.INVITATION_CREATED,
+        metadata: { invitationId: invitation.id, email, role, permissions },
+      },
+      context,
+    );
+
+    this.logger.log(`用户 ${inviter.id} 邀请了 ${email}`);
+    return invitation;
+  }
+
+  /**
+   * 分页查询邀请
+   * @param query 查询条件
+   */
+  async find(
+    query: QueryInvitationsDto,
+  ): Promise<{ invitations: Invitation[]; total: number }> {
+    this.usersService.assertOutsideTenant();
+
+    const { page = 1, limit = 20 } = query;
+    const where: FindOptionsWhere<Invitation> = { email: query.email };
+
+    // 过期状态不落库，按过期时间区分待接受和已过期
+    const now = new Date();
+    if (query.status === InvitationStatus.PENDING) {
+      where.status = InvitationStatus.PENDING;
+      where.expiresAt = MoreThan(now);
+    } else if (query.status === InvitationStatus.EXPIRED) {
+      where.status = InvitationStatus.PENDING;
+      where.expiresAt = LessThanOrEqual(now);
+    } else {
+      where.status = query.status;
+    }
+
+    const [invitations, total] = await this.invitationRepository.findAndCount({
+      where,
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+    return { invitations, total };
+  }
+
+  /**
+   * 撤销邀请
+   * @param id 邀请ID
+   * @param context 审计上下文
+   * @throws BadRequestException 邀请已接受、已撤销或已过期
+   */
+  async revoke(id: string, context: AuditContext = {}): Promise<Invitation> {
+    this.usersService.assertOutsideTenant();
+
+    const invitation = await this.invitationRepository.findOne({
+      where: { id },
+    });
+    if (!invitation) {
+      throw new NotFoundException('邀请不存在');
+    }
+    if (invitation.currentStatus !== InvitationStatus.PENDING) {
+      throw new BadRequestException('只能撤销待接受的邀请');
+    }
+
+    invitation.status = InvitationStatus.REVOKED;
+    invitation.revokedAt = new Date();
+    const saved = await this.invitationRepository.save(invitation);
+
+    await this.auditService.record(
+      {
+        action: AuditAction.INVITATION_REVOKED,
+        metadata: { invitationId: id, email: invitation.email },
+      },
+      context,
+    );
+    return saved;
+  }
+
+  /**
+   * 根据令牌查找待接受的邀请
+   * @param token 邀请令牌
+   * @throws NotFoundException 令牌无效，或邀请已接受、已撤销、已过期
+   */
+  async findValidByToken(token: string): Promise<Invitation> {
+    const tokenId = this.verify(token);
+    const invitation = tokenId
+      ? await this.invitationRepository.findOne({
+          where: { tokenId },
+          relations: ['invitedBy'],
+        })
+      : null;
+    if (invitation?.currentStatus !== InvitationStatus.PENDING) {
+      throw new NotFoundException('邀请不存在或已失效');
+    }
+    return invitation;
+  }
+
+  /**
+   * 预览邀请，供受邀者在设置密码前确认
+   * @param token 邀请令牌
+   */
+  async preview(token: string): Promise<InvitationPreviewDto> {
+    const invitation = await this.findValidByToken(token);
+    return {
+      email: invitation.email,
+      role: invitation.role,
+      inviterName: invitation.invitedBy?.fullName,
+      expiresAt: invitation.expiresAt,
+    };
+  }
+
+  /**
+   * 标记邀请已接受
+   * @param invitation 邀请
+   * @param userId 接受邀请后创建的用户ID
+   * @param context 审计上下文
+   */
+  async markAccepted(
+    invitation: Invitation,
+    userId: string,
+    context: AuditContext = {},
+  ): Promise<void> {
+    await this.invitationRepository.update(invitation.id, {
+      status: InvitationStatus.ACCEPTED,
+      acceptedAt: new Date(),
+      acceptedUserId: userId,
+    });
+    await this.auditService.record(
+      {
+        action: AuditAction.INVITATION_ACCEPTED,
+        targetId: userId,
+        metadata: {
+          invitationId: invitation.id,
+          invitedById: invitation.invitedById,
+          role: invitation.role,
+        },
+      },
+      { ...context, actorId: userId },
+    );
+  }
+
+  /**
+   * 邀请人只能授予自己拥有的权限，管理员角色只能由超级管理员邀请
+   */
+  private async assertGrantable(
+    inviter: User,
+    role: UserRole,
+    permissions: string[],
+  ): Promise<void> {
+    // 邀请创建的是平台账户，只按邀请人的全局角色和权限判断
+    const subject = { ...inviter, membership: undefined };
+    const inviterRoles = await this.rbacService.getEffectiveRoles(subject);
+    if (inviterRoles.has(UserRole.SUPER_ADMIN)) {
+      return;
+    }
+
+    const roles = await this.rbacService.expandRoles([role]);
+    if (roles.has(UserRole.ADMIN)) {
+      throw new ForbiddenException('只有超级管理员可以邀请管理员');
+    }
+    if (
+      permissions.length > 0 &&
+      !(await this.rbacService.hasPermissions(subject, permissions))
+    ) {
+      throw new ForbiddenException('不能授予自己没有的权限');
+    }
+  }
+
+  /**
+   * 校验令牌签名
+   * @returns 令牌ID，签名不正确时返回 null
+   */
+  private verify(token: string): string | null {
+    const [id, signature] = token.split('.');
+    if (!id || !signature) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(id));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length &&
+      timingSafeEqual(expected, actual)
+      ? id
+      : null;
+  }
+
+  /**
+   * 计算令牌ID的 HMAC 签名
+   */
+  private sign(id: string): string {
+    const secret = this.configService.getOrThrow<string>('INVITATION_SECRET');
+    return createHmac('sha256', secret)
+      .update(`invitation:${id}`)
+      .digest('base64url');
+  }
+}
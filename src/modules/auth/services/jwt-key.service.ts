@@ -0,0 +1,369 @@
+import {
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  type OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, LessThan, Repository } from 'typeorm';
+import {
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  randomBytes,
+  type KeyObject,
+} from 'crypto';
+import { readdirSync, readFileSync, statSync } from 'fs';
+import { basename, join } from 'path';
+
+import { SigningKey } from '../entities/signing-key.entity';
+import type {
+  JsonWebKeySet,
+  JwtSigningAlgorithm,
+  PublicJwk,
+} from '../interfaces/jwks.interface';
+
+/**
+ * 已加载到内存中的密钥
+ */
+interface LoadedKey {
+  kid: string;
+  algorithm: JwtSigningAlgorithm;
+  privateKey: string; // 未加密的 PKCS#8 PEM，仅在内存中保存
+  publicKey: KeyObject;
+  createdAt: Date;
+  expiresAt?: Date | null;
+}
+
+/**
+ * JWT 密钥服务 - 管理访问令牌的非对称签名密钥（RS256 / ES256）
+ * 密钥来源有两种：
+ * 1. 配置了 JWT_KEYS_DIR 时，从目录中的 <kid>.pem 私钥文件加载，轮换由运维替换文件完成
+ * 2. 否则自动生成并保存到数据库，按 JWT_KEY_ROTATION_DAYS 定期轮换，
+ *    旧密钥在 JWT_KEY_GRACE_PERIOD_HOURS 宽限期内仍用于验签，保证已签发的令牌不会立即失效
+ * 公钥通过 GET /.well-known/jwks.json 公开，其他服务无需持有密钥即可验证令牌
+ */
+@Injectable()
+export class JwtKeyService implements OnModuleInit {
+  private readonly logger = new Logger(JwtKeyService.name);
+  private readonly reloadInterval = 30 * 1000; // 数据库模式下最多每30秒重新加载一次
+  private keys = new Map<string, LoadedKey>();
+  private signingKey: LoadedKey | null = null;
+  private lastLoadedAt = 0;
+
+  constructor(
+    @InjectRepository(SigningKey)
+    private readonly signingKeyRepository: Repository<SigningKey>, // 签名密钥仓库
+    private readonly configService: ConfigService, // 配置服务
+  ) {}
+
+  async onModuleInit() {
+    // 文件模式下配置错误应直接阻止启动
+    if (this.keysDir) {
+      this.loadFromDirectory(this.keysDir);
+      return;
+    }
+
+    try {
+      await this.rotateKeys();
+    } catch (error) {
+      this.logger.error('初始化 JWT 签名密钥失败', (error as Error).message);
+    }
+  }
+
+  /**
+   * 获取当前用于签名的密钥
+   * @throws 没有可用密钥时抛出服务器内部错误
+   */
+  async getSigningKey(): Promise<{
+    kid: string;
+    algorithm: JwtSigningAlgorithm;
+    privateKey: string;
+  }> {
+    if (!this.signingKey && !this.keysDir) {
+      await this.rotateKeys();
+    }
+    if (!this.signingKey) {
+      throw new InternalServerErrorException('JWT 签名密钥不可用');
+    }
+    return this.signingKey;
+  }
+
+  /**
+   * 根据 kid 获取验签公钥
+   * 数据库模式下遇到未知 kid 时重新加载（可能是其他实例刚轮换出的新密钥）
+   * @param kid JWT 头部的密钥ID
+   * @returns 公钥和算法，密钥不存在或已过宽限期时返回 null
+   */
+  async getVerificationKey(
+    kid?: string,
+  ): Promise<{ publicKey: KeyObject; algorithm: JwtSigningAlgorithm } | null> {
+    if (!kid) {
+      return null;
+    }
+
+    if (!this.findUsableKey(kid) && this.isStale()) {
+      await this.loadFromDatabase();
+    }
+    return this.findUsableKey(kid);
+  }
+
+  /**
+   * 根据令牌头部的 kid 获取验签公钥
+   * @param token JWT 令牌
+   * @returns 公钥和算法，令牌格式错误或密钥不可用时返回 null
+   */
+  async getVerificationKeyForToken(
+    token: string,
+  ): Promise<{ publicKey: KeyObject; algorithm: JwtSigningAlgorithm } | null> {
+    let kid: string | undefined;
+    try {
+      const header = JSON.parse(
+        Buffer.from(token.split('.')[0], 'base64url').toString(),
+      ) as { kid?: unknown };
+      kid = typeof header.kid === 'string' ? header.kid : undefined;
+    } catch {
+      return null; // 头部无法解析，视为无效令牌
+    }
+    return this.getVerificationKey(kid);
+  }
+
+  /**
+   * 获取 JWKS（所有仍可用于验签的公钥）
+   */
+  async getJwks(): Promise<JsonWebKeySet> {
+    if (this.isStale()) {
+      await this.loadFromDatabase();
+    }
+
+    const keys: PublicJwk[] = [];
+    for (const key of this.keys.values()) {
+      if (this.findUsableKey(key.kid)) {
+        keys.push({
+          ...key.publicKey.export({ format: 'jwk' }),
+          kid: key.kid,
+          alg: key.algorithm,
+          use: 'sig',
+        });
+      }
+    }
+    return { keys };
+  }
+
+  /**
+   * 定时轮换密钥（每小时检查一次）
+   * 当前签名密钥超过轮换周期时生成新密钥，并清理已过宽限期的旧密钥
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async handleScheduledRotation() {
+    if (this.keysDir) {
+      return; // 文件模式下不自动轮换
+    }
+
+    try {
+      await this.rotateKeys();
+    } catch (error) {
+      this.logger.error('轮换 JWT 签名密钥失败', (error as Error).message);
+    }
+  }
+
+  /**
+   * 检查并轮换数据库中的密钥
+   */
+  private async rotateKeys(): Promise<void> {
+    const now = new Date();
+
+    // 清理已过宽限期的密钥
+    await this.signingKeyRepository.delete({ expiresAt: LessThan(now) });
+
+    const active = await this.signingKeyRepository.findOne({
+      where: { retiredAt: IsNull() },
+      order: { createdAt: 'DESC' },
+    });
+    const rotationDays = Number(
+      this.configService.get('JWT_KEY_ROTATION_DAYS', 30),
+    );
+    const isDue =
+      !active ||
+      now.getTime() - active.createdAt.getTime() >=
+        rotationDays * 24 * 60 * 60 * 1000;
+
+    if (isDue) {
+      const created = await this.signingKeyRepository.save(this.generateKey());
+
+      // 只退役比新密钥更早的密钥，多个实例同时轮换时不会互相退役对方的新密钥
+      const graceHours = Number(
+        this.configService.get('JWT_KEY_GRACE_PERIOD_HOURS', 24),
+      );
+      await this.signingKeyRepository.update(
+        { retiredAt: IsNull(), createdAt: LessThan(created.createdAt) },
+        {
+          retiredAt: now,
+          expiresAt: new Date(now.getTime() + graceHours * 60 * 60 * 1000),
+        },
+      );
+      this.logger.log(`已生成新的 JWT 签名密钥 ${created.kid}`);
+    }
+
+    await this.loadFromDatabase();
+  }
+
+  /**
+   * 从数据库加载所有未过宽限期的密钥
+   */
+  private async loadFromDatabase(): Promise<void> {
+    const records = await this.signingKeyRepository.find({
+      order: { createdAt: 'ASC' },
+    });
+
+    const keys = new Map<string, LoadedKey>();
+    let signingKey: LoadedKey | null = null;
+    for (const record of records) {
+      const key: LoadedKey = {
+        kid: record.kid,
+        algorithm: record.algorithm as JwtSigningAlgorithm,
+        privateKey: this.decryptPrivateKey(record.privateKey),
+        publicKey: createPublicKey(record.publicKey),
+        createdAt: record.createdAt,
+        expiresAt: record.expiresAt,
+      };
+      keys.set(key.kid, key);
+      if (!record.retiredAt) {
+        signingKey = key; // 按创建时间升序，最后一个未退役的密钥用于签名
+      }
+    }
+
+    this.keys = keys;
+    this.signingKey = signingKey;
+    this.lastLoadedAt = Date.now();
+  }
+
+  /**
+   * 从目录加载 PEM 私钥文件，文件名（不含扩展名）作为 kid
+   * 签名密钥为 JWT_ACTIVE_KEY_ID 指定的密钥，未指定时使用最近修改的文件
+   */
+  private loadFromDirectory(dir: string): void {
+    const files = readdirSync(dir)
+      .filter((file) => file.endsWith('.pem'))
+      .map((file) => join(dir, file))
+      .sort((a, b) => statSync(a).mtimeMs - statSync(b).mtimeMs);
+
+    for (const file of files) {
+      const privateKey = createPrivateKey({
+        key: readFileSync(file),
+        passphrase: this.passphrase,
+      });
+      const kid = basename(file, '.pem');
+      this.keys.set(kid, {
+        kid,
+        algorithm: this.resolveAlgorithm(privateKey),
+        privateKey: privateKey
+          .export({ type: 'pkcs8', format: 'pem' })
+          .toString(),
+        publicKey: createPublicKey(privateKey),
+        createdAt: statSync(file).mtime,
+      });
+    }
+
+    const activeKeyId = this.configService.get<string>('JWT_ACTIVE_KEY_ID');
+    this.signingKey = activeKeyId
+      ? (this.keys.get(activeKeyId) ?? null)
+      : ([...this.keys.values()].pop() ?? null);
+    if (!this.signingKey) {
+      throw new Error(`JWT_KEYS_DIR ${dir} 中没有可用的签名密钥`);
+    }
+    this.logger.log(
+      `已从 ${dir} 加载 ${this.keys.size} 个 JWT 密钥，当前签名密钥 ${this.signingKey.kid}`,
+    );
+  }
+
+  /**
+   * 生成新的密钥对
+   */
+  private generateKey(): SigningKey {
+    const algorithm = this.configService.get<JwtSigningAlgorithm>(
+      'JWT_ALGORITHM',
+      'RS256',
+    );
+    const { privateKey, publicKey } =
+      algorithm === 'ES256'
+        ? generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+        : generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+    return this.signingKeyRepository.create({
+      kid: randomBytes(8).toString('hex'),
+      algorithm,
+      // 配置了口令时私钥加密后再保存
+      privateKey: privateKey
+        .export(
+          this.passphrase
+            ? {
+                type: 'pkcs8',
+                format: 'pem',
+                cipher: 'aes-256-cbc',
+                passphrase: this.passphrase,
+              }
+            : { type: 'pkcs8', format: 'pem' },
+        )
+        .toString(),
+      publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    });
+  }
+
+  /**
+   * 解密数据库中保存的私钥
+   */
+  private decryptPrivateKey(pem: string): string {
+    return createPrivateKey({ key: pem, passphrase: this.passphrase })
+      .export({ type: 'pkcs8', format: 'pem' })
+      .toString();
+  }
+
+  /**
+   * 根据私钥类型推断签名算法
+   */
+  private resolveAlgorithm(privateKey: KeyObject): JwtSigningAlgorithm {
+    if (privateKey.asymmetricKeyType === 'rsa') {
+      return 'RS256';
+    }
+    if (
+      privateKey.asymmetricKeyType === 'ec' &&
+      privateKey.asymmetricKeyDetails?.namedCurve === 'prime256v1'
+    ) {
+      return 'ES256';
+    }
+    throw new Error('JWT 签名密钥只支持 RSA 或 P-256 椭圆曲线密钥');
+  }
+
+  /**
+   * 查找仍在宽限期内的密钥
+   */
+  private findUsableKey(
+    kid: string,
+  ): { publicKey: KeyObject; algorithm: JwtSigningAlgorithm } | null {
+    const key = this.keys.get(kid);
+    if (!key || (key.expiresAt && key.expiresAt <= new Date())) {
+      return null;
+    }
+    return key;
+  }
+
+  /**
+   * 数据库模式下内存中的密钥是否需要重新加载
+   */
+  private isStale(): boolean {
+    return (
+      !this.keysDir && Date.now() - this.lastLoadedAt >= this.reloadInterval
+    );
+  }
+
+  private get keysDir(): string | undefined {
+    return this.configService.get<string>('JWT_KEYS_DIR');
+  }
+
+  private get passphrase(): string | undefined {
+    return this.configService.get<string>('JWT_KEY_PASSPHRASE');
+  }
+}
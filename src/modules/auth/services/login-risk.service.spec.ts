@@ -0,0 +1,164 @@
+import { ConfigService } from '@nestjs/config';
+
+import { LoginRiskService } from './login-risk.service';
+import { SessionService } from './session.service';
+import { GeoIpService } from './geo-ip.service';
+import { LoginHistory } from '../entities/login-history.entity';
+import { RefreshToken } from '../entities/refresh-token.entity';
+import { LoginRiskFactor } from '../enums/login-risk-factor.enum';
+import { User } from '../../users/entities/user.entity';
+import { EmailService } from '../../email/email.service';
+import { AuditService } from '../../audit/audit.service';
+import type { GeoLocation } from '../interfaces/login-risk.interface';
+import { InMemoryRepository } from '../../../testing/in-memory-repository';
+
+describe('LoginRiskService', () => {
+  const chrome =
+    'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0 Safari/537.36';
+  const firefox =
+    'Mozilla/5.0 (Macintosh; Intel Mac OS X 14.0; rv:121.0) Gecko/20100101 Firefox/121.0';
+  // 测试用 IP 的地理位置
+  const locations: Record<string, GeoLocation> = {
+    '203.0.113.10': {
+      country: 'CN',
+      city: 'Shanghai',
+      latitude: 31.23,
+      longitude: 121.47,
+    },
+    '203.0.113.20': {
+      country: 'CN',
+      city: 'Shanghai',
+      latitude: 31.23,
+      longitude: 121.47,
+    },
+    '198.51.100.7': {
+      country: 'US',
+      city: 'New York',
+      latitude: 40.71,
+      longitude: -74.0,
+    },
+  };
+
+  let service: LoginRiskService;
+  let history: InMemoryRepository<LoginHistory>;
+  let failedLogins: number;
+  let alerts: string[];
+  let user: User;
+
+  const createService = (config: Record<string, unknown> = {}) =>
+    new LoginRiskService(
+      history.asRepository(),
+      {
+        lookup: (ip?: string) => (ip && locations[ip]) || null,
+      } as unknown as GeoIpService,
+      new SessionService(new InMemoryRepository(RefreshToken).asRepository()),
+      {
+        sendLoginAlertEmail: (_user: User, details: { reasons: string }) => {
+          alerts.push(details.reasons);
+          return Promise.resolve(true);
+        },
+      } as unknown as EmailService,
+      {
+        countFailedLogins: () => Promise.resolve(failedLogins),
+      } as unknown as AuditService,
+      new ConfigService({ LOGIN_STEP_UP_ENABLED: 'true', ...config }),
+    );
+
+  // 评估并记录一次登录
+  const login = async (ipAddress: string, userAgent = chrome) => {
+    const assessment = await service.assess(user, { ipAddress, userAgent });
+    await service.record(user, assessment, 'password');
+    return assessment;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    history = new InMemoryRepository(LoginHistory);
+    failedLogins = 0;
+    alerts = [];
+    user = Object.assign(new User(), {
+      id: 'user-1',
+      email: 'alice@example.com',
+      failedLoginAttempts: 0,
+    });
+    service = createService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('does not flag the first login of a user', async () => {
+    await expect(login('203.0.113.10')).resolves.toMatchObject({
+      factors: [],
+      score: 0,
+      notify: false,
+      requiresStepUp: false,
+    });
+    expect(history.rows).toHaveLength(1);
+  });
+
+  it('recognizes the same browser in the same network range', async () => {
+    await login('203.0.113.10');
+    jest.advanceTimersByTime(3600000);
+
+    await expect(login('203.0.113.20')).resolves.toMatchObject({
+      factors: [],
+    });
+  });
+
+  it('alerts on a new device without requiring step-up', async () => {
+    await login('203.0.113.10');
+    jest.advanceTimersByTime(3600000);
+
+    await expect(login('203.0.113.10', firefox)).resolves.toMatchObject({
+      factors: [LoginRiskFactor.NEW_DEVICE],
+      notify: true,
+      requiresStepUp: false,
+    });
+    expect(alerts).toEqual(['新设备']);
+  });
+
+  it('requires step-up for a new device far away from the last login', async () => {
+    await login('203.0.113.10');
+    jest.advanceTimersByTime(3600000);
+
+    await expect(login('198.51.100.7')).resolves.toMatchObject({
+      factors: [
+        LoginRiskFactor.NEW_DEVICE,
+        LoginRiskFactor.NEW_IP_RANGE,
+        LoginRiskFactor.IMPOSSIBLE_TRAVEL,
+      ],
+      score: 100,
+      requiresStepUp: true,
+    });
+  });
+
+  it('does not report impossible travel when there was enough time', async () => {
+    await login('203.0.113.10');
+    jest.advanceTimersByTime(24 * 3600000);
+
+    const { factors } = await login('198.51.100.7');
+    expect(factors).not.toContain(LoginRiskFactor.IMPOSSIBLE_TRAVEL);
+  });
+
+  it('counts failed logins since the last successful login', async () => {
+    await login('203.0.113.10');
+    failedLogins = 3;
+
+    await expect(login('203.0.113.10', firefox)).resolves.toMatchObject({
+      factors: [LoginRiskFactor.NEW_DEVICE, LoginRiskFactor.RECENT_FAILURES],
+      requiresStepUp: true,
+    });
+  });
+
+  it('only requires step-up when it is enabled', async () => {
+    service = createService({ LOGIN_STEP_UP_ENABLED: 'false' });
+    await login('203.0.113.10');
+
+    await expect(login('198.51.100.7')).resolves.toMatchObject({
+      notify: true,
+      requiresStepUp: false,
+    });
+  });
+});
@@ -0,0 +1,325 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { LessThan, Repository } from 'typeorm';
+import { createHash } from 'crypto';
+
+import { LoginHistory } from '../entities/login-history.entity';
+import { LoginRiskFactor } from '../enums/login-risk-factor.enum';
+import { GeoIpService } from './geo-ip.service';
+import { SessionService } from './session.service';
+import { EmailService } from '../../email/email.service';
+import { AuditService } from '../../audit/audit.service';
+import { parseIp } from '../utils/mmdb.util';
+import { User } from '../../users/entities/user.entity';
+import type { SessionContext } from '../interfaces/session.interface';
+import type {
+  GeoLocation,
+  LoginRiskAssessment,
+} from '../interfaces/login-risk.interface';
+
+/**
+ * 各风险因素的权重
+ * 默认配置下新设备即发送提醒，新设备叠加多次失败或异地登录时需要验证码确认
+ */
+const RISK_WEIGHTS: Record<LoginRiskFactor, number> = {
+  [LoginRiskFactor.NEW_DEVICE]: 30,
+  [LoginRiskFactor.NEW_IP_RANGE]: 20,
+  [LoginRiskFactor.IMPOSSIBLE_TRAVEL]: 50,
+  [LoginRiskFactor.RECENT_FAILURES]: 30,
+};
+
+/**
+ * 风险因素在提醒邮件中的说明
+ */
+const RISK_DESCRIPTIONS: Record<LoginRiskFactor, string> = {
+  [LoginRiskFactor.NEW_DEVICE]: '新设备',
+  [LoginRiskFactor.NEW_IP_RANGE]: '新的网络',
+  [LoginRiskFactor.IMPOSSIBLE_TRAVEL]: '与上次登录地点相距过远',
+  [LoginRiskFactor.RECENT_FAILURES]: '登录前多次输错密码',
+};
+
+/**
+ * 登录风险服务 - 保存登录历史并评估每次登录的风险
+ * 设备指纹由浏览器类型和网段组成，不受浏览器升级和同一网段内 IP 变化影响
+ */
+@Injectable()
+export class LoginRiskService {
+  private readonly logger = new Logger(LoginRiskService.name);
+  private readonly minTravelDistanceKm = 100; // GeoIP 定位误差较大，距离较近时不判断异地登录
+
+  constructor(
+    @InjectRepository(LoginHistory)
+    private readonly loginHistoryRepository: Repository<LoginHistory>, // 登录历史仓库
+    private readonly geoIpService: GeoIpService, // GeoIP 服务
+    private readonly sessionService: SessionService, // 会话服务（解析 User-Agent）
+    private readonly emailService: EmailService, // 邮件服务
+    private readonly auditService: AuditService, // 审计服务（统计登录失败次数）
+    private readonly configService: ConfigService, // 配置服务
+  ) {}
+
+  /**
+   * 评估登录风险
+   * 用户没有任何登录历史时不判断新设备和新网段，避免首次登录就发送提醒
+   * @param user 登录的用户
+   * @param context 客户端信息
+   */
+  async assess(
+    user: User,
+    context: SessionContext,
+  ): Promise<LoginRiskAssessment> {
+    const userAgentFamily = this.sessionService.resolveUserAgentFamily(
+      context.userAgent,
+    );
+    const ipPrefix = this.getIpPrefix(context.ipAddress);
+    const fingerprint = createHash('sha256')
+      .update(`${userAgentFamily ?? ''}|${ipPrefix ?? ''}`)
+      .digest('hex');
+    const location = this.geoIpService.lookup(context.ipAddress);
+
+    const factors: LoginRiskFactor[] = [];
+    const previous = await this.loginHistoryRepository.findOne({
+      where: { userId: user.id },
+      order: { createdAt: 'DESC' },
+    });
+    if (previous) {
+      const [knownDevice, knownRange] = await Promise.all([
+        this.loginHistoryRepository.exists({
+          where: { userId: user.id, fingerprint },
+        }),
+        ipPrefix
+          ? this.loginHistoryRepository.exists({
+              where: { userId: user.id, ipPrefix },
+            })
+          : true,
+      ]);
+      if (!knownDevice) {
+        factors.push(LoginRiskFactor.NEW_DEVICE);
+      }
+      if (!knownRange) {
+        factors.push(LoginRiskFactor.NEW_IP_RANGE);
+      }
+      if (this.isImpossibleTravel(previous, location)) {
+        factors.push(LoginRiskFactor.IMPOSSIBLE_TRAVEL);
+      }
+    }
+
+    if (await this.hasRecentFailures(user, previous)) {
+      factors.push(LoginRiskFactor.RECENT_FAILURES);
+    }
+
+    const score = factors.reduce(
+      (total, factor) => total + RISK_WEIGHTS[factor],
+      0,
+    );
+    const notifyThreshold = Number(
+      this.configService.get('LOGIN_RISK_NOTIFY_THRESHOLD', 30),
+    );
+    const stepUpThreshold = Number(
+      this.configService.get('LOGIN_RISK_STEP_UP_THRESHOLD', 60),
+    );
+
+    return {
+      fingerprint,
+      userAgentFamily,
+      ipAddress: context.ipAddress,
+      ipPrefix,
+      location,
+      score,
+      factors,
+      notify: factors.length > 0 && score >= notifyThreshold,
+      requiresStepUp:
+        this.configService.get('LOGIN_STEP_UP_ENABLED') === 'true' &&
+        factors.length > 0 &&
+        score >= stepUpThreshold,
+    };
+  }
+
+  /**
+   * 保存登录历史，风险较高时通过邮件队列发送登录提醒
+   * @param user 登录的用户
+   * @param assessment 风险评估结果
+   * @param method 登录方式
+   * @param stepUpVerified 是否经过邮箱验证码确认
+   */
+  async record(
+    user: User,
+    assessment: LoginRiskAssessment,
+    method: string,
+    stepUpVerified = false,
+  ): Promise<void> {
+    const { location } = assessment;
+    await this.loginHistoryRepository.save(
+      this.loginHistoryRepository.create({
+        userId: user.id,
+        fingerprint: assessment.fingerprint,
+        userAgentFamily: assessment.userAgentFamily?.slice(0, 100),
+        ipAddress: assessment.ipAddress,
+        ipPrefix: assessment.ipPrefix,
+        country: location?.country,
+        city: location?.city?.slice(0, 100),
+        latitude: location?.latitude,
+        longitude: location?.longitude,
+        method,
+        riskScore: assessment.score,
+        riskFactors: assessment.factors,
+        stepUpVerified,
+      }),
+    );
+
+    if (!assessment.notify) {
+      return;
+    }
+
+    this.logger.warn(
+      `[安全事件] 可疑登录: userId=${user.id}, score=${assessment.score}, factors=${assessment.factors.join(',')}, IP=${assessment.ipAddress}`,
+    );
+    await this.emailService.sendLoginAlertEmail(user, {
+      device: assessment.userAgentFamily ?? '未知设备',
+      ipAddress: assessment.ipAddress ?? '未知',
+      location: this.describeLocation(location),
+      reasons: this.describeFactors(assessment.factors),
+    });
+  }
+
+  /**
+   * 生成风险因素的说明，用于邮件
+   * @param factors 风险因素
+   */
+  describeFactors(factors: LoginRiskFactor[]): string {
+    return factors.map((factor) => RISK_DESCRIPTIONS[factor]).join('、');
+  }
+
+  /**
+   * 定时清理过期的登录历史（每天凌晨3点）
+   * 保留天数由 LOGIN_HISTORY_RETENTION_DAYS 配置，默认180天
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_3AM)
+  async purgeExpiredHistory() {
+    const retentionDays = Number(
+      this.configService.get('LOGIN_HISTORY_RETENTION_DAYS', 180),
+    );
+    try {
+      const result = await this.loginHistoryRepository.delete({
+        createdAt: LessThan(new Date(Date.now() - retentionDays * 86400000)),
+      });
+      if (result.affected) {
+        this.logger.log(`已清理 ${result.affected} 条过期登录历史`);
+      }
+    } catch (error) {
+      this.logger.error('清理登录历史失败', (error as Error).message);
+    }
+  }
+
+  /**
+   * 判断登录前是否连续多次登录失败
+   * 失败次数在密码校验通过时就会重置，因此同时统计上次完成登录以来的登录失败事件，
+   * 放弃登录验证后重新登录仍会被识别；统计范围由 LOGIN_RISK_FAILURE_WINDOW_MINUTES 限定，默认60分钟
+   */
+  private async hasRecentFailures(
+    user: User,
+    previous: LoginHistory | null,
+  ): Promise<boolean> {
+    const threshold = Number(
+      this.configService.get('LOGIN_RISK_FAILED_ATTEMPTS', 3),
+    );
+    if (user.failedLoginAttempts >= threshold) {
+      return true;
+    }
+
+    const windowMinutes = Number(
+      this.configService.get('LOGIN_RISK_FAILURE_WINDOW_MINUTES', 60),
+    );
+    const windowStart = Date.now() - windowMinutes * 60000;
+    const since = new Date(
+      Math.max(windowStart, previous?.createdAt.getTime() ?? 0),
+    );
+    return (
+      (await this.auditService.countFailedLogins(user.id, since)) >= threshold
+    );
+  }
+
+  /**
+   * 判断从上次登录地点到当前地点的移动速度是否超过上限
+   * 上限由 LOGIN_RISK_MAX_TRAVEL_SPEED 配置（公里/小时），默认900，接近民航客机速度
+   */
+  private isImpossibleTravel(
+    previous: LoginHistory,
+    location: GeoLocation | null,
+  ): boolean {
+    if (
+      previous.latitude == null ||
+      previous.longitude == null ||
+      location?.latitude === undefined ||
+      location.longitude === undefined
+    ) {
+      return false;
+    }
+
+    const distanceKm = this.getDistanceKm(
+      previous.latitude,
+      previous.longitude,
+      location.latitude,
+      location.longitude,
+    );
+    if (distanceKm < this.minTravelDistanceKm) {
+      return false;
+    }
+
+    // 间隔至少按1分钟计算，避免除以零
+    const hours = Math.max(
+      (Date.now() - previous.createdAt.getTime()) / 3600000,
+      1 / 60,
+    );
+    const maxSpeed = Number(
+      this.configService.get('LOGIN_RISK_MAX_TRAVEL_SPEED', 900),
+    );
+    return distanceKm / hours > maxSpeed;
+  }
+
+  /**
+   * 计算两个坐标之间的球面距离（Haversine 公式）
+   */
+  private getDistanceKm(
+    latitude1: number,
+    longitude1: number,
+    latitude2: number,
+    longitude2: number,
+  ): number {
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    const deltaLatitude = toRadians(latitude2 - latitude1);
+    const deltaLongitude = toRadians(longitude2 - longitude1);
+    const a =
+      Math.sin(deltaLatitude / 2) ** 2 +
+      Math.cos(toRadians(latitude1)) *
+        Math.cos(toRadians(latitude2)) *
+        Math.sin(deltaLongitude / 2) ** 2;
+    return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a)); // 地球平均半径6371公里
+  }
+
+  /**
+   * 获取 IP 所在网段：IPv4 取前24位，IPv6 取前48位
+   */
+  private getIpPrefix(ip?: string): string | undefined {
+    const address = ip ? parseIp(ip) : null;
+    if (!address) {
+      return undefined;
+    }
+    if (address.length === 4) {
+      return `${address.subarray(0, 3).join('.')}.0/24`;
+    }
+    const groups = [0, 2, 4].map((offset) =>
+      address.readUInt16BE(offset).toString(16),
+    );
+    return `${groups.join(':')}::/48`;
+  }
+
+  /**
+   * 生成邮件中显示的登录地点
+   */
+  private describeLocation(location: GeoLocation | null): string {
+    const parts = [location?.city, location?.country].filter(Boolean);
+    return parts.length > 0 ? parts.join(', ') : '未知';
+  }
+}
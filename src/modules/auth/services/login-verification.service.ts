@@ -0,0 +1,147 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHash, randomBytes, randomInt, timingSafeEqual } from 'crypto';
+
+import { RedisService } from '../../redis/redis.service';
+import { EmailService } from '../../email/email.service';
+import { User } from '../../users/entities/user.entity';
+import type { LoginRiskAssessment } from '../interfaces/login-risk.interface';
+
+/**
+ * 登录验证挑战在 Redis 中保存的内容
+ */
+interface LoginVerificationChallenge {
+  userId: string;
+  codeHash: string; // 验证码哈希，不保存明文
+  method: string; // 登录方式
+  assessment: LoginRiskAssessment; // 触发验证时的风险评估结果，验证通过后写入登录历史
+}
+
+/**
+ * 登录验证服务 - 高风险登录在签发令牌前向邮箱发送验证码确认
+ * 与双因素认证挑战类似，错误次数过多时挑战立即作废
+ */
+@Injectable()
+export class LoginVerificationService {
+  private readonly keyPrefix = 'auth:login-verification:';
+  private readonly maxAttempts = 5; // 每个挑战允许的最大错误次数
+
+  constructor(
+    private readonly redisService: RedisService, // Redis 服务
+    private readonly emailService: EmailService, // 邮件服务
+    private readonly configService: ConfigService, // 配置服务
+  ) {}
+
+  /**
+   * 验证码有效期（分钟），默认10分钟
+   */
+  get expiresInMinutes(): number {
+    return Number(
+      this.configService.get('LOGIN_VERIFICATION_EXPIRES_MINUTES', 10),
+    );
+  }
+
+  /**
+   * 创建登录验证挑战并发送验证码邮件
+   * @param user 登录的用户
+   * @param assessment 风险评估结果
+   * @param method 登录方式
+   * @param reasons 需要验证的原因，显示在邮件中
+   * @returns 验证令牌及有效期（秒）
+   */
+  async createChallenge(
+    user: User,
+    assessment: LoginRiskAssessment,
+    method: string,
+    reasons: string,
+  ): Promise<{ verificationToken: string; expiresIn: number }> {
+    const verificationToken = randomBytes(32).toString('hex');
+    const code = randomInt(0, 1000000).toString().padStart(6, '0');
+    const expiresIn = this.expiresInMinutes * 60;
+
+    const challenge: LoginVerificationChallenge = {
+      userId: user.id,
+      codeHash: this.hashCode(verificationToken, code),
+      method,
+      assessment,
+    };
+    await this.redisService.set(
+      this.getKey(verificationToken),
+      JSON.stringify(challenge),
+      expiresIn,
+    );
+    await this.emailService.sendLoginVerificationEmail(
+      user,
+      code,
+      reasons,
+      this.expiresInMinutes,
+    );
+
+    return { verificationToken, expiresIn };
+  }
+
+  /**
+   * 校验验证码，成功后验证令牌立即作废
+   * @param verificationToken 验证令牌
+   * @param code 邮件中的验证码
+   * @returns 挑战中保存的用户ID、登录方式和风险评估结果
+   * @throws UnauthorizedException 验证令牌无效或验证码错误
+   */
+  async completeChallenge(
+    verificationToken: string,
+    code: string,
+  ): Promise<Omit<LoginVerificationChallenge, 'codeHash'>> {
+    const key = this.getKey(verificationToken);
+    const challenge =
+      await this.redisService.get<LoginVerificationChallenge>(key);
+    if (!challenge) {
+      throw new UnauthorizedException('验证请求无效或已过期，请重新登录');
+    }
+
+    const expected = Buffer.from(challenge.codeHash, 'hex');
+    const actual = Buffer.from(this.hashCode(verificationToken, code), 'hex');
+    if (!timingSafeEqual(expected, actual)) {
+      const attemptsKey = `${key}:attempts`;
+      const attempts = await this.redisService.incrby(attemptsKey);
+      if (attempts === 1) {
+        await this.redisService.expire(
+          attemptsKey,
+          await this.redisService.ttl(key),
+        );
+      }
+      if (attempts >= this.maxAttempts) {
+        await this.redisService.del(key);
+        await this.redisService.del(attemptsKey);
+      }
+      throw new UnauthorizedException('验证码不正确');
+    }
+
+    // 并发提交同一个验证码时只有一个请求能取到挑战
+    if (!(await this.redisService.getdel(key))) {
+      throw new UnauthorizedException('验证请求无效或已过期，请重新登录');
+    }
+    await this.redisService.del(`${key}:attempts`);
+
+    return {
+      userId: challenge.userId,
+      method: challenge.method,
+      assessment: challenge.assessment,
+    };
+  }
+
+  /**
+   * 计算验证码哈希，与验证令牌绑定
+   */
+  private hashCode(verificationToken: string, code: string): string {
+    return createHash('sha256')
+      .update(`${verificationToken}:${code}`)
+      .digest('hex');
+  }
+
+  /**
+   * 获取登录验证挑战的 Redis 键
+   */
+  private getKey(verificationToken: string): string {
+    return `${this.keyPrefix}${verificationToken}`;
+  }
+}
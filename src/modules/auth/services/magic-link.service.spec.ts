@@ -0,0 +1,40 @@
+import { ConfigService } from '@nestjs/config';
+
+import { MagicLinkService } from './magic-link.service';
+import { InMemoryRedis } from '../../../testing/in-memory-redis';
+
+describe('MagicLinkService', () => {
+  let service: MagicLinkService;
+  let redis: InMemoryRedis;
+
+  const createService = (config: Record<string, unknown>) =>
+    new MagicLinkService(redis.asService(), new ConfigService(config));
+
+  beforeEach(() => {
+    redis = new InMemoryRedis();
+    service = createService({ MAGIC_LINK_SECRET: 'magic-link-secret' });
+  });
+
+  it('consumes a token only once', async () => {
+    const token = await service.createToken('user-1');
+
+    await expect(service.consumeToken(token ?? '')).resolves.toBe('user-1');
+    await expect(service.consumeToken(token ?? '')).resolves.toBeNull();
+  });
+
+  it('rejects a token signed with another secret', async () => {
+    const token = await createService({
+      MAGIC_LINK_SECRET: 'other-secret',
+    }).createToken('user-1');
+
+    await expect(service.consumeToken(token ?? '')).resolves.toBeNull();
+  });
+
+  it('refuses to start without a dedicated signing secret', () => {
+    const withoutSecret = createService({
+      JWT_REFRESH_SECRET: 'refresh-secret',
+    });
+
+    expect(() => withoutSecret.onModuleInit()).toThrow('MAGIC_LINK_SECRET');
+  });
+});
@@ -0,0 +1,92 @@
+import { Injectable, type OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+import { RedisService } from '../../redis/redis.service';
+
+/**
+ * 免密登录链接服务 - 生成和消费一次性登录令牌
+ * 令牌格式为 <随机ID>.<HMAC 签名>：签名不正确的令牌直接拒绝，不访问 Redis；
+ * 随机ID对应的记录保存在 Redis 中，使用 GETDEL 原子消费，保证只能使用一次
+ */
+@Injectable()
+export class MagicLinkService implements OnModuleInit {
+  private readonly keyPrefix = 'auth:magic-link:';
+  private readonly cooldownPrefix = 'auth:magic-link:cooldown:';
+
+  constructor(
+    private readonly redisService: RedisService, // Redis 服务
+    private readonly configService: ConfigService, // 配置服务
+  ) {}
+
+  /**
+   * 启动时检查登录令牌的签名密钥（MAGIC_LINK_SECRET），未配置时阻止启动
+   */
+  onModuleInit() {
+    this.configService.getOrThrow<string>('MAGIC_LINK_SECRET');
+  }
+
+  /**
+   * 链接有效期（分钟），默认15分钟
+   */
+  get expiresInMinutes(): number {
+    return Number(this.configService.get('MAGIC_LINK_EXPIRES_MINUTES', 15));
+  }
+
+  /**
+   * 为用户创建登录令牌
+   * 冷却期内重复请求不会生成新令牌，防止被用来轰炸邮箱
+   * @param userId 用户ID
+   * @returns 登录令牌，冷却期内返回 null
+   */
+  async createToken(userId: string): Promise<string | null> {
+    const cooldown = Number(
+      this.configService.get('MAGIC_LINK_RESEND_COOLDOWN', 60),
+    );
+    if (await this.redisService.get(`${this.cooldownPrefix}${userId}`)) {
+      return null;
+    }
+    await this.redisService.set(`${this.cooldownPrefix}${userId}`, 1, cooldown);
+
+    const id = randomBytes(24).toString('base64url');
+    await this.redisService.set(
+      `${this.keyPrefix}${id}`,
+      userId,
+      this.expiresInMinutes * 60,
+    );
+    return `${id}.${this.sign(id)}`;
+  }
+
+  /**
+   * 消费登录令牌
+   * @param token 登录令牌
+   * @returns 用户ID，令牌无效、已过期或已使用时返回 null
+   */
+  async consumeToken(token: string): Promise<string | null> {
+    const [id, signature] = token.split('.');
+    if (!id || !signature) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(id));
+    const actual = Buffer.from(signature);
+    if (
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      return null;
+    }
+
+    return this.redisService.getdel<string>(`${this.keyPrefix}${id}`);
+  }
+
+  /**
+   * 计算令牌ID的 HMAC 签名
+   */
+  private sign(id: string): string {
+    const secret = this.configService.getOrThrow<string>('MAGIC_LINK_SECRET');
+    return createHmac('sha256', secret)
+      .update(`magic-link:${id}`)
+      .digest('base64url');
+  }
+}
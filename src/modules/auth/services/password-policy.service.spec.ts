@@ -0,0 +1,143 @@
+import { createHash } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConfigService } from '@nestjs/config';
+
+import { PasswordPolicyService } from './password-policy.service';
+import { PasswordService } from './password.service';
+import { PasswordHistory } from '../entities/password-history.entity';
+import { PasswordPolicyException } from '../exceptions/password-policy.exception';
+import type { PasswordPolicySubject } from '../interfaces/password-policy.interface';
+import { InMemoryRepository } from '../../../testing/in-memory-repository';
+
+describe('PasswordPolicyService', () => {
+  let service: PasswordPolicyService;
+  let passwordService: PasswordService;
+  let history: InMemoryRepository<PasswordHistory>;
+  let directory: string;
+
+  const subject: PasswordPolicySubject = {
+    id: 'user-1',
+    email: 'alice.smith@example.com',
+    firstName: 'Alice',
+    lastName: 'Smith',
+  };
+
+  // 按配置创建服务，未指定的字符类型和个人信息规则关闭
+  const createService = async (config: Record<string, unknown> = {}) => {
+    const configService = new ConfigService({
+      BCRYPT_ROUNDS: 4,
+      PASSWORD_REQUIRE_UPPERCASE: 'false',
+      PASSWORD_REQUIRE_LOWERCASE: 'false',
+      PASSWORD_REQUIRE_DIGIT: 'false',
+      PASSWORD_REQUIRE_SYMBOL: 'false',
+      PASSWORD_FORBID_PERSONAL_INFO: 'false',
+      ...config,
+    });
+    passwordService = new PasswordService(configService);
+    service = new PasswordPolicyService(
+      history.asRepository(),
+      passwordService,
+      configService,
+    );
+    await service.onModuleInit();
+  };
+
+  const codes = async (password: string, user = subject) =>
+    (await service.check(password, user)).map((violation) => violation.code);
+
+  // 依次设置新密码并记录历史，每次间隔一秒保证历史顺序
+  const setPasswords = async (...passwords: string[]) => {
+    for (const password of passwords) {
+      jest.advanceTimersByTime(1000);
+      await service.recordPassword(
+        'user-1',
+        await passwordService.hashPassword(password),
+      );
+    }
+  };
+
+  beforeEach(() => {
+    // 只模拟时间，bcrypt 的异步回调不受影响
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    history = new InMemoryRepository(PasswordHistory);
+    directory = mkdtempSync(join(tmpdir(), 'password-policy-'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('reports every violated rule at once', async () => {
+    await createService({
+      PASSWORD_MIN_LENGTH: 10,
+      PASSWORD_REQUIRE_UPPERCASE: 'true',
+      PASSWORD_REQUIRE_DIGIT: 'true',
+      PASSWORD_REQUIRE_SYMBOL: 'true',
+    });
+
+    await expect(codes('short')).resolves.toEqual([
+      'TOO_SHORT',
+      'MISSING_UPPERCASE',
+      'MISSING_DIGIT',
+      'MISSING_SYMBOL',
+    ]);
+    await expect(service.validate('short', subject)).rejects.toBeInstanceOf(
+      PasswordPolicyException,
+    );
+    await expect(codes('Correct-Horse-9')).resolves.toEqual([]);
+  });
+
+  it('rejects passwords containing the email or name', async () => {
+    await createService({ PASSWORD_FORBID_PERSONAL_INFO: 'true' });
+
+    await expect(codes('my-SMITH-password')).resolves.toEqual([
+      'CONTAINS_PERSONAL_INFO',
+    ]);
+    await expect(codes('alice.smith2024')).resolves.toEqual([
+      'CONTAINS_PERSONAL_INFO',
+    ]);
+    await expect(codes('unrelated-words')).resolves.toEqual([]);
+  });
+
+  it('rejects passwords from the breached list in plain text or SHA-1 form', async () => {
+    const file = join(directory, 'breached.txt');
+    const sha1 = createHash('sha1').update('Tr0ub4dor&3').digest('hex');
+    writeFileSync(file, `password123\n${sha1.toUpperCase()}:42\n`);
+    await createService({ PASSWORD_BREACHED_LIST_FILE: file });
+
+    expect(service.getPolicy().breachCheck).toBe(true);
+    await expect(codes('PASSWORD123')).resolves.toEqual(['BREACHED']);
+    await expect(codes('Tr0ub4dor&3')).resolves.toEqual(['BREACHED']);
+    await expect(codes('correct-horse')).resolves.toEqual([]);
+  });
+
+  it('refuses to start when the configured breached list cannot be read', async () => {
+    await expect(
+      createService({
+        PASSWORD_BREACHED_LIST_FILE: join(directory, 'missing.txt'),
+      }),
+    ).rejects.toThrow();
+  });
+
+  it('rejects the recent passwords and forgets older ones', async () => {
+    await createService({ PASSWORD_HISTORY_SIZE: 2 });
+    await setPasswords('first-password', 'second-password', 'third-password');
+
+    expect(history.rows).toHaveLength(2);
+    await expect(codes('third-password')).resolves.toEqual(['RECENTLY_USED']);
+    await expect(codes('second-password')).resolves.toEqual(['RECENTLY_USED']);
+    await expect(codes('first-password')).resolves.toEqual([]);
+  });
+
+  it('rejects the current password even without history', async () => {
+    await createService();
+    const password = await passwordService.hashPassword('current-password');
+
+    await expect(
+      codes('current-password', { ...subject, password }),
+    ).resolves.toEqual(['RECENTLY_USED']);
+  });
+});
@@ -0,0 +1,282 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createHash } from 'crypto';
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+
+import { PasswordHistory } from '../entities/password-history.entity';
+import { PasswordService } from './password.service';
+import { PasswordPolicyDto } from '../dto/password-policy.dto';
+import { PasswordPolicyException } from '../exceptions/password-policy.exception';
+import type {
+  PasswordPolicySubject,
+  PasswordPolicyViolation,
+} from '../interfaces/password-policy.interface';
+
+/**
+ * 密码策略服务 - 按环境变量配置的规则校验新密码
+ * 规则包括长度、字符类型、禁止包含邮箱或姓名、禁止重复使用最近 N 个密码，
+ * 以及离线的已泄露密码列表（PASSWORD_BREACHED_LIST_FILE，每行一个明文密码或 SHA-1 哈希，
+ * 兼容 Have I Been Pwned 导出的 "<SHA-1>:<次数>" 格式）
+ */
+@Injectable()
+export class PasswordPolicyService implements OnModuleInit {
+  private readonly logger = new Logger(PasswordPolicyService.name);
+  private readonly minPersonalTokenLength = 3; // 过短的姓名片段不参与比较，避免误伤
+  private breachedPasswords = new Set<string>();
+
+  constructor(
+    @InjectRepository(PasswordHistory)
+    private readonly passwordHistoryRepository: Repository<PasswordHistory>, // 密码历史仓库
+    private readonly passwordService: PasswordService, // 密码服务
+    private readonly configService: ConfigService, // 配置服务
+  ) {}
+
+  async onModuleInit() {
+    const file = this.configService.get<string>('PASSWORD_BREACHED_LIST_FILE');
+    if (!file) {
+      return;
+    }
+    // 配置了列表文件却无法读取时直接阻止启动，避免在不知情的情况下关闭检查
+    this.breachedPasswords = await this.loadBreachedList(file);
+    this.logger.log(`已加载泄露密码列表: ${this.breachedPasswords.size} 条`);
+  }
+
+  /**
+   * 获取当前密码策略
+   */
+  getPolicy(): PasswordPolicyDto {
+    return {
+      minLength: Number(this.configService.get('PASSWORD_MIN_LENGTH', 8)),
+      maxLength: Number(this.configService.get('PASSWORD_MAX_LENGTH', 128)),
+      requireUppercase: this.getFlag('PASSWORD_REQUIRE_UPPERCASE'),
+      requireLowercase: this.getFlag('PASSWORD_REQUIRE_LOWERCASE'),
+      requireDigit: this.getFlag('PASSWORD_REQUIRE_DIGIT'),
+      requireSymbol: this.getFlag('PASSWORD_REQUIRE_SYMBOL'),
+      forbidPersonalInfo: this.getFlag('PASSWORD_FORBID_PERSONAL_INFO'),
+      historySize: Number(this.configService.get('PASSWORD_HISTORY_SIZE', 5)),
+      breachCheck: this.breachedPasswords.size > 0,
+    };
+  }
+
+  /**
+   * 校验新密码，不符合策略时抛出异常
+   * @param password 新密码（明文）
+   * @param subject 密码所属用户
+   * @throws PasswordPolicyException 包含全部违规原因
+   */
+  async validate(
+    password: string,
+    subject: PasswordPolicySubject,
+  ): Promise<void> {
+    const violations = await this.check(password, subject);
+    if (violations.length > 0) {
+      throw new PasswordPolicyException(violations);
+    }
+  }
+
+  /**
+   * 检查新密码，返回全部违规原因
+   * @param password 新密码（明文）
+   * @param subject 密码所属用户
+   */
+  async check(
+    password: string,
+    subject: PasswordPolicySubject,
+  ): Promise<PasswordPolicyViolation[]> {
+    const policy = this.getPolicy();
+    const violations: PasswordPolicyViolation[] = [];
+
+    if (password.length < policy.minLength) {
+      violations.push({
+        code: 'TOO_SHORT',
+        message: `密码长度至少${policy.minLength}个字符`,
+      });
+    }
+    if (password.length > policy.maxLength) {
+      violations.push({
+        code: 'TOO_LONG',
+        message: `密码长度不能超过${policy.maxLength}个字符`,
+      });
+    }
+    if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+      violations.push({
+        code: 'MISSING_UPPERCASE',
+        message: '密码必须包含至少一个大写字母',
+      });
+    }
+    if (policy.requireLowercase && !/[a-z]/.test(password)) {
+      violations.push({
+        code: 'MISSING_LOWERCASE',
+        message: '密码必须包含至少一个小写字母',
+      });
+    }
+    if (policy.requireDigit && !/\d/.test(password)) {
+      violations.push({
+        code: 'MISSING_DIGIT',
+        message: '密码必须包含至少一个数字',
+      });
+    }
+    if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+      violations.push({
+        code: 'MISSING_SYMBOL',
+        message: '密码必须包含至少一个特殊字符',
+      });
+    }
+    if (
+      policy.forbidPersonalInfo &&
+      this.containsPersonalInfo(password, subject)
+    ) {
+      violations.push({
+        code: 'CONTAINS_PERSONAL_INFO',
+        message: '密码不能包含邮箱或姓名',
+      });
+    }
+    if (this.isBreached(password)) {
+      violations.push({
+        code: 'BREACHED',
+        message: '该密码已出现在泄露密码列表中，请更换',
+      });
+    }
+    // 哈希比较开销较大，只在其他规则都通过时检查
+    if (
+      violations.length === 0 &&
+      (await this.isRecentlyUsed(password, subject, policy.historySize))
+    ) {
+      violations.push({
+        code: 'RECENTLY_USED',
+        message: `不能使用最近${policy.historySize}次使用过的密码`,
+      });
+    }
+
+    return violations;
+  }
+
+  /**
+   * 记录新密码哈希，并清理超出保留条数的历史记录
+   * @param userId 用户ID
+   * @param passwordHash 新密码哈希
+   */
+  async recordPassword(userId: string, passwordHash: string): Promise<void> {
+    const historySize = this.getPolicy().historySize;
+    if (historySize <= 0) {
+      return;
+    }
+
+    await this.passwordHistoryRepository.save(
+      this.passwordHistoryRepository.create({ userId, passwordHash }),
+    );
+
+    const expired = await this.passwordHistoryRepository.find({
+      select: ['id'],
+      where: { userId },
+      order: { createdAt: 'DESC' },
+      skip: historySize,
+    });
+    if (expired.length > 0) {
+      await this.passwordHistoryRepository.delete(
+        expired.map((entry) => entry.id),
+      );
+    }
+  }
+
+  /**
+   * 检查密码是否包含邮箱或姓名（不区分大小写）
+   */
+  private containsPersonalInfo(
+    password: string,
+    subject: PasswordPolicySubject,
+  ): boolean {
+    const localPart = subject.email.split('@')[0] ?? '';
+    const tokens = [
+      localPart,
+      ...localPart.split(/[._+-]/), // 邮箱前缀中的各个片段
+      subject.firstName,
+      subject.lastName,
+    ];
+
+    const lowered = password.toLowerCase();
+    return tokens.some(
+      (token) =>
+        !!token &&
+        token.length >= this.minPersonalTokenLength &&
+        lowered.includes(token.toLowerCase()),
+    );
+  }
+
+  /**
+   * 检查密码是否在泄露密码列表中
+   * 明文条目不区分大小写比较，哈希条目按原密码的 SHA-1 比较
+   */
+  private isBreached(password: string): boolean {
+    if (this.breachedPasswords.size === 0) {
+      return false;
+    }
+    const sha1 = createHash('sha1').update(password).digest('hex');
+    return (
+      this.breachedPasswords.has(password.toLowerCase()) ||
+      this.breachedPasswords.has(sha1)
+    );
+  }
+
+  /**
+   * 检查密码是否与当前密码或最近使用过的密码相同
+   */
+  private async isRecentlyUsed(
+    password: string,
+    subject: PasswordPolicySubject,
+    historySize: number,
+  ): Promise<boolean> {
+    if (!subject.id || historySize <= 0) {
+      return false;
+    }
+
+    const history = await this.passwordHistoryRepository.find({
+      where: { userId: subject.id },
+      order: { createdAt: 'DESC' },
+      take: historySize,
+    });
+    const hashes = history.map((entry) => entry.passwordHash);
+    // 启用密码历史之前设置的密码没有历史记录，当前密码同样不能重复使用
+    if (subject.password && !hashes.includes(subject.password)) {
+      hashes.push(subject.password);
+    }
+
+    const results = await Promise.all(
+      hashes.map((hash) =>
+        this.passwordService.comparePassword(password, hash),
+      ),
+    );
+    return results.some(Boolean);
+  }
+
+  /**
+   * 逐行读取泄露密码列表，SHA-1 条目统一转为小写
+   */
+  private async loadBreachedList(file: string): Promise<Set<string>> {
+    const entries = new Set<string>();
+    const lines = createInterface({
+      input: createReadStream(file, { encoding: 'utf8' }),
+      crlfDelay: Infinity,
+    });
+
+    for await (const line of lines) {
+      const entry = line.trim();
+      if (!entry || entry.startsWith('#')) {
+        continue;
+      }
+      const hashed = /^([0-9a-f]{40})(:\d+)?$/i.exec(entry);
+      entries.add(hashed ? hashed[1].toLowerCase() : entry.toLowerCase());
+    }
+    return entries;
+  }
+
+  /**
+   * 读取布尔配置，默认开启
+   */
+  private getFlag(key: string): boolean {
+    return this.configService.get<string>(key, 'true') === 'true';
+  }
+}
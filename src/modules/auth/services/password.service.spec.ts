@@ -0,0 +1,65 @@
+import { ConfigService } from '@nestjs/config';
+
+import { PasswordService } from './password.service';
+
+describe('PasswordService', () => {
+  // 测试中使用较低的计算成本
+  const createService = (config: Record<string, unknown> = {}) =>
+    new PasswordService(
+      new ConfigService({
+        BCRYPT_ROUNDS: 4,
+        ARGON2_MEMORY_COST: 1024,
+        ARGON2_TIME_COST: 2,
+        ...config,
+      }),
+    );
+
+  it('verifies bcrypt and argon2id hashes regardless of the current algorithm', async () => {
+    const bcrypt = createService();
+    const argon2 = createService({ PASSWORD_HASH_ALGORITHM: 'argon2id' });
+    const bcryptHash = await bcrypt.hashPassword('secret-password');
+    const argon2Hash = await argon2.hashPassword('secret-password');
+
+    expect(bcryptHash).toMatch(/^\$2[aby]\$04\$/);
+    expect(argon2Hash).toMatch(/^\$argon2id\$/);
+    for (const service of [bcrypt, argon2]) {
+      await expect(
+        service.comparePassword('secret-password', bcryptHash),
+      ).resolves.toBe(true);
+      await expect(
+        service.comparePassword('secret-password', argon2Hash),
+      ).resolves.toBe(true);
+      await expect(
+        service.comparePassword('wrong-password', argon2Hash),
+      ).resolves.toBe(false);
+    }
+  });
+
+  it('rejects hashes in an unknown format', async () => {
+    await expect(
+      createService().comparePassword('secret-password', 'secret-password'),
+    ).resolves.toBe(false);
+  });
+
+  it('asks for a rehash when the algorithm or its parameters change', async () => {
+    const bcrypt = createService();
+    const argon2 = createService({ PASSWORD_HASH_ALGORITHM: 'argon2id' });
+    const bcryptHash = await bcrypt.hashPassword('secret-password');
+    const argon2Hash = await argon2.hashPassword('secret-password');
+
+    expect(bcrypt.needsRehash(bcryptHash)).toBe(false);
+    expect(createService({ BCRYPT_ROUNDS: 5 }).needsRehash(bcryptHash)).toBe(
+      true,
+    );
+    expect(argon2.needsRehash(bcryptHash)).toBe(true);
+
+    expect(argon2.needsRehash(argon2Hash)).toBe(false);
+    expect(
+      createService({
+        PASSWORD_HASH_ALGORITHM: 'argon2id',
+        ARGON2_MEMORY_COST: 2048,
+      }).needsRehash(argon2Hash),
+    ).toBe(true);
+    expect(bcrypt.needsRehash(argon2Hash)).toBe(true);
+  });
+});
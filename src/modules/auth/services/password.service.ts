@@ -1,13 +1,52 @@
 import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as argon2 from 'argon2';
 import * as bcrypt from 'bcrypt';
 
+/**
+ * 支持的密码哈希算法
+ */
+export type PasswordHashAlgorithm = 'bcrypt' | 'argon2id';
+
 /**
  * 密码服务 - 负责密码的加密、验证和生成
- * 使用 bcrypt 算法确保密码安全
+ * 新密码使用 PASSWORD_HASH_ALGORITHM 指定的算法（bcrypt 或 argon2id）加密，
+ * 哈希字符串自带算法和参数标识（$2b$<轮数>$… / $argon2id$v=19$m=…,t=…,p=…$…），
+ * 验证时按标识选择算法，因此调整算法或参数后旧哈希仍可验证，并在登录时自动升级
  */
 @Injectable()
 export class PasswordService {
-  private readonly saltRounds = 12; // 盐值轮数，数值越高越安全但计算越慢
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * 当前用于新密码的哈希算法，默认 bcrypt
+   */
+  private get algorithm(): PasswordHashAlgorithm {
+    return this.configService.get<string>(
+      'PASSWORD_HASH_ALGORITHM',
+      'bcrypt',
+    ) === 'argon2id'
+      ? 'argon2id'
+      : 'bcrypt';
+  }
+
+  /**
+   * bcrypt 盐值轮数，数值越高越安全但计算越慢
+   */
+  private get bcryptRounds(): number {
+    return Number(this.configService.get('BCRYPT_ROUNDS', 12));
+  }
+
+  /**
+   * argon2id 参数，默认值参考 OWASP 建议（19 MiB 内存、2 次迭代、1 个并行度）
+   */
+  private get argon2Options() {
+    return {
+      memoryCost: Number(this.configService.get('ARGON2_MEMORY_COST', 19456)), // 单位 KiB
+      timeCost: Number(this.configService.get('ARGON2_TIME_COST', 2)),
+      parallelism: Number(this.configService.get('ARGON2_PARALLELISM', 1)),
+    };
+  }
 
   /**
    * 加密密码
@@ -15,8 +54,14 @@ export class PasswordService {
    * @returns 加密后的密码哈希
    */
   async hashPassword(password: string): Promise<string> {
+    if (this.algorithm === 'argon2id') {
+      return argon2.hash(password, {
+        type: argon2.argon2id,
+        ...this.argon2Options,
+      });
+    }
     // 使用 bcrypt 生成盐值并加密密码
-    return bcrypt.hash(password, this.saltRounds);
+    return bcrypt.hash(password, this.bcryptRounds);
   }
 
   /**
@@ -29,8 +74,30 @@ export class PasswordService {
     password: string,
     hashedPassword: string,
   ): Promise<boolean> {
-    // 使用 bcrypt 比较明文密码和哈希值
-    return bcrypt.compare(password, hashedPassword);
+    switch (this.detectAlgorithm(hashedPassword)) {
+      case 'argon2id':
+        return argon2.verify(hashedPassword, password);
+      case 'bcrypt':
+        return bcrypt.compare(password, hashedPassword);
+      default:
+        return false; // 无法识别的哈希格式一律视为不匹配
+    }
+  }
+
+  /**
+   * 判断哈希是否需要按当前配置重新加密
+   * 算法或参数与当前配置不同时返回 true
+   * @param hashedPassword 加密后的密码哈希
+   */
+  needsRehash(hashedPassword: string): boolean {
+    const algorithm = this.detectAlgorithm(hashedPassword);
+    if (algorithm !== this.algorithm) {
+      return true;
+    }
+    if (algorithm === 'argon2id') {
+      return argon2.needsRehash(hashedPassword, this.argon2Options);
+    }
+    return bcrypt.getRounds(hashedPassword) !== this.bcryptRounds;
   }
 
   /**
@@ -51,4 +118,19 @@ export class PasswordService {
 
     return password;
   }
+
+  /**
+   * 根据哈希前缀识别算法
+   */
+  private detectAlgorithm(
+    hashedPassword: string,
+  ): PasswordHashAlgorithm | null {
+    if (hashedPassword.startsWith('$argon2id$')) {
+      return 'argon2id';
+    }
+    if (/^\$2[aby]\$\d{2}\$/.test(hashedPassword)) {
+      return 'bcrypt';
+    }
+    return null;
+  }
 }
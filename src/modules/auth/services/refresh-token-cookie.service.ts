@@ -0,0 +1,76 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Response } from 'express';
+
+import { AuthResponseDto } from '../dto/auth-response.dto';
+
+/**
+ * 刷新令牌 Cookie 名称
+ */
+export const REFRESH_TOKEN_COOKIE = 'refresh_token';
+
+/**
+ * 刷新令牌 Cookie 服务
+ * 开启 Cookie 模式（REFRESH_TOKEN_COOKIE_ENABLED=true）后，
+ * 刷新令牌通过 secure httpOnly Cookie 下发，不再出现在响应体中，前端脚本无法读取
+ */
+@Injectable()
+export class RefreshTokenCookieService {
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * 是否启用 Cookie 模式
+   */
+  get enabled(): boolean {
+    return (
+      this.configService.get<string>(
+        'REFRESH_TOKEN_COOKIE_ENABLED',
+        'false',
+      ) === 'true'
+    );
+  }
+
+  /**
+   * 按当前模式输出登录响应
+   * Cookie 模式下写入 Cookie 并从响应体中移除刷新令牌
+   * @param res Express 响应对象
+   * @param authResponse 登录响应
+   */
+  apply(res: Response, authResponse: AuthResponseDto): AuthResponseDto {
+    if (!this.enabled || !authResponse.refreshToken) {
+      return authResponse;
+    }
+
+    const { refreshToken, ...rest } = authResponse;
+    res.cookie(REFRESH_TOKEN_COOKIE, refreshToken, {
+      ...this.getCookieOptions(),
+      maxAge: 7 * 24 * 60 * 60 * 1000, // 与会话有效期一致（7天）
+    });
+    return rest;
+  }
+
+  /**
+   * 清除刷新令牌 Cookie
+   * @param res Express 响应对象
+   */
+  clear(res: Response): void {
+    if (this.enabled) {
+      res.clearCookie(REFRESH_TOKEN_COOKIE, this.getCookieOptions());
+    }
+  }
+
+  /**
+   * Cookie 选项，只在认证接口路径下发送
+   */
+  private getCookieOptions() {
+    return {
+      httpOnly: true,
+      secure: true,
+      sameSite: 'strict' as const,
+      path: this.configService.get<string>(
+        'REFRESH_TOKEN_COOKIE_PATH',
+        '/api/v1/auth',
+      ),
+    };
+  }
+}
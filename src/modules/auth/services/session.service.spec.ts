@@ -0,0 +1,111 @@
+import { NotFoundException } from '@nestjs/common';
+
+import { SessionService } from './session.service';
+import { RefreshToken } from '../entities/refresh-token.entity';
+import { InMemoryRepository } from '../../../testing/in-memory-repository';
+
+describe('SessionService', () => {
+  const userId = 'user-1';
+  let service: SessionService;
+  let repository: InMemoryRepository<RefreshToken>;
+
+  beforeEach(() => {
+    repository = new InMemoryRepository(RefreshToken);
+    service = new SessionService(repository.asRepository());
+  });
+
+  it('stores one session per device with a hashed token and device details', async () => {
+    await service.createSession('session-1', userId, 'token-1', {
+      userAgent:
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36',
+      ipAddress: '203.0.113.1',
+    });
+    await service.createSession('session-2', userId, 'token-2', {
+      deviceName: 'Work laptop',
+    });
+
+    const sessions = await service.listSessions(userId);
+    expect(sessions.map((session) => session.id).sort()).toEqual([
+      'session-1',
+      'session-2',
+    ]);
+    expect(repository.rows[0]).toMatchObject({
+      deviceName: 'Chrome on Windows',
+      ipAddress: '203.0.113.1',
+    });
+    expect(repository.rows[1].deviceName).toBe('Work laptop');
+    expect(repository.rows[0].tokenHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(repository.rows[0].tokenHash).not.toContain('token-1');
+  });
+
+  it('does not list expired sessions', async () => {
+    await service.createSession('session-1', userId, 'token-1');
+    await service.createSession('session-2', userId, 'token-2');
+    repository.rows[0].expiresAt = new Date(Date.now() - 1000);
+
+    const sessions = await service.listSessions(userId);
+    expect(sessions.map((session) => session.id)).toEqual(['session-2']);
+  });
+
+  it('rotates the token only when the submitted token is still current', async () => {
+    const session = await service.createSession('session-1', userId, 'token-1');
+
+    await expect(
+      service.rotateToken(session, 'token-1', 'token-2', {
+        ipAddress: '203.0.113.2',
+      }),
+    ).resolves.toBe(true);
+    const rotated = (await service.findSession(
+      userId,
+      'session-1',
+    )) as RefreshToken;
+    expect(service.isCurrentToken(rotated, 'token-2')).toBe(true);
+    expect(service.isCurrentToken(rotated, 'token-1')).toBe(false);
+    expect(rotated.ipAddress).toBe('203.0.113.2');
+
+    // 并发请求提交同一个旧令牌时只有一个能轮换成功
+    await expect(
+      service.rotateToken(session, 'token-1', 'token-3'),
+    ).resolves.toBe(false);
+    const current = (await service.findSession(
+      userId,
+      'session-1',
+    )) as RefreshToken;
+    expect(service.isCurrentToken(current, 'token-2')).toBe(true);
+  });
+
+  it('revokes a single session and keeps the other devices signed in', async () => {
+    await service.createSession('session-1', userId, 'token-1');
+    await service.createSession('session-2', userId, 'token-2');
+
+    await service.revokeSession(userId, 'session-1');
+
+    const sessions = await service.listSessions(userId);
+    expect(sessions.map((session) => session.id)).toEqual(['session-2']);
+  });
+
+  it("does not revoke another user's session", async () => {
+    await service.createSession('session-1', 'user-2', 'token-1');
+
+    await expect(service.revokeSession(userId, 'session-1')).rejects.toThrow(
+      NotFoundException,
+    );
+    expect(repository.rows).toHaveLength(1);
+  });
+
+  it('logs out everywhere else but keeps the current session', async () => {
+    await service.createSession('session-1', userId, 'token-1');
+    await service.createSession('session-2', userId, 'token-2');
+    await service.createSession('session-3', userId, 'token-3');
+    await service.createSession('session-4', 'user-2', 'token-4');
+
+    await expect(
+      service.revokeOtherSessions(userId, 'session-2'),
+    ).resolves.toBe(2);
+
+    expect(repository.rows.map((row) => row.id)).toEqual([
+      'session-2',
+      'session-4',
+    ]);
+  });
+});
@@ -0,0 +1,244 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { createHash, timingSafeEqual } from 'crypto';
+import { InjectRepository } from '@nestjs/typeorm';
+import { MoreThan, Not, Repository } from 'typeorm';
+
+import { RefreshToken } from '../entities/refresh-token.entity';
+import type { SessionContext } from '../interfaces/session.interface';
+
+/**
+ * 会话服务 - 管理用户在各个设备上的登录会话
+ * 每个会话对应一条刷新令牌记录，登出某个设备不影响其他设备
+ * 刷新令牌只以 SHA-256 哈希形式保存
+ */
+@Injectable()
+export class SessionService {
+  constructor(
+    @InjectRepository(RefreshToken)
+    private readonly refreshTokenRepository: Repository<RefreshToken>, // 刷新令牌仓库
+  ) {}
+
+  /**
+   * 创建会话
+   * @param sessionId 会话ID（预先生成，已写入令牌载荷）
+   * @param userId 用户ID
+   * @param token 刷新令牌
+   * @param context 客户端信息
+   * @param amr 登录时使用的认证方式
+   */
+  async createSession(
+    sessionId: string,
+    userId: string,
+    token: string,
+    context: SessionContext = {},
+    amr: string[] = [],
+  ): Promise<RefreshToken> {
+    const now = new Date();
+    const session = this.refreshTokenRepository.create({
+      id: sessionId,
+      userId,
+      tokenHash: this.hashToken(token),
+      expiresAt: this.getExpiryDate(),
+      deviceName: this.resolveDeviceName(context),
+      userAgent: context.userAgent?.slice(0, 500),
+      ipAddress: context.ipAddress,
+      amr,
+      lastUsedAt: now,
+    });
+
+    return this.refreshTokenRepository.save(session);
+  }
+
+  /**
+   * 根据会话ID查找会话
+   * @param userId 用户ID
+   * @param sessionId 会话ID
+   */
+  async findSession(
+    userId: string,
+    sessionId: string,
+  ): Promise<RefreshToken | null> {
+    return this.refreshTokenRepository.findOne({
+      where: { id: sessionId, userId },
+      relations: ['user'], // 关联查询用户信息
+    });
+  }
+
+  /**
+   * 判断令牌是否为会话当前有效的刷新令牌
+   * @param session 会话记录
+   * @param token 刷新令牌
+   */
+  isCurrentToken(session: RefreshToken, token: string): boolean {
+    const expected = Buffer.from(session.tokenHash, 'hex');
+    const actual = Buffer.from(this.hashToken(token), 'hex');
+    return (
+      expected.length === actual.length && timingSafeEqual(expected, actual)
+    );
+  }
+
+  /**
+   * 轮换会话的刷新令牌
+   * 会话ID保持不变，只替换令牌并更新最近使用信息
+   * 以旧令牌哈希作为更新条件，并发刷新时只有一个请求能成功
+   * @param session 会话记录
+   * @param oldToken 本次提交的刷新令牌
+   * @param newToken 新的刷新令牌
+   * @param context 客户端信息
+   * @returns 是否轮换成功
+   */
+  async rotateToken(
+    session: RefreshToken,
+    oldToken: string,
+    newToken: string,
+    context: SessionContext = {},
+  ): Promise<boolean> {
+    const result = await this.refreshTokenRepository.update(
+      { id: session.id, tokenHash: this.hashToken(oldToken) },
+      {
+        tokenHash: this.hashToken(newToken),
+        expiresAt: this.getExpiryDate(),
+        lastUsedAt: new Date(),
+        ...(context.ipAddress && { ipAddress: context.ipAddress }),
+        ...(context.userAgent && {
+          userAgent: context.userAgent.slice(0, 500),
+        }),
+      },
+    );
+    return !!result.affected;
+  }
+
+  /**
+   * 切换会话所在的组织并替换刷新令牌
+   * 之前的刷新令牌随之失效，再次使用会按令牌重用处理
+   * @param sessionId 会话ID
+   * @param newToken 新的刷新令牌
+   * @param organizationId 组织ID，null 表示退出组织
+   */
+  async switchOrganization(
+    sessionId: string,
+    newToken: string,
+    organizationId: string | null,
+  ): Promise<void> {
+    await this.refreshTokenRepository.update(sessionId, {
+      tokenHash: this.hashToken(newToken),
+      expiresAt: this.getExpiryDate(),
+      lastUsedAt: new Date(),
+      organizationId,
+    });
+  }
+
+  /**
+   * 获取用户所有未过期的会话，最近使用的排在前面
+   * @param userId 用户ID
+   */
+  async listSessions(userId: string): Promise<RefreshToken[]> {
+    return this.refreshTokenRepository.find({
+      where: { userId, expiresAt: MoreThan(new Date()) },
+      order: { lastUsedAt: 'DESC', createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * 注销指定会话
+   * @param userId 用户ID
+   * @param sessionId 会话ID
+   * @throws NotFoundException 会话不存在或不属于该用户
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    const result = await this.refreshTokenRepository.delete({
+      id: sessionId,
+      userId,
+    });
+    if (!result.affected) {
+      throw new NotFoundException('会话不存在');
+    }
+  }
+
+  /**
+   * 注销除当前会话外的所有会话
+   * @param userId 用户ID
+   * @param currentSessionId 当前会话ID
+   * @returns 注销的会话数量
+   */
+  async revokeOtherSessions(
+    userId: string,
+    currentSessionId: string,
+  ): Promise<number> {
+    const result = await this.refreshTokenRepository.delete({
+      userId,
+      id: Not(currentSessionId),
+    });
+    return result.affected ?? 0;
+  }
+
+  /**
+   * 注销用户的所有会话
+   * @param userId 用户ID
+   */
+  async revokeAllSessions(userId: string): Promise<void> {
+    await this.refreshTokenRepository.delete({ userId });
+  }
+
+  /**
+   * 计算刷新令牌的 SHA-256 哈希
+   * 刷新令牌本身是高熵的随机签名串，无需加盐慢哈希
+   */
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * 计算刷新令牌过期时间（7天）
+   */
+  private getExpiryDate(): Date {
+    const expiresAt = new Date();
+    expiresAt.setDate(expiresAt.getDate() + 7); // 7 days
+    return expiresAt;
+  }
+
+  /**
+   * 解析设备名称
+   * 优先使用客户端上报的名称，否则根据 User-Agent 推断，例如 "Chrome on Windows"
+   * 也用于为通行密钥生成默认名称
+   */
+  resolveDeviceName(context: SessionContext): string | undefined {
+    if (context.deviceName) {
+      return context.deviceName.slice(0, 100);
+    }
+    return this.resolveUserAgentFamily(context.userAgent);
+  }
+
+  /**
+   * 根据 User-Agent 推断浏览器和操作系统，例如 "Chrome on Windows"
+   * 不包含版本号，浏览器升级后结果不变，也用于生成登录设备指纹
+   */
+  resolveUserAgentFamily(userAgent?: string): string | undefined {
+    if (!userAgent) {
+      return undefined;
+    }
+
+    const browsers: Array<[RegExp, string]> = [
+      [/Edg\//, 'Edge'],
+      [/OPR\/|Opera/, 'Opera'],
+      [/Chrome\//, 'Chrome'],
+      [/Firefox\//, 'Firefox'],
+      [/Safari\//, 'Safari'],
+    ];
+    const platforms: Array<[RegExp, string]> = [
+      [/iPhone|iPad/, 'iOS'],
+      [/Android/, 'Android'],
+      [/Windows/, 'Windows'],
+      [/Mac OS X|Macintosh/, 'macOS'],
+      [/Linux/, 'Linux'],
+    ];
+
+    const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+    const platform = platforms.find(([pattern]) =>
+      pattern.test(userAgent),
+    )?.[1];
+
+    if (browser && platform) return `${browser} on ${platform}`;
+    return browser || platform || userAgent.slice(0, 100);
+  }
+}
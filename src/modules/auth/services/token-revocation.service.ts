@@ -0,0 +1,36 @@
+import { Injectable } from '@nestjs/common';
+
+import { RedisService } from '../../redis/redis.service';
+
+/**
+ * 令牌撤销服务 - 基于 Redis 的访问令牌黑名单
+ * 以 jti 为键，过期时间与令牌剩余有效期一致，令牌自然过期后记录自动清除
+ */
+@Injectable()
+export class TokenRevocationService {
+  private readonly keyPrefix = 'auth:revoked-token:';
+
+  constructor(private readonly redisService: RedisService) {}
+
+  /**
+   * 撤销令牌
+   * @param jti 令牌ID
+   * @param exp 令牌过期时间（秒级时间戳）
+   */
+  async revoke(jti: string, exp: number): Promise<void> {
+    const ttl = exp - Math.floor(Date.now() / 1000);
+    if (ttl <= 0) {
+      return; // 令牌已过期，无需加入黑名单
+    }
+
+    await this.redisService.set(`${this.keyPrefix}${jti}`, 1, ttl);
+  }
+
+  /**
+   * 判断令牌是否已被撤销
+   * @param jti 令牌ID
+   */
+  async isRevoked(jti: string): Promise<boolean> {
+    return (await this.redisService.get(`${this.keyPrefix}${jti}`)) !== null;
+  }
+}
@@ -1,27 +1,35 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 
+import { JwtKeyService } from './jwt-key.service';
+
 /**
  * 令牌服务 - 负责 JWT 令牌的生成、验证和解码
- * 提供访问令牌和刷新令牌的管理功能
+ * 访问令牌使用非对称密钥（RS256 / ES256）签名并在头部携带 kid，其他服务可通过 JWKS 验证；
+ * 刷新令牌只由本服务验证，继续使用对称密钥 JWT_REFRESH_SECRET
  */
 @Injectable()
 export class TokenService {
   constructor(
     private readonly jwtService: JwtService, // NestJS JWT 服务
     private readonly configService: ConfigService, // 配置服务
+    private readonly jwtKeyService: JwtKeyService, // JWT 密钥服务
   ) {}
 
   /**
    * 生成访问令牌（短期有效）
    * @param payload JWT 载荷数据
+   * @param expiresIn 可选的有效期，不提供则使用 JWT_EXPIRES_IN
    * @returns 访问令牌字符串
    */
-  async generateAccessToken(payload: any): Promise<string> {
+  async generateAccessToken(payload: any, expiresIn?: string): Promise<string> {
+    const key = await this.jwtKeyService.getSigningKey();
     return this.jwtService.signAsync(payload, {
-      secret: this.configService.get('JWT_SECRET'), // 访问令牌密钥
-      expiresIn: this.configService.get('JWT_EXPIRES_IN', '15m'), // 默认15分钟过期
+      secret: key.privateKey, // 当前签名私钥
+      algorithm: key.algorithm,
+      keyid: key.kid, // 写入 JWT 头部，验证方据此选择公钥
+      expiresIn: expiresIn ?? this.configService.get('JWT_EXPIRES_IN', '15m'), // 默认15分钟过期
     });
   }
 
@@ -40,13 +48,22 @@ export class TokenService {
   /**
    * 验证令牌有效性
    * @param token 要验证的令牌
-   * @param secret 可选的密钥，不提供则使用默认访问令牌密钥
+   * @param secret 可选的密钥，不提供则按 kid 使用访问令牌公钥验证
    * @returns 解码后的载荷数据
    * @throws 令牌无效或过期时抛出异常
    */
   async verifyToken(token: string, secret?: string): Promise<any> {
+    if (secret) {
+      return this.jwtService.verifyAsync(token, { secret });
+    }
+
+    const key = await this.jwtKeyService.getVerificationKeyForToken(token);
+    if (!key) {
+      throw new UnauthorizedException('令牌签名密钥无效');
+    }
     return this.jwtService.verifyAsync(token, {
-      secret: secret || this.configService.get('JWT_SECRET'),
+      secret: key.publicKey.export({ type: 'spki', format: 'pem' }), // 对应 kid 的公钥
+      algorithms: [key.algorithm],
     });
   }
 
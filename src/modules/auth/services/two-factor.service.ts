@@ -0,0 +1,251 @@
+import {
+  BadRequestException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+
+import { UsersService } from '../../users/users.service';
+import { User } from '../../users/entities/user.entity';
+import { RedisService } from '../../redis/redis.service';
+import { TotpService } from './totp.service';
+import { PasswordService } from './password.service';
+import { AccountLockedException } from '../exceptions/account-locked.exception';
+import { TwoFactorSetupDto } from '../dto/two-factor-setup.dto';
+
+/**
+ * 双因素认证服务 - 负责 TOTP 的设置、启用、关闭、口令校验以及登录挑战
+ */
+@Injectable()
+export class TwoFactorService {
+  private readonly backupCodeCount = 10; // 备用码数量
+  private readonly maxChallengeAttempts = 5; // 每个挑战令牌允许的最大错误次数
+
+  constructor(
+    private readonly usersService: UsersService, // 用户服务
+    private readonly totpService: TotpService, // TOTP 服务
+    private readonly passwordService: PasswordService, // 密码服务（用于哈希备用码）
+    private readonly redisService: RedisService, // Redis 服务
+    private readonly configService: ConfigService, // 配置服务
+  ) {}
+
+  /**
+   * 开始设置双因素认证：生成新密钥，确认口令前不会生效
+   * @param user 当前用户
+   */
+  async setup(user: User): Promise<TwoFactorSetupDto> {
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException('双因素认证已启用');
+    }
+
+    const secret = this.totpService.generateSecret();
+    await this.usersService.setTwoFactorSecret(user.id, secret);
+
+    return {
+      secret,
+      otpauthUrl: this.totpService.buildOtpAuthUri(secret, user.email),
+    };
+  }
+
+  /**
+   * 确认口令并启用双因素认证
+   * @param user 当前用户
+   * @param code 验证器应用中的口令
+   * @returns 一次性备用码明文（只在此处返回一次）
+   */
+  async enable(user: User, code: string): Promise<string[]> {
+    if (user.twoFactorEnabled) {
+      throw new BadRequestException('双因素认证已启用');
+    }
+    if (!user.twoFactorSecret) {
+      throw new BadRequestException('请先设置双因素认证');
+    }
+    if (!(await this.verifyTotp(user, code))) {
+      throw new BadRequestException('验证码不正确');
+    }
+
+    const backupCodes = Array.from({ length: this.backupCodeCount }, () =>
+      this.generateBackupCode(),
+    );
+    const hashes = await Promise.all(
+      backupCodes.map((backupCode) =>
+        this.passwordService.hashPassword(this.normalizeBackupCode(backupCode)),
+      ),
+    );
+    await this.usersService.enableTwoFactor(user.id, hashes);
+
+    return backupCodes;
+  }
+
+  /**
+   * 关闭双因素认证，需要提供口令或备用码
+   * @param user 当前用户
+   * @param code 口令或备用码
+   */
+  async disable(user: User, code: string): Promise<void> {
+    if (!user.twoFactorEnabled) {
+      throw new BadRequestException('双因素认证未启用');
+    }
+    if (!(await this.verifyCode(user, code))) {
+      throw new BadRequestException('验证码不正确');
+    }
+
+    await this.usersService.disableTwoFactor(user.id);
+  }
+
+  /**
+   * 校验口令或备用码
+   * 备用码校验通过后立即作废
+   * @param user 用户信息
+   * @param code 口令或备用码
+   */
+  async verifyCode(user: User, code: string): Promise<boolean> {
+    if (await this.verifyTotp(user, code)) {
+      return true;
+    }
+    return this.consumeBackupCode(user, code);
+  }
+
+  /**
+   * 创建登录挑战令牌
+   * @param userId 已通过密码校验的用户ID
+   * @returns 挑战令牌及有效期（秒）
+   */
+  async createChallenge(
+    userId: string,
+  ): Promise<{ challengeToken: string; expiresIn: number }> {
+    const challengeToken = randomBytes(32).toString('hex');
+    const expiresIn = Number(
+      this.configService.get('TWO_FACTOR_CHALLENGE_TTL', 300),
+    );
+
+    await this.redisService.set(
+      this.getChallengeKey(challengeToken),
+      userId,
+      expiresIn,
+    );
+
+    return { challengeToken, expiresIn };
+  }
+
+  /**
+   * 校验挑战令牌和口令，成功后挑战令牌立即作废
+   * @param challengeToken 挑战令牌
+   * @param code 口令或备用码
+   * @returns 对应的用户
+   * @throws UnauthorizedException 挑战令牌无效或口令错误
+   * @throws AccountLockedException 等待验证期间账户被锁定
+   */
+  async completeChallenge(challengeToken: string, code: string): Promise<User> {
+    const challengeKey = this.getChallengeKey(challengeToken);
+    const userId = await this.redisService.get(challengeKey);
+    if (!userId) {
+      throw new UnauthorizedException('挑战令牌无效或已过期，请重新登录');
+    }
+
+    const user = await this.usersService.findById(userId);
+    if (!user || !user.isActive || !user.twoFactorEnabled) {
+      await this.redisService.del(challengeKey);
+      throw new UnauthorizedException('挑战令牌无效或已过期，请重新登录');
+    }
+    // 等待验证期间账户可能已被锁定
+    if (user.isLocked) {
+      throw new AccountLockedException(user.lockedUntil as Date);
+    }
+
+    if (!(await this.verifyCode(user, code))) {
+      // 错误次数过多时作废挑战令牌，防止暴力猜测口令
+      const attemptsKey = `${challengeKey}:attempts`;
+      const attempts = await this.redisService.incrby(attemptsKey);
+      if (attempts === 1) {
+        await this.redisService.expire(
+          attemptsKey,
+          await this.redisService.ttl(challengeKey),
+        );
+      }
+      if (attempts >= this.maxChallengeAttempts) {
+        await this.redisService.del(challengeKey);
+        await this.redisService.del(attemptsKey);
+      }
+      throw new UnauthorizedException('验证码不正确');
+    }
+
+    // 并发提交时只有一个请求能作废挑战令牌
+    if ((await this.redisService.del(challengeKey)) === 0) {
+      throw new UnauthorizedException('挑战令牌无效或已过期，请重新登录');
+    }
+    await this.redisService.del(`${challengeKey}:attempts`);
+    return user;
+  }
+
+  /**
+   * 校验 TOTP 口令，同一时间步的口令只能使用一次
+   */
+  private async verifyTotp(user: User, code: string): Promise<boolean> {
+    if (!user.twoFactorSecret) {
+      return false;
+    }
+
+    const step = this.totpService.verify(user.twoFactorSecret, code);
+    if (step === null) {
+      return false;
+    }
+
+    // 防止口令在有效期内被重放，原子地标记该时间步的口令已使用
+    return this.redisService.setnx(
+      `auth:2fa:used-step:${user.id}:${step}`,
+      1,
+      120,
+    );
+  }
+
+  /**
+   * 校验并作废备用码
+   */
+  private async consumeBackupCode(user: User, code: string): Promise<boolean> {
+    const hashes = user.twoFactorBackupCodes || [];
+    const normalized = this.normalizeBackupCode(code);
+    if (!hashes.length || !normalized) {
+      return false;
+    }
+
+    const matches = await Promise.all(
+      hashes.map((hash) =>
+        this.passwordService.comparePassword(normalized, hash),
+      ),
+    );
+    const index = matches.indexOf(true);
+    if (index === -1) {
+      return false;
+    }
+
+    const remaining = hashes.filter((_, i) => i !== index);
+    await this.usersService.updateTwoFactorBackupCodes(user.id, remaining);
+    user.twoFactorBackupCodes = remaining;
+
+    return true;
+  }
+
+  /**
+   * 生成备用码，格式如 "a1b2c-3d4e5"
+   */
+  private generateBackupCode(): string {
+    const code = randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  }
+
+  /**
+   * 统一备用码格式：去掉分隔符并转为小写
+   */
+  private normalizeBackupCode(code: string): string {
+    return code.replace(/[\s-]/g, '').toLowerCase();
+  }
+
+  /**
+   * 获取登录挑战的 Redis 键
+   */
+  private getChallengeKey(challengeToken: string): string {
+    return `auth:2fa-challenge:${challengeToken}`;
+  }
+}
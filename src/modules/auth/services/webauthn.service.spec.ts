@@ -0,0 +1,294 @@
+import {
+  createHash,
+  generateKeyPairSync,
+  randomBytes,
+  randomUUID,
+  sign,
+  type KeyObject,
+} from 'crypto';
+import { ConfigService } from '@nestjs/config';
+
+import { WebAuthnService } from './webauthn.service';
+import { SessionService } from './session.service';
+import { User } from '../../users/entities/user.entity';
+import { WebAuthnCredential } from '../entities/webauthn-credential.entity';
+import { AUTHENTICATOR_FLAGS } from '../utils/webauthn.util';
+import type { WebAuthnRegistrationDto } from '../dto/webauthn-registration.dto';
+import type { WebAuthnAuthenticationDto } from '../dto/webauthn-authentication.dto';
+import { InMemoryRepository } from '../../../testing/in-memory-repository';
+import { InMemoryRedis } from '../../../testing/in-memory-redis';
+
+type CborValue = number | string | Buffer | Map<CborValue, CborValue>;
+
+/**
+ * CBOR 编码（只支持认证器数据用到的整数、字符串、字节串和映射）
+ */
+function encodeCbor(value: CborValue): Buffer {
+  const head = (major: number, length: number): Buffer => {
+    if (length < 24) return Buffer.from([(major << 5) | length]);
+    if (length < 0x100) return Buffer.from([(major << 5) | 24, length]);
+    const buffer = Buffer.alloc(3);
+    buffer[0] = (major << 5) | 25;
+    buffer.writeUInt16BE(length, 1);
+    return buffer;
+  };
+
+  if (typeof value === 'number') {
+    return value >= 0 ? head(0, value) : head(1, -1 - value);
+  }
+  if (typeof value === 'string') {
+    const bytes = Buffer.from(value, 'utf8');
+    return Buffer.concat([head(3, bytes.length), bytes]);
+  }
+  if (Buffer.isBuffer(value)) {
+    return Buffer.concat([head(2, value.length), value]);
+  }
+  return Buffer.concat([
+    head(5, value.size),
+    ...[...value].flatMap(([key, item]) => [encodeCbor(key), encodeCbor(item)]),
+  ]);
+}
+
+/**
+ * 软件认证器 - 按 WebAuthn 规范生成注册响应和登录断言（ES256，attestation: none）
+ */
+class SoftwareAuthenticator {
+  readonly credentialId = randomBytes(16);
+  signCount = 0;
+  private readonly privateKey: KeyObject;
+  private readonly publicKey: KeyObject;
+
+  constructor(
+    private readonly rpId: string,
+    private readonly origin: string,
+  ) {
+    ({ privateKey: this.privateKey, publicKey: this.publicKey } =
+      generateKeyPairSync('ec', { namedCurve: 'P-256' }));
+  }
+
+  /**
+   * 复制认证器（相同密钥，计数器从当前值继续），用于模拟被克隆的凭据
+   */
+  clone(): SoftwareAuthenticator {
+    return Object.assign(
+      Object.create(SoftwareAuthenticator.prototype) as SoftwareAuthenticator,
+      this,
+    );
+  }
+
+  create(challenge: string): WebAuthnRegistrationDto {
+    const jwk = this.publicKey.export({ format: 'jwk' });
+    const coseKey = new Map<CborValue, CborValue>([
+      [1, 2], // kty: EC2
+      [3, -7], // alg: ES256
+      [-1, 1], // crv: P-256
+      [-2, Buffer.from(jwk.x as string, 'base64url')],
+      [-3, Buffer.from(jwk.y as string, 'base64url')],
+    ]);
+    const length = Buffer.alloc(2);
+    length.writeUInt16BE(this.credentialId.length);
+    const authData = Buffer.concat([
+      this.authenticatorData(
+        AUTHENTICATOR_FLAGS.USER_PRESENT |
+          AUTHENTICATOR_FLAGS.USER_VERIFIED |
+          AUTHENTICATOR_FLAGS.ATTESTED_CREDENTIAL_DATA,
+      ),
+      Buffer.alloc(16), // aaguid
+      length,
+      this.credentialId,
+      encodeCbor(coseKey),
+    ]);
+    const attestationObject = encodeCbor(
+      new Map<CborValue, CborValue>([
+        ['fmt', 'none'],
+        ['attStmt', new Map()],
+        ['authData', authData],
+      ]),
+    );
+
+    const id = this.credentialId.toString('base64url');
+    return {
+      id,
+      rawId: id,
+      type: 'public-key',
+      response: {
+        clientDataJSON: this.clientData('webauthn.create', challenge),
+        attestationObject: attestationObject.toString('base64url'),
+      },
+    };
+  }
+
+  get(
+    challenge: string,
+    options: { origin?: string; userVerified?: boolean } = {},
+  ): WebAuthnAuthenticationDto {
+    this.signCount++;
+    const flags =
+      AUTHENTICATOR_FLAGS.USER_PRESENT |
+      (options.userVerified === false ? 0 : AUTHENTICATOR_FLAGS.USER_VERIFIED);
+    const authenticatorData = this.authenticatorData(flags);
+    const clientDataJSON = this.clientData(
+      'webauthn.get',
+      challenge,
+      options.origin,
+    );
+    const signature = sign(
+      'sha256',
+      Buffer.concat([
+        authenticatorData,
+        createHash('sha256')
+          .update(Buffer.from(clientDataJSON, 'base64url'))
+          .digest(),
+      ]),
+      this.privateKey,
+    );
+
+    const id = this.credentialId.toString('base64url');
+    return {
+      id,
+      rawId: id,
+      type: 'public-key',
+      response: {
+        clientDataJSON,
+        authenticatorData: authenticatorData.toString('base64url'),
+        signature: signature.toString('base64url'),
+      },
+    };
+  }
+
+  private authenticatorData(flags: number): Buffer {
+    const counter = Buffer.alloc(4);
+    counter.writeUInt32BE(this.signCount);
+    return Buffer.concat([
+      createHash('sha256').update(this.rpId).digest(),
+      Buffer.from([flags]),
+      counter,
+    ]);
+  }
+
+  private clientData(type: string, challenge: string, origin = this.origin) {
+    return Buffer.from(JSON.stringify({ type, challenge, origin })).toString(
+      'base64url',
+    );
+  }
+}
+
+describe('WebAuthnService', () => {
+  const origin = 'https://app.example.com';
+  let service: WebAuthnService;
+  let repository: InMemoryRepository<WebAuthnCredential>;
+  let authenticator: SoftwareAuthenticator;
+  let user: User;
+
+  // 用软件认证器为用户注册一个通行密钥
+  const register = async () => {
+    const options = await service.generateRegistrationOptions(user);
+    await service.verifyRegistration(
+      user,
+      authenticator.create(options.challenge),
+    );
+  };
+
+  // 获取登录挑战并用指定认证器签名后校验
+  const login = async (
+    device = authenticator,
+    options?: Parameters<SoftwareAuthenticator['get']>[1],
+  ) => {
+    const { challenge } = await service.generateAuthenticationOptions();
+    return service.verifyAuthentication(device.get(challenge, options));
+  };
+
+  beforeEach(() => {
+    user = Object.assign(new User(), {
+      id: randomUUID(),
+      email: 'alice@example.com',
+      firstName: 'Alice',
+      lastName: 'Smith',
+    });
+    repository = new InMemoryRepository(WebAuthnCredential, {
+      user: (credential) => (credential.userId === user.id ? user : undefined),
+    });
+    service = new WebAuthnService(
+      repository.asRepository(),
+      { resolveDeviceName: () => undefined } as unknown as SessionService,
+      new InMemoryRedis().asService(),
+      new ConfigService({ FRONTEND_URL: origin }),
+    );
+    authenticator = new SoftwareAuthenticator('app.example.com', origin);
+  });
+
+  it('registers a passkey from a software authenticator', async () => {
+    await register();
+
+    expect(repository.rows).toHaveLength(1);
+    expect(repository.rows[0]).toMatchObject({
+      userId: user.id,
+      credentialId: authenticator.credentialId.toString('base64url'),
+      algorithm: -7,
+      signCount: 0,
+      name: '通行密钥',
+    });
+  });
+
+  it('rejects a registration response for another challenge', async () => {
+    await service.generateRegistrationOptions(user);
+
+    await expect(
+      service.verifyRegistration(
+        user,
+        authenticator.create(randomBytes(32).toString('base64url')),
+      ),
+    ).rejects.toThrow('注册响应与请求不匹配');
+  });
+
+  it('logs in with a registered passkey and stores the new sign count', async () => {
+    await register();
+
+    await expect(login()).resolves.toBe(user);
+    await expect(login()).resolves.toBe(user);
+    expect(repository.rows[0].signCount).toBe(2);
+  });
+
+  it('accepts each login challenge only once', async () => {
+    await register();
+    const { challenge } = await service.generateAuthenticationOptions();
+    const assertion = authenticator.get(challenge);
+
+    await service.verifyAuthentication(assertion);
+    await expect(service.verifyAuthentication(assertion)).rejects.toThrow(
+      '登录请求无效或已过期，请重新开始',
+    );
+  });
+
+  it('rejects assertions from another origin', async () => {
+    await register();
+
+    await expect(
+      login(authenticator, { origin: 'https://evil.example.com' }),
+    ).rejects.toThrow('登录请求来源不正确');
+  });
+
+  it('requires user verification when logging in', async () => {
+    await register();
+
+    await expect(login(authenticator, { userVerified: false })).rejects.toThrow(
+      '认证器数据校验失败',
+    );
+  });
+
+  it('rejects assertions signed with another key', async () => {
+    await register();
+    const impostor = new SoftwareAuthenticator('app.example.com', origin);
+    Object.assign(impostor, { credentialId: authenticator.credentialId });
+
+    await expect(login(impostor)).rejects.toThrow('通行密钥签名无效');
+  });
+
+  it('rejects a cloned authenticator whose sign count does not increase', async () => {
+    await register();
+    const clone = authenticator.clone();
+    await login();
+
+    await expect(login(clone)).rejects.toThrow('通行密钥校验失败');
+  });
+});
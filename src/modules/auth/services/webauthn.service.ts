@@ -0,0 +1,448 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { createHash, createPublicKey, randomBytes, verify } from 'crypto';
+
+import { WebAuthnCredential } from '../entities/webauthn-credential.entity';
+import { SessionService } from './session.service';
+import { RedisService } from '../../redis/redis.service';
+import { User } from '../../users/entities/user.entity';
+import { WebAuthnRegistrationDto } from '../dto/webauthn-registration.dto';
+import { WebAuthnAuthenticationDto } from '../dto/webauthn-authentication.dto';
+import {
+  AUTHENTICATOR_FLAGS,
+  COSE_ALGORITHMS,
+  coseKeyToPublicKey,
+  decodeCbor,
+  parseAuthenticatorData,
+  type AuthenticatorData,
+} from '../utils/webauthn.util';
+import type {
+  WebAuthnAuthenticationOptions,
+  WebAuthnClientData,
+  WebAuthnRegistrationOptions,
+} from '../interfaces/webauthn.interface';
+
+/**
+ * WebAuthn 服务 - 通行密钥（passkey）的注册、登录校验和管理
+ * 挑战保存在 Redis 中，使用 GETDEL 原子消费，每个挑战只能使用一次；
+ * 不要求认证器证明（attestation: none），只校验凭据公钥和签名，
+ * 因此软件认证器与平台认证器、硬件安全密钥的处理方式相同
+ */
+@Injectable()
+export class WebAuthnService {
+  private readonly logger = new Logger(WebAuthnService.name);
+  private readonly registrationPrefix = 'auth:webauthn:registration:';
+  private readonly authenticationPrefix = 'auth:webauthn:authentication:';
+
+  constructor(
+    @InjectRepository(WebAuthnCredential)
+    private readonly credentialRepository: Repository<WebAuthnCredential>, // 凭据仓库
+    private readonly sessionService: SessionService, // 会话服务（推断默认凭据名称）
+    private readonly redisService: RedisService, // Redis 服务
+    private readonly configService: ConfigService, // 配置服务
+  ) {}
+
+  /**
+   * 挑战有效期（秒），默认5分钟
+   */
+  get challengeTtl(): number {
+    return Number(this.configService.get('WEBAUTHN_CHALLENGE_TTL', 300));
+  }
+
+  /**
+   * 依赖方ID，默认为 FRONTEND_URL 的域名
+   */
+  get rpId(): string {
+    return this.configService.get<string>(
+      'WEBAUTHN_RP_ID',
+      new URL(
+        this.configService.get<string>('FRONTEND_URL', 'http://localhost:3000'),
+      ).hostname,
+    );
+  }
+
+  /**
+   * 允许的来源，逗号分隔，默认为 FRONTEND_URL 的来源
+   */
+  get origins(): string[] {
+    const configured = this.configService.get<string>('WEBAUTHN_ORIGINS');
+    if (configured) {
+      return configured.split(',').map((origin) => origin.trim());
+    }
+    return [
+      new URL(
+        this.configService.get<string>('FRONTEND_URL', 'http://localhost:3000'),
+      ).origin,
+    ];
+  }
+
+  // ==================== 注册 ====================
+
+  /**
+   * 生成注册选项
+   * 同一用户只保留最近一次的注册挑战
+   * @param user 当前用户
+   */
+  async generateRegistrationOptions(
+    user: User,
+  ): Promise<WebAuthnRegistrationOptions> {
+    const challenge = randomBytes(32).toString('base64url');
+    await this.redisService.set(
+      `${this.registrationPrefix}${user.id}`,
+      challenge,
+      this.challengeTtl,
+    );
+
+    const credentials = await this.list(user.id);
+    return {
+      challenge,
+      rp: {
+        id: this.rpId,
+        name: this.configService.get<string>('WEBAUTHN_RP_NAME', 'NestAuth'),
+      },
+      user: {
+        id: Buffer.from(user.id).toString('base64url'),
+        name: user.email,
+        displayName: user.fullName,
+      },
+      pubKeyCredParams: [
+        { type: 'public-key', alg: COSE_ALGORITHMS.ES256 },
+        { type: 'public-key', alg: COSE_ALGORITHMS.EDDSA },
+        { type: 'public-key', alg: COSE_ALGORITHMS.RS256 },
+      ],
+      timeout: this.challengeTtl * 1000,
+      attestation: 'none',
+      excludeCredentials: credentials.map((credential) => ({
+        type: 'public-key',
+        id: credential.credentialId,
+        transports: credential.transports ?? undefined,
+      })),
+      authenticatorSelection: {
+        residentKey: 'required', // 登录时不需要输入邮箱
+        userVerification: 'preferred',
+      },
+    };
+  }
+
+  /**
+   * 校验注册响应并保存凭据
+   * @param user 当前用户
+   * @param registrationDto 认证器的注册响应
+   * @param userAgent 客户端 User-Agent，用于生成默认名称
+   * @throws BadRequestException 挑战已过期或响应无效
+   * @throws ConflictException 凭据已注册
+   */
+  async verifyRegistration(
+    user: User,
+    registrationDto: WebAuthnRegistrationDto,
+    userAgent?: string,
+  ): Promise<WebAuthnCredential> {
+    const challenge = await this.redisService.getdel<string>(
+      `${this.registrationPrefix}${user.id}`,
+    );
+    if (!challenge) {
+      throw new BadRequestException('注册请求已过期，请重新开始');
+    }
+
+    const clientData = this.parseClientData(
+      registrationDto.response.clientDataJSON,
+    );
+    if (
+      clientData?.type !== 'webauthn.create' ||
+      clientData.challenge !== challenge ||
+      !this.origins.includes(clientData.origin)
+    ) {
+      throw new BadRequestException('注册响应与请求不匹配');
+    }
+
+    let authenticatorData: AuthenticatorData;
+    try {
+      const { value } = decodeCbor(
+        Buffer.from(registrationDto.response.attestationObject, 'base64url'),
+      );
+      const authData =
+        value instanceof Map ? (value.get('authData') as unknown) : undefined;
+      if (!Buffer.isBuffer(authData)) {
+        throw new Error('缺少认证器数据');
+      }
+      authenticatorData = parseAuthenticatorData(authData);
+    } catch (error) {
+      throw new BadRequestException(
+        `证明对象格式不正确: ${(error as Error).message}`,
+      );
+    }
+    if (!this.isValidAuthenticatorData(authenticatorData, false)) {
+      throw new BadRequestException('认证器数据校验失败');
+    }
+
+    const { credentialId, credentialPublicKey } = authenticatorData;
+    if (!credentialId || !credentialPublicKey) {
+      throw new BadRequestException('注册响应中缺少凭据');
+    }
+    if (credentialId.toString('base64url') !== registrationDto.id) {
+      throw new BadRequestException('凭据ID不匹配');
+    }
+
+    let publicKey: ReturnType<typeof coseKeyToPublicKey>;
+    try {
+      publicKey = coseKeyToPublicKey(credentialPublicKey);
+    } catch (error) {
+      throw new BadRequestException((error as Error).message);
+    }
+
+    const existing = await this.credentialRepository.findOne({
+      where: { credentialId: registrationDto.id },
+    });
+    if (existing) {
+      throw new ConflictException('该通行密钥已注册');
+    }
+
+    const credential = await this.credentialRepository.save(
+      this.credentialRepository.create({
+        userId: user.id,
+        credentialId: registrationDto.id,
+        publicKey: publicKey.publicKey
+          .export({ format: 'der', type: 'spki' })
+          .toString('base64url'),
+        algorithm: publicKey.algorithm,
+        signCount: authenticatorData.signCount,
+        transports: registrationDto.response.transports ?? [],
+        name:
+          this.sessionService.resolveDeviceName({
+            deviceName: registrationDto.name,
+            userAgent,
+          }) ?? '通行密钥',
+        aaguid: authenticatorData.aaguid,
+        backedUp: Boolean(
+          authenticatorData.flags & AUTHENTICATOR_FLAGS.BACKED_UP,
+        ),
+      }),
+    );
+
+    this.logger.log(`用户 ${user.id} 注册了通行密钥 ${credential.id}`);
+    return credential;
+  }
+
+  // ==================== 登录 ====================
+
+  /**
+   * 生成登录选项
+   * 登录前还不知道用户身份，挑战以自身为键保存
+   */
+  async generateAuthenticationOptions(): Promise<WebAuthnAuthenticationOptions> {
+    const challenge = randomBytes(32).toString('base64url');
+    await this.redisService.set(
+      `${this.authenticationPrefix}${challenge}`,
+      1,
+      this.challengeTtl,
+    );
+
+    return {
+      challenge,
+      rpId: this.rpId,
+      timeout: this.challengeTtl * 1000,
+      userVerification: 'required', // 通行密钥本身即为多因素认证，必须验证用户
+      allowCredentials: [],
+    };
+  }
+
+  /**
+   * 校验登录断言
+   * @param authenticationDto 认证器的登录断言
+   * @returns 凭据所属的用户
+   * @throws UnauthorizedException 挑战已过期、凭据未注册或签名无效
+   */
+  async verifyAuthentication(
+    authenticationDto: WebAuthnAuthenticationDto,
+  ): Promise<User> {
+    const { response } = authenticationDto;
+    const clientData = this.parseClientData(response.clientDataJSON);
+    // 挑战由服务端生成，格式固定为 32 字节的 base64url，其他值不查询 Redis
+    if (
+      clientData?.type !== 'webauthn.get' ||
+      !/^[A-Za-z0-9_-]{43}$/.test(clientData.challenge) ||
+      !(await this.redisService.getdel(
+        `${this.authenticationPrefix}${clientData.challenge}`,
+      ))
+    ) {
+      throw new UnauthorizedException('登录请求无效或已过期，请重新开始');
+    }
+    if (!this.origins.includes(clientData.origin)) {
+      throw new UnauthorizedException('登录请求来源不正确');
+    }
+
+    const credential = await this.credentialRepository.findOne({
+      where: { credentialId: authenticationDto.id },
+      relations: ['user'],
+    });
+    if (!credential) {
+      throw new UnauthorizedException('通行密钥未注册');
+    }
+    if (
+      response.userHandle &&
+      response.userHandle !==
+        Buffer.from(credential.userId).toString('base64url')
+    ) {
+      throw new UnauthorizedException('通行密钥与用户不匹配');
+    }
+
+    const authenticatorDataBuffer = Buffer.from(
+      response.authenticatorData,
+      'base64url',
+    );
+    let authenticatorData: AuthenticatorData;
+    try {
+      authenticatorData = parseAuthenticatorData(authenticatorDataBuffer);
+    } catch {
+      throw new UnauthorizedException('认证器数据格式不正确');
+    }
+    if (!this.isValidAuthenticatorData(authenticatorData, true)) {
+      throw new UnauthorizedException('认证器数据校验失败');
+    }
+
+    // 签名内容为 authenticatorData || SHA-256(clientDataJSON)
+    const signedData = Buffer.concat([
+      authenticatorDataBuffer,
+      createHash('sha256')
+        .update(Buffer.from(response.clientDataJSON, 'base64url'))
+        .digest(),
+    ]);
+    const publicKey = createPublicKey({
+      key: Buffer.from(credential.publicKey, 'base64url'),
+      format: 'der',
+      type: 'spki',
+    });
+    const valid = verify(
+      credential.algorithm === COSE_ALGORITHMS.EDDSA ? null : 'sha256',
+      signedData,
+      publicKey,
+      Buffer.from(response.signature, 'base64url'),
+    );
+    if (!valid) {
+      throw new UnauthorizedException('通行密钥签名无效');
+    }
+
+    // 计数器不增长说明凭据可能被复制；不支持计数器的认证器始终返回 0
+    const { signCount } = authenticatorData;
+    if (
+      (signCount > 0 || credential.signCount > 0) &&
+      signCount <= credential.signCount
+    ) {
+      this.logger.warn(
+        `通行密钥签名计数异常，可能已被复制: ${credential.id}, 用户: ${credential.userId}`,
+      );
+      throw new UnauthorizedException('通行密钥校验失败');
+    }
+
+    await this.credentialRepository.update(credential.id, {
+      signCount,
+      backedUp: Boolean(
+        authenticatorData.flags & AUTHENTICATOR_FLAGS.BACKED_UP,
+      ),
+      lastUsedAt: new Date(),
+    });
+    return credential.user;
+  }
+
+  // ==================== 凭据管理 ====================
+
+  /**
+   * 获取用户的全部凭据
+   * @param userId 用户ID
+   */
+  async list(userId: string): Promise<WebAuthnCredential[]> {
+    return this.credentialRepository.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /**
+   * 重命名凭据
+   * @param userId 用户ID
+   * @param id 凭据记录ID
+   * @param name 新名称
+   */
+  async rename(
+    userId: string,
+    id: string,
+    name: string,
+  ): Promise<WebAuthnCredential> {
+    const credential = await this.findOwned(userId, id);
+    credential.name = name;
+    return this.credentialRepository.save(credential);
+  }
+
+  /**
+   * 删除凭据
+   * @param userId 用户ID
+   * @param id 凭据记录ID
+   */
+  async remove(userId: string, id: string): Promise<void> {
+    const credential = await this.findOwned(userId, id);
+    await this.credentialRepository.remove(credential);
+    this.logger.log(`用户 ${userId} 删除了通行密钥 ${id}`);
+  }
+
+  // ==================== 内部方法 ====================
+
+  /**
+   * 查找属于用户的凭据
+   */
+  private async findOwned(
+    userId: string,
+    id: string,
+  ): Promise<WebAuthnCredential> {
+    const credential = await this.credentialRepository.findOne({
+      where: { id, userId },
+    });
+    if (!credential) {
+      throw new NotFoundException('通行密钥不存在');
+    }
+    return credential;
+  }
+
+  /**
+   * 解码客户端数据
+   * @returns 客户端数据，格式不正确时返回 null
+   */
+  private parseClientData(clientDataJSON: string): WebAuthnClientData | null {
+    try {
+      const clientData = JSON.parse(
+        Buffer.from(clientDataJSON, 'base64url').toString('utf8'),
+      ) as WebAuthnClientData;
+      return typeof clientData.challenge === 'string' &&
+        typeof clientData.origin === 'string'
+        ? clientData
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * 校验认证器数据：依赖方ID哈希一致且用户在场，登录时还要求用户已验证
+   */
+  private isValidAuthenticatorData(
+    authenticatorData: AuthenticatorData,
+    requireUserVerification: boolean,
+  ): boolean {
+    const expectedRpIdHash = createHash('sha256').update(this.rpId).digest();
+    const { flags } = authenticatorData;
+    return (
+      authenticatorData.rpIdHash.equals(expectedRpIdHash) &&
+      Boolean(flags & AUTHENTICATOR_FLAGS.USER_PRESENT) &&
+      (!requireUserVerification ||
+        Boolean(flags & AUTHENTICATOR_FLAGS.USER_VERIFIED))
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport-custom';
+import type { Request } from 'express';
+
+import { ApiKeyService } from '../services/api-key.service';
+import { TenantResolverService } from '../../organizations/services/tenant-resolver.service';
+import type { AuthenticatedUser } from '../interfaces/jwt-payload.interface';
+
+/**
+ * API Key 认证策略 - 用于机器客户端
+ * 支持 Authorization: ApiKey <key> 或 X-API-Key: <key> 两种传递方式
+ * 需要在组织内访问时通过 X-Organization-Id 请求头或子域名指定组织
+ */
+@Injectable()
+export class ApiKeyStrategy extends PassportStrategy(Strategy, 'api-key') {
+  constructor(
+    private readonly apiKeyService: ApiKeyService,
+    private readonly tenantResolverService: TenantResolverService,
+  ) {
+    super();
+  }
+
+  /**
+   * 验证请求中的 API Key
+   * @param req 请求对象
+   * @returns 所属用户及密钥信息（会被注入到 request.user），未携带 API Key 时返回 null
+   * @throws API Key 无效、已过期或所属用户被禁用时抛出未授权异常
+   */
+  async validate(req: Request): Promise<AuthenticatedUser | null> {
+    const key = this.extractKey(req);
+    if (!key) {
+      return null; // 未携带 API Key，交由其他策略处理
+    }
+
+    const result = await this.apiKeyService.authenticate(key, req.ip);
+    if (!result) {
+      throw new UnauthorizedException('API Key 无效或已过期');
+    }
+
+    const membership = await this.tenantResolverService.resolveMembership(
+      req,
+      result.user.id,
+    );
+
+    // 使用 Object.assign 保留实体上的 getter（如 fullName）
+    return Object.assign(result.user, {
+      apiKey: { id: result.apiKey.id, scopes: result.apiKey.scopes ?? [] },
+      membership,
+    });
+  }
+
+  /**
+   * 从请求头中提取 API Key
+   */
+  private extractKey(req: Request): string | undefined {
+    const [scheme, value] = (req.headers.authorization ?? '').split(' ');
+    if (scheme?.toLowerCase() === 'apikey' && value) {
+      return value;
+    }
+
+    const header = req.headers['x-api-key'];
+    return typeof header === 'string' && header ? header : undefined;
+  }
+}
@@ -1,10 +1,48 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
-import { ExtractJwt, Strategy } from 'passport-jwt';
+import { Strategy } from 'passport-jwt';
 import { ConfigService } from '@nestjs/config';
-import { Request } from 'express';
+import type { Request } from 'express';
 
 import { UsersService } from '../../users/users.service';
+import { REFRESH_TOKEN_COOKIE } from '../services/refresh-token-cookie.service';
+import type {
+  JwtPayload,
+  RefreshTokenUser,
+} from '../interfaces/jwt-payload.interface';
+
+/**
+ * 从请求体的 refreshToken 字段中提取刷新令牌
+ */
+const fromBody = (req: Request): string | null => {
+  const body = req.body as Record<string, unknown> | undefined;
+  return typeof body?.refreshToken === 'string' ? body.refreshToken : null;
+};
+
+/**
+ * 从 httpOnly Cookie 中提取刷新令牌
+ */
+const fromRefreshTokenCookie = (req: Request): string | null => {
+  const cookies = req.cookies as Record<string, unknown> | undefined;
+  const token = cookies?.[REFRESH_TOKEN_COOKIE];
+  return typeof token === 'string' ? token : null;
+};
+
+/**
+ * 从 Authorization Bearer 中提取刷新令牌
+ */
+const fromBearer = (req: Request): string | null =>
+  /^Bearer\s+(\S+)$/i.exec(req.get('authorization') ?? '')?.[1] ?? null;
+
+/**
+ * 刷新令牌提取器，按以下顺序查找：
+ * 请求体 refreshToken 字段 → X-Refresh-Token 请求头 → Cookie → Authorization Bearer（兼容旧客户端）
+ */
+const extractRefreshToken = (req: Request): string | null =>
+  fromBody(req) ??
+  req.get('x-refresh-token') ??
+  fromRefreshTokenCookie(req) ??
+  fromBearer(req);
 
 /**
  * JWT 刷新令牌策略 - 用于验证刷新令牌
@@ -20,10 +58,9 @@ export class JwtRefreshStrategy extends PassportStrategy(
     private readonly usersService: UsersService,
   ) {
     super({
-      // 从请求头的 Authorization Bearer 中提取 JWT
-      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      jwtFromRequest: extractRefreshToken, // 支持请求体、请求头和 Cookie
       ignoreExpiration: false, // 不忽略过期时间
-      secretOrKey: configService.get('JWT_REFRESH_SECRET'), // 使用刷新令牌专用密钥
+      secretOrKey: configService.get<string>('JWT_REFRESH_SECRET'), // 使用刷新令牌专用密钥
       passReqToCallback: true, // 将原始请求对象传递给 validate 方法
     });
   }
@@ -35,9 +72,9 @@ export class JwtRefreshStrategy extends PassportStrategy(
    * @returns 包含用户信息和刷新令牌的对象
    * @throws 用户不存在或被禁用时抛出未授权异常
    */
-  async validate(req: Request, payload: any) {
-    // 从请求头中提取刷新令牌
-    const refreshToken = req.get('Authorization')?.replace('Bearer', '').trim();
+  async validate(req: Request, payload: JwtPayload): Promise<RefreshTokenUser> {
+    // 取出本次提交的刷新令牌（签名已校验通过）
+    const refreshToken = extractRefreshToken(req) as string;
 
     // 根据载荷中的用户ID查找用户
     const user = await this.usersService.findById(payload.sub);
@@ -48,6 +85,6 @@ export class JwtRefreshStrategy extends PassportStrategy(
     }
 
     // 返回用户信息和刷新令牌，供后续处理使用
-    return { ...user, refreshToken };
+    return Object.assign(user, { refreshToken });
   }
 }
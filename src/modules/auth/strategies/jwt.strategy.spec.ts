@@ -0,0 +1,138 @@
+import { UnauthorizedException } from '@nestjs/common';
+import type { Request } from 'express';
+
+import { JwtStrategy } from './jwt.strategy';
+import { TokenRevocationService } from '../services/token-revocation.service';
+import { JwtKeyService } from '../services/jwt-key.service';
+import { UsersService } from '../../users/users.service';
+import { AuditService } from '../../audit/audit.service';
+import { RbacService } from '../../rbac/rbac.service';
+import { TenantResolverService } from '../../organizations/services/tenant-resolver.service';
+import { TenantContextService } from '../../organizations/services/tenant-context.service';
+import { User } from '../../users/entities/user.entity';
+import type { JwtPayload } from '../interfaces/jwt-payload.interface';
+import { InMemoryRepository } from '../../../testing/in-memory-repository';
+import { InMemoryRedis } from '../../../testing/in-memory-redis';
+
+describe('JwtStrategy (token revocation)', () => {
+  const now = new Date('2026-01-01T00:00:00Z');
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  let strategy: JwtStrategy;
+  let revocation: TokenRevocationService;
+  let redis: InMemoryRedis;
+  let users: InMemoryRepository<User>;
+  let usersService: UsersService;
+  let user: User;
+
+  const payload = (overrides: Partial<JwtPayload> = {}): JwtPayload => ({
+    sub: user.id,
+    email: user.email,
+    role: user.role,
+    permissions: [],
+    sid: 'session-1',
+    jti: 'token-1',
+    iat: nowSeconds,
+    exp: nowSeconds + 15 * 60,
+    ...overrides,
+  });
+
+  const validate = (tokenPayload: JwtPayload) =>
+    strategy.validate({ headers: {} } as Request, tokenPayload);
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now });
+    users = new InMemoryRepository(User);
+    user = await users.save(
+      users.create({
+        email: 'alice@example.com',
+        isActive: true,
+        tokensValidAfter: null,
+      }),
+    );
+    usersService = new UsersService(
+      users.asRepository(),
+      {} as AuditService,
+      new TenantContextService(),
+    );
+    redis = new InMemoryRedis();
+    revocation = new TokenRevocationService(redis.asService());
+    strategy = new JwtStrategy(
+      usersService,
+      revocation,
+      {} as RbacService,
+      {
+        resolveMembership: () => Promise.resolve(undefined),
+      } as unknown as TenantResolverService,
+      {} as JwtKeyService,
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('accepts a token that has not been revoked', async () => {
+    await expect(validate(payload())).resolves.toMatchObject({
+      id: user.id,
+      sessionId: 'session-1',
+      tokenId: 'token-1',
+    });
+  });
+
+  it('rejects a revoked token and keeps the denylist entry only for its remaining lifetime', async () => {
+    jest.setSystemTime(nowSeconds * 1000 + 5 * 60 * 1000);
+    await revocation.revoke('token-1', nowSeconds + 15 * 60);
+
+    await expect(redis.ttl('auth:revoked-token:token-1')).resolves.toBe(
+      10 * 60,
+    );
+    await expect(validate(payload())).rejects.toThrow('令牌已被撤销');
+    await expect(validate(payload({ jti: 'token-2' }))).resolves.toBeDefined();
+
+    jest.advanceTimersByTime(10 * 60 * 1000);
+    await expect(revocation.isRevoked('token-1')).resolves.toBe(false);
+  });
+
+  it('does not store tokens that have already expired', async () => {
+    await revocation.revoke('token-1', nowSeconds - 1);
+
+    await expect(redis.ttl('auth:revoked-token:token-1')).resolves.toBe(-2);
+    await expect(revocation.isRevoked('token-1')).resolves.toBe(false);
+  });
+
+  it('rejects tokens issued before the user watermark', async () => {
+    await users.update(user.id, {
+      tokensValidAfter: new Date((nowSeconds + 60) * 1000),
+    });
+
+    await expect(validate(payload())).rejects.toThrow('令牌已失效，请重新登录');
+  });
+
+  it('rejects tokens issued earlier in the same second as a password change', async () => {
+    // 令牌在本秒开始时签发，半秒后修改密码
+    jest.advanceTimersByTime(500);
+    await usersService.updatePassword(user.id, 'new-hash');
+
+    await expect(validate(payload())).rejects.toThrow('令牌已失效，请重新登录');
+
+    // 下一秒重新登录签发的令牌有效
+    jest.advanceTimersByTime(500);
+    await expect(
+      validate(payload({ jti: 'token-2', iat: nowSeconds + 1 })),
+    ).resolves.toBeDefined();
+  });
+
+  it('rejects tokens issued in the same second as a watermark stored with milliseconds', async () => {
+    await users.update(user.id, {
+      tokensValidAfter: new Date(nowSeconds * 1000 + 500),
+    });
+
+    await expect(validate(payload())).rejects.toThrow('令牌已失效，请重新登录');
+  });
+
+  it('rejects tokens of a deactivated user', async () => {
+    await users.update(user.id, { isActive: false });
+
+    await expect(validate(payload())).rejects.toThrow(UnauthorizedException);
+  });
+});
@@ -1,35 +1,84 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
-import { ConfigService } from '@nestjs/config';
+import type { Request } from 'express';
 
 import { UsersService } from '../../users/users.service';
+import { User } from '../../users/entities/user.entity';
+import { UserRole } from '../../users/enums/user-role.enum';
+import { RbacService } from '../../rbac/rbac.service';
+import { TokenRevocationService } from '../services/token-revocation.service';
+import { JwtKeyService } from '../services/jwt-key.service';
+import { TenantResolverService } from '../../organizations/services/tenant-resolver.service';
+import type {
+  AuthenticatedUser,
+  ImpersonationActor,
+  JwtPayload,
+} from '../interfaces/jwt-payload.interface';
 
 /**
  * JWT 认证策略 - 用于验证访问令牌
  * 当用户访问受保护的路由时，会自动执行此策略
+ * 根据令牌头部的 kid 选择对应的公钥验签，轮换宽限期内旧密钥签发的令牌仍然有效
+ * 模拟登录令牌（带 act 声明）同时校验实际操作的管理员，管理员失去权限后令牌立即失效
+ * 请求在组织内时（请求头、子域名或 org 声明）校验成员身份，成员记录随用户一起注入
  */
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(
-    private readonly configService: ConfigService,
     private readonly usersService: UsersService,
+    private readonly tokenRevocationService: TokenRevocationService,
+    private readonly rbacService: RbacService,
+    private readonly tenantResolverService: TenantResolverService,
+    jwtKeyService: JwtKeyService,
   ) {
     super({
+      passReqToCallback: true, // 解析租户需要读取请求头和主机名
       // 从请求头的 Authorization Bearer 中提取 JWT
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false, // 不忽略过期时间，过期的令牌会被拒绝
-      secretOrKey: configService.get('JWT_SECRET'), // JWT 验证密钥
+      algorithms: ['RS256', 'ES256'], // 只接受非对称签名算法
+      // 按令牌头部的 kid 查找验签公钥
+      secretOrKeyProvider: (
+        _request: unknown,
+        rawJwtToken: string,
+        done: (err: Error | null, secret?: string | Buffer) => void,
+      ) => {
+        jwtKeyService
+          .getVerificationKeyForToken(rawJwtToken)
+          .then((key) =>
+            key
+              ? done(
+                  null,
+                  key.publicKey.export({ type: 'spki', format: 'pem' }),
+                )
+              : done(new UnauthorizedException('令牌签名密钥无效')),
+          )
+          .catch((error: Error) => done(error));
+      },
     });
   }
 
   /**
    * 验证 JWT 载荷
+   * @param request 请求对象
    * @param payload JWT 解码后的载荷数据
-   * @returns 用户信息（会被注入到 request.user）
-   * @throws 用户不存在或被禁用时抛出未授权异常
+   * @returns 用户信息及当前会话ID（会被注入到 request.user）
+   * @throws 用户不存在、被禁用或令牌已被撤销时抛出未授权异常
+   * @throws ForbiddenException 请求的组织中没有该用户的成员记录
    */
-  async validate(payload: any) {
+  async validate(
+    request: Request,
+    payload: JwtPayload,
+  ): Promise<AuthenticatedUser> {
+    // 检查令牌是否已被撤销（如已登出）
+    if (
+      payload.jti &&
+      (await this.tokenRevocationService.isRevoked(payload.jti))
+    ) {
+      throw new UnauthorizedException('令牌已被撤销');
+    }
+
     // 根据载荷中的用户ID查找用户
     const user = await this.usersService.findById(payload.sub);
 
@@ -38,7 +87,69 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
       throw new UnauthorizedException('用户不存在或账户已被禁用');
     }
 
+    // 修改密码、变更角色等操作之前签发的令牌一律失效
+    if (this.isIssuedBeforeWatermark(payload, user)) {
+      throw new UnauthorizedException('令牌已失效，请重新登录');
+    }
+
+    // 模拟登录令牌需要同时校验实际操作者
+    const impersonator = payload.act
+      ? await this.validateImpersonator(payload.act, payload)
+      : undefined;
+
+    const membership = await this.tenantResolverService.resolveMembership(
+      request,
+      user.id,
+      payload.org,
+    );
+
     // 返回用户信息，会被自动注入到 request.user
-    return user;
+    // 使用 Object.assign 保留实体上的 getter（如 fullName）
+    return Object.assign(user, {
+      sessionId: payload.sid,
+      tokenId: payload.jti,
+      tokenExpiresAt: payload.exp,
+      authTime: payload.auth_time,
+      amr: payload.amr,
+      impersonator,
+      membership,
+    });
+  }
+
+  /**
+   * 校验模拟登录的实际操作者
+   * 操作者必须仍然存在、处于激活状态并具有管理员角色
+   * @throws 操作者不满足条件时抛出未授权异常
+   */
+  private async validateImpersonator(
+    act: ImpersonationActor,
+    payload: JwtPayload,
+  ): Promise<User> {
+    const actor = await this.usersService.findById(act.sub);
+    if (
+      !actor ||
+      !actor.isActive ||
+      this.isIssuedBeforeWatermark(payload, actor)
+    ) {
+      throw new UnauthorizedException('模拟登录已失效');
+    }
+
+    const roles = await this.rbacService.getEffectiveRoles(actor);
+    if (!roles.has(UserRole.ADMIN)) {
+      throw new UnauthorizedException('模拟登录已失效');
+    }
+    return actor;
+  }
+
+  /**
+   * 判断令牌是否签发于用户令牌失效时间点之前
+   * iat 精度为秒，失效时间点写入时已取到下一整秒；早期写入的带毫秒的时间点向上取整，
+   * 与失效时间点同一秒内签发的令牌无法区分先后，一律视为失效
+   */
+  private isIssuedBeforeWatermark(payload: JwtPayload, user: User): boolean {
+    if (!user.tokensValidAfter || payload.iat === undefined) {
+      return false;
+    }
+    return payload.iat < Math.ceil(user.tokensValidAfter.getTime() / 1000);
   }
 }
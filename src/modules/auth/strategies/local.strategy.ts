@@ -1,6 +1,7 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { Strategy } from 'passport-local';
+import { Request } from 'express';
 
 import { AuthService } from '../auth.service';
 
@@ -13,19 +14,25 @@ export class LocalStrategy extends PassportStrategy(Strategy) {
   constructor(private readonly authService: AuthService) {
     super({
       usernameField: 'email', // 使用 email 字段作为用户名（默认是 username）
+      passReqToCallback: true, // 将原始请求对象传递给 validate 方法，用于获取登录IP等客户端信息
     });
   }
 
   /**
    * 验证用户凭据
+   * @param req 原始请求对象
    * @param email 用户邮箱
    * @param password 用户密码
    * @returns 验证成功返回用户信息
-   * @throws 验证失败抛出未授权异常
+   * @throws 验证失败抛出未授权异常，账户锁定时抛出锁定异常
    */
-  async validate(email: string, password: string): Promise<any> {
+  async validate(req: Request, email: string, password: string): Promise<any> {
     // 调用认证服务验证用户凭据
-    const user = await this.authService.validateUser(email, password);
+    const user = await this.authService.validateUser(email, password, {
+      ipAddress: req.ip,
+      userAgent: req.get('user-agent'),
+      requestId: req.get('x-request-id'),
+    });
 
     if (!user) {
       // 验证失败，抛出未授权异常
@@ -0,0 +1,294 @@
+import { isIPv4, isIPv6 } from 'net';
+
+/**
+ * MaxMind DB（.mmdb）读取工具
+ * 只实现按 IP 查询记录所需的部分，用于读取 GeoLite2-City 等离线 GeoIP 数据库
+ * 格式说明：https://maxmind.github.io/MaxMind-DB/
+ */
+
+// 元数据起始标记 "\xAB\xCD\xEFMaxMind.com"
+const METADATA_MARKER = Buffer.from('abcdef4d61784d696e642e636f6d', 'hex');
+// 搜索树与数据区之间的 16 字节分隔
+const DATA_SECTION_SEPARATOR_SIZE = 16;
+
+/**
+ * 数据区中的值
+ */
+export type MmdbValue =
+  | string
+  | number
+  | bigint
+  | boolean
+  | Buffer
+  | MmdbValue[]
+  | { [key: string]: MmdbValue };
+
+/**
+ * MaxMind DB 读取器
+ * 整个文件读入内存后按需解析，查询时不访问磁盘
+ */
+export class MmdbReader {
+  private readonly nodeCount: number;
+  private readonly recordSize: number;
+  private readonly ipVersion: number;
+  private readonly dataSectionStart: number;
+  private readonly ipv4StartNode: number;
+
+  /**
+   * @param buffer 数据库文件内容
+   * @throws Error 不是有效的 MaxMind DB 文件
+   */
+  constructor(private readonly buffer: Buffer) {
+    const markerIndex = buffer.lastIndexOf(METADATA_MARKER);
+    if (markerIndex === -1) {
+      throw new Error('不是有效的 MaxMind DB 文件');
+    }
+
+    // 元数据中的指针相对于元数据起始位置
+    const metadataStart = markerIndex + METADATA_MARKER.length;
+    const [metadata] = this.decode(metadataStart, metadataStart);
+    if (!isMap(metadata)) {
+      throw new Error('MaxMind DB 元数据格式错误');
+    }
+
+    this.nodeCount = Number(metadata.node_count);
+    this.recordSize = Number(metadata.record_size);
+    this.ipVersion = Number(metadata.ip_version);
+    if (![24, 28, 32].includes(this.recordSize)) {
+      throw new Error(`不支持的记录长度: ${this.recordSize}`);
+    }
+
+    const searchTreeSize = ((this.recordSize * 2) / 8) * this.nodeCount;
+    this.dataSectionStart = searchTreeSize + DATA_SECTION_SEPARATOR_SIZE;
+
+    // IPv6 数据库中 IPv4 地址位于 ::/96 子树下，预先找到该子树的起点
+    let node = 0;
+    if (this.ipVersion === 6) {
+      for (let i = 0; i < 96 && node < this.nodeCount; i++) {
+        node = this.readRecord(node, 0);
+      }
+    }
+    this.ipv4StartNode = node;
+  }
+
+  /**
+   * 查询 IP 对应的记录
+   * @param ip IPv4 或 IPv6 地址，支持 IPv4 映射地址（::ffff:1.2.3.4）
+   * @returns 记录，地址无效或数据库中没有时返回 null
+   */
+  lookup(ip: string): MmdbValue | null {
+    const address = parseIp(ip);
+    if (!address || (address.length === 16 && this.ipVersion === 4)) {
+      return null;
+    }
+
+    let node = address.length === 4 ? this.ipv4StartNode : 0;
+    const bitCount = address.length * 8;
+    for (let i = 0; i < bitCount && node < this.nodeCount; i++) {
+      const bit = (address[i >> 3] >> (7 - (i & 7))) & 1;
+      node = this.readRecord(node, bit);
+    }
+
+    // 等于节点数表示没有数据，大于节点数时为数据区指针
+    if (node <= this.nodeCount) {
+      return null;
+    }
+    const offset =
+      node -
+      this.nodeCount -
+      DATA_SECTION_SEPARATOR_SIZE +
+      this.dataSectionStart;
+    return this.decode(offset, this.dataSectionStart)[0];
+  }
+
+  /**
+   * 读取搜索树节点的左（0）或右（1）记录
+   */
+  private readRecord(node: number, index: number): number {
+    const offset = node * ((this.recordSize * 2) / 8);
+    const buffer = this.buffer;
+
+    switch (this.recordSize) {
+      case 24:
+        return buffer.readUIntBE(offset + index * 3, 3);
+      case 28: {
+        // 中间字节的高4位属于左记录，低4位属于右记录
+        const middle = buffer[offset + 3];
+        return index === 0
+          ? ((middle & 0xf0) << 20) | buffer.readUIntBE(offset, 3)
+          : ((middle & 0x0f) << 24) | buffer.readUIntBE(offset + 4, 3);
+      }
+      default:
+        return buffer.readUInt32BE(offset + index * 4);
+    }
+  }
+
+  /**
+   * 解析数据区中的一个值
+   * @param offset 值的起始位置
+   * @param pointerBase 指针的基准位置
+   * @returns 值和下一个值的起始位置
+   */
+  private decode(offset: number, pointerBase: number): [MmdbValue, number] {
+    const buffer = this.buffer;
+    const control = buffer[offset++];
+    let type = control >> 5;
+
+    // 指针：跳转到指针位置读取值，之后从指针后面继续
+    if (type === 1) {
+      const sizeBits = (control >> 3) & 0x3;
+      const valueBits = control & 0x7;
+      let pointer: number;
+      switch (sizeBits) {
+        case 0:
+          pointer = (valueBits << 8) | buffer[offset];
+          break;
+        case 1:
+          pointer = ((valueBits << 16) | buffer.readUInt16BE(offset)) + 2048;
+          break;
+        case 2:
+          pointer = ((valueBits << 24) | buffer.readUIntBE(offset, 3)) + 526336;
+          break;
+        default:
+          pointer = buffer.readUInt32BE(offset);
+      }
+      const [value] = this.decode(pointerBase + pointer, pointerBase);
+      return [value, offset + sizeBits + 1];
+    }
+
+    // 扩展类型：实际类型为 7 加下一个字节
+    if (type === 0) {
+      type = 7 + buffer[offset++];
+    }
+
+    let size = control & 0x1f;
+    if (size === 29) {
+      size = 29 + buffer[offset++];
+    } else if (size === 30) {
+      size = 285 + buffer.readUInt16BE(offset);
+      offset += 2;
+    } else if (size === 31) {
+      size = 65821 + buffer.readUIntBE(offset, 3);
+      offset += 3;
+    }
+
+    switch (type) {
+      case 2: // UTF-8 字符串
+        return [buffer.toString('utf8', offset, offset + size), offset + size];
+      case 3: // double
+        return [buffer.readDoubleBE(offset), offset + 8];
+      case 4: // 字节序列
+        return [buffer.subarray(offset, offset + size), offset + size];
+      case 5: // uint16
+      case 6: // uint32
+        return [
+          size === 0 ? 0 : buffer.readUIntBE(offset, size),
+          offset + size,
+        ];
+      case 7: {
+        // map
+        const map: { [key: string]: MmdbValue } = {};
+        for (let i = 0; i < size; i++) {
+          const [key, valueOffset] = this.decode(offset, pointerBase);
+          const [value, nextOffset] = this.decode(valueOffset, pointerBase);
+          map[key as string] = value; // map 的键总是字符串
+          offset = nextOffset;
+        }
+        return [map, offset];
+      }
+      case 8: // int32，不足4字节时按无符号数补齐
+        return [
+          size === 4
+            ? buffer.readInt32BE(offset)
+            : size === 0
+              ? 0
+              : buffer.readUIntBE(offset, size),
+          offset + size,
+        ];
+      case 9: // uint64
+      case 10: {
+        // uint128
+        let value = 0n;
+        for (let i = 0; i < size; i++) {
+          value = (value << 8n) | BigInt(buffer[offset + i]);
+        }
+        return [value, offset + size];
+      }
+      case 11: {
+        // 数组
+        const array: MmdbValue[] = [];
+        for (let i = 0; i < size; i++) {
+          const [value, nextOffset] = this.decode(offset, pointerBase);
+          array.push(value);
+          offset = nextOffset;
+        }
+        return [array, offset];
+      }
+      case 14: // 布尔值，值保存在长度字段中
+        return [size !== 0, offset];
+      case 15: // float
+        return [buffer.readFloatBE(offset), offset + 4];
+      default:
+        throw new Error(`不支持的数据类型: ${type}`);
+    }
+  }
+}
+
+/**
+ * 判断值是否为 map
+ */
+export function isMap(
+  value: MmdbValue | null | undefined,
+): value is { [key: string]: MmdbValue } {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    !Array.isArray(value) &&
+    !Buffer.isBuffer(value)
+  );
+}
+
+/**
+ * 将 IP 地址转换为字节，IPv4 映射地址按 IPv4 处理
+ * @returns IPv4 为 4 字节，IPv6 为 16 字节，地址无效时返回 null
+ */
+export function parseIp(ip: string): Buffer | null {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(ip);
+  if (mapped) {
+    ip = mapped[1];
+  }
+
+  if (isIPv4(ip)) {
+    return Buffer.from(ip.split('.').map(Number));
+  }
+  if (!isIPv6(ip)) {
+    return null;
+  }
+
+  // 末尾为 IPv4 写法时先转换为两组十六进制
+  let address = ip.replace(/%.*$/, '');
+  const ipv4Tail = /(\d+\.\d+\.\d+\.\d+)$/.exec(address);
+  if (ipv4Tail) {
+    const [a, b, c, d] = ipv4Tail[1].split('.').map(Number);
+    address = address.replace(
+      ipv4Tail[1],
+      `${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`,
+    );
+  }
+
+  const [head, tail] = address.split('::');
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups =
+    tail === undefined
+      ? headGroups
+      : [
+          ...headGroups,
+          ...Array<string>(8 - headGroups.length - tailGroups.length).fill('0'),
+          ...tailGroups,
+        ];
+
+  const bytes = Buffer.alloc(16);
+  groups.forEach((group, i) => bytes.writeUInt16BE(parseInt(group, 16), i * 2));
+  return bytes;
+}
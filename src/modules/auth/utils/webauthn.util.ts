@@ -0,0 +1,231 @@
+import { createPublicKey, type KeyObject } from 'crypto';
+
+/**
+ * WebAuthn 数据解析工具
+ * 只实现验证注册和登录所需的部分：CBOR 解码、认证器数据解析和 COSE 公钥转换
+ */
+
+/**
+ * 认证器数据标志位
+ */
+export const AUTHENTICATOR_FLAGS = {
+  USER_PRESENT: 0x01, // UP：用户在场
+  USER_VERIFIED: 0x04, // UV：用户已验证（PIN、生物识别等）
+  BACKUP_ELIGIBLE: 0x08, // BE：凭据可以同步备份
+  BACKED_UP: 0x10, // BS：凭据已同步备份
+  ATTESTED_CREDENTIAL_DATA: 0x40, // AT：包含凭据数据（仅注册时）
+};
+
+/**
+ * 解析后的认证器数据
+ */
+export interface AuthenticatorData {
+  rpIdHash: Buffer;
+  flags: number;
+  signCount: number;
+  aaguid?: string;
+  credentialId?: Buffer;
+  credentialPublicKey?: Map<number, unknown>;
+}
+
+/**
+ * 解码 CBOR 数据（RFC 8949）
+ * 认证器输出的是确定长度编码，不支持不定长编码
+ * @param data CBOR 数据
+ * @returns 解码后的值和占用的字节数（认证器数据中公钥之后可能还有扩展数据）
+ */
+export function decodeCbor(
+  data: Buffer,
+  offset = 0,
+): { value: unknown; length: number } {
+  let position = offset;
+
+  const ensure = (length: number) => {
+    if (position + length > data.length) {
+      throw new Error('CBOR 数据不完整');
+    }
+  };
+
+  const readLength = (info: number): number => {
+    if (info < 24) {
+      return info;
+    }
+    const size = { 24: 1, 25: 2, 26: 4, 27: 8 }[info];
+    if (!size) {
+      throw new Error('不支持的 CBOR 长度编码');
+    }
+    ensure(size);
+    // 8 字节整数只支持到 2^48，认证器数据中不会出现更大的值
+    if (size === 8 && data.readUInt16BE(position) !== 0) {
+      throw new Error('CBOR 整数超出范围');
+    }
+    const value =
+      size === 8
+        ? data.readUIntBE(position + 2, 6)
+        : data.readUIntBE(position, size);
+    position += size;
+    return value;
+  };
+
+  const readItem = (): unknown => {
+    ensure(1);
+    const initial = data[position++];
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    switch (major) {
+      case 0: // 无符号整数
+        return readLength(info);
+      case 1: // 负整数
+        return -1 - readLength(info);
+      case 2: {
+        // 字节串
+        const length = readLength(info);
+        ensure(length);
+        const bytes = data.subarray(position, position + length);
+        position += length;
+        return Buffer.from(bytes);
+      }
+      case 3: {
+        // 文本串
+        const length = readLength(info);
+        ensure(length);
+        const text = data.toString('utf8', position, position + length);
+        position += length;
+        return text;
+      }
+      case 4: {
+        // 数组
+        const length = readLength(info);
+        return Array.from({ length }, () => readItem());
+      }
+      case 5: {
+        // 映射，COSE 公钥使用整数键，因此解码为 Map
+        const length = readLength(info);
+        const map = new Map<unknown, unknown>();
+        for (let i = 0; i < length; i++) {
+          const key = readItem();
+          map.set(key, readItem());
+        }
+        return map;
+      }
+      case 7: // 简单值
+        if (info === 20) return false;
+        if (info === 21) return true;
+        if (info === 22) return null;
+        throw new Error('不支持的 CBOR 简单值');
+      default:
+        throw new Error('不支持的 CBOR 类型');
+    }
+  };
+
+  const value = readItem();
+  return { value, length: position - offset };
+}
+
+/**
+ * 解析认证器数据
+ * 结构：rpIdHash(32) | flags(1) | signCount(4) | [aaguid(16) | credentialIdLength(2) | credentialId | credentialPublicKey]
+ * @param data 认证器数据
+ */
+export function parseAuthenticatorData(data: Buffer): AuthenticatorData {
+  if (data.length < 37) {
+    throw new Error('认证器数据长度不正确');
+  }
+
+  const result: AuthenticatorData = {
+    rpIdHash: data.subarray(0, 32),
+    flags: data[32],
+    signCount: data.readUInt32BE(33),
+  };
+
+  if (result.flags & AUTHENTICATOR_FLAGS.ATTESTED_CREDENTIAL_DATA) {
+    if (data.length < 55) {
+      throw new Error('认证器数据长度不正确');
+    }
+    const aaguid = data.subarray(37, 53).toString('hex');
+    const credentialIdLength = data.readUInt16BE(53);
+    const credentialIdEnd = 55 + credentialIdLength;
+    result.aaguid = [
+      aaguid.slice(0, 8),
+      aaguid.slice(8, 12),
+      aaguid.slice(12, 16),
+      aaguid.slice(16, 20),
+      aaguid.slice(20),
+    ].join('-');
+    if (data.length < credentialIdEnd) {
+      throw new Error('认证器数据长度不正确');
+    }
+    result.credentialId = data.subarray(55, credentialIdEnd);
+
+    const { value } = decodeCbor(data, credentialIdEnd);
+    if (!(value instanceof Map)) {
+      throw new Error('凭据公钥格式不正确');
+    }
+    result.credentialPublicKey = value as Map<number, unknown>;
+  }
+
+  return result;
+}
+
+/**
+ * COSE 算法标识
+ */
+export const COSE_ALGORITHMS = {
+  ES256: -7,
+  EDDSA: -8,
+  RS256: -257,
+};
+
+/**
+ * 将 COSE 公钥转换为 Node.js 公钥对象
+ * 支持 ES256（P-256）、EdDSA（Ed25519）和 RS256
+ * @param coseKey COSE 公钥
+ * @returns 公钥对象和 COSE 算法标识
+ */
+export function coseKeyToPublicKey(coseKey: Map<number, unknown>): {
+  publicKey: KeyObject;
+  algorithm: number;
+} {
+  const keyType = coseKey.get(1);
+  const algorithm = coseKey.get(3) as number;
+  const toBase64Url = (label: number): string => {
+    const value = coseKey.get(label);
+    if (!Buffer.isBuffer(value)) {
+      throw new Error('凭据公钥缺少必要参数');
+    }
+    return value.toString('base64url');
+  };
+
+  if (keyType === 2 && algorithm === COSE_ALGORITHMS.ES256) {
+    if (coseKey.get(-1) !== 1) {
+      throw new Error('不支持的椭圆曲线');
+    }
+    const publicKey = createPublicKey({
+      key: { kty: 'EC', crv: 'P-256', x: toBase64Url(-2), y: toBase64Url(-3) },
+      format: 'jwk',
+    });
+    return { publicKey, algorithm };
+  }
+
+  if (keyType === 1 && algorithm === COSE_ALGORITHMS.EDDSA) {
+    if (coseKey.get(-1) !== 6) {
+      throw new Error('不支持的椭圆曲线');
+    }
+    const publicKey = createPublicKey({
+      key: { kty: 'OKP', crv: 'Ed25519', x: toBase64Url(-2) },
+      format: 'jwk',
+    });
+    return { publicKey, algorithm };
+  }
+
+  if (keyType === 3 && algorithm === COSE_ALGORITHMS.RS256) {
+    const publicKey = createPublicKey({
+      key: { kty: 'RSA', n: toBase64Url(-1), e: toBase64Url(-2) },
+      format: 'jwk',
+    });
+    return { publicKey, algorithm };
+  }
+
+  throw new Error('不支持的公钥算法');
+}
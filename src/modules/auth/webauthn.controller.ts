@@ -0,0 +1,257 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  UseGuards,
+  Headers,
+  Ip,
+  Res,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import type { Response } from 'express';
+
+import { AuthService } from './auth.service';
+import { WebAuthnService } from './services/webauthn.service';
+import { RefreshTokenCookieService } from './services/refresh-token-cookie.service';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RecentAuthGuard } from './guards/recent-auth.guard';
+import { NoApiKey } from './decorators/no-api-key.decorator';
+import { NoImpersonation } from './decorators/no-impersonation.decorator';
+import { RequireRecentAuth } from './decorators/require-recent-auth.decorator';
+import { WebAuthnCredential } from './entities/webauthn-credential.entity';
+import { WebAuthnRegistrationDto } from './dto/webauthn-registration.dto';
+import { WebAuthnAuthenticationDto } from './dto/webauthn-authentication.dto';
+import { RenameWebAuthnCredentialDto } from './dto/rename-webauthn-credential.dto';
+import { WebAuthnCredentialResponseDto } from './dto/webauthn-credential-response.dto';
+import { AuthResponseDto } from './dto/auth-response.dto';
+import { TwoFactorChallengeDto } from './dto/two-factor-challenge.dto';
+import { LoginVerificationChallengeDto } from './dto/login-verification-challenge.dto';
+import type {
+  WebAuthnAuthenticationOptions,
+  WebAuthnRegistrationOptions,
+} from './interfaces/webauthn.interface';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { User } from '../users/entities/user.entity';
+
+/**
+ * WebAuthn 控制器 - 通行密钥（passkey）注册、登录和管理
+ * 注册和登录都分两步：先获取选项（含挑战），由浏览器调用认证器后再提交结果校验
+ */
+@ApiTags('Authentication')
+@Controller('auth/webauthn') // 路由前缀为 /auth/webauthn
+@NoApiKey() // 通行密钥只能由用户本人管理
+export class WebAuthnController {
+  constructor(
+    private readonly webAuthnService: WebAuthnService,
+    private readonly authService: AuthService,
+    private readonly refreshTokenCookieService: RefreshTokenCookieService,
+  ) {}
+
+  /**
+   * 获取注册选项接口
+   * POST /auth/webauthn/registration/options
+   */
+  @Post('registration/options')
+  @UseGuards(JwtAuthGuard, RecentAuthGuard) // 添加登录凭据前需要最近5分钟内认证过
+  @RequireRecentAuth(300)
+  @NoImpersonation() // 模拟登录期间不能添加登录凭据
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '获取通行密钥注册选项' })
+  @ApiResponse({
+    status: 200,
+    description: '传给 navigator.credentials.create 的选项',
+  })
+  @ApiResponse({ status: 401, description: '需要重新验证身份' })
+  async registrationOptions(
+    @CurrentUser() user: User,
+  ): Promise<WebAuthnRegistrationOptions> {
+    return this.webAuthnService.generateRegistrationOptions(user);
+  }
+
+  /**
+   * 注册通行密钥接口
+   * POST /auth/webauthn/registration/verify
+   */
+  @Post('registration/verify')
+  @UseGuards(JwtAuthGuard, RecentAuthGuard)
+  @RequireRecentAuth(300)
+  @NoImpersonation()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '校验并保存通行密钥' })
+  @ApiResponse({
+    status: 201,
+    description: '注册成功',
+    type: WebAuthnCredentialResponseDto,
+  })
+  @ApiResponse({ status: 400, description: '注册请求已过期或响应无效' })
+  @ApiResponse({ status: 401, description: '需要重新验证身份' })
+  @ApiResponse({ status: 409, description: '该通行密钥已注册' })
+  async verifyRegistration(
+    @CurrentUser() user: User,
+    @Body() registrationDto: WebAuthnRegistrationDto,
+    @Headers('user-agent') userAgent: string,
+  ): Promise<WebAuthnCredentialResponseDto> {
+    const credential = await this.webAuthnService.verifyRegistration(
+      user,
+      registrationDto,
+      userAgent,
+    );
+    return this.toResponse(credential);
+  }
+
+  /**
+   * 获取登录选项接口
+   * POST /auth/webauthn/authentication/options
+   */
+  @Post('authentication/options')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 10, ttl: 60000 } }) // 限流：每分钟最多10次，防止大量生成挑战占用 Redis
+  @ApiOperation({ summary: '获取通行密钥登录选项' })
+  @ApiResponse({
+    status: 200,
+    description: '传给 navigator.credentials.get 的选项',
+  })
+  async authenticationOptions(): Promise<WebAuthnAuthenticationOptions> {
+    return this.webAuthnService.generateAuthenticationOptions();
+  }
+
+  /**
+   * 通行密钥登录接口
+   * POST /auth/webauthn/authentication/verify
+   */
+  @Post('authentication/verify')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60000 } }) // 限流：每分钟最多5次登录尝试
+  @ApiOperation({ summary: '使用通行密钥登录' })
+  @ApiResponse({
+    status: 200,
+    description:
+      '登录成功；登录风险较高时返回验证令牌，需调用 /auth/login/verify 完成登录',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({ status: 401, description: '登录请求已过期或通行密钥无效' })
+  async verifyAuthentication(
+    @Body() authenticationDto: WebAuthnAuthenticationDto,
+    @Headers('user-agent') userAgent: string,
+    @Headers('x-request-id') requestId: string,
+    @Ip() ipAddress: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<
+    AuthResponseDto | TwoFactorChallengeDto | LoginVerificationChallengeDto
+  > {
+    const result = await this.authService.verifyPasskeyLogin(
+      authenticationDto,
+      {
+        deviceName: authenticationDto.deviceName,
+        userAgent,
+        ipAddress,
+        requestId,
+      },
+    );
+
+    // 登录验证挑战不包含令牌，原样返回
+    if ('requiresTwoFactor' in result || 'requiresVerification' in result) {
+      return result;
+    }
+    return this.refreshTokenCookieService.apply(res, result);
+  }
+
+  /**
+   * 获取通行密钥列表接口
+   * GET /auth/webauthn/credentials
+   */
+  @Get('credentials')
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '获取当前用户的通行密钥列表' })
+  @ApiResponse({
+    status: 200,
+    description: '获取成功',
+    type: [WebAuthnCredentialResponseDto],
+  })
+  async list(
+    @CurrentUser() user: User,
+  ): Promise<WebAuthnCredentialResponseDto[]> {
+    const credentials = await this.webAuthnService.list(user.id);
+    return credentials.map((credential) => this.toResponse(credential));
+  }
+
+  /**
+   * 重命名通行密钥接口
+   * PATCH /auth/webauthn/credentials/:id
+   */
+  @Patch('credentials/:id')
+  @UseGuards(JwtAuthGuard)
+  @NoImpersonation()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '重命名通行密钥' })
+  @ApiResponse({
+    status: 200,
+    description: '重命名成功',
+    type: WebAuthnCredentialResponseDto,
+  })
+  @ApiResponse({ status: 404, description: '通行密钥不存在' })
+  async rename(
+    @CurrentUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() renameDto: RenameWebAuthnCredentialDto,
+  ): Promise<WebAuthnCredentialResponseDto> {
+    const credential = await this.webAuthnService.rename(
+      user.id,
+      id,
+      renameDto.name,
+    );
+    return this.toResponse(credential);
+  }
+
+  /**
+   * 删除通行密钥接口
+   * DELETE /auth/webauthn/credentials/:id
+   */
+  @Delete('credentials/:id')
+  @UseGuards(JwtAuthGuard, RecentAuthGuard)
+  @RequireRecentAuth(300)
+  @NoImpersonation()
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '删除通行密钥' })
+  @ApiResponse({ status: 200, description: '删除成功' })
+  @ApiResponse({ status: 401, description: '需要重新验证身份' })
+  @ApiResponse({ status: 404, description: '通行密钥不存在' })
+  async remove(
+    @CurrentUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<{ message: string }> {
+    await this.webAuthnService.remove(user.id, id);
+    return { message: '通行密钥已删除' };
+  }
+
+  /**
+   * 转换为凭据响应（不包含公钥）
+   */
+  private toResponse(
+    credential: WebAuthnCredential,
+  ): WebAuthnCredentialResponseDto {
+    return {
+      id: credential.id,
+      name: credential.name,
+      transports: credential.transports ?? [],
+      backedUp: credential.backedUp,
+      lastUsedAt: credential.lastUsedAt,
+      createdAt: credential.createdAt,
+    };
+  }
+}
@@ -0,0 +1,110 @@
+import { Injectable } from '@nestjs/common';
+import {
+  EMAIL_TEMPLATES,
+  type EmailTemplateName,
+} from './templates/email-templates';
+
+/**
+ * 渲染后的邮件内容
+ */
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * 邮件模板服务
+ * 负责根据模板名称和变量渲染邮件主题、HTML 和纯文本内容
+ */
+@Injectable()
+export class EmailTemplateService {
+  private readonly placeholder = /\{\{\s*(\w+)\s*\}\}/g;
+
+  /**
+   * 渲染邮件模板
+   * @param name 模板名称
+   * @param variables 模板变量
+   * @returns 渲染后的邮件内容
+   * @throws 模板不存在时抛出异常
+   */
+  render(
+    name: EmailTemplateName,
+    variables: Record<string, unknown> = {},
+  ): RenderedEmail {
+    const template = EMAIL_TEMPLATES[name];
+    if (!template) {
+      throw new Error(`邮件模板不存在: ${name}`);
+    }
+
+    const html = this.interpolate(template.html, variables, true);
+    // 未提供纯文本版本时，从 HTML 生成
+    const text = template.text
+      ? this.interpolate(template.text, variables, false)
+      : this.htmlToText(html);
+
+    return {
+      subject: this.interpolate(template.subject, variables, false),
+      html,
+      text,
+    };
+  }
+
+  /**
+   * 替换模板中的变量占位符
+   * @param content 模板内容
+   * @param variables 模板变量
+   * @param escape 是否对变量值进行 HTML 转义
+   */
+  private interpolate(
+    content: string,
+    variables: Record<string, unknown>,
+    escape: boolean,
+  ): string {
+    return content.replace(this.placeholder, (_match, key: string) => {
+      const value = variables[key];
+      if (value === undefined || value === null) return '';
+      const str = this.stringify(value);
+      return escape ? this.escapeHtml(str) : str;
+    });
+  }
+
+  /**
+   * 将变量值转换为字符串，日期使用 ISO 8601 格式，对象和数组序列化为 JSON
+   */
+  private stringify(value: unknown): string {
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value as string | number | boolean | bigint | symbol);
+  }
+
+  /**
+   * HTML 转义，防止变量中的内容破坏邮件结构
+   */
+  private escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  /**
+   * 将 HTML 转换为纯文本
+   * 链接保留为 "文字 (地址)" 的形式
+   */
+  private htmlToText(html: string): string {
+    return html
+      .replace(/<a\s+[^>]*href="([^"]*)"[^>]*>(.*?)<\/a>/gi, '$2 ($1)')
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/p>\s*/gi, '\n\n')
+      .replace(/<[^>]+>/g, '')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;/g, "'")
+      .replace(/&amp;/g, '&')
+      .trim();
+  }
+}
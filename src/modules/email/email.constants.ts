@@ -0,0 +1,3 @@
+export const EMAIL_TRANSPORT = Symbol('EMAIL_TRANSPORT');
+
+export type EmailTransportType = 'smtp' | 'file' | 'memory';
@@ -0,0 +1,75 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { QueueConsumer } from '../rabbitmq/decorators/rabbitmq.decorators';
+import { QueueType } from '../rabbitmq/enums/queue-type.enum';
+import type { Message } from '../rabbitmq/interfaces/rabbitmq.interface';
+import { EmailTemplateService } from './email-template.service';
+import { EMAIL_TRANSPORT } from './email.constants';
+import type {
+  EmailTask,
+  EmailTransport,
+  OutgoingEmail,
+} from './interfaces/email.interface';
+
+/**
+ * 邮件消费者
+ * 处理 email-tasks 队列中的邮件发送任务
+ */
+@Injectable()
+export class EmailConsumer {
+  private readonly logger = new Logger(EmailConsumer.name);
+
+  constructor(
+    @Inject(EMAIL_TRANSPORT) private readonly transport: EmailTransport,
+    private readonly templateService: EmailTemplateService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * 处理邮件任务
+   */
+  @QueueConsumer({
+    queue: 'email-tasks',
+    type: QueueType.DIRECT,
+    exchange: 'work-exchange',
+    routingKey: 'email',
+    maxRetries: 3,
+  })
+  async handleEmailTask(message: Message<EmailTask>): Promise<void> {
+    const email = this.buildEmail(message.data);
+
+    this.logger.log(
+      `发送邮件: ${email.to} - ${email.subject} (模板: ${message.data.template || '无'})`,
+    );
+
+    await this.transport.send(email);
+
+    this.logger.log(`邮件发送成功: ${message.id}`);
+  }
+
+  /**
+   * 根据任务内容构建邮件
+   * 指定模板时渲染模板，否则使用任务中的主题和正文
+   */
+  private buildEmail(task: EmailTask): OutgoingEmail {
+    const from = this.configService.get<string>(
+      'SMTP_FROM',
+      'noreply@example.com',
+    );
+
+    if (task.template) {
+      const rendered = this.templateService.render(
+        task.template,
+        task.variables,
+      );
+      return { from, to: task.to, ...rendered };
+    }
+
+    return {
+      from,
+      to: task.to,
+      subject: task.subject || '',
+      text: task.content || '',
+    };
+  }
+}
@@ -0,0 +1,47 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { EMAIL_TRANSPORT, type EmailTransportType } from './email.constants';
+import { EmailService } from './email.service';
+import { EmailTemplateService } from './email-template.service';
+import { EmailConsumer } from './email.consumer';
+import { SmtpEmailTransport } from './transports/smtp.transport';
+import { FileEmailTransport } from './transports/file.transport';
+import { MemoryEmailTransport } from './transports/memory.transport';
+import type { EmailTransport } from './interfaces/email.interface';
+
+/**
+ * 邮件模块 - 提供模板邮件的入队、渲染和发送
+ * 发送方式由 EMAIL_TRANSPORT 配置决定：smtp（默认）、file、memory
+ */
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: EMAIL_TRANSPORT,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService): EmailTransport => {
+        const type = config.get<EmailTransportType>('EMAIL_TRANSPORT', 'smtp');
+        switch (type) {
+          case 'file':
+            return new FileEmailTransport(
+              config.get<string>('EMAIL_FILE_DIR', '.tmp/emails'),
+            );
+          case 'memory':
+            return new MemoryEmailTransport();
+          default:
+            return new SmtpEmailTransport({
+              host: config.get<string>('SMTP_HOST', 'localhost'),
+              port: Number(config.get<string>('SMTP_PORT', '587')),
+              user: config.get<string>('SMTP_USER'),
+              pass: config.get<string>('SMTP_PASS'),
+            });
+        }
+      },
+    },
+    EmailTemplateService,
+    EmailService,
+    EmailConsumer,
+  ],
+  exports: [EmailService, EMAIL_TRANSPORT],
+})
+export class EmailModule {}
@@ -0,0 +1,118 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { EmailService } from './email.service';
+import { EmailConsumer } from './email.consumer';
+import { EmailTemplateService } from './email-template.service';
+import { EMAIL_TRANSPORT } from './email.constants';
+import { MemoryEmailTransport } from './transports/memory.transport';
+import { RabbitMQEasyService } from '../rabbitmq/services/rabbitmq-easy.service';
+import { User } from '../users/entities/user.entity';
+import type { EmailTask } from './interfaces/email.interface';
+
+describe('EmailService', () => {
+  let emailService: EmailService;
+  let consumer: EmailConsumer;
+  let transport: MemoryEmailTransport;
+  let queued: EmailTask[];
+  let sendTemplateEmail: jest.Mock<Promise<boolean>, [EmailTask]>;
+
+  const user = Object.assign(new User(), {
+    email: 'alice@example.com',
+    firstName: 'Alice',
+    lastName: '<b>Smith</b>',
+  });
+
+  // 将队列中的任务交给消费者处理，模拟 email-tasks 队列的投递
+  const deliver = async () => {
+    for (const [index, task] of queued.entries()) {
+      await consumer.handleEmailTask({
+        id: String(index),
+        data: task,
+        timestamp: Date.now(),
+      });
+    }
+    queued = [];
+  };
+
+  beforeEach(async () => {
+    queued = [];
+    transport = new MemoryEmailTransport();
+    sendTemplateEmail = jest.fn((task: EmailTask) => {
+      queued.push(task);
+      return Promise.resolve(true);
+    });
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        EmailService,
+        EmailConsumer,
+        EmailTemplateService,
+        { provide: EMAIL_TRANSPORT, useValue: transport },
+        { provide: RabbitMQEasyService, useValue: { sendTemplateEmail } },
+        {
+          provide: ConfigService,
+          useValue: new ConfigService({
+            FRONTEND_URL: 'https://app.example.com/',
+            SMTP_FROM: 'noreply@example.com',
+          }),
+        },
+      ],
+    }).compile();
+
+    emailService = app.get(EmailService);
+    consumer = app.get(EmailConsumer);
+  });
+
+  it('renders the password reset template and sends it to the user', async () => {
+    await expect(
+      emailService.sendPasswordResetEmail(user, 'reset-token', 30),
+    ).resolves.toBe(true);
+    await deliver();
+
+    const [email] = transport.getSentEmails('alice@example.com');
+    expect(email).toMatchObject({
+      from: 'noreply@example.com',
+      to: 'alice@example.com',
+      subject: '重置您的密码',
+    });
+    expect(email.text).toContain(
+      'https://app.example.com/reset-password?token=reset-token',
+    );
+    expect(email.text).toContain('30分钟内有效');
+    expect(email.html).toContain(
+      'href="https://app.example.com/reset-password?token=reset-token"',
+    );
+  });
+
+  it('escapes variables in the HTML body but not in the text body', async () => {
+    await emailService.sendWelcomeEmail(user);
+    await deliver();
+
+    const [email] = transport.getSentEmails();
+    expect(email.html).toContain('&lt;b&gt;Smith&lt;/b&gt;');
+    expect(email.html).not.toContain('<b>Smith</b>');
+    expect(email.text).toContain('<b>Smith</b>');
+  });
+
+  it('returns false without throwing when the task cannot be queued', async () => {
+    sendTemplateEmail.mockRejectedValueOnce(new Error('connection closed'));
+
+    await expect(emailService.sendWelcomeEmail(user)).resolves.toBe(false);
+    await deliver();
+    expect(transport.getSentEmails()).toHaveLength(0);
+  });
+
+  it('sends tasks without a template as plain text', async () => {
+    queued.push({ to: 'bob@example.com', subject: '通知', content: '正文' });
+    await deliver();
+
+    expect(transport.getSentEmails('bob@example.com')).toEqual([
+      {
+        from: 'noreply@example.com',
+        to: 'bob@example.com',
+        subject: '通知',
+        text: '正文',
+      },
+    ]);
+  });
+});
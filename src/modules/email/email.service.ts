@@ -0,0 +1,235 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RabbitMQEasyService } from '../rabbitmq/services/rabbitmq-easy.service';
+import { EmailTemplateName } from './templates/email-templates';
+import type { User } from '../users/entities/user.entity';
+import type { Organization } from '../organizations/entities/organization.entity';
+
+/**
+ * 邮件服务 - 业务模块发送邮件的统一入口
+ * 邮件任务投递到 email-tasks 队列，由 EmailConsumer 渲染模板并发送
+ */
+@Injectable()
+export class EmailService {
+  private readonly logger = new Logger(EmailService.name);
+
+  constructor(
+    private readonly rabbitMQEasyService: RabbitMQEasyService, // 消息队列服务
+    private readonly configService: ConfigService, // 配置服务
+  ) {}
+
+  /**
+   * 发送模板邮件
+   * 入队失败只记录日志，不影响调用方的主流程
+   * @param to 收件人
+   * @param template 模板名称
+   * @param variables 模板变量
+   * @returns 是否成功投递到队列
+   */
+  async sendTemplate(
+    to: string,
+    template: EmailTemplateName,
+    variables: Record<string, unknown> = {},
+  ): Promise<boolean> {
+    try {
+      return await this.rabbitMQEasyService.sendTemplateEmail({
+        to,
+        template,
+        variables,
+      });
+    } catch (error) {
+      this.logger.error(
+        `邮件入队失败: ${to} (${template})`,
+        (error as Error).message,
+      );
+      return false;
+    }
+  }
+
+  /**
+   * 发送密码重置邮件
+   * @param user 用户信息
+   * @param token 重置令牌
+   * @param expiresInMinutes 令牌有效期（分钟）
+   */
+  async sendPasswordResetEmail(
+    user: User,
+    token: string,
+    expiresInMinutes: number,
+  ): Promise<boolean> {
+    return this.sendTemplate(user.email, EmailTemplateName.PASSWORD_RESET, {
+      name: user.fullName,
+      resetUrl: this.buildFrontendUrl('/reset-password', { token }),
+      expiresInMinutes,
+    });
+  }
+
+  /**
+   * 发送邮箱验证邮件
+   * @param user 用户信息
+   * @param token 验证令牌
+   * @param expiresInHours 令牌有效期（小时）
+   */
+  async sendVerificationEmail(
+    user: User,
+    token: string,
+    expiresInHours: number,
+  ): Promise<boolean> {
+    return this.sendTemplate(user.email, EmailTemplateName.EMAIL_VERIFICATION, {
+      name: user.fullName,
+      verifyUrl: this.buildFrontendUrl('/verify-email', { token }),
+      expiresInHours,
+    });
+  }
+
+  /**
+   * 发送免密登录邮件
+   * @param user 用户信息
+   * @param token 登录令牌
+   * @param expiresInMinutes 令牌有效期（分钟）
+   */
+  async sendMagicLinkEmail(
+    user: User,
+    token: string,
+    expiresInMinutes: number,
+  ): Promise<boolean> {
+    return this.sendTemplate(user.email, EmailTemplateName.MAGIC_LINK, {
+      name: user.fullName,
+      loginUrl: this.buildFrontendUrl('/magic-link', { token }),
+      expiresInMinutes,
+    });
+  }
+
+  /**
+   * 发送欢迎邮件
+   * @param user 用户信息
+   */
+  async sendWelcomeEmail(user: User): Promise<boolean> {
+    return this.sendTemplate(user.email, EmailTemplateName.WELCOME, {
+      name: user.fullName,
+      loginUrl: this.buildFrontendUrl('/login'),
+    });
+  }
+
+  /**
+   * 发送密码已修改通知
+   * @param user 用户信息
+   */
+  async sendPasswordChangedEmail(user: User): Promise<boolean> {
+    return this.sendTemplate(user.email, EmailTemplateName.PASSWORD_CHANGED, {
+      name: user.fullName,
+      changedAt: new Date().toLocaleString('zh-CN', {
+        timeZone: 'Asia/Shanghai',
+      }),
+      resetUrl: this.buildFrontendUrl('/forgot-password'),
+    });
+  }
+
+  /**
+   * 发送组织邀请邮件
+   * @param user 被邀请的用户
+   * @param organization 组织
+   * @param inviter 邀请人
+   * @param role 组织内角色
+   */
+  async sendOrganizationInvitationEmail(
+    user: User,
+    organization: Organization,
+    inviter: User,
+    role: string,
+  ): Promise<boolean> {
+    return this.sendTemplate(
+      user.email,
+      EmailTemplateName.ORGANIZATION_INVITATION,
+      {
+        name: user.fullName,
+        inviterName: inviter.fullName,
+        organizationName: organization.name,
+        role,
+        acceptUrl: this.buildFrontendUrl('/organizations/invitations', {
+          organization: organization.id,
+        }),
+      },
+    );
+  }
+
+  /**
+   * 发送注册邀请邮件
+   * @param email 受邀邮箱
+   * @param token 邀请令牌
+   * @param inviter 邀请人
+   * @param expiresInHours 邀请有效期（小时）
+   */
+  async sendInvitationEmail(
+    email: string,
+    token: string,
+    inviter: User,
+    expiresInHours: number,
+  ): Promise<boolean> {
+    return this.sendTemplate(email, EmailTemplateName.INVITATION, {
+      email,
+      inviterName: inviter.fullName,
+      acceptUrl: this.buildFrontendUrl('/invitations', { token }),
+      expiresInHours,
+    });
+  }
+
+  /**
+   * 发送新设备或可疑登录提醒
+   * @param user 用户信息
+   * @param details 登录设备、IP、位置和提醒原因
+   */
+  async sendLoginAlertEmail(
+    user: User,
+    details: {
+      device: string;
+      ipAddress: string;
+      location: string;
+      reasons: string;
+    },
+  ): Promise<boolean> {
+    return this.sendTemplate(user.email, EmailTemplateName.LOGIN_ALERT, {
+      name: user.fullName,
+      ...details,
+      loggedInAt: new Date().toLocaleString('zh-CN', {
+        timeZone: 'Asia/Shanghai',
+      }),
+      resetUrl: this.buildFrontendUrl('/forgot-password'),
+    });
+  }
+
+  /**
+   * 发送可疑登录验证码
+   * @param user 用户信息
+   * @param code 6位验证码
+   * @param reasons 需要验证的原因
+   * @param expiresInMinutes 验证码有效期（分钟）
+   */
+  async sendLoginVerificationEmail(
+    user: User,
+    code: string,
+    reasons: string,
+    expiresInMinutes: number,
+  ): Promise<boolean> {
+    return this.sendTemplate(user.email, EmailTemplateName.LOGIN_VERIFICATION, {
+      name: user.fullName,
+      code,
+      reasons,
+      expiresInMinutes,
+      resetUrl: this.buildFrontendUrl('/forgot-password'),
+    });
+  }
+
+  /**
+   * 构建前端页面链接
+   * @param path 页面路径
+   * @param query 查询参数
+   */
+  buildFrontendUrl(path: string, query: Record<string, string> = {}): string {
+    const baseUrl = this.configService
+      .get<string>('FRONTEND_URL', 'http://localhost:3000')
+      .replace(/\/+$/, '');
+    const search = new URLSearchParams(query).toString();
+    return `${baseUrl}${path}${search ? `?${search}` : ''}`;
+  }
+}
@@ -0,0 +1,37 @@
+import type { EmailTemplateName } from '../templates/email-templates';
+
+/**
+ * 邮件相关接口定义
+ */
+
+/**
+ * 待发送邮件
+ */
+export interface OutgoingEmail {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * 邮件传输接口
+ * 不同的发送方式（SMTP、文件、内存）都实现此接口
+ */
+export interface EmailTransport {
+  send(email: OutgoingEmail): Promise<void>;
+}
+
+/**
+ * 邮件队列任务
+ * 指定 template 时按模板渲染，否则直接使用 subject 和 content
+ */
+export interface EmailTask {
+  to: string;
+  template?: EmailTemplateName;
+  variables?: Record<string, unknown>;
+  subject?: string;
+  content?: string;
+  priority?: 'high' | 'normal' | 'low';
+}
@@ -0,0 +1,175 @@
+/**
+ * 邮件模板定义
+ * 模板中使用 {{变量名}} 占位，发送时由 EmailTemplateService 替换
+ */
+
+/**
+ * 邮件模板名称枚举
+ */
+export enum EmailTemplateName {
+  /**
+   * 密码重置
+   */
+  PASSWORD_RESET = 'password-reset',
+
+  /**
+   * 邮箱验证
+   */
+  EMAIL_VERIFICATION = 'email-verification',
+
+  /**
+   * 欢迎邮件
+   */
+  WELCOME = 'welcome',
+
+  /**
+   * 密码已修改通知
+   */
+  PASSWORD_CHANGED = 'password-changed',
+
+  /**
+   * 免密登录链接
+   */
+  MAGIC_LINK = 'magic-link',
+
+  /**
+   * 组织邀请
+   */
+  ORGANIZATION_INVITATION = 'organization-invitation',
+
+  /**
+   * 注册邀请
+   */
+  INVITATION = 'invitation',
+
+  /**
+   * 新设备或可疑登录提醒
+   */
+  LOGIN_ALERT = 'login-alert',
+
+  /**
+   * 可疑登录验证码
+   */
+  LOGIN_VERIFICATION = 'login-verification',
+}
+
+/**
+ * 邮件模板接口
+ * text 为纯文本版本，未提供时从 html 自动生成
+ */
+export interface EmailTemplate {
+  subject: string;
+  html: string;
+  text?: string;
+}
+
+/**
+ * 所有邮件模板
+ */
+export const EMAIL_TEMPLATES: Record<EmailTemplateName, EmailTemplate> = {
+  [EmailTemplateName.PASSWORD_RESET]: {
+    subject: '重置您的密码',
+    html: `<p>您好 {{name}}，</p>
+<p>我们收到了重置您账户密码的请求。请点击下面的链接设置新密码（{{expiresInMinutes}}分钟内有效）：</p>
+<p><a href="{{resetUrl}}">重置密码</a></p>
+<p>如果这不是您本人的操作，请忽略此邮件，您的密码不会被修改。</p>`,
+    text: `您好 {{name}}，
+
+我们收到了重置您账户密码的请求。请打开下面的链接设置新密码（{{expiresInMinutes}}分钟内有效）：
+{{resetUrl}}
+
+如果这不是您本人的操作，请忽略此邮件，您的密码不会被修改。`,
+  },
+
+  [EmailTemplateName.EMAIL_VERIFICATION]: {
+    subject: '请验证您的邮箱',
+    html: `<p>您好 {{name}}，</p>
+<p>感谢您的注册！请点击下面的链接验证您的邮箱（{{expiresInHours}}小时内有效）：</p>
+<p><a href="{{verifyUrl}}">验证邮箱</a></p>`,
+    text: `您好 {{name}}，
+
+感谢您的注册！请打开下面的链接验证您的邮箱（{{expiresInHours}}小时内有效）：
+{{verifyUrl}}`,
+  },
+
+  [EmailTemplateName.WELCOME]: {
+    subject: '欢迎加入',
+    html: `<p>您好 {{name}}，</p>
+<p>您的邮箱已验证成功，欢迎加入！</p>
+<p><a href="{{loginUrl}}">立即登录</a></p>`,
+  },
+
+  [EmailTemplateName.PASSWORD_CHANGED]: {
+    subject: '您的密码已修改',
+    html: `<p>您好 {{name}}，</p>
+<p>您的账户密码已于 {{changedAt}} 修改。</p>
+<p>如果这不是您本人的操作，请立即通过 <a href="{{resetUrl}}">找回密码</a> 重置密码并联系管理员。</p>`,
+  },
+
+  [EmailTemplateName.MAGIC_LINK]: {
+    subject: '您的登录链接',
+    html: `<p>您好 {{name}}，</p>
+<p>请点击下面的链接登录（{{expiresInMinutes}}分钟内有效，只能使用一次）：</p>
+<p><a href="{{loginUrl}}">立即登录</a></p>
+<p>如果这不是您本人的操作，请忽略此邮件。</p>`,
+    text: `您好 {{name}}，
+
+请打开下面的链接登录（{{expiresInMinutes}}分钟内有效，只能使用一次）：
+{{loginUrl}}
+
+如果这不是您本人的操作，请忽略此邮件。`,
+  },
+  [EmailTemplateName.ORGANIZATION_INVITATION]: {
+    subject: '{{inviterName}} 邀请您加入 {{organizationName}}',
+    html: `<p>您好 {{name}}，</p>
+<p>{{inviterName}} 邀请您以 {{role}} 身份加入组织「{{organizationName}}」。</p>
+<p><a href="{{acceptUrl}}">查看并接受邀请</a></p>
+<p>如果您不认识邀请人，请忽略此邮件。</p>`,
+    text: `您好 {{name}}，
+
+{{inviterName}} 邀请您以 {{role}} 身份加入组织「{{organizationName}}」。请打开下面的链接查看并接受邀请：
+{{acceptUrl}}
+
+如果您不认识邀请人，请忽略此邮件。`,
+  },
+
+  [EmailTemplateName.INVITATION]: {
+    subject: '{{inviterName}} 邀请您注册账户',
+    html: `<p>您好，</p>
+<p>{{inviterName}} 邀请您使用 {{email}} 注册账户。请点击下面的链接设置密码并完成注册（{{expiresInHours}}小时内有效）：</p>
+<p><a href="{{acceptUrl}}">接受邀请</a></p>
+<p>如果您不认识邀请人，请忽略此邮件。</p>`,
+    text: `您好，
+
+{{inviterName}} 邀请您使用 {{email}} 注册账户。请打开下面的链接设置密码并完成注册（{{expiresInHours}}小时内有效）：
+{{acceptUrl}}
+
+如果您不认识邀请人，请忽略此邮件。`,
+  },
+
+  [EmailTemplateName.LOGIN_ALERT]: {
+    subject: '您的账户有新的登录',
+    html: `<p>您好 {{name}}，</p>
+<p>您的账户于 {{loggedInAt}} 在以下设备上登录（{{reasons}}）：</p>
+<ul>
+<li>设备：{{device}}</li>
+<li>IP 地址：{{ipAddress}}</li>
+<li>位置：{{location}}</li>
+</ul>
+<p>如果这是您本人的操作，请忽略此邮件。否则请立即通过 <a href="{{resetUrl}}">找回密码</a> 重置密码，并在账户设置中注销不认识的会话。</p>`,
+  },
+
+  [EmailTemplateName.LOGIN_VERIFICATION]: {
+    subject: '登录验证码：{{code}}',
+    html: `<p>您好 {{name}}，</p>
+<p>我们检测到一次异常登录（{{reasons}}），需要验证后才能完成登录。您的验证码是：</p>
+<p style="font-size: 24px; font-weight: bold; letter-spacing: 4px;">{{code}}</p>
+<p>验证码{{expiresInMinutes}}分钟内有效。如果这不是您本人的操作，说明您的密码可能已经泄露，请立即通过 <a href="{{resetUrl}}">找回密码</a> 重置密码。</p>`,
+    text: `您好 {{name}}，
+
+我们检测到一次异常登录（{{reasons}}），需要验证后才能完成登录。您的验证码是：{{code}}
+
+验证码{{expiresInMinutes}}分钟内有效。如果这不是您本人的操作，说明您的密码可能已经泄露，请立即重置密码：
+{{resetUrl}}`,
+  },
+};
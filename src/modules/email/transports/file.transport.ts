@@ -0,0 +1,26 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type {
+  EmailTransport,
+  OutgoingEmail,
+} from '../interfaces/email.interface';
+
+/**
+ * 文件邮件传输
+ * 开发和测试环境使用，将邮件以 JSON 文件形式写入本地目录而不真正发送
+ */
+export class FileEmailTransport implements EmailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(email: OutgoingEmail): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+
+    const filename = `${Date.now()}-${uuidv4()}.json`;
+    await writeFile(
+      join(this.directory, filename),
+      JSON.stringify({ ...email, sentAt: new Date().toISOString() }, null, 2),
+      'utf-8',
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import type {
+  EmailTransport,
+  OutgoingEmail,
+} from '../interfaces/email.interface';
+
+/**
+ * 内存邮件传输
+ * 测试环境使用，邮件保存在内存中，便于断言发送内容
+ */
+export class MemoryEmailTransport implements EmailTransport {
+  private readonly sent: OutgoingEmail[] = [];
+
+  send(email: OutgoingEmail): Promise<void> {
+    this.sent.push(email);
+    return Promise.resolve();
+  }
+
+  /**
+   * 获取已发送的邮件
+   * @param to 可选，按收件人过滤
+   */
+  getSentEmails(to?: string): OutgoingEmail[] {
+    return to ? this.sent.filter((email) => email.to === to) : [...this.sent];
+  }
+
+  /**
+   * 清空已发送的邮件
+   */
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
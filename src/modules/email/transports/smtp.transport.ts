@@ -0,0 +1,45 @@
+import * as nodemailer from 'nodemailer';
+import type { Transporter } from 'nodemailer';
+import type {
+  EmailTransport,
+  OutgoingEmail,
+} from '../interfaces/email.interface';
+
+/**
+ * SMTP 连接配置
+ */
+export interface SmtpTransportOptions {
+  host: string;
+  port: number;
+  user?: string;
+  pass?: string;
+}
+
+/**
+ * SMTP 邮件传输
+ * 生产环境使用，通过 SMTP 服务器发送邮件
+ */
+export class SmtpEmailTransport implements EmailTransport {
+  private readonly transporter: Transporter;
+
+  constructor(options: SmtpTransportOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.port === 465, // 465 端口使用 SSL，其他端口使用 STARTTLS
+      auth: options.user
+        ? { user: options.user, pass: options.pass }
+        : undefined,
+    });
+  }
+
+  async send(email: OutgoingEmail): Promise<void> {
+    await this.transporter.sendMail({
+      from: email.from,
+      to: email.to,
+      subject: email.subject,
+      text: email.text,
+      html: email.html,
+    });
+  }
+}
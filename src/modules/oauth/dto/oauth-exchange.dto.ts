@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 第三方登录码换取令牌数据传输对象
+ */
+export class OAuthExchangeDto {
+  @ApiProperty({ description: '回调重定向到前端时附带的一次性登录码' })
+  @IsNotEmpty({ message: '登录码不能为空' })
+  @IsString({ message: '登录码必须是字符串' })
+  code: string;
+}
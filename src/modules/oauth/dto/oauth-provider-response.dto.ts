@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 已启用的第三方登录方式
+ */
+export class OAuthProviderResponseDto {
+  @ApiProperty({ example: 'github', description: '提供方名称' })
+  name: string;
+
+  @ApiProperty({ example: 'GitHub', description: '展示名称' })
+  displayName: string;
+}
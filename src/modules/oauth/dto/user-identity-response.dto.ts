@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 已关联的第三方身份
+ */
+export class UserIdentityResponseDto {
+  @ApiProperty({ description: '身份关联ID' })
+  id: string;
+
+  @ApiProperty({ example: 'github', description: '身份提供方' })
+  provider: string;
+
+  @ApiProperty({
+    required: false,
+    example: 'user@example.com',
+    description: '提供方返回的邮箱',
+  })
+  email?: string;
+
+  @ApiProperty({ description: '关联时间' })
+  createdAt: Date;
+
+  @ApiProperty({ required: false, description: '最近一次通过该身份登录的时间' })
+  lastLoginAt?: Date | null;
+}
@@ -0,0 +1,48 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  ManyToOne,
+  JoinColumn,
+  CreateDateColumn,
+  Index,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * 第三方身份实体 - 将身份提供方（Google、GitHub、OIDC）的用户标识关联到本地用户
+ * 同一提供方的同一用户只能关联一个本地账户，一个本地账户在每个提供方最多关联一个身份
+ */
+@Entity('user_identities') // 数据库表名
+@Index(['provider', 'subject'], { unique: true })
+@Index(['userId', 'provider'], { unique: true })
+export class UserIdentity {
+  @PrimaryGeneratedColumn('uuid') // 使用 UUID 作为主键
+  id: string;
+
+  @Column({ name: 'user_id' }) // 本地用户ID
+  userId: string;
+
+  /**
+   * 多对一关系：多个第三方身份属于一个用户
+   * 当用户被删除时，相关的身份关联也会被删除
+   */
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @Column({ length: 50 }) // 身份提供方名称，如 google、github、oidc
+  provider: string;
+
+  @Column({ name: 'provider_subject', length: 255 }) // 提供方的用户唯一标识（OIDC 的 sub）
+  subject: string;
+
+  @Column({ nullable: true }) // 提供方返回的邮箱
+  email?: string;
+
+  @CreateDateColumn({ name: 'created_at' }) // 关联时间，自动设置
+  createdAt: Date;
+
+  @Column({ name: 'last_login_at', type: 'datetime', nullable: true }) // 最近一次通过该身份登录的时间
+  lastLoginAt?: Date | null;
+}
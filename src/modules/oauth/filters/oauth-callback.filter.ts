@@ -0,0 +1,36 @@
+import {
+  ArgumentsHost,
+  Catch,
+  HttpException,
+  Injectable,
+  Logger,
+  type ExceptionFilter,
+} from '@nestjs/common';
+import type { Response } from 'express';
+
+import { OAuthService } from '../oauth.service';
+
+/**
+ * 第三方登录回调异常过滤器
+ * 回调由浏览器跳转访问，出错时重定向回前端并附带错误信息，而不是返回 JSON
+ */
+@Injectable()
+@Catch()
+export class OAuthCallbackFilter implements ExceptionFilter {
+  private readonly logger = new Logger(OAuthCallbackFilter.name);
+
+  constructor(private readonly oauthService: OAuthService) {}
+
+  catch(exception: unknown, host: ArgumentsHost) {
+    const response = host.switchToHttp().getResponse<Response>();
+
+    let message = '第三方登录失败，请稍后重试';
+    if (exception instanceof HttpException) {
+      message = exception.message;
+    } else {
+      this.logger.error('第三方登录回调处理失败', (exception as Error)?.stack);
+    }
+
+    response.redirect(this.oauthService.buildRedirectUrl({ error: message }));
+  }
+}
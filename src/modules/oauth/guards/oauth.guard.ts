@@ -0,0 +1,88 @@
+import {
+  HttpException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+  type CanActivate,
+  type ExecutionContext,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import passport from 'passport';
+
+import { OAuthProviderService } from '../services/oauth-provider.service';
+import { OAuthService } from '../oauth.service';
+import type { OAuthState } from '../interfaces/oauth.interface';
+
+/**
+ * 第三方登录守卫 - 按路由参数 :provider 选择对应的 Passport 策略
+ * 发起授权时重定向到提供方（请求在此结束）；回调时校验 state、交换令牌并获取用户资料
+ * 发起授权时携带 link 参数表示为已登录用户关联身份
+ */
+@Injectable()
+export class OAuthGuard implements CanActivate {
+  private readonly logger = new Logger(OAuthGuard.name);
+
+  constructor(
+    private readonly oauthProviderService: OAuthProviderService,
+    private readonly oauthService: OAuthService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const http = context.switchToHttp();
+    const req = http.getRequest<Request>();
+    const res = http.getResponse<Response>();
+    const strategy = this.oauthProviderService.getStrategyName(
+      req.params.provider,
+    );
+    const state = await this.resolveState(req);
+
+    return new Promise<boolean>((resolve, reject) => {
+      const authenticate = passport.authenticate(
+        strategy,
+        // passport-oauth2 的 state 可以是对象，由状态存储保存，类型定义只声明了字符串
+        { session: false, state: state as unknown as string },
+        (err: unknown, profile: Express.User | false, info?: unknown) => {
+          if (err || !profile) {
+            return reject(this.toException(err, info));
+          }
+          req.user = profile;
+          req.authInfo = info as Express.AuthInfo;
+          resolve(true);
+        },
+      ) as (req: Request, res: Response, next: (err?: unknown) => void) => void;
+
+      authenticate(req, res, (err) =>
+        err ? reject(this.toException(err)) : resolve(true),
+      );
+    });
+  }
+
+  /**
+   * 解析授权意图：带有效 link 票据时为关联身份，否则为登录
+   */
+  private async resolveState(req: Request): Promise<OAuthState> {
+    const ticket = req.query.link;
+    if (typeof ticket !== 'string' || !ticket) {
+      return { intent: 'login' };
+    }
+    const userId = await this.oauthService.consumeLinkTicket(ticket);
+    return { intent: 'link', userId };
+  }
+
+  /**
+   * 将 Passport 的认证错误转换为 HTTP 异常
+   * 与提供方通信失败等内部错误只记录日志，不把细节返回给客户端
+   */
+  private toException(err: unknown, info?: unknown): HttpException {
+    if (err instanceof HttpException) {
+      return err;
+    }
+    if (err) {
+      this.logger.error('第三方登录认证失败', (err as Error)?.message);
+      return new UnauthorizedException('第三方登录失败，请稍后重试');
+    }
+    return new UnauthorizedException(
+      (info as { message?: string } | undefined)?.message ?? '第三方登录失败',
+    );
+  }
+}
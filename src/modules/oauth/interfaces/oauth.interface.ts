@@ -0,0 +1,34 @@
+/**
+ * 身份提供方返回的用户资料（已统一格式）
+ */
+export interface OAuthProfile {
+  provider: string; // 身份提供方名称
+  subject: string; // 提供方的用户唯一标识
+  email?: string; // 邮箱
+  emailVerified: boolean; // 提供方是否已验证该邮箱
+  firstName?: string; // 名字
+  lastName?: string; // 姓氏
+  avatarUrl?: string; // 头像URL
+}
+
+/**
+ * 身份提供方配置
+ */
+export interface OAuthProviderConfig {
+  name: string; // 提供方名称，用于路由 /auth/oauth/:provider
+  displayName: string; // 展示名称
+  authorizationURL: string; // 授权端点
+  tokenURL: string; // 令牌端点
+  clientID: string;
+  clientSecret: string;
+  scope: string[];
+  loadProfile: (accessToken: string) => Promise<OAuthProfile>; // 使用访问令牌获取用户资料
+}
+
+/**
+ * 授权请求的状态，随 state 参数保存在 Redis 中，回调时取回
+ */
+export interface OAuthState {
+  intent: 'login' | 'link'; // 登录，或为已登录用户关联身份
+  userId?: string; // 关联身份时的本地用户ID
+}
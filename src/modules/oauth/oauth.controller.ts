@@ -0,0 +1,206 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Req,
+  Res,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  UseFilters,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import type { Request, Response } from 'express';
+
+import { OAuthService } from './oauth.service';
+import { OAuthProviderService } from './services/oauth-provider.service';
+import { OAuthGuard } from './guards/oauth.guard';
+import { OAuthCallbackFilter } from './filters/oauth-callback.filter';
+import { OAuthExchangeDto } from './dto/oauth-exchange.dto';
+import { OAuthProviderResponseDto } from './dto/oauth-provider-response.dto';
+import { UserIdentityResponseDto } from './dto/user-identity-response.dto';
+import type { OAuthProfile, OAuthState } from './interfaces/oauth.interface';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { NoApiKey } from '../auth/decorators/no-api-key.decorator';
+import { NoImpersonation } from '../auth/decorators/no-impersonation.decorator';
+import { RefreshTokenCookieService } from '../auth/services/refresh-token-cookie.service';
+import { AuthResponseDto } from '../auth/dto/auth-response.dto';
+import { TwoFactorChallengeDto } from '../auth/dto/two-factor-challenge.dto';
+import { LoginVerificationChallengeDto } from '../auth/dto/login-verification-challenge.dto';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { User } from '../users/entities/user.entity';
+
+/**
+ * 第三方登录控制器 - OAuth2 / OpenID Connect 登录与身份关联
+ * 登录流程：
+ * 1. 浏览器访问 GET /auth/oauth/:provider/authorize，重定向到提供方
+ * 2. 提供方回调 GET /auth/oauth/:provider/callback，重定向回前端并附带一次性登录码
+ * 3. 前端调用 POST /auth/oauth/exchange 换取令牌
+ */
+@ApiTags('Authentication')
+@Controller('auth/oauth') // 路由前缀为 /auth/oauth
+export class OAuthController {
+  constructor(
+    private readonly oauthService: OAuthService,
+    private readonly oauthProviderService: OAuthProviderService,
+    private readonly refreshTokenCookieService: RefreshTokenCookieService,
+  ) {}
+
+  /**
+   * 获取已启用的第三方登录方式
+   * GET /auth/oauth/providers
+   */
+  @Get('providers')
+  @ApiOperation({ summary: '获取已启用的第三方登录方式' })
+  @ApiResponse({ status: 200, type: [OAuthProviderResponseDto] })
+  getProviders(): OAuthProviderResponseDto[] {
+    return this.oauthProviderService.listProviders();
+  }
+
+  /**
+   * 发起第三方登录
+   * GET /auth/oauth/:provider/authorize
+   * 由 OAuthGuard 重定向到提供方的授权页面
+   */
+  @UseGuards(OAuthGuard)
+  @Get(':provider/authorize')
+  @ApiOperation({ summary: '发起第三方登录（重定向到提供方）' })
+  @ApiResponse({ status: 302, description: '重定向到提供方授权页面' })
+  @ApiResponse({ status: 404, description: '不支持该登录方式' })
+  authorize(): void {
+    // 守卫已完成重定向
+  }
+
+  /**
+   * 第三方登录回调
+   * GET /auth/oauth/:provider/callback
+   * 登录时重定向到前端并附带一次性登录码；关联身份时附带 linked 参数；出错时附带 error 参数
+   */
+  @UseGuards(OAuthGuard)
+  @UseFilters(OAuthCallbackFilter)
+  @Get(':provider/callback')
+  @ApiOperation({ summary: '第三方登录回调' })
+  @ApiResponse({ status: 302, description: '重定向到前端回调页' })
+  async callback(@Req() req: Request, @Res() res: Response): Promise<void> {
+    const redirectUrl = await this.oauthService.handleCallback(
+      req.user as OAuthProfile,
+      (req.authInfo as { state: OAuthState }).state,
+    );
+    res.redirect(redirectUrl);
+  }
+
+  /**
+   * 一次性登录码换取令牌
+   * POST /auth/oauth/exchange
+   */
+  @Post('exchange')
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @ApiOperation({ summary: '使用第三方登录码换取令牌' })
+  @ApiResponse({
+    status: 200,
+    description:
+      '登录成功；已启用双因素认证时返回挑战令牌，需调用 /auth/2fa/verify 完成登录；登录风险较高时返回验证令牌，需调用 /auth/login/verify 完成登录',
+    type: AuthResponseDto,
+  })
+  @ApiResponse({ status: 401, description: '登录码无效或已过期' })
+  async exchange(
+    @Body() oauthExchangeDto: OAuthExchangeDto,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<
+    AuthResponseDto | TwoFactorChallengeDto | LoginVerificationChallengeDto
+  > {
+    const result = await this.oauthService.exchangeLoginCode(
+      oauthExchangeDto.code,
+      { userAgent: req.get('user-agent'), ipAddress: req.ip },
+    );
+
+    // 双因素认证和登录验证挑战不包含令牌，原样返回
+    if ('requiresTwoFactor' in result || 'requiresVerification' in result) {
+      return result;
+    }
+    return this.refreshTokenCookieService.apply(res, result);
+  }
+
+  /**
+   * 关联第三方身份
+   * POST /auth/oauth/:provider/link
+   * 返回带一次性票据的授权地址，前端跳转到该地址完成关联
+   */
+  @UseGuards(JwtAuthGuard)
+  @NoApiKey()
+  @NoImpersonation()
+  @Post(':provider/link')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '关联第三方身份' })
+  @ApiResponse({ status: 200, description: '返回授权地址（5分钟内有效）' })
+  @ApiResponse({ status: 404, description: '不支持该登录方式' })
+  async link(
+    @CurrentUser() user: User,
+    @Param('provider') provider: string,
+  ): Promise<{ authorizationUrl: string }> {
+    this.oauthProviderService.getStrategyName(provider); // 校验提供方是否启用
+    const ticket = await this.oauthService.createLinkTicket(user.id);
+    return {
+      authorizationUrl: this.oauthProviderService.getAuthorizeUrl(provider, {
+        link: ticket,
+      }),
+    };
+  }
+
+  /**
+   * 获取已关联的第三方身份
+   * GET /auth/oauth/identities
+   */
+  @UseGuards(JwtAuthGuard)
+  @Get('identities')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '获取已关联的第三方身份' })
+  @ApiResponse({ status: 200, type: [UserIdentityResponseDto] })
+  async getIdentities(
+    @CurrentUser() user: User,
+  ): Promise<UserIdentityResponseDto[]> {
+    const identities = await this.oauthService.listIdentities(user.id);
+    return identities.map(
+      ({ id, provider, email, createdAt, lastLoginAt }) => ({
+        id,
+        provider,
+        email,
+        createdAt,
+        lastLoginAt,
+      }),
+    );
+  }
+
+  /**
+   * 解除第三方身份关联
+   * DELETE /auth/oauth/identities/:provider
+   */
+  @UseGuards(JwtAuthGuard)
+  @NoApiKey()
+  @NoImpersonation()
+  @Delete('identities/:provider')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: '解除第三方身份关联' })
+  @ApiResponse({ status: 200, description: '已解除关联' })
+  @ApiResponse({ status: 400, description: '这是账户唯一的登录方式' })
+  @ApiResponse({ status: 404, description: '未关联该登录方式' })
+  async unlink(
+    @CurrentUser() user: User,
+    @Param('provider') provider: string,
+  ): Promise<{ message: string }> {
+    await this.oauthService.unlinkIdentity(user.id, provider);
+    return { message: '已解除关联' };
+  }
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { OAuthController } from './oauth.controller';
+import { OAuthService } from './oauth.service';
+import { OAuthProviderService } from './services/oauth-provider.service';
+import { UserIdentity } from './entities/user-identity.entity';
+import { AuthModule } from '../auth/auth.module';
+import { UsersModule } from '../users/users.module';
+import { EmailModule } from '../email/email.module';
+
+/**
+ * 第三方登录模块 - OAuth2 / OpenID Connect 登录与账户关联
+ * 支持 Google、GitHub 和通用 OIDC 提供方，按环境变量启用
+ */
+@Module({
+  imports: [
+    AuthModule, // 认证模块，签发令牌
+    UsersModule, // 用户模块
+    EmailModule, // 邮件模块，新用户欢迎邮件
+    TypeOrmModule.forFeature([UserIdentity]),
+  ],
+  controllers: [OAuthController],
+  providers: [OAuthService, OAuthProviderService],
+})
+export class OAuthModule {}
@@ -0,0 +1,306 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { randomBytes } from 'crypto';
+
+import { UserIdentity } from './entities/user-identity.entity';
+import type { OAuthProfile, OAuthState } from './interfaces/oauth.interface';
+import { UsersService } from '../users/users.service';
+import { User } from '../users/entities/user.entity';
+import { AuthService } from '../auth/auth.service';
+import { PasswordService } from '../auth/services/password.service';
+import { EmailService } from '../email/email.service';
+import { RedisService } from '../redis/redis.service';
+import { AuthResponseDto } from '../auth/dto/auth-response.dto';
+import { TwoFactorChallengeDto } from '../auth/dto/two-factor-challenge.dto';
+import { LoginVerificationChallengeDto } from '../auth/dto/login-verification-challenge.dto';
+import type { SessionContext } from '../auth/interfaces/session.interface';
+
+/**
+ * 第三方登录服务 - 处理第三方身份的登录、注册和关联
+ * 登录时按以下顺序确定本地用户：
+ * 1. 已关联的身份直接登录
+ * 2. 提供方已验证的邮箱与本地已验证邮箱的账户一致时自动关联
+ * 3. 邮箱未注册时自动创建账户
+ * 回调不直接返回令牌，而是重定向到前端并附带一次性登录码，由前端调用 /auth/oauth/exchange 换取令牌
+ */
+@Injectable()
+export class OAuthService {
+  private readonly logger = new Logger(OAuthService.name);
+  private readonly linkTicketTtl = 300; // 关联票据有效期（秒）
+  private readonly loginCodeTtl = 60; // 一次性登录码有效期（秒）
+
+  constructor(
+    @InjectRepository(UserIdentity)
+    private readonly identityRepository: Repository<UserIdentity>, // 第三方身份仓库
+    private readonly usersService: UsersService, // 用户服务
+    private readonly authService: AuthService, // 认证服务
+    private readonly passwordService: PasswordService, // 密码服务
+    private readonly emailService: EmailService, // 邮件服务
+    private readonly redisService: RedisService, // Redis 服务
+    private readonly configService: ConfigService, // 配置服务
+  ) {}
+
+  /**
+   * 处理提供方回调
+   * @param profile 提供方返回的用户资料
+   * @param state 授权意图
+   * @returns 重定向到前端的地址
+   */
+  async handleCallback(
+    profile: OAuthProfile,
+    state: OAuthState,
+  ): Promise<string> {
+    if (state.intent === 'link' && state.userId) {
+      await this.linkIdentity(state.userId, profile);
+      return this.buildRedirectUrl({ linked: profile.provider });
+    }
+
+    const user = await this.resolveUser(profile);
+    const code = randomBytes(32).toString('base64url');
+    await this.redisService.set(
+      this.getLoginCodeKey(code),
+      user.id,
+      this.loginCodeTtl,
+    );
+    return this.buildRedirectUrl({ code });
+  }
+
+  /**
+   * 使用一次性登录码换取令牌
+   * @param code 回调重定向时附带的登录码
+   * @param context 客户端信息
+   * @throws 登录码无效、已使用或用户已被停用时抛出未授权异常
+   */
+  async exchangeLoginCode(
+    code: string,
+    context: SessionContext = {},
+  ): Promise<
+    AuthResponseDto | TwoFactorChallengeDto | LoginVerificationChallengeDto
+  > {
+    const key = this.getLoginCodeKey(code);
+    const userId = await this.redisService.get<string>(key);
+    if (!userId || (await this.redisService.del(key)) === 0) {
+      throw new UnauthorizedException('登录码无效或已过期');
+    }
+
+    const user = await this.usersService.findById(userId);
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('用户不存在或账户已被停用');
+    }
+
+    // 已启用双因素认证的用户同样需要完成挑战，高风险登录同样需要邮箱验证
+    return this.authService.login(user, context, 'oauth');
+  }
+
+  /**
+   * 为已登录用户创建关联票据
+   * 浏览器跳转到授权地址时无法携带访问令牌，通过一次性票据识别用户
+   * @param userId 用户ID
+   */
+  async createLinkTicket(userId: string): Promise<string> {
+    const ticket = randomBytes(24).toString('base64url');
+    await this.redisService.set(
+      this.getLinkTicketKey(ticket),
+      userId,
+      this.linkTicketTtl,
+    );
+    return ticket;
+  }
+
+  /**
+   * 使用关联票据
+   * @param ticket 关联票据
+   * @returns 用户ID
+   * @throws 票据无效或已使用时抛出未授权异常
+   */
+  async consumeLinkTicket(ticket: string): Promise<string> {
+    const key = this.getLinkTicketKey(ticket);
+    const userId = await this.redisService.get<string>(key);
+    if (!userId || (await this.redisService.del(key)) === 0) {
+      throw new UnauthorizedException('关联请求无效或已过期');
+    }
+    return userId;
+  }
+
+  /**
+   * 获取用户已关联的第三方身份
+   * @param userId 用户ID
+   */
+  async listIdentities(userId: string): Promise<UserIdentity[]> {
+    return this.identityRepository.find({
+      where: { userId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * 解除第三方身份关联
+   * 账户没有本地密码时，不能解除最后一个身份，否则将无法登录
+   * @param userId 用户ID
+   * @param provider 提供方名称
+   */
+  async unlinkIdentity(userId: string, provider: string): Promise<void> {
+    const identity = await this.identityRepository.findOne({
+      where: { userId, provider },
+    });
+    if (!identity) {
+      throw new NotFoundException('未关联该登录方式');
+    }
+
+    const user = await this.usersService.findById(userId);
+    const identityCount = await this.identityRepository.count({
+      where: { userId },
+    });
+    if (user && !user.hasPassword && identityCount <= 1) {
+      throw new BadRequestException(
+        '这是账户唯一的登录方式，请先通过重置密码设置本地密码',
+      );
+    }
+
+    await this.identityRepository.delete(identity.id);
+    this.logger.log(`用户 ${userId} 解除了 ${provider} 身份关联`);
+  }
+
+  /**
+   * 构建重定向到前端回调页的地址
+   * @param query 查询参数
+   */
+  buildRedirectUrl(query: Record<string, string>): string {
+    const redirectUrl = this.configService.get<string>(
+      'OAUTH_REDIRECT_URL',
+      `${this.configService
+        .get<string>('FRONTEND_URL', 'http://localhost:3000')
+        .replace(/\/+$/, '')}/oauth/callback`,
+    );
+    return `${redirectUrl}?${new URLSearchParams(query).toString()}`;
+  }
+
+  /**
+   * 根据第三方身份确定本地用户（必要时自动关联或创建）
+   */
+  private async resolveUser(profile: OAuthProfile): Promise<User> {
+    const identity = await this.identityRepository.findOne({
+      where: { provider: profile.provider, subject: profile.subject },
+    });
+    if (identity) {
+      const user = await this.usersService.findById(identity.userId);
+      if (!user || !user.isActive) {
+        throw new UnauthorizedException('用户不存在或账户已被停用');
+      }
+      await this.identityRepository.update(identity.id, {
+        lastLoginAt: new Date(),
+      });
+      return user;
+    }
+
+    // 只信任提供方已验证的邮箱，否则任何人都能用他人邮箱注册第三方账户接管本地账户
+    if (!profile.email || !profile.emailVerified) {
+      throw new BadRequestException(
+        '无法从该登录方式获取已验证的邮箱，请使用邮箱注册',
+      );
+    }
+
+    const existingUser = await this.usersService.findByEmail(profile.email);
+    if (existingUser) {
+      // 本地邮箱未验证时不自动关联，防止他人抢先用该邮箱注册后接管第三方登录；
+      // 验证状态只能通过邮件验证或管理员设置，用户修改邮箱后会被清除
+      if (!existingUser.emailVerified) {
+        throw new ConflictException(
+          '该邮箱已注册但尚未验证，请使用密码登录后在账户设置中关联',
+        );
+      }
+      if (!existingUser.isActive) {
+        throw new UnauthorizedException('账户已被停用');
+      }
+      await this.saveIdentity(existingUser.id, profile);
+      this.logger.log(
+        `按已验证邮箱将 ${profile.provider} 身份关联到用户 ${existingUser.id}`,
+      );
+      return existingUser;
+    }
+
+    // 仅限邀请注册时只允许已有账户通过第三方登录
+    if (this.authService.isInviteOnly()) {
+      throw new ForbiddenException('当前仅支持通过邀请注册');
+    }
+
+    // 创建新账户，使用随机密码（用户可通过重置密码设置本地密码）
+    const user = await this.usersService.createFromExternalIdentity({
+      email: profile.email,
+      firstName: profile.firstName ?? profile.email.split('@')[0],
+      lastName: profile.lastName ?? '',
+      avatarUrl: profile.avatarUrl,
+      password: await this.passwordService.hashPassword(
+        randomBytes(32).toString('hex'),
+      ),
+    });
+    await this.saveIdentity(user.id, profile);
+    await this.emailService.sendWelcomeEmail(user);
+    this.logger.log(`通过 ${profile.provider} 创建了新用户 ${user.id}`);
+    return user;
+  }
+
+  /**
+   * 为已登录用户关联第三方身份
+   */
+  private async linkIdentity(
+    userId: string,
+    profile: OAuthProfile,
+  ): Promise<void> {
+    const existing = await this.identityRepository.findOne({
+      where: { provider: profile.provider, subject: profile.subject },
+    });
+    if (existing) {
+      if (existing.userId === userId) {
+        return; // 已关联，重复操作直接成功
+      }
+      throw new ConflictException('该第三方账户已关联其他用户');
+    }
+
+    const linked = await this.identityRepository.findOne({
+      where: { userId, provider: profile.provider },
+    });
+    if (linked) {
+      throw new ConflictException('已关联该登录方式的其他账户，请先解除关联');
+    }
+
+    await this.saveIdentity(userId, profile);
+    this.logger.log(`用户 ${userId} 关联了 ${profile.provider} 身份`);
+  }
+
+  /**
+   * 保存身份关联
+   */
+  private async saveIdentity(
+    userId: string,
+    profile: OAuthProfile,
+  ): Promise<UserIdentity> {
+    return this.identityRepository.save(
+      this.identityRepository.create({
+        userId,
+        provider: profile.provider,
+        subject: profile.subject,
+        email: profile.email,
+        lastLoginAt: new Date(),
+      }),
+    );
+  }
+
+  private getLoginCodeKey(code: string): string {
+    return `auth:oauth-login:${code}`;
+  }
+
+  private getLinkTicketKey(ticket: string): string {
+    return `auth:oauth-link:${ticket}`;
+  }
+}
@@ -0,0 +1,332 @@
+import { createHash, randomBytes } from 'crypto';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { ConfigService } from '@nestjs/config';
+import passport from 'passport';
+import type { CookieOptions, Request, Response } from 'express';
+
+import { OAuthProviderService } from './oauth-provider.service';
+import type { OAuthProfile, OAuthState } from '../interfaces/oauth.interface';
+import { InMemoryRedis } from '../../../testing/in-memory-redis';
+
+/**
+ * 本地模拟的 OIDC 身份提供方
+ * 提供发现文档、授权、令牌和 userinfo 端点，令牌端点按 S256 校验 PKCE
+ */
+class MockOidcIssuer {
+  issuer = '';
+  advertisedIssuer?: string; // 发现文档中声明的 issuer，默认与实际地址一致
+  claims: Record<string, unknown> = {};
+  readonly authorizeRequests: URLSearchParams[] = [];
+  private readonly codes = new Map<string, string>(); // 授权码 -> code_challenge
+  private readonly tokens = new Set<string>();
+  private server?: Server;
+
+  async start(): Promise<void> {
+    this.server = createServer((req, res) => {
+      const url = new URL(req.url ?? '/', this.issuer);
+      const json = (status: number, body: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      };
+
+      switch (url.pathname) {
+        case '/.well-known/openid-configuration':
+          return json(200, {
+            issuer: this.advertisedIssuer ?? this.issuer,
+            authorization_endpoint: `${this.issuer}/authorize`,
+            token_endpoint: `${this.issuer}/token`,
+            userinfo_endpoint: `${this.issuer}/userinfo`,
+          });
+        case '/authorize': {
+          // 用户同意授权，带授权码重定向回客户端
+          this.authorizeRequests.push(url.searchParams);
+          const code = randomBytes(8).toString('hex');
+          this.codes.set(code, url.searchParams.get('code_challenge') ?? '');
+          const redirect = new URL(url.searchParams.get('redirect_uri') ?? '');
+          redirect.searchParams.set('code', code);
+          redirect.searchParams.set(
+            'state',
+            url.searchParams.get('state') ?? '',
+          );
+          res.writeHead(302, { Location: redirect.toString() });
+          return res.end();
+        }
+        case '/token': {
+          let raw = '';
+          req.on('data', (chunk: Buffer) => (raw += chunk.toString()));
+          req.on('end', () => {
+            const body = new URLSearchParams(raw);
+            const challenge = this.codes.get(body.get('code') ?? '');
+            const verifier = body.get('code_verifier') ?? '';
+            this.codes.delete(body.get('code') ?? '');
+            if (
+              challenge === undefined ||
+              createHash('sha256').update(verifier).digest('base64url') !==
+                challenge
+            ) {
+              return json(400, { error: 'invalid_grant' });
+            }
+            const accessToken = randomBytes(8).toString('hex');
+            this.tokens.add(accessToken);
+            json(200, { access_token: accessToken, token_type: 'Bearer' });
+          });
+          return;
+        }
+        case '/userinfo': {
+          const token = req.headers.authorization?.replace(/^Bearer /, '');
+          if (!token || !this.tokens.has(token)) {
+            return json(401, { error: 'invalid_token' });
+          }
+          return json(200, this.claims);
+        }
+        default:
+          return json(404, { error: 'not_found' });
+      }
+    });
+
+    await new Promise<void>((resolve) =>
+      this.server?.listen(0, '127.0.0.1', resolve),
+    );
+    const { port } = this.server.address() as AddressInfo;
+    this.issuer = `http://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise((resolve) => this.server?.close(resolve));
+  }
+}
+
+type AuthenticateResult =
+  | { redirect: string }
+  | { profile: OAuthProfile; state: OAuthState }
+  | { error: unknown };
+
+/**
+ * 模拟浏览器的 Cookie，记录最近一次写入时的选项
+ */
+class CookieJar {
+  readonly cookies: Record<string, string> = {};
+  readonly options: Record<string, CookieOptions> = {};
+
+  set(name: string, value: string, options: CookieOptions) {
+    this.cookies[name] = value;
+    this.options[name] = options;
+  }
+
+  clear(name: string) {
+    delete this.cookies[name];
+  }
+}
+
+/**
+ * 以 Passport 中间件的方式执行策略，返回重定向地址或认证结果
+ */
+function authenticate(
+  strategy: string,
+  jar: CookieJar,
+  query: Record<string, string> = {},
+  state: OAuthState = { intent: 'login' },
+): Promise<AuthenticateResult> {
+  return new Promise((resolve) => {
+    const res = {
+      statusCode: 200,
+      setHeader: (name: string, value: string) => {
+        if (name.toLowerCase() === 'location') {
+          resolve({ redirect: value });
+        }
+      },
+      end: () => undefined,
+      cookie: (name: string, value: string, options: CookieOptions) =>
+        jar.set(name, value, options),
+      clearCookie: (name: string) => jar.clear(name),
+    } as unknown as Response;
+    const req = {
+      query,
+      headers: {},
+      cookies: { ...jar.cookies },
+      res,
+    } as unknown as Request;
+
+    const middleware = passport.authenticate(
+      strategy,
+      { session: false, state: state as unknown as string },
+      (err: unknown, profile: OAuthProfile | false, info?: unknown) => {
+        if (err || !profile) {
+          return resolve({ error: err ?? info });
+        }
+        resolve({ profile, state: (info as { state: OAuthState }).state });
+      },
+    ) as (req: Request, res: Response, next: (err?: unknown) => void) => void;
+    middleware(req, res, (err) => resolve({ error: err }));
+  });
+}
+
+describe('OAuthProviderService (OIDC)', () => {
+  let issuer: MockOidcIssuer;
+  let browser: CookieJar;
+
+  const createService = async () => {
+    const service = new OAuthProviderService(
+      new ConfigService({
+        OAUTH_OIDC_ISSUER: issuer.issuer,
+        OAUTH_OIDC_CLIENT_ID: 'client-id',
+        OAUTH_OIDC_CLIENT_SECRET: 'client-secret',
+        OAUTH_OIDC_NAME: 'mock',
+        OAUTH_OIDC_DISPLAY_NAME: 'Mock OIDC',
+        API_BASE_URL: 'http://localhost:3000/api/v1',
+      }),
+      new InMemoryRedis().asService(),
+    );
+    await service.onModuleInit();
+    return service;
+  };
+
+  // 访问授权地址，返回提供方重定向回来的授权码和 state
+  const approve = async (authorizeUrl: string) => {
+    const response = await fetch(authorizeUrl, { redirect: 'manual' });
+    const callback = new URL(response.headers.get('location') ?? '');
+    return Object.fromEntries(callback.searchParams) as {
+      code: string;
+      state: string;
+    };
+  };
+
+  beforeEach(async () => {
+    issuer = new MockOidcIssuer();
+    await issuer.start();
+    browser = new CookieJar();
+    issuer.claims = {
+      sub: 'subject-1',
+      email: 'Alice@Example.com',
+      email_verified: 'true',
+      name: 'Alice van Dijk',
+      picture: 'https://example.com/alice.png',
+    };
+  });
+
+  afterEach(async () => {
+    await issuer.stop();
+  });
+
+  it('registers the provider from the discovery document', async () => {
+    const service = await createService();
+
+    expect(service.listProviders()).toEqual([
+      { name: 'mock', displayName: 'Mock OIDC' },
+    ]);
+    expect(service.getStrategyName('mock')).toBe('oauth-mock');
+  });
+
+  it('skips a provider whose discovery document names another issuer', async () => {
+    issuer.advertisedIssuer = 'https://evil.example.com';
+    const service = await createService();
+
+    expect(service.listProviders()).toEqual([]);
+    expect(() => service.getStrategyName('mock')).toThrow('不支持该登录方式');
+  });
+
+  it('completes the authorization code flow with PKCE and normalizes the profile', async () => {
+    await createService();
+
+    const start = await authenticate(
+      'oauth-mock',
+      browser,
+      {},
+      { intent: 'login' },
+    );
+    expect(start).toHaveProperty('redirect');
+    const authorizeUrl = (start as { redirect: string }).redirect;
+    expect(authorizeUrl.startsWith(`${issuer.issuer}/authorize?`)).toBe(true);
+
+    const callback = await approve(authorizeUrl);
+    const [request] = issuer.authorizeRequests;
+    expect(request.get('code_challenge_method')).toBe('S256');
+    expect(request.get('redirect_uri')).toBe(
+      'http://localhost:3000/api/v1/auth/oauth/mock/callback',
+    );
+
+    const result = await authenticate('oauth-mock', browser, callback);
+    expect(result).toEqual({
+      profile: {
+        provider: 'mock',
+        subject: 'subject-1',
+        email: 'alice@example.com',
+        emailVerified: true,
+        firstName: 'Alice',
+        lastName: 'van Dijk',
+        avatarUrl: 'https://example.com/alice.png',
+      },
+      state: { intent: 'login' },
+    });
+  });
+
+  it('keeps the link intent and treats unverified emails as unverified', async () => {
+    await createService();
+    issuer.claims = { sub: 'subject-2', email: 'bob@example.com' };
+
+    const start = await authenticate(
+      'oauth-mock',
+      browser,
+      {},
+      { intent: 'link', userId: 'user-1' },
+    );
+    const callback = await approve((start as { redirect: string }).redirect);
+    const result = await authenticate('oauth-mock', browser, callback);
+
+    expect(result).toMatchObject({
+      profile: { subject: 'subject-2', emailVerified: false },
+      state: { intent: 'link', userId: 'user-1' },
+    });
+  });
+
+  it('rejects a callback whose state has already been used', async () => {
+    await createService();
+
+    const start = await authenticate('oauth-mock', browser);
+    const callback = await approve((start as { redirect: string }).redirect);
+    await authenticate('oauth-mock', browser, callback);
+
+    const replay = await authenticate('oauth-mock', browser, callback);
+    expect(replay).toEqual({
+      error: { message: '授权请求无效或已过期' },
+    });
+  });
+
+  it('binds the state to the browser that started the authorization', async () => {
+    await createService();
+
+    const start = await authenticate('oauth-mock', browser);
+    expect(browser.options.oauth_state).toMatchObject({
+      httpOnly: true,
+      sameSite: 'lax',
+      path: '/api/v1/auth/oauth',
+    });
+    const callback = await approve((start as { redirect: string }).redirect);
+
+    // 攻击者把自己的回调地址交给另一个浏览器打开
+    const victim = new CookieJar();
+    await expect(authenticate('oauth-mock', victim, callback)).resolves.toEqual(
+      { error: { message: '授权请求无效或已过期' } },
+    );
+
+    // 被拒绝的回调不会消费授权请求，发起授权的浏览器仍可完成登录并清除 Cookie
+    await expect(
+      authenticate('oauth-mock', browser, callback),
+    ).resolves.toHaveProperty('profile');
+    expect(browser.cookies).toEqual({});
+  });
+
+  it('rejects a callback whose state does not match the cookie', async () => {
+    await createService();
+
+    const first = await authenticate('oauth-mock', browser);
+    const callback = await approve((first as { redirect: string }).redirect);
+    // 同一浏览器随后发起的授权请求覆盖了 Cookie
+    await authenticate('oauth-mock', browser);
+
+    await expect(
+      authenticate('oauth-mock', browser, callback),
+    ).resolves.toEqual({ error: { message: '授权请求无效或已过期' } });
+  });
+});
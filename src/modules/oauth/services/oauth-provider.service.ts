@@ -0,0 +1,307 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  type OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import passport from 'passport';
+
+import { RedisService } from '../../redis/redis.service';
+import { OAuthProviderStrategy } from '../strategies/oauth-provider.strategy';
+import { OAuthStateStore } from '../strategies/oauth-state.store';
+import type {
+  OAuthProfile,
+  OAuthProviderConfig,
+} from '../interfaces/oauth.interface';
+
+/**
+ * OIDC 发现文档（只列出用到的字段）
+ */
+interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint: string;
+}
+
+/**
+ * 身份提供方服务 - 根据环境变量注册已配置的第三方登录提供方
+ * 支持 Google、GitHub 和任意标准 OIDC 提供方（如 Keycloak、本地模拟的 OIDC 服务）
+ * OIDC 提供方通过 /.well-known/openid-configuration 自动发现端点
+ */
+@Injectable()
+export class OAuthProviderService implements OnModuleInit {
+  private readonly logger = new Logger(OAuthProviderService.name);
+  private readonly providers = new Map<string, OAuthProviderConfig>();
+
+  constructor(
+    private readonly configService: ConfigService, // 配置服务
+    private readonly redisService: RedisService, // Redis 服务
+  ) {}
+
+  async onModuleInit() {
+    const stateStore = new OAuthStateStore(
+      this.redisService,
+      new URL(`${this.getBaseUrl()}/auth/oauth`).pathname,
+    );
+
+    for (const load of [
+      () => this.loadGoogle(),
+      () => this.loadGithub(),
+      () => this.loadOidc(),
+    ]) {
+      try {
+        const provider = await load();
+        if (!provider) {
+          continue; // 未配置
+        }
+        passport.use(
+          new OAuthProviderStrategy(
+            provider,
+            this.getCallbackUrl(provider.name),
+            stateStore,
+          ),
+        );
+        this.providers.set(provider.name, provider);
+        this.logger.log(`已启用第三方登录: ${provider.name}`);
+      } catch (error) {
+        // 单个提供方不可用不影响应用启动
+        this.logger.error('注册第三方登录提供方失败', (error as Error).message);
+      }
+    }
+  }
+
+  /**
+   * 获取已启用的提供方列表
+   */
+  listProviders(): { name: string; displayName: string }[] {
+    return [...this.providers.values()].map(({ name, displayName }) => ({
+      name,
+      displayName,
+    }));
+  }
+
+  /**
+   * 获取提供方对应的 Passport 策略名称
+   * @param name 提供方名称
+   * @throws 提供方未启用时抛出未找到异常
+   */
+  getStrategyName(name: string): string {
+    if (!this.providers.has(name)) {
+      throw new NotFoundException('不支持该登录方式');
+    }
+    return `oauth-${name}`;
+  }
+
+  /**
+   * 获取发起授权的地址
+   * @param name 提供方名称
+   * @param query 查询参数
+   */
+  getAuthorizeUrl(name: string, query: Record<string, string> = {}): string {
+    const search = new URLSearchParams(query).toString();
+    return `${this.getBaseUrl()}/auth/oauth/${name}/authorize${search ? `?${search}` : ''}`;
+  }
+
+  /**
+   * Google（OIDC）
+   */
+  private async loadGoogle(): Promise<OAuthProviderConfig | null> {
+    const clientID = this.configService.get<string>('OAUTH_GOOGLE_CLIENT_ID');
+    if (!clientID) {
+      return null;
+    }
+    return this.discoverOidcProvider({
+      name: 'google',
+      displayName: 'Google',
+      issuer: 'https://accounts.google.com',
+      clientID,
+      clientSecret: this.configService.get('OAUTH_GOOGLE_CLIENT_SECRET', ''),
+    });
+  }
+
+  /**
+   * 通用 OIDC 提供方
+   */
+  private async loadOidc(): Promise<OAuthProviderConfig | null> {
+    const issuer = this.configService.get<string>('OAUTH_OIDC_ISSUER');
+    const clientID = this.configService.get<string>('OAUTH_OIDC_CLIENT_ID');
+    if (!issuer || !clientID) {
+      return null;
+    }
+    return this.discoverOidcProvider({
+      name: this.configService.get('OAUTH_OIDC_NAME', 'oidc'),
+      displayName: this.configService.get('OAUTH_OIDC_DISPLAY_NAME', 'OIDC'),
+      issuer,
+      clientID,
+      clientSecret: this.configService.get('OAUTH_OIDC_CLIENT_SECRET', ''),
+      scope: this.configService
+        .get<string>('OAUTH_OIDC_SCOPE', 'openid email profile')
+        .split(' '),
+    });
+  }
+
+  /**
+   * GitHub（OAuth 2.0，非 OIDC）
+   */
+  private loadGithub(): Promise<OAuthProviderConfig | null> {
+    const clientID = this.configService.get<string>('OAUTH_GITHUB_CLIENT_ID');
+    if (!clientID) {
+      return Promise.resolve(null);
+    }
+    return Promise.resolve({
+      name: 'github',
+      displayName: 'GitHub',
+      authorizationURL: 'https://github.com/login/oauth/authorize',
+      tokenURL: 'https://github.com/login/oauth/access_token',
+      clientID,
+      clientSecret: this.configService.get('OAUTH_GITHUB_CLIENT_SECRET', ''),
+      scope: ['read:user', 'user:email'],
+      loadProfile: (accessToken) => this.loadGithubProfile(accessToken),
+    });
+  }
+
+  /**
+   * 通过发现文档构建 OIDC 提供方配置
+   */
+  private async discoverOidcProvider(options: {
+    name: string;
+    displayName: string;
+    issuer: string;
+    clientID: string;
+    clientSecret: string;
+    scope?: string[];
+  }): Promise<OAuthProviderConfig> {
+    const issuer = options.issuer.replace(/\/+$/, '');
+    const discovery = await this.fetchJson<OidcDiscoveryDocument>(
+      `${issuer}/.well-known/openid-configuration`,
+    );
+    // 发现文档中的 issuer 必须与配置一致，防止被指向其他提供方
+    if (discovery.issuer.replace(/\/+$/, '') !== issuer) {
+      throw new Error(
+        `${options.name} 的 issuer 不匹配: ${discovery.issuer} != ${issuer}`,
+      );
+    }
+
+    return {
+      name: options.name,
+      displayName: options.displayName,
+      authorizationURL: discovery.authorization_endpoint,
+      tokenURL: discovery.token_endpoint,
+      clientID: options.clientID,
+      clientSecret: options.clientSecret,
+      scope: options.scope ?? ['openid', 'email', 'profile'],
+      loadProfile: (accessToken) =>
+        this.loadOidcProfile(
+          options.name,
+          discovery.userinfo_endpoint,
+          accessToken,
+        ),
+    };
+  }
+
+  /**
+   * 从 OIDC userinfo 端点获取用户资料
+   */
+  private async loadOidcProfile(
+    provider: string,
+    userinfoEndpoint: string,
+    accessToken: string,
+  ): Promise<OAuthProfile> {
+    const info = await this.fetchJson<{
+      sub: string;
+      email?: string;
+      email_verified?: boolean | string;
+      given_name?: string;
+      family_name?: string;
+      name?: string;
+      picture?: string;
+    }>(userinfoEndpoint, accessToken);
+
+    const [firstName, lastName] = this.splitName(info.name);
+    return {
+      provider,
+      subject: info.sub,
+      email: info.email?.toLowerCase(),
+      // 部分提供方以字符串形式返回布尔值
+      emailVerified:
+        info.email_verified === true || info.email_verified === 'true',
+      firstName: info.given_name ?? firstName,
+      lastName: info.family_name ?? lastName,
+      avatarUrl: info.picture,
+    };
+  }
+
+  /**
+   * 从 GitHub API 获取用户资料，邮箱取已验证的主邮箱
+   */
+  private async loadGithubProfile(accessToken: string): Promise<OAuthProfile> {
+    const user = await this.fetchJson<{
+      id: number;
+      login: string;
+      name?: string | null;
+      avatar_url?: string;
+    }>('https://api.github.com/user', accessToken);
+    const emails = await this.fetchJson<
+      { email: string; primary: boolean; verified: boolean }[]
+    >('https://api.github.com/user/emails', accessToken);
+    const primary = emails.find((email) => email.primary);
+
+    const [firstName, lastName] = this.splitName(user.name ?? user.login);
+    return {
+      provider: 'github',
+      subject: String(user.id),
+      email: primary?.email.toLowerCase(),
+      emailVerified: primary?.verified ?? false,
+      firstName,
+      lastName,
+      avatarUrl: user.avatar_url,
+    };
+  }
+
+  /**
+   * 请求 JSON 接口
+   */
+  private async fetchJson<T>(url: string, accessToken?: string): Promise<T> {
+    const response = await fetch(url, {
+      headers: {
+        Accept: 'application/json',
+        'User-Agent': 'nestjs-auth', // GitHub API 要求携带 User-Agent
+        ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+      },
+      signal: AbortSignal.timeout(10000),
+    });
+    if (!response.ok) {
+      throw new Error(`请求 ${url} 失败: HTTP ${response.status}`);
+    }
+    return (await response.json()) as T;
+  }
+
+  /**
+   * 将全名拆分为名字和姓氏
+   */
+  private splitName(name?: string): [string | undefined, string | undefined] {
+    if (!name) {
+      return [undefined, undefined];
+    }
+    const [first, ...rest] = name.trim().split(/\s+/);
+    return [first, rest.join(' ') || undefined];
+  }
+
+  /**
+   * 回调地址，需与在提供方登记的地址一致
+   */
+  private getCallbackUrl(name: string): string {
+    return `${this.getBaseUrl()}/auth/oauth/${name}/callback`;
+  }
+
+  /**
+   * 对外可访问的 API 地址（含全局前缀）
+   */
+  private getBaseUrl(): string {
+    return this.configService
+      .get<string>('API_BASE_URL', 'http://localhost:3000/api/v1')
+      .replace(/\/+$/, '');
+  }
+}
@@ -0,0 +1,59 @@
+import {
+  Strategy as OAuth2Strategy,
+  type StateStore,
+  type VerifyCallback,
+} from 'passport-oauth2';
+
+import type {
+  OAuthProfile,
+  OAuthProviderConfig,
+} from '../interfaces/oauth.interface';
+import { OAuthStateStore } from './oauth-state.store';
+
+/**
+ * 第三方登录策略 - 基于 passport-oauth2 的授权码 + PKCE 流程
+ * 每个已配置的身份提供方对应一个实例，以 oauth-<provider> 名称注册到 Passport
+ * 认证成功后 request.user 为统一格式的 OAuthProfile，request.authInfo.state 为授权意图
+ */
+export class OAuthProviderStrategy extends OAuth2Strategy {
+  constructor(
+    private readonly provider: OAuthProviderConfig,
+    callbackURL: string,
+    stateStore: OAuthStateStore,
+  ) {
+    super(
+      {
+        authorizationURL: provider.authorizationURL,
+        tokenURL: provider.tokenURL,
+        clientID: provider.clientID,
+        clientSecret: provider.clientSecret,
+        callbackURL,
+        scope: provider.scope,
+        pkce: true,
+        state: true,
+        // 类型定义缺少 PKCE 形式的 store/verify 签名
+        store: stateStore as unknown as StateStore,
+      },
+      (
+        _accessToken: string,
+        _refreshToken: string,
+        profile: OAuthProfile,
+        done: VerifyCallback,
+      ) => done(null, profile),
+    );
+    this.name = `oauth-${provider.name}`;
+  }
+
+  /**
+   * 使用访问令牌获取用户资料
+   */
+  userProfile(
+    accessToken: string,
+    done: (err?: unknown, profile?: OAuthProfile) => void,
+  ): void {
+    this.provider
+      .loadProfile(accessToken)
+      .then((profile) => done(null, profile))
+      .catch((error) => done(error));
+  }
+}
@@ -0,0 +1,120 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import type { Request } from 'express';
+
+import { RedisService } from '../../redis/redis.service';
+import type { OAuthState } from '../interfaces/oauth.interface';
+
+// 授权请求有效期（秒）
+const STATE_TTL = 600;
+
+/**
+ * 授权请求 Cookie 名称，保存 state 句柄的哈希，把授权请求绑定到发起它的浏览器
+ */
+export const OAUTH_STATE_COOKIE = 'oauth_state';
+
+type StoreCallback = (err: Error | null, handle?: string) => void;
+type VerifyCallback = (
+  err: Error | null,
+  verifier: string | false,
+  state?: OAuthState | { message: string },
+) => void;
+
+/**
+ * 基于 Redis 的 OAuth 授权状态存储（替代 passport-oauth2 默认的 Session 存储）
+ * 保存 PKCE code_verifier 和授权意图，state 参数只能使用一次
+ * 发起授权时在浏览器写入 state 的哈希 Cookie，回调时 Cookie 不匹配则拒绝，
+ * 防止攻击者把自己发起的授权回调交给受害者完成（登录/关联 CSRF）
+ * 注意：passport-oauth2 按方法参数个数判断调用方式，store/verify 的参数个数不能改变
+ */
+export class OAuthStateStore {
+  constructor(
+    private readonly redisService: RedisService, // Redis 服务
+    private readonly cookiePath: string, // Cookie 路径，覆盖授权和回调接口
+  ) {}
+
+  /**
+   * 保存授权请求，返回作为 state 参数的随机句柄
+   */
+  store(
+    req: Request,
+    verifier: string,
+    state: OAuthState | undefined,
+    _meta: unknown,
+    callback: StoreCallback,
+  ): void {
+    const handle = randomBytes(24).toString('base64url');
+    this.redisService
+      .set(
+        this.getKey(handle),
+        { verifier, state: state ?? { intent: 'login' } },
+        STATE_TTL,
+      )
+      .then(() => {
+        req.res?.cookie(OAUTH_STATE_COOKIE, this.hash(handle), {
+          ...this.getCookieOptions(),
+          maxAge: STATE_TTL * 1000,
+        });
+        callback(null, handle);
+      })
+      .catch((error: Error) => callback(error));
+  }
+
+  /**
+   * 校验回调中的 state 参数，取回 code_verifier 和授权意图
+   * 先校验 Cookie 与 state 匹配，再消费 Redis 中的授权请求
+   */
+  verify(req: Request, handle: string, callback: VerifyCallback): void {
+    if (!this.matchesCookie(req, handle ?? '')) {
+      return callback(null, false, { message: '授权请求无效或已过期' });
+    }
+    req.res?.clearCookie(OAUTH_STATE_COOKIE, this.getCookieOptions());
+
+    const key = this.getKey(handle);
+    this.redisService
+      .get<{ verifier: string; state: OAuthState }>(key)
+      .then(async (stored) => {
+        // 删除成功才算有效，防止同一个 state 被并发重放
+        if (!stored || (await this.redisService.del(key)) === 0) {
+          return callback(null, false, { message: '授权请求无效或已过期' });
+        }
+        callback(null, stored.verifier, stored.state);
+      })
+      .catch((error: Error) => callback(error, false));
+  }
+
+  /**
+   * 判断请求中的授权请求 Cookie 是否与 state 句柄匹配
+   */
+  private matchesCookie(req: Request, handle: string): boolean {
+    const cookies = req.cookies as Record<string, unknown> | undefined;
+    const cookie = cookies?.[OAUTH_STATE_COOKIE];
+    if (typeof cookie !== 'string' || !handle) {
+      return false;
+    }
+    const expected = Buffer.from(this.hash(handle));
+    const actual = Buffer.from(cookie);
+    return (
+      actual.length === expected.length && timingSafeEqual(actual, expected)
+    );
+  }
+
+  /**
+   * Cookie 选项：回调由提供方跳转回来（跨站顶级导航），需要 SameSite=Lax 才会携带
+   */
+  private getCookieOptions() {
+    return {
+      httpOnly: true,
+      secure: true,
+      sameSite: 'lax' as const,
+      path: this.cookiePath,
+    };
+  }
+
+  private hash(handle: string): string {
+    return createHash('sha256').update(handle).digest('base64url');
+  }
+
+  private getKey(handle: string): string {
+    return `auth:oauth-state:${handle}`;
+  }
+}
@@ -0,0 +1,24 @@
+import { IsNotEmpty, IsString, Matches, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 创建组织数据传输对象
+ */
+export class CreateOrganizationDto {
+  @ApiProperty({ example: 'Acme 公司', description: '组织名称' })
+  @IsNotEmpty({ message: '组织名称不能为空' })
+  @IsString({ message: '组织名称必须是字符串' })
+  @MaxLength(100, { message: '组织名称不能超过100个字符' })
+  name: string;
+
+  @ApiProperty({
+    example: 'acme',
+    description: '组织标识，用作子域名，创建后不能修改',
+  })
+  @IsNotEmpty({ message: '组织标识不能为空' })
+  @Matches(/^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/, {
+    message:
+      '组织标识只能包含小写字母、数字和连字符，不能以连字符开头或结尾，且不超过63个字符',
+  })
+  slug: string;
+}
@@ -0,0 +1,42 @@
+import {
+  IsArray,
+  IsEmail,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { PERMISSION_PATTERN } from '../../rbac/dto/create-role.dto';
+
+/**
+ * 邀请组织成员数据传输对象
+ */
+export class InviteMemberDto {
+  @ApiProperty({ example: 'user@example.com', description: '被邀请用户的邮箱' })
+  @IsNotEmpty({ message: '邮箱不能为空' })
+  @IsEmail({}, { message: '请输入有效的邮箱地址' })
+  email: string;
+
+  @ApiProperty({
+    example: 'user',
+    description: '组织内角色，默认为普通用户',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: '角色标识必须是字符串' })
+  role?: string;
+
+  @ApiProperty({
+    example: ['users:read'],
+    description: '组织内直接授予的权限',
+    required: false,
+  })
+  @IsOptional()
+  @IsArray({ message: '权限必须是数组' })
+  @Matches(PERMISSION_PATTERN, {
+    each: true,
+    message: '权限格式应为 资源:操作，例如 users:read 或 users:*',
+  })
+  permissions?: string[];
+}
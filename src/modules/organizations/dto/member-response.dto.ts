@@ -0,0 +1,39 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { MembershipStatus } from '../enums/membership-status.enum';
+
+/**
+ * 组织成员信息
+ */
+export class MemberResponseDto {
+  @ApiProperty({ description: '用户ID' })
+  userId: string;
+
+  @ApiProperty({ example: 'user@example.com', description: '邮箱' })
+  email: string;
+
+  @ApiProperty({ example: '张三', description: '姓名' })
+  fullName: string;
+
+  @ApiProperty({ example: 'user', description: '组织内角色' })
+  role: string;
+
+  @ApiProperty({ example: ['users:read'], description: '组织内直接授予的权限' })
+  permissions: string[];
+
+  @ApiProperty({ description: '成员状态', enum: MembershipStatus })
+  status: MembershipStatus;
+
+  @ApiProperty({ description: '加入或被邀请的时间' })
+  createdAt: Date;
+}
+
+/**
+ * 组织成员列表
+ */
+export class MemberListResponseDto {
+  @ApiProperty({ type: [MemberResponseDto] })
+  members: MemberResponseDto[];
+
+  @ApiProperty({ description: '总数' })
+  total: number;
+}
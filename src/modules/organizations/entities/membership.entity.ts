@@ -0,0 +1,93 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  JoinColumn,
+  Index,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { Organization } from './organization.entity';
+import { User } from '../../users/entities/user.entity';
+import { UserRole } from '../../users/enums/user-role.enum';
+import { MembershipStatus } from '../enums/membership-status.enum';
+
+/**
+ * 组织成员实体 - 用户与组织的多对多关系
+ * 在组织内访问时，角色和权限以成员记录为准，不使用用户的全局角色
+ */
+@Entity('memberships') // 数据库表名
+@Index(['userId', 'organizationId'], { unique: true }) // 同一用户在同一组织只有一条成员记录
+export class Membership {
+  @ApiProperty({ description: '成员记录ID' })
+  @PrimaryGeneratedColumn('uuid') // 使用 UUID 作为主键
+  id: string;
+
+  @ApiProperty({ description: '用户ID' })
+  @Column({ name: 'user_id' })
+  userId: string;
+
+  /**
+   * 多对一关系：成员对应的用户
+   * 当用户被删除时，成员记录也会被删除
+   */
+  @ManyToOne(() => User, (user) => user.memberships, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @ApiProperty({ description: '组织ID' })
+  @Column({ name: 'organization_id' })
+  organizationId: string;
+
+  /**
+   * 多对一关系：所属组织
+   * 当组织被删除时，成员记录也会被删除
+   */
+  @ApiProperty({ description: '所属组织', type: () => Organization })
+  @ManyToOne(() => Organization, (organization) => organization.memberships, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'organization_id' })
+  organization: Organization;
+
+  /**
+   * 成员在组织内的角色（RBAC 角色标识）
+   */
+  @ApiProperty({ description: '组织内角色', example: UserRole.USER })
+  @Column({ length: 50, default: UserRole.USER })
+  role: string;
+
+  @ApiProperty({
+    description: '组织内直接授予的权限',
+    example: ['users:read'],
+  })
+  @Column('simple-array', { nullable: true }) // 存储为逗号分隔的字符串
+  permissions: string[];
+
+  @ApiProperty({ description: '成员状态', enum: MembershipStatus })
+  @Column({
+    type: 'enum',
+    enum: MembershipStatus,
+    default: MembershipStatus.ACTIVE,
+  })
+  status: MembershipStatus;
+
+  @ApiProperty({ description: '邀请人ID', required: false })
+  @Column({
+    name: 'invited_by_id',
+    type: 'varchar',
+    length: 36,
+    nullable: true,
+  })
+  invitedById?: string | null;
+
+  @ApiProperty({ description: '加入时间' })
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @ApiProperty({ description: '更新时间' })
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
@@ -0,0 +1,50 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  OneToMany,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { Membership } from './membership.entity';
+
+/**
+ * 组织实体 - 租户
+ * 用户通过成员关系加入组织，在每个组织中拥有独立的角色和权限
+ */
+@Entity('organizations') // 数据库表名
+export class Organization {
+  @ApiProperty({ description: '组织ID' })
+  @PrimaryGeneratedColumn('uuid') // 使用 UUID 作为主键
+  id: string;
+
+  @ApiProperty({ description: '组织名称', example: 'Acme 公司' })
+  @Column({ length: 100 })
+  name: string;
+
+  /**
+   * 组织标识，用于子域名解析租户（如 acme.example.com）
+   */
+  @ApiProperty({ description: '组织标识', example: 'acme' })
+  @Column({ unique: true, length: 63 })
+  slug: string;
+
+  @ApiProperty({ description: '组织是否启用' })
+  @Column({ name: 'is_active', default: true })
+  isActive: boolean;
+
+  @ApiProperty({ description: '创建时间' })
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @ApiProperty({ description: '更新时间' })
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+
+  /**
+   * 一对多关系：组织的成员
+   */
+  @OneToMany(() => Membership, (membership) => membership.organization)
+  memberships: Membership[];
+}
@@ -0,0 +1,7 @@
+/**
+ * 组织成员状态
+ */
+export enum MembershipStatus {
+  INVITED = 'invited', // 已邀请，等待用户接受
+  ACTIVE = 'active', // 正式成员
+}
@@ -0,0 +1,17 @@
+import { Injectable, type NestMiddleware } from '@nestjs/common';
+import type { Request, Response, NextFunction } from 'express';
+
+import { TenantContextService } from '../services/tenant-context.service';
+
+/**
+ * 租户上下文中间件
+ * 为每个请求创建独立的租户上下文，后续的守卫、拦截器和处理函数都在其中执行
+ */
+@Injectable()
+export class TenantContextMiddleware implements NestMiddleware {
+  constructor(private readonly tenantContext: TenantContextService) {}
+
+  use(_req: Request, _res: Response, next: NextFunction) {
+    this.tenantContext.run(next);
+  }
+}
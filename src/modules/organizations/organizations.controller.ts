@@ -0,0 +1,217 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  ParseUUIDPipe,
+  ParseIntPipe,
+  DefaultValuePipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiQuery,
+} from '@nestjs/swagger';
+
+import { OrganizationsService } from './organizations.service';
+import { Organization } from './entities/organization.entity';
+import { Membership } from './entities/membership.entity';
+import { CreateOrganizationDto } from './dto/create-organization.dto';
+import { InviteMemberDto } from './dto/invite-member.dto';
+import { UpdateMemberDto } from './dto/update-member.dto';
+import {
+  MemberListResponseDto,
+  MemberResponseDto,
+} from './dto/member-response.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { NoImpersonation } from '../auth/decorators/no-impersonation.decorator';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { User } from '../users/entities/user.entity';
+import { UserRole } from '../users/enums/user-role.enum';
+import { RequestAuditContext } from '../audit/decorators/request-audit-context.decorator';
+import type { AuditContext } from '../audit/interfaces/audit.interface';
+
+/**
+ * 组织控制器 - 组织创建、成员邀请和管理
+ * 成员管理接口按路径中的组织校验权限，与当前所在的组织无关；
+ * 切换组织见 POST /auth/switch-organization
+ */
+@ApiTags('Organizations')
+@Controller('organizations')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class OrganizationsController {
+  constructor(private readonly organizationsService: OrganizationsService) {}
+
+  /**
+   * 创建组织
+   * POST /organizations
+   */
+  @Post()
+  @NoImpersonation()
+  @ApiOperation({ summary: '创建组织，创建者成为组织管理员' })
+  @ApiResponse({ status: 201, description: '创建成功', type: Organization })
+  @ApiResponse({ status: 409, description: '组织标识已被使用' })
+  async create(
+    @CurrentUser() user: User,
+    @Body() createOrganizationDto: CreateOrganizationDto,
+  ): Promise<Organization> {
+    return this.organizationsService.create(user, createOrganizationDto);
+  }
+
+  /**
+   * 获取当前用户的组织（含待接受的邀请）
+   * GET /organizations
+   */
+  @Get()
+  @ApiOperation({ summary: '获取当前用户加入或被邀请的组织' })
+  @ApiResponse({ status: 200, description: '获取成功', type: [Membership] })
+  async findMine(@CurrentUser() user: User): Promise<Membership[]> {
+    return this.organizationsService.findForUser(user.id);
+  }
+
+  /**
+   * 获取组织成员
+   * GET /organizations/:id/members?page=1&limit=20
+   */
+  @Get(':id/members')
+  @ApiOperation({ summary: '获取组织成员（需要组织内版主及以上角色）' })
+  @ApiQuery({ name: 'page', required: false, example: 1 })
+  @ApiQuery({ name: 'limit', required: false, example: 20 })
+  @ApiResponse({
+    status: 200,
+    description: '获取成功',
+    type: MemberListResponseDto,
+  })
+  async findMembers(
+    @CurrentUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+  ): Promise<MemberListResponseDto> {
+    await this.organizationsService.assertMemberRole(
+      user,
+      id,
+      UserRole.MODERATOR,
+    );
+    const { members, total } = await this.organizationsService.findMembers(
+      id,
+      Math.max(page, 1),
+      Math.min(Math.max(limit, 1), 100), // 每页最多100条
+    );
+    return { members: members.map((member) => this.toResponse(member)), total };
+  }
+
+  /**
+   * 邀请成员
+   * POST /organizations/:id/invitations
+   */
+  @Post(':id/invitations')
+  @NoImpersonation()
+  @ApiOperation({ summary: '邀请已注册的用户加入组织（需要组织管理员）' })
+  @ApiResponse({ status: 201, description: '邀请已发送', type: Membership })
+  @ApiResponse({ status: 404, description: '用户不存在' })
+  @ApiResponse({ status: 409, description: '该用户已是组织成员或已被邀请' })
+  async invite(
+    @CurrentUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() inviteMemberDto: InviteMemberDto,
+    @RequestAuditContext() context: AuditContext,
+  ): Promise<Membership> {
+    await this.organizationsService.assertMemberRole(user, id, UserRole.ADMIN);
+    return this.organizationsService.invite(id, inviteMemberDto, user, context);
+  }
+
+  /**
+   * 接受组织邀请
+   * POST /organizations/:id/invitations/accept
+   */
+  @Post(':id/invitations/accept')
+  @NoImpersonation()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: '接受组织邀请' })
+  @ApiResponse({ status: 200, description: '已加入组织', type: Membership })
+  @ApiResponse({ status: 404, description: '邀请不存在或已失效' })
+  async acceptInvitation(
+    @CurrentUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+    @RequestAuditContext() context: AuditContext,
+  ): Promise<Membership> {
+    return this.organizationsService.acceptInvitation(user.id, id, context);
+  }
+
+  /**
+   * 更新成员角色和权限
+   * PATCH /organizations/:id/members/:userId
+   */
+  @Patch(':id/members/:userId')
+  @NoImpersonation()
+  @ApiOperation({ summary: '更新成员的组织内角色和权限（需要组织管理员）' })
+  @ApiResponse({ status: 200, description: '更新成功', type: Membership })
+  async updateMember(
+    @CurrentUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Body() updateMemberDto: UpdateMemberDto,
+    @RequestAuditContext() context: AuditContext,
+  ): Promise<Membership> {
+    await this.organizationsService.assertMemberRole(user, id, UserRole.ADMIN);
+    return this.organizationsService.updateMember(
+      id,
+      userId,
+      updateMemberDto,
+      context,
+    );
+  }
+
+  /**
+   * 移除成员、撤回邀请或退出组织
+   * DELETE /organizations/:id/members/:userId
+   * 移除自己（退出组织、拒绝邀请）不需要管理员权限
+   */
+  @Delete(':id/members/:userId')
+  @NoImpersonation()
+  @ApiOperation({ summary: '移除成员或退出组织' })
+  @ApiResponse({ status: 200, description: '移除成功' })
+  @ApiResponse({ status: 400, description: '组织至少需要保留一位管理员' })
+  async removeMember(
+    @CurrentUser() user: User,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @RequestAuditContext() context: AuditContext,
+  ): Promise<{ message: string }> {
+    if (userId !== user.id) {
+      await this.organizationsService.assertMemberRole(
+        user,
+        id,
+        UserRole.ADMIN,
+      );
+    }
+    await this.organizationsService.removeMember(id, userId, context);
+    return { message: '成员已移除' };
+  }
+
+  /**
+   * 转换为成员响应
+   */
+  private toResponse(member: Membership): MemberResponseDto {
+    return {
+      userId: member.userId,
+      email: member.user.email,
+      fullName: member.user.fullName,
+      role: member.role,
+      permissions: member.permissions ?? [],
+      status: member.status,
+      createdAt: member.createdAt,
+    };
+  }
+}
@@ -0,0 +1,45 @@
+import {
+  Global,
+  Module,
+  RequestMethod,
+  type MiddlewareConsumer,
+  type NestModule,
+} from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { OrganizationsController } from './organizations.controller';
+import { OrganizationsService } from './organizations.service';
+import { TenantContextService } from './services/tenant-context.service';
+import { TenantResolverService } from './services/tenant-resolver.service';
+import { TenantContextMiddleware } from './middleware/tenant-context.middleware';
+import { Organization } from './entities/organization.entity';
+import { Membership } from './entities/membership.entity';
+import { User } from '../users/entities/user.entity';
+import { EmailModule } from '../email/email.module';
+
+/**
+ * 组织模块 - 多租户支持
+ * 声明为全局模块，认证策略、用户服务和 RBAC 服务都需要读取当前租户
+ */
+@Global()
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Organization, Membership, User]),
+    EmailModule, // 发送组织邀请邮件
+  ],
+  controllers: [OrganizationsController],
+  providers: [
+    OrganizationsService,
+    TenantContextService,
+    TenantResolverService,
+  ],
+  exports: [OrganizationsService, TenantContextService, TenantResolverService],
+})
+export class OrganizationsModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    // 所有请求都在独立的租户上下文中处理
+    consumer
+      .apply(TenantContextMiddleware)
+      .forRoutes({ path: '{*path}', method: RequestMethod.ALL });
+  }
+}
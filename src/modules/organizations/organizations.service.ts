@@ -0,0 +1,426 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+
+import { Organization } from './entities/organization.entity';
+import { Membership } from './entities/membership.entity';
+import { MembershipStatus } from './enums/membership-status.enum';
+import { CreateOrganizationDto } from './dto/create-organization.dto';
+import { InviteMemberDto } from './dto/invite-member.dto';
+import { UpdateMemberDto } from './dto/update-member.dto';
+import { User } from '../users/entities/user.entity';
+import { UserRole } from '../users/enums/user-role.enum';
+import { RbacService } from '../rbac/rbac.service';
+import { EmailService } from '../email/email.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/enums/audit-action.enum';
+import type { AuditContext } from '../audit/interfaces/audit.interface';
+
+/**
+ * 组织服务 - 管理组织和成员关系
+ * 成员先以 invited 状态加入，用户接受邀请后才成为正式成员；
+ * 组织内角色不能是（或继承）超级管理员，平台级权限只能通过全局角色授予
+ */
+@Injectable()
+export class OrganizationsService {
+  private readonly logger = new Logger(OrganizationsService.name);
+
+  constructor(
+    @InjectRepository(Organization)
+    private readonly organizationRepository: Repository<Organization>, // 组织仓库
+    @InjectRepository(Membership)
+    private readonly membershipRepository: Repository<Membership>, // 成员仓库
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>, // 用户仓库
+    private readonly rbacService: RbacService, // 角色权限服务
+    private readonly emailService: EmailService, // 邮件服务
+    private readonly auditService: AuditService, // 审计服务
+  ) {}
+
+  /**
+   * 创建组织，创建者成为组织管理员
+   * @param user 创建者
+   * @param createOrganizationDto 组织信息
+   */
+  async create(
+    user: User,
+    createOrganizationDto: CreateOrganizationDto,
+  ): Promise<Organization> {
+    const existing = await this.organizationRepository.findOne({
+      where: { slug: createOrganizationDto.slug },
+    });
+    if (existing) {
+      throw new ConflictException('组织标识已被使用');
+    }
+
+    const organization = await this.organizationRepository.save(
+      this.organizationRepository.create(createOrganizationDto),
+    );
+    await this.membershipRepository.save(
+      this.membershipRepository.create({
+        userId: user.id,
+        organizationId: organization.id,
+        role: UserRole.ADMIN,
+        permissions: [],
+        status: MembershipStatus.ACTIVE,
+      }),
+    );
+
+    this.logger.log(`用户 ${user.id} 创建了组织 ${organization.id}`);
+    return organization;
+  }
+
+  /**
+   * 获取用户加入或被邀请的组织
+   * @param userId 用户ID
+   */
+  async findForUser(userId: string): Promise<Membership[]> {
+    return this.membershipRepository.find({
+      where: { userId, organization: { isActive: true } },
+      relations: ['organization'],
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * 根据标识查找启用的组织
+   * @param slug 组织标识
+   */
+  async findBySlug(slug: string): Promise<Organization | null> {
+    return this.organizationRepository.findOne({
+      where: { slug, isActive: true },
+    });
+  }
+
+  /**
+   * 获取用户在组织中的正式成员记录
+   * 组织已停用时视为不是成员
+   * @param userId 用户ID
+   * @param organizationId 组织ID
+   */
+  async findActiveMembership(
+    userId: string,
+    organizationId: string,
+  ): Promise<Membership | null> {
+    return this.membershipRepository.findOne({
+      where: {
+        userId,
+        organizationId,
+        status: MembershipStatus.ACTIVE,
+        organization: { isActive: true },
+      },
+      relations: ['organization'],
+    });
+  }
+
+  /**
+   * 分页获取组织成员（含已邀请未接受的成员）
+   * @param organizationId 组织ID
+   * @param page 页码
+   * @param limit 每页数量
+   */
+  async findMembers(
+    organizationId: string,
+    page = 1,
+    limit = 20,
+  ): Promise<{ members: Membership[]; total: number }> {
+    const [members, total] = await this.membershipRepository.findAndCount({
+      where: { organizationId },
+      relations: ['user'],
+      order: { createdAt: 'ASC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+    return { members, total };
+  }
+
+  /**
+   * 邀请已注册的用户加入组织，并发送邀请邮件
+   * @param organizationId 组织ID
+   * @param inviteMemberDto 邀请信息
+   * @param inviter 邀请人
+   * @param context 审计上下文
+   */
+  async invite(
+    organizationId: string,
+    inviteMemberDto: InviteMemberDto,
+    inviter: User,
+    context: AuditContext = {},
+  ): Promise<Membership> {
+    const organization = await this.findActiveOrganization(organizationId);
+    const role = inviteMemberDto.role ?? UserRole.USER;
+    await this.assertAssignableRole(role);
+
+    const user = await this.userRepository.findOne({
+      where: { email: inviteMemberDto.email },
+    });
+    if (!user || !user.isActive) {
+      throw new NotFoundException('用户不存在或账户已被停用');
+    }
+
+    const existing = await this.membershipRepository.findOne({
+      where: { userId: user.id, organizationId },
+    });
+    if (existing) {
+      throw new ConflictException('该用户已是组织成员或已被邀请');
+    }
+
+    const membership = await this.membershipRepository.save(
+      this.membershipRepository.create({
+        userId: user.id,
+        organizationId,
+        role,
+        permissions: inviteMemberDto.permissions ?? [],
+        status: MembershipStatus.INVITED,
+        invitedById: inviter.id,
+      }),
+    );
+
+    await this.emailService.sendOrganizationInvitationEmail(
+      user,
+      organization,
+      inviter,
+      role,
+    );
+    await this.auditService.record(
+      {
+        action: AuditAction.ORGANIZATION_MEMBER_INVITED,
+        targetId: user.id,
+        metadata: { organizationId, role },
+      },
+      context,
+    );
+    return membership;
+  }
+
+  /**
+   * 接受组织邀请
+   * @param userId 当前用户ID
+   * @param organizationId 组织ID
+   * @param context 审计上下文
+   */
+  async acceptInvitation(
+    userId: string,
+    organizationId: string,
+    context: AuditContext = {},
+  ): Promise<Membership> {
+    const membership = await this.membershipRepository.findOne({
+      where: {
+        userId,
+        organizationId,
+        status: MembershipStatus.INVITED,
+        organization: { isActive: true },
+      },
+      relations: ['organization'],
+    });
+    if (!membership) {
+      throw new NotFoundException('邀请不存在或已失效');
+    }
+
+    membership.status = MembershipStatus.ACTIVE;
+    const saved = await this.membershipRepository.save(membership);
+
+    await this.auditService.record(
+      {
+        action: AuditAction.ORGANIZATION_MEMBER_JOINED,
+        targetId: userId,
+        metadata: { organizationId },
+      },
+      context,
+    );
+    return saved;
+  }
+
+  /**
+   * 更新成员的组织内角色和权限
+   * @param organizationId 组织ID
+   * @param userId 成员的用户ID
+   * @param updateMemberDto 更新数据
+   * @param context 审计上下文
+   */
+  async updateMember(
+    organizationId: string,
+    userId: string,
+    updateMemberDto: UpdateMemberDto,
+    context: AuditContext = {},
+  ): Promise<Membership> {
+    const membership = await this.findMembership(organizationId, userId);
+    const before = {
+      role: membership.role,
+      permissions: membership.permissions ?? [],
+    };
+
+    if (
+      updateMemberDto.role !== undefined &&
+      updateMemberDto.role !== membership.role
+    ) {
+      await this.assertAssignableRole(updateMemberDto.role);
+      // 降级最后一位管理员会使组织无人管理
+      if (!(await this.isAdminRole(updateMemberDto.role))) {
+        await this.assertNotLastAdmin(membership);
+      }
+      membership.role = updateMemberDto.role;
+    }
+    if (updateMemberDto.permissions !== undefined) {
+      membership.permissions = updateMemberDto.permissions;
+    }
+    const saved = await this.membershipRepository.save(membership);
+
+    const changes = this.auditService.diff(before, {
+      role: saved.role,
+      permissions: saved.permissions,
+    });
+    if (changes) {
+      await this.auditService.record(
+        {
+          action: AuditAction.ORGANIZATION_MEMBER_UPDATED,
+          targetId: userId,
+          changes,
+          metadata: { organizationId },
+        },
+        context,
+      );
+    }
+    return saved;
+  }
+
+  /**
+   * 移除成员或撤回邀请
+   * @param organizationId 组织ID
+   * @param userId 成员的用户ID
+   * @param context 审计上下文
+   */
+  async removeMember(
+    organizationId: string,
+    userId: string,
+    context: AuditContext = {},
+  ): Promise<void> {
+    const membership = await this.findMembership(organizationId, userId);
+    await this.assertNotLastAdmin(membership);
+    await this.membershipRepository.remove(membership);
+
+    await this.auditService.record(
+      {
+        action: AuditAction.ORGANIZATION_MEMBER_REMOVED,
+        targetId: userId,
+        metadata: { organizationId, role: membership.role },
+      },
+      context,
+    );
+  }
+
+  /**
+   * 校验用户在组织内具有所需角色（含继承）
+   * @param user 当前用户
+   * @param organizationId 组织ID
+   * @param role 所需角色
+   * @returns 用户的成员记录
+   * @throws ForbiddenException 不是组织成员或角色不足
+   */
+  async assertMemberRole(
+    user: User,
+    organizationId: string,
+    role: UserRole,
+  ): Promise<Membership> {
+    const membership = await this.findActiveMembership(user.id, organizationId);
+    if (!membership) {
+      throw new ForbiddenException('不是该组织的成员');
+    }
+
+    const roles = await this.rbacService.getEffectiveRoles({
+      ...user,
+      membership,
+    });
+    if (!roles.has(role)) {
+      throw new ForbiddenException('组织内权限不足');
+    }
+    return membership;
+  }
+
+  // ==================== 内部方法 ====================
+
+  /**
+   * 查找启用的组织
+   */
+  private async findActiveOrganization(
+    organizationId: string,
+  ): Promise<Organization> {
+    const organization = await this.organizationRepository.findOne({
+      where: { id: organizationId, isActive: true },
+    });
+    if (!organization) {
+      throw new NotFoundException('组织不存在');
+    }
+    return organization;
+  }
+
+  /**
+   * 查找成员记录（含已邀请未接受的成员）
+   */
+  private async findMembership(
+    organizationId: string,
+    userId: string,
+  ): Promise<Membership> {
+    const membership = await this.membershipRepository.findOne({
+      where: { organizationId, userId },
+    });
+    if (!membership) {
+      throw new NotFoundException('成员不存在');
+    }
+    return membership;
+  }
+
+  /**
+   * 校验角色可以在组织内授予
+   */
+  private async assertAssignableRole(role: string): Promise<void> {
+    if (!(await this.rbacService.roleExists(role))) {
+      throw new BadRequestException(`角色不存在: ${role}`);
+    }
+    const roles = await this.rbacService.expandRoles([role]);
+    if (roles.has(UserRole.SUPER_ADMIN)) {
+      throw new BadRequestException('组织内不能授予超级管理员角色');
+    }
+  }
+
+  /**
+   * 判断角色是否具有组织管理员权限（含继承）
+   */
+  private async isAdminRole(role: string): Promise<boolean> {
+    const roles = await this.rbacService.expandRoles([role]);
+    return roles.has(UserRole.ADMIN);
+  }
+
+  /**
+   * 组织至少保留一位正式的管理员
+   */
+  private async assertNotLastAdmin(membership: Membership): Promise<void> {
+    if (
+      membership.status !== MembershipStatus.ACTIVE ||
+      !(await this.isAdminRole(membership.role))
+    ) {
+      return;
+    }
+
+    const members = await this.membershipRepository.find({
+      where: {
+        organizationId: membership.organizationId,
+        status: MembershipStatus.ACTIVE,
+      },
+      select: ['id', 'role'],
+    });
+    const adminCount = (
+      await Promise.all(members.map((member) => this.isAdminRole(member.role)))
+    ).filter(Boolean).length;
+    if (adminCount <= 1) {
+      throw new BadRequestException('组织至少需要保留一位管理员');
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { Injectable } from '@nestjs/common';
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * 单个请求的租户上下文
+ */
+interface TenantStore {
+  organizationId?: string; // 当前请求所在的组织ID，未进入组织时为空
+}
+
+/**
+ * 租户上下文服务 - 在请求范围内保存当前组织
+ * TenantContextMiddleware 为每个请求创建独立的上下文，认证策略确认成员身份后写入组织ID，
+ * 业务服务（如 UsersService）读取后自动限定查询范围；请求之外（如队列消费者）没有租户
+ */
+@Injectable()
+export class TenantContextService {
+  private readonly storage = new AsyncLocalStorage<TenantStore>();
+
+  /**
+   * 在新的租户上下文中执行回调
+   * @param callback 回调函数
+   */
+  run<T>(callback: () => T): T {
+    return this.storage.run({}, callback);
+  }
+
+  /**
+   * 获取当前组织ID
+   */
+  getOrganizationId(): string | undefined {
+    return this.storage.getStore()?.organizationId;
+  }
+
+  /**
+   * 设置当前组织ID
+   * @param organizationId 组织ID
+   */
+  setOrganizationId(organizationId: string): void {
+    const store = this.storage.getStore();
+    if (store) {
+      store.organizationId = organizationId;
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Request } from 'express';
+
+import { TenantResolverService } from './tenant-resolver.service';
+import { TenantContextService } from './tenant-context.service';
+import { OrganizationsService } from '../organizations.service';
+import { Organization } from '../entities/organization.entity';
+import { Membership } from '../entities/membership.entity';
+import { MembershipStatus } from '../enums/membership-status.enum';
+import { User } from '../../users/entities/user.entity';
+import { UserRole } from '../../users/enums/user-role.enum';
+import { RbacService } from '../../rbac/rbac.service';
+import { EmailService } from '../../email/email.service';
+import { AuditService } from '../../audit/audit.service';
+import { InMemoryRepository } from '../../../testing/in-memory-repository';
+
+describe('TenantResolverService', () => {
+  let resolver: TenantResolverService;
+  let tenantContext: TenantContextService;
+  let organizations: InMemoryRepository<Organization>;
+  let memberships: InMemoryRepository<Membership>;
+  let acme: Organization;
+  let globex: Organization;
+
+  // 构造请求，hostname 用于子域名解析
+  const request = (
+    headers: Record<string, string> = {},
+    hostname = 'api.example.com',
+  ) => ({ headers, hostname }) as unknown as Request;
+
+  // 在独立的租户上下文中解析，返回成员记录和写入上下文的组织ID
+  const resolve = (req: Request, userId: string, claimed?: string) =>
+    tenantContext.run(async () => ({
+      membership: await resolver.resolveMembership(req, userId, claimed),
+      organizationId: tenantContext.getOrganizationId(),
+    }));
+
+  const addMember = (
+    userId: string,
+    organization: Organization,
+    status = MembershipStatus.ACTIVE,
+  ) =>
+    memberships.save(
+      memberships.create({
+        userId,
+        organizationId: organization.id,
+        role: UserRole.USER,
+        status,
+      }),
+    );
+
+  beforeEach(async () => {
+    organizations = new InMemoryRepository(Organization);
+    memberships = new InMemoryRepository(Membership, {
+      organization: (membership) =>
+        organizations.rows.find(
+          (organization) => organization.id === membership.organizationId,
+        ),
+    });
+    tenantContext = new TenantContextService();
+    resolver = new TenantResolverService(
+      new OrganizationsService(
+        organizations.asRepository(),
+        memberships.asRepository(),
+        new InMemoryRepository(User).asRepository(),
+        {} as RbacService,
+        {} as EmailService,
+        {} as AuditService,
+      ),
+      tenantContext,
+      new ConfigService({ TENANT_BASE_DOMAIN: 'example.com' }),
+    );
+
+    acme = await organizations.save(
+      organizations.create({ name: 'Acme', slug: 'acme' }),
+    );
+    globex = await organizations.save(
+      organizations.create({ name: 'Globex', slug: 'globex' }),
+    );
+    await addMember('alice', acme);
+    await addMember('bob', acme, MembershipStatus.INVITED);
+  });
+
+  it('resolves the organization from the token claim for an active member', async () => {
+    await expect(resolve(request(), 'alice', acme.id)).resolves.toMatchObject({
+      membership: { userId: 'alice', organizationId: acme.id },
+      organizationId: acme.id,
+    });
+  });
+
+  it('stays outside any organization when nothing selects one', async () => {
+    await expect(resolve(request(), 'alice')).resolves.toEqual({
+      membership: undefined,
+      organizationId: undefined,
+    });
+  });
+
+  it('rejects users who are not members of the organization', async () => {
+    await expect(resolve(request(), 'carol', acme.id)).rejects.toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('does not enter the organization when membership is rejected', async () => {
+    const organizationId = await tenantContext.run(async () => {
+      await resolver
+        .resolveMembership(request(), 'carol', acme.id)
+        .catch(() => undefined);
+      return tenantContext.getOrganizationId();
+    });
+
+    expect(organizationId).toBeUndefined();
+  });
+
+  it('rejects members who have not accepted their invitation', async () => {
+    await expect(resolve(request(), 'bob', acme.id)).rejects.toThrow(
+      '不是该组织的成员',
+    );
+  });
+
+  it('rejects members of a disabled organization', async () => {
+    await organizations.update(acme.id, { isActive: false });
+
+    await expect(resolve(request(), 'alice', acme.id)).rejects.toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('checks membership of the organization in the header instead of the claim', async () => {
+    await expect(
+      resolve(request({ 'x-organization-id': globex.id }), 'alice', acme.id),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('resolves the organization from the subdomain', async () => {
+    await expect(
+      resolve(request({}, 'acme.example.com'), 'alice'),
+    ).resolves.toMatchObject({ organizationId: acme.id });
+    await expect(
+      resolve(request({}, 'globex.example.com'), 'alice'),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('rejects an unknown subdomain', async () => {
+    await expect(
+      resolve(request({}, 'initech.example.com'), 'alice'),
+    ).rejects.toThrow(NotFoundException);
+  });
+});
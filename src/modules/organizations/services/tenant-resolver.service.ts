@@ -0,0 +1,109 @@
+import {
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Request } from 'express';
+
+import { OrganizationsService } from '../organizations.service';
+import { TenantContextService } from './tenant-context.service';
+import { Membership } from '../entities/membership.entity';
+
+/**
+ * 指定组织的请求头
+ */
+export const ORGANIZATION_HEADER = 'x-organization-id';
+
+/**
+ * 租户解析服务 - 确定请求所在的组织并校验成员身份
+ * 解析顺序：X-Organization-Id 请求头 > 子域名（需配置 TENANT_BASE_DOMAIN）> 访问令牌的 org 声明
+ */
+@Injectable()
+export class TenantResolverService {
+  constructor(
+    private readonly organizationsService: OrganizationsService, // 组织服务
+    private readonly tenantContext: TenantContextService, // 租户上下文
+    private readonly configService: ConfigService, // 配置服务
+  ) {}
+
+  /**
+   * 解析请求所在的组织，确认用户是正式成员后写入租户上下文
+   * @param request 请求对象
+   * @param userId 当前用户ID
+   * @param claimedOrganizationId 访问令牌中的 org 声明
+   * @returns 成员记录，请求不在任何组织内时返回 undefined
+   * @throws ForbiddenException 用户不是该组织的正式成员
+   */
+  async resolveMembership(
+    request: Request,
+    userId: string,
+    claimedOrganizationId?: string,
+  ): Promise<Membership | undefined> {
+    const organizationId =
+      (await this.resolveRequestedOrganizationId(request)) ??
+      claimedOrganizationId;
+    if (!organizationId) {
+      return undefined;
+    }
+
+    const membership = await this.organizationsService.findActiveMembership(
+      userId,
+      organizationId,
+    );
+    if (!membership) {
+      throw new ForbiddenException('不是该组织的成员');
+    }
+
+    this.tenantContext.setOrganizationId(organizationId);
+    return membership;
+  }
+
+  /**
+   * 从请求头或子域名中解析组织ID
+   */
+  private async resolveRequestedOrganizationId(
+    request: Request,
+  ): Promise<string | undefined> {
+    const header = request.headers[ORGANIZATION_HEADER];
+    if (typeof header === 'string' && header) {
+      return header;
+    }
+
+    const slug = this.extractSubdomain(request.hostname);
+    if (!slug) {
+      return undefined;
+    }
+    const organization = await this.organizationsService.findBySlug(slug);
+    if (!organization) {
+      throw new NotFoundException('组织不存在');
+    }
+    return organization.id;
+  }
+
+  /**
+   * 提取 TENANT_BASE_DOMAIN 下的一级子域名，如 acme.example.com 中的 acme
+   * TENANT_IGNORED_SUBDOMAINS 中的子域名（默认 www,api）不作为组织标识
+   */
+  private extractSubdomain(hostname?: string): string | undefined {
+    const baseDomain = this.configService
+      .get<string>('TENANT_BASE_DOMAIN', '')
+      .toLowerCase();
+    if (!baseDomain || !hostname) {
+      return undefined;
+    }
+
+    const host = hostname.toLowerCase();
+    if (!host.endsWith(`.${baseDomain}`)) {
+      return undefined;
+    }
+    const subdomain = host.slice(0, -(baseDomain.length + 1));
+    const ignored = this.configService
+      .get<string>('TENANT_IGNORED_SUBDOMAINS', 'www,api')
+      .split(',')
+      .map((item) => item.trim().toLowerCase());
+    return subdomain && !subdomain.includes('.') && !ignored.includes(subdomain)
+      ? subdomain
+      : undefined;
+  }
+}
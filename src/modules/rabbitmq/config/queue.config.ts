@@ -50,6 +50,12 @@ export const QUEUE_CONFIGS: QueueConfig[] = [
     exchangeType: 'direct',
     routingKey: 'image',
   },
+  {
+    queue: 'audit-events',
+    exchange: 'work-exchange',
+    exchangeType: 'direct',
+    routingKey: 'audit',
+  },
 
   // ==================== 事件队列 ====================
   {
@@ -30,8 +30,8 @@ export class BusinessConsumer implements OnModuleInit {
     this.logger.log('🚀 启动所有业务消费者...');
 
     // 并行启动所有消费者
+    // email-tasks 由 EmailModule 的 EmailConsumer 通过 @QueueConsumer 消费
     await Promise.all([
-      this.startEmailConsumer(),
       this.startSMSConsumer(),
       this.startImageProcessingConsumer(),
       this.startUserEventConsumer(),
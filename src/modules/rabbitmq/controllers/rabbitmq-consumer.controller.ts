@@ -2,6 +2,7 @@ import { Controller, Post, Get, Body, Logger } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
 import { BusinessConsumer } from '../consumers/business.consumer';
 import { RabbitMQEasyService } from '../services/rabbitmq-easy.service';
+import { QueueConsumerExplorerService } from '../services/queue-consumer-explorer.service';
 
 @ApiTags('RabbitMQ 消费者管理')
 @Controller('rabbitmq/consumer')
@@ -11,6 +12,7 @@ export class RabbitMQConsumerController {
   constructor(
     private readonly businessConsumer: BusinessConsumer,
     private readonly rabbitMQEasyService: RabbitMQEasyService,
+    private readonly consumerExplorer: QueueConsumerExplorerService,
   ) {}
 
   @Post('start')
@@ -63,7 +65,10 @@ export class RabbitMQConsumerController {
       const status = this.businessConsumer.getStatus();
       return {
         success: true,
-        data: status,
+        data: {
+          ...status,
+          decoratedConsumers: this.consumerExplorer.getConsumers(),
+        },
         timestamp: new Date().toISOString(),
       };
     } catch (error) {
@@ -15,13 +15,19 @@ export interface QueueConsumerOptions {
   exchange?: string;
   routingKey?: string;
   routingPattern?: string;
+  // 处理失败后的最大重试次数，默认3次
   maxRetries?: number;
+  // 消费者优先级
   priority?: number;
 }
 
 /**
  * 队列消费者装饰器
- * 用于标记方法为队列消费者
+ * 用于标记方法为队列消费者，启动时由 QueueConsumerExplorerService 自动绑定
+ *
+ * 使用示例：
+ * @QueueConsumer({ queue: 'email-tasks', type: QueueType.DIRECT, exchange: 'work-exchange', routingKey: 'email' })
+ * async handleEmail(message: Message<EmailData>) {}
  */
 export const QueueConsumer = (options: QueueConsumerOptions) =>
   SetMetadata(QUEUE_CONSUMER_METADATA, options);
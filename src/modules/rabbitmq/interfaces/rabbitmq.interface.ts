@@ -29,7 +29,7 @@ export interface QueueOptions {
  * 交换机配置接口
  */
 export interface ExchangeOptions {
-  type: 'direct' | 'topic' | 'fanout' | 'headers';
+  type: 'direct' | 'topic' | 'fanout' | 'headers' | 'x-delayed-message'; // x-delayed-message 需要延迟消息插件
   durable?: boolean;
   autoDelete?: boolean;
   arguments?: Record<string, any>;
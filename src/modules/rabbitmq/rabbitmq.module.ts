@@ -1,5 +1,6 @@
 import { Module, Global } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { DiscoveryModule } from '@nestjs/core';
 
 // 服务
 import { RabbitMQConnectionService } from './services/rabbitmq-connection.service';
@@ -16,6 +17,7 @@ import { RabbitMQService } from './services/rabbitmq.service';
 import { RabbitMQInitService } from './services/rabbitmq-init.service';
 import { RabbitMQEasyService } from './services/rabbitmq-easy.service';
 import { ManualAckDemoService } from './services/manual-ack-demo.service';
+import { QueueConsumerExplorerService } from './services/queue-consumer-explorer.service';
 
 // 控制器
 import { RabbitMQController } from './controllers/rabbitmq.controller';
@@ -31,7 +33,7 @@ import { BusinessConsumer } from './consumers/business.consumer';
  */
 @Global()
 @Module({
-  imports: [ConfigModule],
+  imports: [ConfigModule, DiscoveryModule],
   providers: [
     // 核心服务
     RabbitMQConnectionService,
@@ -51,6 +53,8 @@ import { BusinessConsumer } from './consumers/business.consumer';
     // 简化服务（推荐使用）
     RabbitMQInitService,
     RabbitMQEasyService,
+    // 装饰器消费者自动发现
+    QueueConsumerExplorerService,
 
     // 消费者
     BusinessConsumer, // 添加这一行
@@ -90,7 +90,7 @@ export class DelayQueueService {
   ): Promise<void> {
     // 声明延迟交换机 (需要 rabbitmq-delayed-message-exchange 插件)
     await this.coreService.assertExchange(delayExchange, {
-      type: 'x-delayed-message' as any,
+      type: 'x-delayed-message',
       durable: true,
       arguments: {
         'x-delayed-type': 'direct',
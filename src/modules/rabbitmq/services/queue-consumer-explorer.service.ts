@@ -0,0 +1,270 @@
+import { Injectable, Logger, type OnModuleInit } from '@nestjs/common';
+import { DiscoveryService, MetadataScanner, Reflector } from '@nestjs/core';
+import { RabbitMQCoreService } from './rabbitmq-core.service';
+import {
+  QUEUE_CONSUMER_METADATA,
+  type QueueConsumerOptions,
+} from '../decorators/rabbitmq.decorators';
+import { QueueType } from '../enums/queue-type.enum';
+import { QUEUE_MAP, EXCHANGE_MAP } from '../config/queue.config';
+import type {
+  ExchangeOptions,
+  Message,
+  MessageHandler,
+} from '../interfaces/rabbitmq.interface';
+
+/**
+ * 已发现的装饰器消费者
+ */
+interface DiscoveredConsumer {
+  options: QueueConsumerOptions;
+  className: string;
+  methodName: string;
+  handler: MessageHandler;
+}
+
+/**
+ * 队列消费者扫描服务
+ * 启动时扫描所有 Provider 上带 @QueueConsumer 的方法，
+ * 声明对应的队列、交换机和绑定关系，并注册为消息处理器
+ */
+@Injectable()
+export class QueueConsumerExplorerService implements OnModuleInit {
+  private readonly logger = new Logger(QueueConsumerExplorerService.name);
+  private readonly defaultMaxRetries = 3;
+  private readonly defaultMaxPriority = 10;
+  private consumers: DiscoveredConsumer[] = [];
+  private bound = false;
+
+  constructor(
+    private readonly discoveryService: DiscoveryService,
+    private readonly metadataScanner: MetadataScanner,
+    private readonly reflector: Reflector,
+    private readonly coreService: RabbitMQCoreService,
+  ) {}
+
+  onModuleInit() {
+    this.consumers = this.explore();
+    this.logger.log(`发现 ${this.consumers.length} 个装饰器消费者`);
+  }
+
+  /**
+   * 扫描所有 Provider，收集带 @QueueConsumer 元数据的方法
+   */
+  explore(): DiscoveredConsumer[] {
+    const consumers: DiscoveredConsumer[] = [];
+
+    for (const wrapper of this.discoveryService.getProviders()) {
+      const instance = wrapper.instance as Record<string, unknown> | null;
+      // 跳过未实例化或请求作用域的 Provider
+      if (
+        !instance ||
+        typeof instance !== 'object' ||
+        !wrapper.isDependencyTreeStatic()
+      ) {
+        continue;
+      }
+
+      const prototype = Object.getPrototypeOf(instance) as object;
+      for (const methodName of this.metadataScanner.getAllMethodNames(
+        prototype,
+      )) {
+        const method = instance[methodName];
+        if (typeof method !== 'function') continue;
+
+        const options = this.reflector.get<QueueConsumerOptions | undefined>(
+          QUEUE_CONSUMER_METADATA,
+          method,
+        );
+        if (!options) continue;
+
+        consumers.push({
+          options,
+          className: instance.constructor.name,
+          methodName,
+          handler: (method as MessageHandler).bind(instance) as MessageHandler,
+        });
+      }
+    }
+
+    return consumers;
+  }
+
+  /**
+   * 声明拓扑并启动所有装饰器消费者
+   * 需要在 RabbitMQ 连接建立后调用
+   */
+  async bindConsumers(): Promise<void> {
+    if (this.bound) {
+      this.logger.log('装饰器消费者已绑定，跳过');
+      return;
+    }
+
+    for (const consumer of this.consumers) {
+      const { options, className, methodName } = consumer;
+      await this.setupTopology(options);
+      await this.startConsumer(consumer);
+      this.logger.log(
+        `✓ ${className}.${methodName} -> ${options.queue} (${options.type})`,
+      );
+    }
+
+    this.bound = true;
+    this.logger.log(`✅ 已绑定 ${this.consumers.length} 个装饰器消费者`);
+  }
+
+  /**
+   * 获取已发现的消费者信息
+   */
+  getConsumers() {
+    return this.consumers.map(({ options, className, methodName }) => ({
+      handler: `${className}.${methodName}`,
+      ...options,
+    }));
+  }
+
+  /**
+   * 根据消费者类型声明队列、交换机和绑定关系
+   */
+  private async setupTopology(options: QueueConsumerOptions): Promise<void> {
+    const { queue, type } = options;
+
+    // 死信队列：dlq.<原队列> 绑定到 dlx.<原队列>
+    if (type === QueueType.DEAD_LETTER) {
+      const originalQueue = queue.replace(/^dlq\./, '');
+      const dlxName = options.exchange || `dlx.${originalQueue}`;
+
+      await this.coreService.assertExchange(dlxName, {
+        type: 'direct',
+        durable: true,
+      });
+      await this.coreService.assertQueue(queue);
+      await this.coreService.bindQueue(
+        queue,
+        dlxName,
+        options.routingKey || originalQueue,
+      );
+      return;
+    }
+
+    // 队列配置文件中已声明的队列沿用其参数，避免参数不一致导致声明失败
+    const declared = QUEUE_MAP[queue];
+    const queueArguments =
+      declared?.queueOptions?.arguments ??
+      (type === QueueType.PRIORITY
+        ? { 'x-max-priority': this.defaultMaxPriority }
+        : undefined);
+
+    await this.coreService.assertQueue(queue, {
+      ...declared?.queueOptions,
+      arguments: queueArguments,
+    });
+
+    if (!options.exchange) return;
+
+    await this.coreService.assertExchange(
+      options.exchange,
+      this.resolveExchangeOptions(options),
+    );
+    await this.coreService.bindQueue(
+      queue,
+      options.exchange,
+      this.resolveRoutingKey(options),
+    );
+  }
+
+  /**
+   * 解析交换机类型
+   */
+  private resolveExchangeOptions(
+    options: QueueConsumerOptions,
+  ): ExchangeOptions {
+    const declared = EXCHANGE_MAP[options.exchange as string]?.[0];
+    if (declared) {
+      return {
+        type: declared.exchangeType,
+        ...declared.exchangeOptions,
+      };
+    }
+
+    switch (options.type) {
+      case QueueType.TOPIC:
+        return { type: 'topic', durable: true };
+      case QueueType.FANOUT:
+        return { type: 'fanout', durable: true };
+      case QueueType.DELAY:
+        // 需要 rabbitmq-delayed-message-exchange 插件
+        return {
+          type: 'x-delayed-message',
+          durable: true,
+          arguments: { 'x-delayed-type': 'direct' },
+        };
+      default:
+        return { type: 'direct', durable: true };
+    }
+  }
+
+  /**
+   * 解析绑定路由键
+   */
+  private resolveRoutingKey(options: QueueConsumerOptions): string {
+    switch (options.type) {
+      case QueueType.FANOUT:
+        return '';
+      case QueueType.TOPIC:
+        return options.routingPattern ?? options.routingKey ?? '#';
+      default:
+        return options.routingKey ?? options.queue;
+    }
+  }
+
+  /**
+   * 启动消费者
+   * 处理失败时按 maxRetries 重新投递，超过次数后拒绝消息（进入死信队列）
+   */
+  private async startConsumer(consumer: DiscoveredConsumer): Promise<void> {
+    const { options, handler } = consumer;
+    const maxRetries = options.maxRetries ?? this.defaultMaxRetries;
+
+    await this.coreService.consumeWithManualAck(
+      options.queue,
+      async (message: Message, { ack, nack }) => {
+        try {
+          await handler(message);
+          ack();
+        } catch (err) {
+          const error = err as Error;
+          const retryCount = Number(
+            message.headers?.['x-retry-count'] ?? message.retryCount ?? 0,
+          );
+
+          if (retryCount >= maxRetries) {
+            this.logger.error(
+              `消息超过最大重试次数 ${maxRetries}，拒绝消息: ${message.id}, 错误: ${error.message}`,
+            );
+            nack(false);
+            return;
+          }
+
+          await this.coreService.sendToQueue(options.queue, message.data, {
+            priority: message.priority,
+            headers: {
+              ...message.headers,
+              'x-retry-count': retryCount + 1,
+              'x-original-message-id':
+                (message.headers?.['x-original-message-id'] as
+                  | string
+                  | undefined) ?? message.id,
+            },
+          });
+          ack();
+
+          this.logger.warn(
+            `消息处理失败，重试 ${retryCount + 1}/${maxRetries}: ${message.id}, 错误: ${error.message}`,
+          );
+        }
+      },
+      { priority: options.priority },
+    );
+  }
+}
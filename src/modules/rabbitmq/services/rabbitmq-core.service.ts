@@ -227,6 +227,7 @@ export class RabbitMQCoreService {
     options: {
       prefetch?: number;
       exclusive?: boolean;
+      priority?: number;
     } = {},
   ): Promise<amqp.Replies.Consume> {
     const channel = this.connectionService.getChannel();
@@ -278,6 +279,7 @@ export class RabbitMQCoreService {
       {
         noAck: false, // 手动ACK
         exclusive: options.exclusive ?? false,
+        priority: options.priority,
       },
     );
 
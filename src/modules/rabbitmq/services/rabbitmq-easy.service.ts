@@ -26,6 +26,18 @@ export class RabbitMQEasyService {
     return this.sendToQueue('email-tasks', emailData);
   }
 
+  /**
+   * 发送模板邮件任务
+   */
+  async sendTemplateEmail(emailData: {
+    to: string;
+    template: string;
+    variables?: Record<string, unknown>;
+    priority?: 'high' | 'normal' | 'low';
+  }): Promise<boolean> {
+    return this.sendToQueue('email-tasks', emailData);
+  }
+
   /**
    * 发送短信任务
    */
@@ -48,6 +60,13 @@ export class RabbitMQEasyService {
     return this.sendToQueue('image-processing', imageData);
   }
 
+  /**
+   * 发送审计事件
+   */
+  async sendAuditEvent(event: object): Promise<boolean> {
+    return this.sendToQueue('audit-events', event);
+  }
+
   // ==================== 事件发布 ====================
 
   /**
@@ -1,5 +1,6 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { RabbitMQCoreService } from './rabbitmq-core.service';
+import { QueueConsumerExplorerService } from './queue-consumer-explorer.service';
 import { BusinessConsumer } from '../consumers/business.consumer';
 import { QUEUE_CONFIGS } from '../config/queue.config';
 
@@ -15,15 +16,36 @@ export class RabbitMQInitService implements OnModuleInit {
   constructor(
     private readonly coreService: RabbitMQCoreService,
     private readonly business: BusinessConsumer,
+    private readonly consumerExplorer: QueueConsumerExplorerService,
   ) {}
 
-  async onModuleInit() {
+  onModuleInit() {
     // 延迟3秒确保连接已建立
-    setTimeout(async () => {
+    setTimeout(() => void this.startConsumers(), 3000);
+  }
+
+  /**
+   * 初始化队列并启动所有消费者
+   * 定时器回调中的异常没有调用方处理，这里记录日志；初始化失败时已绑定的消费者照常启动
+   */
+  private async startConsumers(): Promise<void> {
+    try {
       await this.initializeQueues();
       this.logger.verbose('🚀 队列初始化完成开始消费所有队列...');
+      // 绑定所有 @QueueConsumer 装饰的方法
+      await this.consumerExplorer.bindConsumers();
+    } catch (error) {
+      this.logger.error(
+        '❌ 队列初始化或消费者绑定失败，继续启动已绑定的消费者:',
+        (error as Error).stack,
+      );
+    }
+
+    try {
       await this.business.startAllConsumers();
-    }, 3000);
+    } catch (error) {
+      this.logger.error('❌ 启动业务消费者失败:', (error as Error).stack);
+    }
   }
 
   /**
@@ -0,0 +1,156 @@
+import { Injectable } from '@nestjs/common';
+
+import { Ability } from './ability';
+import { Action } from '../enums/action.enum';
+import { RbacService } from '../rbac.service';
+import { UserRole } from '../../users/enums/user-role.enum';
+import { MembershipStatus } from '../../organizations/enums/membership-status.enum';
+import type {
+  AbilityRule,
+  Conditions,
+  SubjectType,
+} from '../interfaces/ability.interface';
+import type { AuthenticatedUser } from '../../auth/interfaces/jwt-payload.interface';
+
+/**
+ * 添加规则的函数
+ */
+type DefineRule = (
+  action: Action,
+  subject: SubjectType,
+  conditions?: Conditions,
+  fields?: string[],
+) => void;
+
+/**
+ * 用户本人和组织内版主可以修改的个人资料字段
+ * 邮箱、密码、角色、权限和账户状态只能由平台管理员修改
+ */
+export const USER_PROFILE_FIELDS = [
+  'firstName',
+  'lastName',
+  'phoneNumber',
+  'avatarUrl',
+  'address',
+  'gender',
+];
+
+// manage 展开后的各项操作
+const CONCRETE_ACTIONS = [
+  Action.CREATE,
+  Action.READ,
+  Action.UPDATE,
+  Action.DELETE,
+];
+
+/**
+ * 访问能力工厂 - 按资源类型定义基于属性的访问规则（ABAC）
+ * 角色按继承关系展开；在组织内访问时按成员角色生成规则，且只能访问该组织的正式成员
+ * 通过 API Key 访问时只保留密钥授权范围覆盖的操作：
+ * 本人记录对应 profile:<操作>，其他用户对应 users:<操作>，全部资源对应 *
+ */
+@Injectable()
+export class AbilityFactory {
+  constructor(private readonly rbacService: RbacService) {}
+
+  /**
+   * 生成用户的访问能力
+   * @param user 当前用户
+   */
+  async createForUser(user: AuthenticatedUser): Promise<Ability> {
+    const rules: AbilityRule[] = [];
+    const scopes = user.apiKey?.scopes;
+    const can: DefineRule = (action, subject, conditions, fields) => {
+      if (!scopes) {
+        rules.push({ action, subject, conditions, fields });
+        return;
+      }
+      // API Key 的访问能力与授权范围取交集，manage 按各项操作分别判断
+      const own = conditions?.id === user.id;
+      const actions = (
+        action === Action.MANAGE ? CONCRETE_ACTIONS : [action]
+      ).filter((item) =>
+        this.rbacService.coversPermissions(scopes, [
+          this.toPermission(item, subject, own),
+        ]),
+      );
+      const granted =
+        action === Action.MANAGE && actions.length === CONCRETE_ACTIONS.length
+          ? [Action.MANAGE]
+          : actions;
+      granted.forEach((item) =>
+        rules.push({ action: item, subject, conditions, fields }),
+      );
+    };
+
+    const roles = await this.rbacService.getEffectiveRoles(user);
+    if (
+      !user.membership &&
+      roles.has(UserRole.SUPER_ADMIN) &&
+      (!scopes || this.rbacService.coversPermissions(scopes, ['*']))
+    ) {
+      can(Action.MANAGE, 'all');
+      return new Ability(rules);
+    }
+
+    this.defineUserRules(can, user, roles);
+    return new Ability(rules);
+  }
+
+  /**
+   * 操作对应的权限标识，用于与 API Key 的授权范围比较
+   * @param action 操作
+   * @param subject 资源类型
+   * @param own 是否为本人的记录
+   */
+  private toPermission(
+    action: Action,
+    subject: SubjectType,
+    own: boolean,
+  ): string {
+    if (subject === 'all') {
+      return '*';
+    }
+    return `${own ? 'profile' : 'users'}:${action}`;
+  }
+
+  /**
+   * 用户资源的规则
+   * - 所有人可以查看本人，修改本人的个人资料
+   * - 平台管理员可以查看所有用户，管理管理员以外的用户
+   * - 平台版主可以查看所有用户
+   * - 组织内的版主和管理员可以查看本组织的正式成员，修改他们的个人资料
+   */
+  private defineUserRules(
+    can: DefineRule,
+    user: AuthenticatedUser,
+    roles: Set<string>,
+  ): void {
+    can(Action.READ, 'User', { id: user.id });
+    can(Action.UPDATE, 'User', { id: user.id }, USER_PROFILE_FIELDS);
+
+    if (user.membership) {
+      if (roles.has(UserRole.MODERATOR)) {
+        const inOrganization: Conditions = {
+          memberships: {
+            organizationId: user.membership.organizationId,
+            status: MembershipStatus.ACTIVE,
+          },
+        };
+        can(Action.READ, 'User', inOrganization);
+        can(Action.UPDATE, 'User', inOrganization, USER_PROFILE_FIELDS);
+      }
+      return;
+    }
+
+    if (roles.has(UserRole.ADMIN)) {
+      // 与模拟登录一致，管理员不能管理其他管理员
+      can(Action.READ, 'User');
+      can(Action.MANAGE, 'User', {
+        role: { $nin: [UserRole.ADMIN, UserRole.SUPER_ADMIN] },
+      });
+    } else if (roles.has(UserRole.MODERATOR)) {
+      can(Action.READ, 'User');
+    }
+  }
+}
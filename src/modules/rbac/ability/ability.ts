@@ -0,0 +1,114 @@
+import { Action } from '../enums/action.enum';
+import type {
+  AbilityRule,
+  ConditionOperator,
+  ConditionPrimitive,
+  Conditions,
+  SubjectType,
+} from '../interfaces/ability.interface';
+
+/**
+ * 用户的访问能力 - 由 AbilityFactory 根据用户的角色和所在组织生成
+ * 规则只表示允许，任一规则满足即可；不指定记录时只判断是否存在相关规则，
+ * 指定记录时还要满足规则上的条件，指定字段时还要满足规则上的字段限制
+ */
+export class Ability {
+  constructor(readonly rules: AbilityRule[]) {}
+
+  /**
+   * 判断是否允许操作
+   * @param action 操作
+   * @param subject 资源类型
+   * @param entity 具体记录，条件中用到的关联需要预先加载
+   * @param field 字段
+   */
+  can(
+    action: Action,
+    subject: SubjectType,
+    entity?: object,
+    field?: string,
+  ): boolean {
+    const rules = this.rulesFor(action, subject, field);
+    if (!entity) {
+      return rules.length > 0;
+    }
+    return rules.some(
+      (rule) => !rule.conditions || matchConditions(entity, rule.conditions),
+    );
+  }
+
+  /**
+   * 获取与操作和资源类型相关的规则
+   * @param action 操作
+   * @param subject 资源类型
+   * @param field 字段，指定时排除不包含该字段的规则
+   */
+  rulesFor(
+    action: Action,
+    subject: SubjectType,
+    field?: string,
+  ): AbilityRule[] {
+    return this.rules.filter(
+      (rule) =>
+        (rule.action === action || rule.action === Action.MANAGE) &&
+        (rule.subject === subject || rule.subject === 'all') &&
+        (!field || !rule.fields || rule.fields.includes(field)),
+    );
+  }
+}
+
+/**
+ * 判断值是否为条件运算符
+ */
+export function isConditionOperator(
+  value: unknown,
+): value is ConditionOperator {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  const keys = Object.keys(value);
+  return keys.length === 1 && ['$in', '$nin', '$ne'].includes(keys[0]);
+}
+
+/**
+ * 判断记录是否满足条件
+ */
+function matchConditions(entity: object, conditions: Conditions): boolean {
+  return Object.entries(conditions).every(([field, expected]) =>
+    matchValue((entity as Record<string, unknown>)[field], expected),
+  );
+}
+
+/**
+ * 判断字段值是否满足条件
+ */
+function matchValue(
+  actual: unknown,
+  expected: ConditionPrimitive | ConditionOperator | Conditions,
+): boolean {
+  // 一对多关联：任一元素满足即可
+  if (Array.isArray(actual)) {
+    return actual.some((item) => matchValue(item, expected));
+  }
+
+  if (isConditionOperator(expected)) {
+    if ('$in' in expected) {
+      return expected.$in.includes(actual as ConditionPrimitive);
+    }
+    if ('$nin' in expected) {
+      return !expected.$nin.includes(actual as ConditionPrimitive);
+    }
+    return actual !== expected.$ne;
+  }
+
+  if (expected !== null && typeof expected === 'object') {
+    // 关联未加载时视为不满足
+    return (
+      actual !== null &&
+      typeof actual === 'object' &&
+      matchConditions(actual, expected)
+    );
+  }
+
+  return actual === expected;
+}
@@ -0,0 +1,116 @@
+import { ForbiddenException } from '@nestjs/common';
+import { In, Not } from 'typeorm';
+
+import { Ability } from './ability';
+import { AbilityFactory } from './ability.factory';
+import { accessibleWhere } from './accessible-where';
+import { Action } from '../enums/action.enum';
+import { RbacService } from '../rbac.service';
+import { UserRole } from '../../users/enums/user-role.enum';
+import { MembershipStatus } from '../../organizations/enums/membership-status.enum';
+import type { User } from '../../users/entities/user.entity';
+import type { AuthenticatedUser } from '../../auth/interfaces/jwt-payload.interface';
+
+describe('accessibleWhere', () => {
+  // 按角色生成访问能力，角色继承关系由测试直接给出
+  const abilityFor = (
+    roles: UserRole[],
+    user: Partial<AuthenticatedUser> = {},
+  ) =>
+    new AbilityFactory({
+      getEffectiveRoles: () => Promise.resolve(new Set<string>(roles)),
+    } as unknown as RbacService).createForUser({
+      id: 'user-1',
+      ...user,
+    } as AuthenticatedUser);
+
+  it('limits a regular user to their own record', async () => {
+    const ability = await abilityFor([UserRole.USER]);
+
+    expect(accessibleWhere<User>(ability, Action.READ, 'User')).toEqual([
+      { id: 'user-1' },
+    ]);
+  });
+
+  it('returns the base condition alone when a rule has no conditions', async () => {
+    const ability = await abilityFor([UserRole.MODERATOR, UserRole.USER]);
+
+    expect(
+      accessibleWhere<User>(ability, Action.READ, 'User', { isActive: true }),
+    ).toEqual([{ isActive: true }]);
+  });
+
+  it('turns operator conditions into TypeORM operators', async () => {
+    const ability = await abilityFor([
+      UserRole.ADMIN,
+      UserRole.MODERATOR,
+      UserRole.USER,
+    ]);
+
+    expect(accessibleWhere<User>(ability, Action.DELETE, 'User')).toEqual([
+      { role: Not(In([UserRole.ADMIN, UserRole.SUPER_ADMIN])) },
+    ]);
+  });
+
+  it('combines the rules of an organization moderator with OR and merges nested conditions', async () => {
+    const ability = await abilityFor([UserRole.MODERATOR, UserRole.USER], {
+      membership: {
+        organizationId: 'org-1',
+      } as AuthenticatedUser['membership'],
+    });
+
+    expect(
+      accessibleWhere<User>(ability, Action.UPDATE, 'User', {
+        memberships: {
+          organizationId: 'org-1',
+          status: MembershipStatus.ACTIVE,
+        },
+      }),
+    ).toEqual([
+      {
+        memberships: {
+          organizationId: 'org-1',
+          status: MembershipStatus.ACTIVE,
+        },
+        id: 'user-1',
+      },
+      {
+        memberships: {
+          organizationId: 'org-1',
+          status: MembershipStatus.ACTIVE,
+        },
+      },
+    ]);
+  });
+
+  it('drops rules that conflict with the base condition', () => {
+    const ability = new Ability([
+      { action: Action.READ, subject: 'User', conditions: { id: 'user-1' } },
+      {
+        action: Action.READ,
+        subject: 'User',
+        conditions: { memberships: { organizationId: 'org-1' } },
+      },
+    ]);
+
+    expect(
+      accessibleWhere<User>(ability, Action.READ, 'User', {
+        memberships: { organizationId: 'org-2' },
+      }),
+    ).toEqual([{ memberships: { organizationId: 'org-2' }, id: 'user-1' }]);
+  });
+
+  it('rejects instead of returning an empty condition list', () => {
+    const ability = new Ability([
+      { action: Action.READ, subject: 'User', conditions: { id: 'user-1' } },
+    ]);
+
+    // 空数组会被 TypeORM 当作没有条件而返回全部记录
+    expect(() =>
+      accessibleWhere<User>(ability, Action.READ, 'User', { id: 'user-2' }),
+    ).toThrow(ForbiddenException);
+    expect(() => accessibleWhere<User>(ability, Action.DELETE, 'User')).toThrow(
+      '没有访问该资源的权限',
+    );
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  IsArray,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 权限标识格式：资源:操作，每段可以是通配符 *，也可以只有一个 *
+ */
+export const PERMISSION_PATTERN = /^(\*|[a-z0-9_-]+(:([a-z0-9_-]+|\*))*)$/;
+
+/**
+ * 创建角色数据传输对象
+ */
+export class CreateRoleDto {
+  @ApiProperty({ example: 'editor', description: '角色标识' })
+  @IsNotEmpty({ message: '角色标识不能为空' })
+  @IsString({ message: '角色标识必须是字符串' })
+  @MaxLength(50, { message: '角色标识不能超过50个字符' })
+  @Matches(/^[a-z][a-z0-9_]*$/, {
+    message: '角色标识只能包含小写字母、数字和下划线，且以字母开头',
+  })
+  name: string;
+
+  @ApiProperty({
+    example: '内容编辑',
+    description: '角色描述',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: '角色描述必须是字符串' })
+  @MaxLength(255, { message: '角色描述不能超过255个字符' })
+  description?: string;
+
+  @ApiProperty({
+    example: 'user',
+    description: '继承的角色标识',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: '继承的角色标识必须是字符串' })
+  inherits?: string | null;
+
+  @ApiProperty({
+    example: ['posts:*', 'comments:read'],
+    description: '角色直接拥有的权限，支持通配符',
+    required: false,
+  })
+  @IsOptional()
+  @IsArray({ message: '权限必须是数组' })
+  @Matches(PERMISSION_PATTERN, {
+    each: true,
+    message: '权限格式应为 资源:操作，例如 users:read 或 users:*',
+  })
+  permissions?: string[];
+}
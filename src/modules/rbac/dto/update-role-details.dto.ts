@@ -0,0 +1,8 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateRoleDto } from './create-role.dto';
+
+/**
+ * 更新角色数据传输对象
+ * 所有字段都是可选的，传入 permissions 时会整体替换角色的直接权限
+ */
+export class UpdateRoleDetailsDto extends PartialType(CreateRoleDto) {}
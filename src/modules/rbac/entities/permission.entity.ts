@@ -0,0 +1,30 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 权限实体 - 定义系统中的权限标识
+ * 权限格式为 "资源:操作"，支持通配符，例如 users:read、users:*、*
+ */
+@Entity('permissions') // 数据库表名
+export class Permission {
+  @ApiProperty({ description: '权限ID' })
+  @PrimaryGeneratedColumn('uuid') // 使用 UUID 作为主键
+  id: string;
+
+  @ApiProperty({ description: '权限标识', example: 'users:read' })
+  @Column({ unique: true, length: 100 }) // 权限标识唯一
+  name: string;
+
+  @ApiProperty({ description: '权限描述', required: false })
+  @Column({ nullable: true })
+  description?: string;
+
+  @ApiProperty({ description: '创建时间' })
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+}
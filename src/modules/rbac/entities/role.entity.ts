@@ -0,0 +1,72 @@
+import {
+  Entity,
+  PrimaryGeneratedColumn,
+  Column,
+  CreateDateColumn,
+  UpdateDateColumn,
+  ManyToOne,
+  ManyToMany,
+  JoinColumn,
+  JoinTable,
+} from 'typeorm';
+import { ApiProperty } from '@nestjs/swagger';
+import { Permission } from './permission.entity';
+
+/**
+ * 角色实体 - 角色与权限的映射
+ * 角色可以继承另一个角色，拥有被继承角色的全部权限
+ * 例如 super_admin 继承 admin，admin 继承 moderator
+ */
+@Entity('roles') // 数据库表名
+export class Role {
+  @ApiProperty({ description: '角色ID' })
+  @PrimaryGeneratedColumn('uuid') // 使用 UUID 作为主键
+  id: string;
+
+  @ApiProperty({ description: '角色标识', example: 'admin' })
+  @Column({ unique: true, length: 50 }) // 角色标识唯一
+  name: string;
+
+  @ApiProperty({ description: '角色描述', required: false })
+  @Column({ nullable: true })
+  description?: string;
+
+  /**
+   * 系统内置角色（与 UserRole 枚举对应）不允许删除或改名
+   */
+  @ApiProperty({ description: '是否为系统内置角色' })
+  @Column({ name: 'is_system', default: false })
+  isSystem: boolean;
+
+  @Column({ name: 'inherits_id', type: 'varchar', length: 36, nullable: true })
+  inheritsId?: string | null;
+
+  /**
+   * 多对一关系：继承的角色
+   * 被继承的角色删除时，继承关系自动解除
+   */
+  @ApiProperty({ description: '继承的角色', type: () => Role, required: false })
+  @ManyToOne(() => Role, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'inherits_id' })
+  inherits?: Role | null;
+
+  /**
+   * 多对多关系：角色直接拥有的权限（不含继承的权限）
+   */
+  @ApiProperty({ description: '角色直接拥有的权限', type: () => [Permission] })
+  @ManyToMany(() => Permission)
+  @JoinTable({
+    name: 'role_permissions',
+    joinColumn: { name: 'role_id' },
+    inverseJoinColumn: { name: 'permission_id' },
+  })
+  permissions: Permission[];
+
+  @ApiProperty({ description: '创建时间' })
+  @CreateDateColumn({ name: 'created_at' })
+  createdAt: Date;
+
+  @ApiProperty({ description: '更新时间' })
+  @UpdateDateColumn({ name: 'updated_at' })
+  updatedAt: Date;
+}
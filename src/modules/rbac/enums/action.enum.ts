@@ -0,0 +1,11 @@
+/**
+ * 策略中的操作类型
+ * manage 表示全部操作
+ */
+export enum Action {
+  MANAGE = 'manage',
+  CREATE = 'create',
+  READ = 'read',
+  UPDATE = 'update',
+  DELETE = 'delete',
+}
@@ -0,0 +1,44 @@
+import type { Action } from '../enums/action.enum';
+import type { Ability } from '../ability/ability';
+
+/**
+ * 策略作用的资源类型，all 表示全部资源
+ */
+export type SubjectType = 'User' | 'all';
+
+/**
+ * 条件中的标量值
+ */
+export type ConditionPrimitive = string | number | boolean | null;
+
+/**
+ * 条件运算符，每个字段只能使用一个运算符
+ */
+export type ConditionOperator =
+  | { $in: ConditionPrimitive[] }
+  | { $nin: ConditionPrimitive[] }
+  | { $ne: ConditionPrimitive };
+
+/**
+ * 字段条件
+ * 值为对象时表示关联实体上的条件，关联为数组时任一元素满足即可，
+ * 例如 { memberships: { organizationId: 'xxx' } }
+ */
+export interface Conditions {
+  [field: string]: ConditionPrimitive | ConditionOperator | Conditions;
+}
+
+/**
+ * 策略规则
+ */
+export interface AbilityRule {
+  action: Action;
+  subject: SubjectType;
+  conditions?: Conditions; // 为空表示不限制具体记录
+  fields?: string[]; // 为空表示不限制字段
+}
+
+/**
+ * 策略检查函数，用于 @CheckPolicies()
+ */
+export type PolicyHandler = (ability: Ability) => boolean;
@@ -0,0 +1,22 @@
+import { Global, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+
+import { RbacService } from './rbac.service';
+import { AbilityFactory } from './ability/ability.factory';
+import { RolesController } from './roles.controller';
+import { Role } from './entities/role.entity';
+import { Permission } from './entities/permission.entity';
+import { User } from '../users/entities/user.entity';
+
+/**
+ * RBAC 模块 - 基于数据库的角色和权限管理
+ * 声明为全局模块，RolesGuard、PermissionsGuard 和 PoliciesGuard 在任意模块中都能注入 RbacService 和 AbilityFactory
+ */
+@Global()
+@Module({
+  imports: [TypeOrmModule.forFeature([Role, Permission, User])],
+  controllers: [RolesController],
+  providers: [RbacService, AbilityFactory],
+  exports: [RbacService, AbilityFactory],
+})
+export class RbacModule {}
@@ -0,0 +1,112 @@
+import { RbacService } from './rbac.service';
+import { User } from '../users/entities/user.entity';
+import { UserRole } from '../users/enums/user-role.enum';
+import type { Membership } from '../organizations/entities/membership.entity';
+import { createRbacService } from '../../testing/rbac';
+
+describe('RbacService', () => {
+  let rbacService: RbacService;
+
+  const userWithRole = (role: UserRole | string, permissions: string[] = []) =>
+    Object.assign(new User(), { id: 'user-1', role, permissions });
+
+  beforeEach(async () => {
+    rbacService = await createRbacService();
+  });
+
+  describe('matchPermission', () => {
+    it.each([
+      ['*', 'users:delete', true],
+      ['users:read', 'users:read', true],
+      ['users:*', 'users:read', true],
+      ['users:*', 'users:profile:update', true],
+      ['users:*', 'roles:read', false],
+      ['users:*:update', 'users:profile:update', true],
+      ['users:*:update', 'users:profile:delete', false],
+      ['users:read', 'users:read:all', false],
+      ['users:read:all', 'users:read', false],
+    ])('%s covers %s: %s', (granted, required, expected) => {
+      expect(rbacService.matchPermission(granted, required)).toBe(expected);
+    });
+  });
+
+  it('expands roles along the inheritance chain', async () => {
+    await expect(
+      rbacService.getEffectiveRoles(userWithRole(UserRole.ADMIN)),
+    ).resolves.toEqual(
+      new Set([UserRole.ADMIN, UserRole.MODERATOR, UserRole.USER]),
+    );
+  });
+
+  it('combines inherited role permissions with directly granted ones', async () => {
+    const moderator = userWithRole(UserRole.MODERATOR, ['reports:read']);
+
+    await expect(
+      rbacService.getEffectivePermissions(moderator),
+    ).resolves.toEqual([
+      'profile:read',
+      'profile:update',
+      'reports:read',
+      'users:read',
+    ]);
+    await expect(
+      rbacService.hasPermissions(moderator, ['users:read', 'reports:read']),
+    ).resolves.toBe(true);
+    await expect(
+      rbacService.hasPermissions(moderator, ['users:delete']),
+    ).resolves.toBe(false);
+  });
+
+  it('uses only the membership role and permissions inside an organization', async () => {
+    const admin = Object.assign(
+      userWithRole(UserRole.ADMIN, ['reports:read']),
+      {
+        membership: {
+          role: UserRole.USER,
+          permissions: [],
+        } as unknown as Membership,
+      },
+    );
+
+    await expect(rbacService.getEffectiveRoles(admin)).resolves.toEqual(
+      new Set([UserRole.USER]),
+    );
+    await expect(
+      rbacService.hasPermissions(admin, ['users:read']),
+    ).resolves.toBe(false);
+    await expect(
+      rbacService.hasPermissions(admin, ['reports:read']),
+    ).resolves.toBe(false);
+  });
+
+  it('applies role changes immediately', async () => {
+    const role = await rbacService.createRole({
+      name: 'auditor',
+      inherits: UserRole.USER,
+      permissions: ['audit:read'],
+    });
+    const auditor = userWithRole('auditor');
+
+    await expect(
+      rbacService.hasPermissions(auditor, ['audit:read', 'profile:read']),
+    ).resolves.toBe(true);
+
+    await rbacService.updateRole(role.id, { permissions: ['audit:export'] });
+
+    await expect(
+      rbacService.hasPermissions(auditor, ['audit:read']),
+    ).resolves.toBe(false);
+    await expect(
+      rbacService.hasPermissions(auditor, ['audit:export']),
+    ).resolves.toBe(true);
+  });
+
+  it('rejects inheritance cycles', async () => {
+    const parent = await rbacService.createRole({ name: 'parent' });
+    await rbacService.createRole({ name: 'child', inherits: 'parent' });
+
+    await expect(
+      rbacService.updateRole(parent.id, { inherits: 'child' }),
+    ).rejects.toThrow('角色继承关系不能形成循环');
+  });
+});
@@ -0,0 +1,578 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  type OnApplicationBootstrap,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+
+import { Role } from './entities/role.entity';
+import { Permission } from './entities/permission.entity';
+import { User } from '../users/entities/user.entity';
+import type { Membership } from '../organizations/entities/membership.entity';
+import { TenantContextService } from '../organizations/services/tenant-context.service';
+import { UserRole } from '../users/enums/user-role.enum';
+import { RedisService } from '../redis/redis.service';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/enums/audit-action.enum';
+import type { AuditContext } from '../audit/interfaces/audit.interface';
+import { CreateRoleDto } from './dto/create-role.dto';
+import { UpdateRoleDetailsDto } from './dto/update-role-details.dto';
+
+/**
+ * 角色图中的单个节点（用于缓存）
+ */
+interface RoleNode {
+  inherits: string | null; // 继承的角色标识
+  permissions: string[]; // 角色直接拥有的权限
+}
+
+/**
+ * 参与权限计算的用户字段
+ * 在组织内访问时带有当前成员记录
+ */
+type RbacSubject = Pick<User, 'id' | 'role' | 'permissions'> & {
+  membership?: Pick<Membership, 'role' | 'permissions'>;
+};
+
+/**
+ * 系统内置角色及其默认权限
+ * 只在角色不存在时创建，已有角色的权限以数据库为准
+ */
+const SYSTEM_ROLES: Array<{
+  name: UserRole;
+  description: string;
+  inherits: UserRole | null;
+  permissions: string[];
+}> = [
+  {
+    name: UserRole.USER,
+    description: '普通用户',
+    inherits: null,
+    permissions: ['profile:read', 'profile:update'],
+  },
+  {
+    name: UserRole.MODERATOR,
+    description: '版主',
+    inherits: UserRole.USER,
+    permissions: ['users:read'],
+  },
+  {
+    name: UserRole.ADMIN,
+    description: '管理员',
+    inherits: UserRole.MODERATOR,
+    permissions: ['users:*', 'roles:read'],
+  },
+  {
+    name: UserRole.SUPER_ADMIN,
+    description: '超级管理员',
+    inherits: UserRole.ADMIN,
+    permissions: ['*'],
+  },
+];
+
+/**
+ * RBAC 服务 - 基于数据库的角色、权限管理与权限判定
+ * 用户的有效权限 = 所有角色（含继承链上的角色）的权限 ∪ 用户直接授予的权限
+ * 在组织内访问时，角色和直接授予的权限取自当前成员记录
+ * 角色图和用户的附加角色缓存在 Redis 中，角色或分配变更时清除
+ */
+@Injectable()
+export class RbacService implements OnApplicationBootstrap {
+  private readonly logger = new Logger(RbacService.name);
+  private readonly roleGraphCacheKey = 'rbac:role-graph';
+  private readonly cacheTtl = 600; // 缓存10分钟
+
+  constructor(
+    @InjectRepository(Role)
+    private readonly roleRepository: Repository<Role>, // 角色仓库
+    @InjectRepository(Permission)
+    private readonly permissionRepository: Repository<Permission>, // 权限仓库
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>, // 用户仓库
+    private readonly redisService: RedisService, // Redis 服务
+    private readonly auditService: AuditService, // 审计服务
+    private readonly tenantContext: TenantContextService, // 租户上下文
+  ) {}
+
+  async onApplicationBootstrap() {
+    try {
+      await this.seedSystemRoles();
+    } catch (error) {
+      this.logger.error('初始化系统角色失败', (error as Error).message);
+    }
+  }
+
+  // ==================== 权限判定 ====================
+
+  /**
+   * 获取用户的有效角色（包含继承链上的所有角色）
+   * @param user 用户信息
+   */
+  async getEffectiveRoles(user: RbacSubject): Promise<Set<string>> {
+    // 组织内只使用成员角色，全局角色和附加角色不生效
+    const assigned = user.membership
+      ? [user.membership.role]
+      : [user.role, ...(await this.getUserRoleNames(user.id))];
+    return this.expandRoles(assigned);
+  }
+
+  /**
+   * 展开角色继承链
+   * @param names 角色标识列表
+   * @returns 角色本身及其继承的所有角色
+   */
+  async expandRoles(names: string[]): Promise<Set<string>> {
+    const graph = await this.getRoleGraph();
+    const roles = new Set<string>();
+
+    for (const name of names) {
+      // 沿继承链向上展开，已展开的角色不再重复处理，防止数据异常时出现循环
+      let current: string | null = name;
+      while (current && !roles.has(current)) {
+        roles.add(current);
+        current = graph[current]?.inherits ?? null;
+      }
+    }
+
+    return roles;
+  }
+
+  /**
+   * 获取用户的有效权限
+   * @param user 用户信息
+   */
+  async getEffectivePermissions(user: RbacSubject): Promise<string[]> {
+    const graph = await this.getRoleGraph();
+    const permissions = new Set<string>(
+      (user.membership ?? user).permissions || [],
+    );
+
+    for (const role of await this.getEffectiveRoles(user)) {
+      graph[role]?.permissions.forEach((permission) =>
+        permissions.add(permission),
+      );
+    }
+
+    return [...permissions].sort();
+  }
+
+  /**
+   * 判断用户是否拥有全部所需权限
+   * @param user 用户信息
+   * @param required 所需权限
+   */
+  async hasPermissions(
+    user: RbacSubject,
+    required: string[],
+  ): Promise<boolean> {
+    const granted = await this.getEffectivePermissions(user);
+    return required.every((permission) =>
+      granted.some((pattern) => this.matchPermission(pattern, permission)),
+    );
+  }
+
+  /**
+   * 获取角色的权限（包含继承链上各角色的权限）
+   * @param name 角色标识
+   */
+  async getRolePermissions(name: string): Promise<string[]> {
+    const graph = await this.getRoleGraph();
+    const permissions = new Set<string>();
+
+    for (const role of await this.expandRoles([name])) {
+      graph[role]?.permissions.forEach((permission) =>
+        permissions.add(permission),
+      );
+    }
+
+    return [...permissions].sort();
+  }
+
+  /**
+   * 判断授权范围是否覆盖全部所需权限，用于限制 API Key 的访问范围
+   * @param scopes 授权范围（可含通配符）
+   * @param required 所需权限
+   */
+  coversPermissions(scopes: string[], required: string[]): boolean {
+    return required.every((permission) =>
+      scopes.some((scope) => this.matchPermission(scope, permission)),
+    );
+  }
+
+  /**
+   * 判断已授予的权限是否覆盖所需权限
+   * "*" 匹配全部；末尾的 "*" 匹配剩余的一段或多段；中间的 "*" 匹配任意一段
+   * 例如 users:* 覆盖 users:read 和 users:profile:update
+   * @param granted 已授予的权限（可含通配符）
+   * @param required 所需权限
+   */
+  matchPermission(granted: string, required: string): boolean {
+    if (granted === '*' || granted === required) {
+      return true;
+    }
+
+    const grantedParts = granted.split(':');
+    const requiredParts = required.split(':');
+
+    for (let i = 0; i < grantedParts.length; i++) {
+      const part = grantedParts[i];
+      if (i >= requiredParts.length) {
+        return false;
+      }
+      if (part === '*') {
+        if (i === grantedParts.length - 1) {
+          return true;
+        }
+        continue;
+      }
+      if (part !== requiredParts[i]) {
+        return false;
+      }
+    }
+
+    return grantedParts.length === requiredParts.length;
+  }
+
+  // ==================== 角色管理 ====================
+
+  /**
+   * 判断角色是否存在
+   * @param name 角色标识
+   */
+  async roleExists(name: string): Promise<boolean> {
+    const graph = await this.getRoleGraph();
+    return name in graph;
+  }
+
+  /**
+   * 获取所有角色
+   */
+  async findAllRoles(): Promise<Role[]> {
+    return this.roleRepository.find({
+      relations: ['inherits', 'permissions'],
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  /**
+   * 根据ID获取角色
+   * @param id 角色ID
+   * @throws NotFoundException 角色不存在
+   */
+  async findRole(id: string): Promise<Role> {
+    const role = await this.roleRepository.findOne({
+      where: { id },
+      relations: ['inherits', 'permissions'],
+    });
+    if (!role) {
+      throw new NotFoundException('角色不存在');
+    }
+    return role;
+  }
+
+  /**
+   * 获取所有权限
+   */
+  async findAllPermissions(): Promise<Permission[]> {
+    return this.permissionRepository.find({ order: { name: 'ASC' } });
+  }
+
+  /**
+   * 创建角色
+   * @param createRoleDto 角色信息
+   */
+  async createRole(createRoleDto: CreateRoleDto): Promise<Role> {
+    const existing = await this.roleRepository.findOne({
+      where: { name: createRoleDto.name },
+    });
+    if (existing) {
+      throw new ConflictException('角色标识已存在');
+    }
+
+    const role = this.roleRepository.create({
+      name: createRoleDto.name,
+      description: createRoleDto.description,
+      inherits: await this.resolveInherits(createRoleDto.inherits),
+      permissions: await this.resolvePermissions(
+        createRoleDto.permissions || [],
+      ),
+    });
+
+    const saved = await this.roleRepository.save(role);
+    await this.invalidateRoleGraph();
+    return this.findRole(saved.id);
+  }
+
+  /**
+   * 更新角色
+   * @param id 角色ID
+   * @param updateRoleDto 更新数据
+   */
+  async updateRole(
+    id: string,
+    updateRoleDto: UpdateRoleDetailsDto,
+  ): Promise<Role> {
+    const role = await this.findRole(id);
+
+    if (updateRoleDto.name !== undefined && updateRoleDto.name !== role.name) {
+      if (role.isSystem) {
+        throw new BadRequestException('系统内置角色不能修改标识');
+      }
+      const existing = await this.roleRepository.findOne({
+        where: { name: updateRoleDto.name },
+      });
+      if (existing) {
+        throw new ConflictException('角色标识已存在');
+      }
+      role.name = updateRoleDto.name;
+    }
+
+    if (updateRoleDto.description !== undefined) {
+      role.description = updateRoleDto.description;
+    }
+
+    if (updateRoleDto.inherits !== undefined) {
+      const inherits = await this.resolveInherits(updateRoleDto.inherits);
+      await this.assertNoInheritanceCycle(role, inherits);
+      role.inherits = inherits;
+      role.inheritsId = inherits?.id ?? null;
+    }
+
+    if (updateRoleDto.permissions !== undefined) {
+      role.permissions = await this.resolvePermissions(
+        updateRoleDto.permissions,
+      );
+    }
+
+    await this.roleRepository.save(role);
+    await this.invalidateRoleGraph();
+    return this.findRole(id);
+  }
+
+  /**
+   * 删除角色
+   * 继承该角色的角色会解除继承关系，已分配该角色的用户会失去该角色
+   * @param id 角色ID
+   */
+  async removeRole(id: string): Promise<void> {
+    const role = await this.findRole(id);
+    if (role.isSystem) {
+      throw new BadRequestException('系统内置角色不能删除');
+    }
+
+    await this.roleRepository.remove(role);
+    await this.invalidateRoleGraph();
+  }
+
+  // ==================== 用户角色分配 ====================
+
+  /**
+   * 设置用户的附加角色（主角色仍由 User.role 决定）
+   * 附加角色是全局的，不能在组织内设置
+   * @param userId 用户ID
+   * @param roleNames 角色标识列表
+   * @param context 审计上下文
+   * @returns 分配后的附加角色标识
+   */
+  async assignUserRoles(
+    userId: string,
+    roleNames: string[],
+    context: AuditContext = {},
+  ): Promise<string[]> {
+    if (this.tenantContext.getOrganizationId()) {
+      throw new ForbiddenException('组织内不能设置全局角色');
+    }
+
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException('用户不存在');
+    }
+
+    const uniqueNames = [...new Set(roleNames)];
+    const roles = uniqueNames.length
+      ? await this.roleRepository.find({ where: { name: In(uniqueNames) } })
+      : [];
+    const missing = uniqueNames.filter(
+      (name) => !roles.some((role) => role.name === name),
+    );
+    if (missing.length) {
+      throw new BadRequestException(`角色不存在: ${missing.join(', ')}`);
+    }
+
+    const previous = await this.getUserRoleNames(userId);
+    user.roles = roles;
+    await this.userRepository.save(user);
+    await this.redisService.del(this.getUserRolesCacheKey(userId));
+
+    const assigned = roles.map((role) => role.name);
+    const changes = this.auditService.diff(
+      { roles: [...previous].sort() },
+      { roles: [...assigned].sort() },
+    );
+    if (changes) {
+      await this.auditService.record(
+        { action: AuditAction.USER_ROLES_ASSIGNED, targetId: userId, changes },
+        context,
+      );
+    }
+    return assigned;
+  }
+
+  /**
+   * 获取用户的附加角色标识（带缓存）
+   * @param userId 用户ID
+   */
+  async getUserRoleNames(userId: string): Promise<string[]> {
+    const cacheKey = this.getUserRolesCacheKey(userId);
+    const cached = await this.redisService.get<string[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const user = await this.userRepository.findOne({
+      where: { id: userId },
+      relations: ['roles'],
+    });
+    const names = user?.roles?.map((role) => role.name) ?? [];
+
+    await this.redisService.set(cacheKey, names, this.cacheTtl);
+    return names;
+  }
+
+  // ==================== 内部方法 ====================
+
+  /**
+   * 获取角色图（带缓存）
+   */
+  private async getRoleGraph(): Promise<Record<string, RoleNode>> {
+    const cached = await this.redisService.get<Record<string, RoleNode>>(
+      this.roleGraphCacheKey,
+    );
+    if (cached) {
+      return cached;
+    }
+
+    const roles = await this.findAllRoles();
+    const graph: Record<string, RoleNode> = {};
+    for (const role of roles) {
+      graph[role.name] = {
+        inherits: role.inherits?.name ?? null,
+        permissions: role.permissions.map((permission) => permission.name),
+      };
+    }
+
+    await this.redisService.set(this.roleGraphCacheKey, graph, this.cacheTtl);
+    return graph;
+  }
+
+  /**
+   * 清除角色图缓存
+   */
+  private async invalidateRoleGraph(): Promise<void> {
+    await this.redisService.del(this.roleGraphCacheKey);
+  }
+
+  /**
+   * 获取用户附加角色的缓存键
+   */
+  private getUserRolesCacheKey(userId: string): string {
+    return `rbac:user-roles:${userId}`;
+  }
+
+  /**
+   * 根据角色标识查找被继承的角色
+   */
+  private async resolveInherits(name?: string | null): Promise<Role | null> {
+    if (!name) {
+      return null;
+    }
+
+    const role = await this.roleRepository.findOne({ where: { name } });
+    if (!role) {
+      throw new BadRequestException(`继承的角色不存在: ${name}`);
+    }
+    return role;
+  }
+
+  /**
+   * 检查继承关系是否会形成循环
+   */
+  private async assertNoInheritanceCycle(
+    role: Role,
+    inherits: Role | null,
+  ): Promise<void> {
+    let current = inherits;
+    while (current) {
+      if (current.id === role.id) {
+        throw new BadRequestException('角色继承关系不能形成循环');
+      }
+      current = current.inheritsId
+        ? await this.roleRepository.findOne({
+            where: { id: current.inheritsId },
+          })
+        : null;
+    }
+  }
+
+  /**
+   * 根据权限标识查找权限，不存在时自动创建
+   */
+  private async resolvePermissions(names: string[]): Promise<Permission[]> {
+    const uniqueNames = [...new Set(names)];
+    if (!uniqueNames.length) {
+      return [];
+    }
+
+    const existing = await this.permissionRepository.find({
+      where: { name: In(uniqueNames) },
+    });
+    const created = uniqueNames
+      .filter(
+        (name) => !existing.some((permission) => permission.name === name),
+      )
+      .map((name) => this.permissionRepository.create({ name }));
+
+    if (created.length) {
+      await this.permissionRepository.save(created);
+    }
+
+    return [...existing, ...created];
+  }
+
+  /**
+   * 初始化系统内置角色
+   */
+  private async seedSystemRoles(): Promise<void> {
+    let createdCount = 0;
+
+    for (const definition of SYSTEM_ROLES) {
+      const existing = await this.roleRepository.findOne({
+        where: { name: definition.name },
+      });
+      if (existing) {
+        continue;
+      }
+
+      await this.roleRepository.save(
+        this.roleRepository.create({
+          name: definition.name,
+          description: definition.description,
+          isSystem: true,
+          inherits: await this.resolveInherits(definition.inherits),
+          permissions: await this.resolvePermissions(definition.permissions),
+        }),
+      );
+      createdCount++;
+    }
+
+    if (createdCount) {
+      await this.invalidateRoleGraph();
+      this.logger.log(`已初始化 ${createdCount} 个系统内置角色`);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  ParseUUIDPipe,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+
+import { RbacService } from './rbac.service';
+import { CreateRoleDto } from './dto/create-role.dto';
+import { UpdateRoleDetailsDto } from './dto/update-role-details.dto';
+import { Role } from './entities/role.entity';
+import { Permission } from './entities/permission.entity';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { PermissionsGuard } from '../auth/guards/permissions.guard';
+import { RequirePermissions } from '../auth/decorators/permissions.decorator';
+import { NoImpersonation } from '../auth/decorators/no-impersonation.decorator';
+
+/**
+ * 角色控制器 - 角色和权限的管理接口
+ * 查询需要 roles:read 权限，增删改需要 roles:write 权限
+ */
+@ApiTags('Roles') // Swagger文档标签
+@Controller('roles') // 路由前缀 /roles
+@UseGuards(JwtAuthGuard, PermissionsGuard) // 所有接口都需要JWT认证和权限校验
+@NoImpersonation() // 模拟登录期间不能管理角色
+@ApiBearerAuth() // Swagger文档显示需要Bearer Token
+export class RolesController {
+  constructor(private readonly rbacService: RbacService) {}
+
+  /**
+   * 获取角色列表
+   * GET /roles
+   */
+  @Get()
+  @RequirePermissions('roles:read')
+  @ApiOperation({ summary: '获取角色列表' })
+  @ApiResponse({ status: 200, type: [Role] })
+  async findAll(): Promise<Role[]> {
+    return this.rbacService.findAllRoles();
+  }
+
+  /**
+   * 获取权限列表
+   * GET /roles/permissions
+   */
+  @Get('permissions')
+  @RequirePermissions('roles:read')
+  @ApiOperation({ summary: '获取权限列表' })
+  @ApiResponse({ status: 200, type: [Permission] })
+  async findAllPermissions(): Promise<Permission[]> {
+    return this.rbacService.findAllPermissions();
+  }
+
+  /**
+   * 获取角色详情
+   * GET /roles/:id
+   */
+  @Get(':id')
+  @RequirePermissions('roles:read')
+  @ApiOperation({ summary: '获取角色详情' })
+  @ApiResponse({ status: 200, type: Role })
+  @ApiResponse({ status: 404, description: '角色不存在' })
+  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<Role> {
+    return this.rbacService.findRole(id);
+  }
+
+  /**
+   * 创建角色
+   * POST /roles
+   */
+  @Post()
+  @RequirePermissions('roles:write')
+  @ApiOperation({ summary: '创建角色' })
+  @ApiResponse({ status: 201, type: Role })
+  @ApiResponse({ status: 409, description: '角色标识已存在' })
+  async create(@Body() createRoleDto: CreateRoleDto): Promise<Role> {
+    return this.rbacService.createRole(createRoleDto);
+  }
+
+  /**
+   * 更新角色
+   * PATCH /roles/:id
+   */
+  @Patch(':id')
+  @RequirePermissions('roles:write')
+  @ApiOperation({ summary: '更新角色' })
+  @ApiResponse({ status: 200, type: Role })
+  @ApiResponse({ status: 404, description: '角色不存在' })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateRoleDto: UpdateRoleDetailsDto,
+  ): Promise<Role> {
+    return this.rbacService.updateRole(id, updateRoleDto);
+  }
+
+  /**
+   * 删除角色
+   * DELETE /roles/:id
+   */
+  @Delete(':id')
+  @RequirePermissions('roles:write')
+  @ApiOperation({ summary: '删除角色' })
+  @ApiResponse({ status: 200, description: '角色删除成功' })
+  @ApiResponse({ status: 400, description: '系统内置角色不能删除' })
+  async remove(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<{ message: string }> {
+    await this.rbacService.removeRole(id);
+    return { message: '角色删除成功' };
+  }
+}
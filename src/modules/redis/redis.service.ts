@@ -48,10 +48,33 @@ export class RedisService {
     return this.client.set(key, payload);
   }
 
+  // 仅在键不存在时写入，返回是否写入成功，适用于一次性标记
+  async setnx(
+    key: string,
+    value: JsonValue,
+    ttlSeconds: number,
+  ): Promise<boolean> {
+    const payload = typeof value === 'string' ? value : JSON.stringify(value);
+    return (
+      (await this.client.set(key, payload, 'EX', ttlSeconds, 'NX')) === 'OK'
+    );
+  }
+
   async del(key: string): Promise<number> {
     return this.client.del(key);
   }
 
+  // 原子地读取并删除，适用于一次性令牌
+  async getdel<T = string>(key: string): Promise<T | null> {
+    const val = await this.client.getdel(key);
+    if (val == null) return null;
+    try {
+      return JSON.parse(val) as T;
+    } catch {
+      return val as unknown as T;
+    }
+  }
+
   async incrby(key: string, by = 1): Promise<number> {
     return this.client.incrby(key, by);
   }
@@ -0,0 +1,16 @@
+import { IsArray, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * 分配用户附加角色数据传输对象
+ */
+export class AssignRolesDto {
+  @ApiProperty({
+    example: ['editor', 'auditor'],
+    description:
+      '附加角色标识列表（整体替换），主角色仍通过 PATCH /users/:id/role 修改',
+  })
+  @IsArray({ message: '角色必须是数组' })
+  @IsString({ each: true, message: '每个角色必须是字符串' })
+  roles: string[];
+}
@@ -0,0 +1,18 @@
+import { PartialType, PickType } from '@nestjs/swagger';
+import { CreateUserDto } from './create-user.dto';
+
+/**
+ * 更新个人资料数据传输对象
+ * 用户自助修改只允许这些字段（与访问策略中的个人资料字段一致），
+ * 邮箱和邮箱验证状态会影响第三方登录的自动关联，角色、权限和账户状态影响授权，都只能由管理员或专用流程修改
+ */
+export class UpdateProfileDto extends PartialType(
+  PickType(CreateUserDto, [
+    'firstName',
+    'lastName',
+    'phoneNumber',
+    'avatarUrl',
+    'address',
+    'gender',
+  ] as const),
+) {}
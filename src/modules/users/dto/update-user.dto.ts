@@ -1,4 +1,4 @@
-import { PartialType } from '@nestjs/swagger';
+import { OmitType, PartialType } from '@nestjs/swagger';
 import { IsOptional, IsBoolean } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 import { CreateUserDto } from './create-user.dto';
@@ -6,13 +6,11 @@ import { CreateUserDto } from './create-user.dto';
 /**
  * 更新用户数据传输对象
  * 继承自创建用户DTO，所有字段都是可选的
+ * 密码、角色、权限和账户状态不能在这里修改，需要通过要求近期认证并记录审计的专用接口修改
  */
-export class UpdateUserDto extends PartialType(CreateUserDto) {
-  @ApiProperty({ example: true, description: '账户是否激活', required: false })
-  @IsOptional()
-  @IsBoolean({ message: '账户状态必须是布尔值' })
-  isActive?: boolean;
-
+export class UpdateUserDto extends PartialType(
+  OmitType(CreateUserDto, ['password', 'role', 'permissions'] as const),
+) {
   @ApiProperty({
     example: true,
     description: '邮箱是否已验证',
@@ -0,0 +1,96 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNull, LessThanOrEqual, MoreThan, Or } from 'typeorm';
+
+import { User } from '../entities/user.entity';
+import { UserRole } from '../enums/user-role.enum';
+import type { ListQuerySchema } from '../../../common/interfaces/list-query.interface';
+
+/**
+ * 用户列表查询配置（GET /users）
+ * 示例：?role[in]=admin,moderator&isActive=true&createdAt[gte]=2024-01-01&sort=-lastLoginAt&limit=50
+ */
+export const USER_LIST_QUERY_SCHEMA: ListQuerySchema<User> = {
+  fields: {
+    id: { type: 'string', filterable: true, sortable: true, selectable: true },
+    email: {
+      type: 'string',
+      filterable: true,
+      sortable: true,
+      selectable: true,
+    },
+    firstName: {
+      type: 'string',
+      filterable: true,
+      sortable: true,
+      selectable: true,
+    },
+    lastName: {
+      type: 'string',
+      filterable: true,
+      sortable: true,
+      selectable: true,
+    },
+    role: {
+      type: 'enum',
+      values: Object.values(UserRole),
+      filterable: true,
+      sortable: true,
+      selectable: true,
+    },
+    isActive: { type: 'boolean', filterable: true, selectable: true },
+    emailVerified: { type: 'boolean', filterable: true, selectable: true },
+    avatarUrl: { type: 'string', selectable: true },
+    lastLoginAt: {
+      type: 'date',
+      nullable: true,
+      filterable: true,
+      sortable: true,
+      selectable: true,
+    },
+    lockedUntil: { type: 'date', selectable: true },
+    // 是否处于锁定状态：锁定到期后 lockedUntil 不会立即清空
+    locked: {
+      type: 'boolean',
+      filterable: true,
+      where: (locked) => {
+        const now = new Date();
+        return {
+          lockedUntil: locked
+            ? MoreThan(now)
+            : Or(IsNull(), LessThanOrEqual(now)),
+        };
+      },
+    },
+    createdAt: {
+      type: 'date',
+      filterable: true,
+      sortable: true,
+      selectable: true,
+    },
+  },
+  defaultSort: [{ field: 'createdAt', direction: 'DESC' }],
+  defaultLimit: 10,
+  maxLimit: 100,
+};
+
+/**
+ * 用户列表响应
+ */
+export class UserListResponseDto {
+  @ApiProperty({ type: [User] })
+  users: Partial<User>[];
+
+  @ApiProperty({
+    required: false,
+    example: 42,
+    description: '总数，count=false 或游标分页时不返回',
+  })
+  total?: number;
+
+  @ApiProperty({
+    nullable: true,
+    type: String,
+    description: '下一页游标，没有下一页时为 null',
+  })
+  nextCursor: string | null;
+}
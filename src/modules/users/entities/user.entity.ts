@@ -5,6 +5,8 @@ import {
   CreateDateColumn,
   UpdateDateColumn,
   OneToMany,
+  ManyToMany,
+  JoinTable,
   Index,
 } from 'typeorm';
 import { Exclude } from 'class-transformer';
@@ -12,6 +14,8 @@ import { ApiProperty } from '@nestjs/swagger';
 
 import { UserRole } from '../enums/user-role.enum';
 import { RefreshToken } from '../../auth/entities/refresh-token.entity';
+import { Role } from '../../rbac/entities/role.entity';
+import { Membership } from '../../organizations/entities/membership.entity';
 
 /**
  * 用户实体 - 定义用户数据表结构
@@ -44,6 +48,14 @@ export class User {
   @Exclude() // 在 JSON 序列化时排除此字段
   password: string;
 
+  /**
+   * 是否设置过本地密码
+   * 通过第三方登录创建的账户使用随机密码，通过重置密码设置后才可用密码登录
+   */
+  @ApiProperty({ description: '是否设置过本地密码', example: true })
+  @Column({ name: 'has_password', default: true })
+  hasPassword: boolean;
+
   @ApiProperty({ description: '用户角色', enum: UserRole })
   @Column({
     type: 'enum',
@@ -94,24 +106,28 @@ export class User {
    * 密码重置相关字段
    * 用于忘记密码功能
    */
-  @Column({ name: 'reset_token', nullable: true })
+  @Column({ name: 'reset_token', type: 'varchar', nullable: true })
   @Exclude() // 重置令牌也需要排除
-  resetToken?: string;
+  resetToken?: string | null;
 
-  @Column({ name: 'reset_token_expiry', nullable: true })
+  @Column({ name: 'reset_token_expiry', type: 'datetime', nullable: true })
   @Exclude() // 重置令牌过期时间也需要排除
-  resetTokenExpiry?: Date;
+  resetTokenExpiry?: Date | null;
 
   /**
    * 邮箱验证相关字段
    */
-  @Column({ name: 'email_verification_token', nullable: true })
+  @Column({ name: 'email_verification_token', type: 'varchar', nullable: true })
   @Exclude()
-  emailVerificationToken?: string;
+  emailVerificationToken?: string | null;
 
-  @Column({ name: 'email_verification_expiry', nullable: true })
+  @Column({
+    name: 'email_verification_expiry',
+    type: 'datetime',
+    nullable: true,
+  })
   @Exclude()
-  emailVerificationExpiry?: Date;
+  emailVerificationExpiry?: Date | null;
 
   /**
    * 最后登录时间和IP
@@ -131,8 +147,42 @@ export class User {
   @Column({ name: 'failed_login_attempts', default: 0 })
   failedLoginAttempts: number;
 
-  @Column({ name: 'locked_until', nullable: true })
-  lockedUntil?: Date;
+  @Column({ name: 'locked_until', type: 'datetime', nullable: true })
+  lockedUntil?: Date | null;
+
+  /**
+   * 双因素认证（TOTP）
+   * 密钥在设置阶段写入，确认口令后才启用；备用码只保存哈希，每个只能使用一次
+   */
+  @ApiProperty({ description: '是否启用双因素认证', example: false })
+  @Column({ name: 'two_factor_enabled', default: false })
+  twoFactorEnabled: boolean;
+
+  @Column({
+    name: 'two_factor_secret',
+    type: 'varchar',
+    length: 64,
+    nullable: true,
+  })
+  @Exclude()
+  twoFactorSecret?: string | null;
+
+  @Column('simple-array', { name: 'two_factor_backup_codes', nullable: true })
+  @Exclude()
+  twoFactorBackupCodes?: string[] | null;
+
+  /**
+   * 令牌失效时间点
+   * 在此之前签发的访问令牌全部失效，修改密码、变更角色或状态时更新
+   */
+  @Column({
+    name: 'tokens_valid_after',
+    type: 'datetime',
+    precision: 3,
+    nullable: true,
+  })
+  @Exclude()
+  tokensValidAfter?: Date | null;
 
   @ApiProperty({ description: '账户创建时间' })
   @CreateDateColumn({ name: 'created_at' })
@@ -149,6 +199,25 @@ export class User {
   @OneToMany(() => RefreshToken, (refreshToken) => refreshToken.user)
   refreshTokens: RefreshToken[];
 
+  /**
+   * 多对多关系：用户的附加角色
+   * 主角色由 role 字段决定，附加角色用于分配数据库中自定义的角色
+   */
+  @ManyToMany(() => Role)
+  @JoinTable({
+    name: 'user_roles',
+    joinColumn: { name: 'user_id' },
+    inverseJoinColumn: { name: 'role_id' },
+  })
+  roles?: Role[];
+
+  /**
+   * 一对多关系：用户所属的组织（成员记录）
+   * 同一用户可以加入多个组织，每个组织中的角色相互独立
+   */
+  @OneToMany(() => Membership, (membership) => membership.user)
+  memberships?: Membership[];
+
   /**
    * 虚拟字段：用户全名
    * 不存储在数据库中，而是通过计算得出
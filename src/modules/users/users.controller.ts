@@ -4,6 +4,7 @@ import {
   Post,
   Body,
   Patch,
+  Put,
   Param,
   Delete,
   Query,
@@ -11,7 +12,6 @@ import {
   ParseUUIDPipe,
   ParseIntPipe,
   DefaultValuePipe,
-  NotFoundException,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -24,14 +24,36 @@ import {
 import { UsersService } from './users.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
+import { UpdateProfileDto } from './dto/update-profile.dto';
 import { UpdateRoleDto } from './dto/update-role.dto';
 import { UpdatePermissionsDto } from './dto/update-permissions.dto';
+import { AssignRolesDto } from './dto/assign-roles.dto';
+import {
+  USER_LIST_QUERY_SCHEMA,
+  UserListResponseDto,
+} from './dto/user-list-query.dto';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
+import { RecentAuthGuard } from '../auth/guards/recent-auth.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { PlatformOnly } from '../auth/decorators/platform-only.decorator';
+import { NoImpersonation } from '../auth/decorators/no-impersonation.decorator';
+import { RequireRecentAuth } from '../auth/decorators/require-recent-auth.decorator';
+import { PoliciesGuard } from '../auth/guards/policies.guard';
+import { CheckPolicies } from '../auth/decorators/check-policies.decorator';
+import { CurrentAbility } from '../auth/decorators/current-ability.decorator';
+import type { Ability } from '../rbac/ability/ability';
+import { Action } from '../rbac/enums/action.enum';
 import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { ListQueryPipe } from '../../common/pipes/list-query.pipe';
+import type { ListQuery } from '../../common/interfaces/list-query.interface';
 import { UserRole } from './enums/user-role.enum';
+import { RbacService } from '../rbac/rbac.service';
 import { User } from './entities/user.entity';
+import { AuditService } from '../audit/audit.service';
+import { RequestAuditContext } from '../audit/decorators/request-audit-context.decorator';
+import type { AuditContext } from '../audit/interfaces/audit.interface';
+import { SecurityActivityResponseDto } from '../audit/dto/audit-event-response.dto';
 
 /**
  * 用户控制器 - 处理用户相关的HTTP请求
@@ -42,7 +64,11 @@ import { User } from './entities/user.entity';
 @UseGuards(JwtAuthGuard) // 所有接口都需要JWT认证
 @ApiBearerAuth() // Swagger文档显示需要Bearer Token
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly rbacService: RbacService,
+    private readonly auditService: AuditService,
+  ) {}
 
   /**
    * 创建新用户（仅管理员）
@@ -51,6 +77,7 @@ export class UsersController {
   @Post()
   @UseGuards(RolesGuard) // 使用角色守卫
   @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN) // 只有管理员可以创建用户
+  @PlatformOnly()
   @ApiOperation({ summary: '创建新用户（仅管理员）' })
   @ApiResponse({ status: 201, description: '用户创建成功' })
   @ApiResponse({ status: 403, description: '权限不足' })
@@ -59,30 +86,62 @@ export class UsersController {
   }
 
   /**
-   * 获取用户列表（分页）
-   * GET /users?page=1&limit=10
+   * 获取用户列表（过滤、排序、分页）
+   * GET /users?role[in]=admin,moderator&isActive=true&sort=-createdAt&limit=20
+   * 只返回当前用户有权查看的用户，普通用户只能看到自己
    */
   @Get()
-  @UseGuards(RolesGuard)
-  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN, UserRole.MODERATOR) // 管理员和版主可以查看用户列表
-  @ApiOperation({ summary: '获取用户列表（分页）' })
+  @UseGuards(PoliciesGuard)
+  @CheckPolicies((ability) => ability.can(Action.READ, 'User'))
+  @ApiOperation({
+    summary: '获取用户列表（过滤、排序、分页）',
+    description:
+      '过滤：field=value 或 field[op]=value，op 为 eq、ne、in、gt、gte、lt、lte、like、null。' +
+      '可过滤字段：id、email、firstName、lastName、role、isActive、emailVerified、lastLoginAt、createdAt、locked',
+  })
+  @ApiQuery({
+    name: 'sort',
+    required: false,
+    description:
+      '排序字段，逗号分隔，- 表示倒序；可选 id、email、firstName、lastName、role、lastLoginAt、createdAt',
+    example: '-createdAt',
+  })
+  @ApiQuery({
+    name: 'fields',
+    required: false,
+    description:
+      '返回字段，逗号分隔，未指定时返回全部可选字段；id 和排序字段总是返回',
+    example: 'id,email,role',
+  })
   @ApiQuery({
     name: 'page',
     required: false,
-    description: '页码，从1开始',
+    description: '页码，从1开始，不能与 cursor 同时使用',
     example: 1,
   })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description: '上一页返回的 nextCursor，排序条件需保持不变',
+  })
   @ApiQuery({
     name: 'limit',
     required: false,
-    description: '每页数量',
+    description: '每页数量，最多100',
     example: 10,
   })
+  @ApiQuery({
+    name: 'count',
+    required: false,
+    description: '是否返回总数，偏移分页默认 true，游标分页默认 false',
+  })
+  @ApiResponse({ status: 200, type: UserListResponseDto })
+  @ApiResponse({ status: 400, description: '查询参数不正确' })
   async findAll(
-    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
-    @Query('limit', new DefaultValuePipe(10), ParseIntPipe) limit: number,
-  ) {
-    return this.usersService.findAll(page, limit);
+    @Query(new ListQueryPipe(USER_LIST_QUERY_SCHEMA)) query: ListQuery,
+    @CurrentAbility() ability: Ability,
+  ): Promise<UserListResponseDto> {
+    return this.usersService.findAll(query, ability);
   }
 
   /**
@@ -134,6 +193,58 @@ export class UsersController {
     return user;
   }
 
+  /**
+   * 获取当前用户的有效权限
+   * GET /users/me/permissions
+   */
+  @Get('me/permissions')
+  @ApiOperation({
+    summary: '获取当前用户的有效角色和权限（在组织内为成员角色和权限）',
+  })
+  @ApiResponse({ status: 200, description: '获取成功' })
+  async getMyPermissions(
+    @CurrentUser() user: User,
+  ): Promise<{ roles: string[]; permissions: string[] }> {
+    const [roles, permissions] = await Promise.all([
+      this.rbacService.getEffectiveRoles(user),
+      this.rbacService.getEffectivePermissions(user),
+    ]);
+    return { roles: [...roles], permissions };
+  }
+
+  /**
+   * 获取当前用户的安全动态
+   * GET /users/me/security-activity?page=1&limit=20
+   * 包括登录、登录失败、密码变更以及管理员对本账户的操作
+   */
+  @Get('me/security-activity')
+  @ApiOperation({ summary: '获取当前用户的安全动态' })
+  @ApiQuery({ name: 'page', required: false, example: 1 })
+  @ApiQuery({ name: 'limit', required: false, example: 20 })
+  @ApiResponse({ status: 200, description: '获取成功' })
+  async getMySecurityActivity(
+    @CurrentUser() user: User,
+    @Query('page', new DefaultValuePipe(1), ParseIntPipe) page: number,
+    @Query('limit', new DefaultValuePipe(20), ParseIntPipe) limit: number,
+  ): Promise<{ events: SecurityActivityResponseDto[]; total: number }> {
+    const { events, total } = await this.auditService.findSecurityActivity(
+      user.id,
+      Math.max(page, 1),
+      Math.min(Math.max(limit, 1), 100), // 每页最多100条
+    );
+    return {
+      events: events.map((event) => ({
+        id: event.id,
+        action: event.action,
+        byCurrentUser: event.actorId === user.id,
+        ipAddress: event.ipAddress,
+        userAgent: event.userAgent,
+        occurredAt: event.occurredAt,
+      })),
+      total,
+    };
+  }
+
   /**
    * 根据ID获取用户信息
    * GET /users/:id
@@ -145,11 +256,7 @@ export class UsersController {
   @ApiResponse({ status: 200, description: '用户信息获取成功' })
   @ApiResponse({ status: 404, description: '用户不存在' })
   async findOne(@Param('id', ParseUUIDPipe) id: string) {
-    const user = await this.usersService.findById(id);
-    if (!user) {
-      throw new NotFoundException('用户不存在');
-    }
-    return user;
+    return this.usersService.findOne(id);
   }
 
   /**
@@ -161,28 +268,31 @@ export class UsersController {
   @ApiResponse({ status: 200, description: '用户信息更新成功' })
   async updateProfile(
     @CurrentUser() user: User,
-    @Body() updateUserDto: UpdateUserDto,
+    @Body() updateProfileDto: UpdateProfileDto,
   ) {
-    // 普通用户只能更新自己的基本信息，不能更新角色和权限
-    const { role, permissions, isActive, ...allowedUpdates } = updateUserDto;
-    return this.usersService.update(user.id, allowedUpdates);
+    // 普通用户只能更新自己的基本信息，未声明的字段会被全局验证管道拒绝
+    return this.usersService.update(user.id, updateProfileDto);
   }
 
   /**
-   * 更新指定用户信息（仅管理员）
+   * 更新指定用户信息
    * PATCH /users/:id
+   * 平台管理员可以修改管理员以外的用户，组织版主和管理员只能修改本组织成员的个人资料
+   * 角色、权限和账户状态通过下面的专用接口修改，未声明的字段会被全局验证管道拒绝
    */
   @Patch(':id')
-  @UseGuards(RolesGuard)
-  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
-  @ApiOperation({ summary: '更新指定用户信息（仅管理员）' })
+  @UseGuards(PoliciesGuard)
+  @CheckPolicies((ability) => ability.can(Action.UPDATE, 'User'))
+  @ApiOperation({ summary: '更新指定用户信息（按访问策略限制用户和字段）' })
   @ApiResponse({ status: 200, description: '用户信息更新成功' })
+  @ApiResponse({ status: 403, description: '没有权限修改该用户或字段' })
   @ApiResponse({ status: 404, description: '用户不存在' })
   async update(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() updateUserDto: UpdateUserDto,
+    @CurrentAbility() ability: Ability,
   ) {
-    return this.usersService.update(id, updateUserDto);
+    return this.usersService.update(id, updateUserDto, ability);
   }
 
   /**
@@ -190,15 +300,47 @@ export class UsersController {
    * PATCH /users/:id/role
    */
   @Patch(':id/role')
-  @UseGuards(RolesGuard)
+  @NoImpersonation()
+  @UseGuards(RolesGuard, RecentAuthGuard)
+  @RequireRecentAuth(300)
   @Roles(UserRole.SUPER_ADMIN) // 只有超级管理员可以修改角色
+  @PlatformOnly()
   @ApiOperation({ summary: '更新用户角色（仅超级管理员）' })
   @ApiResponse({ status: 200, description: '用户角色更新成功' })
+  @ApiResponse({ status: 401, description: '需要重新验证身份' })
   async updateRole(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() updateRoleDto: UpdateRoleDto,
+    @RequestAuditContext() context: AuditContext,
   ) {
-    return this.usersService.updateRole(id, updateRoleDto.role);
+    return this.usersService.updateRole(id, updateRoleDto.role, context);
+  }
+
+  /**
+   * 设置用户的附加角色（仅超级管理员）
+   * PUT /users/:id/roles
+   */
+  @Put(':id/roles')
+  @NoImpersonation()
+  @UseGuards(RolesGuard, RecentAuthGuard)
+  @RequireRecentAuth(300)
+  @Roles(UserRole.SUPER_ADMIN) // 只有超级管理员可以分配角色
+  @PlatformOnly()
+  @ApiOperation({ summary: '设置用户的附加角色（仅超级管理员）' })
+  @ApiResponse({ status: 200, description: '用户角色分配成功' })
+  @ApiResponse({ status: 401, description: '需要重新验证身份' })
+  @ApiResponse({ status: 400, description: '角色不存在' })
+  async assignRoles(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() assignRolesDto: AssignRolesDto,
+    @RequestAuditContext() context: AuditContext,
+  ): Promise<{ roles: string[] }> {
+    const roles = await this.rbacService.assignUserRoles(
+      id,
+      assignRolesDto.roles,
+      context,
+    );
+    return { roles };
   }
 
   /**
@@ -206,17 +348,23 @@ export class UsersController {
    * PATCH /users/:id/permissions
    */
   @Patch(':id/permissions')
-  @UseGuards(RolesGuard)
+  @NoImpersonation()
+  @UseGuards(RolesGuard, RecentAuthGuard)
+  @RequireRecentAuth(300)
   @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @PlatformOnly()
   @ApiOperation({ summary: '更新用户权限（仅管理员）' })
   @ApiResponse({ status: 200, description: '用户权限更新成功' })
+  @ApiResponse({ status: 401, description: '需要重新验证身份' })
   async updatePermissions(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() updatePermissionsDto: UpdatePermissionsDto,
+    @RequestAuditContext() context: AuditContext,
   ) {
     return this.usersService.updatePermissions(
       id,
       updatePermissionsDto.permissions,
+      context,
     );
   }
 
@@ -225,15 +373,33 @@ export class UsersController {
    * PATCH /users/:id/status
    */
   @Patch(':id/status')
+  @NoImpersonation()
   @UseGuards(RolesGuard)
   @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @PlatformOnly()
   @ApiOperation({ summary: '激活/停用用户账户（仅管理员）' })
   @ApiResponse({ status: 200, description: '用户状态更新成功' })
   async toggleStatus(
     @Param('id', ParseUUIDPipe) id: string,
     @Body('isActive') isActive: boolean,
+    @RequestAuditContext() context: AuditContext,
   ) {
-    return this.usersService.toggleUserStatus(id, isActive);
+    return this.usersService.toggleUserStatus(id, isActive, context);
+  }
+
+  /**
+   * 解除账户锁定（仅管理员）
+   * PATCH /users/:id/unlock
+   */
+  @Patch(':id/unlock')
+  @UseGuards(RolesGuard)
+  @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @PlatformOnly()
+  @ApiOperation({ summary: '解除账户锁定（仅管理员）' })
+  @ApiResponse({ status: 200, description: '账户解锁成功' })
+  @ApiResponse({ status: 404, description: '用户不存在' })
+  async unlock(@Param('id', ParseUUIDPipe) id: string) {
+    return this.usersService.unlockUser(id);
   }
 
   /**
@@ -241,13 +407,20 @@ export class UsersController {
    * DELETE /users/:id
    */
   @Delete(':id')
-  @UseGuards(RolesGuard)
+  @NoImpersonation()
+  @UseGuards(RolesGuard, RecentAuthGuard)
+  @RequireRecentAuth(300)
   @Roles(UserRole.ADMIN, UserRole.SUPER_ADMIN)
+  @PlatformOnly()
   @ApiOperation({ summary: '删除用户（软删除，仅管理员）' })
   @ApiResponse({ status: 200, description: '用户删除成功' })
+  @ApiResponse({ status: 401, description: '需要重新验证身份' })
   @ApiResponse({ status: 404, description: '用户不存在' })
-  async remove(@Param('id', ParseUUIDPipe) id: string) {
-    await this.usersService.remove(id);
+  async remove(
+    @Param('id', ParseUUIDPipe) id: string,
+    @RequestAuditContext() context: AuditContext,
+  ) {
+    await this.usersService.remove(id, context);
     return { message: '用户删除成功' };
   }
 }
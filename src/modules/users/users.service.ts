@@ -2,24 +2,42 @@ import {
   Injectable,
   NotFoundException,
   BadRequestException,
+  ConflictException,
+  ForbiddenException,
 } from '@nestjs/common';
-import { Repository } from 'typeorm';
+import { Repository, type FindOptionsWhere } from 'typeorm';
 import { InjectRepository } from '@nestjs/typeorm';
 
 import { User } from './entities/user.entity';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
+import { USER_LIST_QUERY_SCHEMA } from './dto/user-list-query.dto';
 import { UserRole } from './enums/user-role.enum';
+import { AuditService } from '../audit/audit.service';
+import { AuditAction } from '../audit/enums/audit-action.enum';
+import type { AuditContext } from '../audit/interfaces/audit.interface';
+import { TenantContextService } from '../organizations/services/tenant-context.service';
+import { MembershipStatus } from '../organizations/enums/membership-status.enum';
+import type { Ability } from '../rbac/ability/ability';
+import { accessibleWhere } from '../rbac/ability/accessible-where';
+import { Action } from '../rbac/enums/action.enum';
+import { findList } from '../../common/utils/list-query.util';
+import type { ListQuery } from '../../common/interfaces/list-query.interface';
 
 /**
  * 用户服务 - 处理用户相关的业务逻辑
  * 提供用户的增删改查、权限管理等功能
+ * 在组织内访问时，列表、搜索、统计和按ID查看只返回该组织的正式成员；
+ * 账户级的管理操作（创建、修改资料、角色、权限、状态等）只能在组织外执行，
+ * 组织内的角色和权限通过组织成员接口管理
  */
 @Injectable()
 export class UsersService {
   constructor(
     @InjectRepository(User)
     private readonly userRepository: Repository<User>,
+    private readonly auditService: AuditService, // 审计服务
+    private readonly tenantContext: TenantContextService, // 租户上下文
   ) {}
 
   /**
@@ -28,6 +46,8 @@ export class UsersService {
    * @returns 创建的用户信息（不包含密码）
    */
   async create(createUserDto: CreateUserDto): Promise<User> {
+    this.assertOutsideTenant();
+
     // 检查邮箱是否已存在
     const existingUser = await this.findByEmail(createUserDto.email);
     if (existingUser) {
@@ -45,22 +65,66 @@ export class UsersService {
   }
 
   /**
-   * 获取所有用户列表（分页）
-   * @param page 页码，从1开始
-   * @param limit 每页数量
-   * @returns 用户列表和总数
+   * 通过第三方身份创建用户
+   * 邮箱已由身份提供方验证；密码为调用方生成的随机密码哈希，不能用于登录
+   * @param createUserDto 用户创建数据
+   * @returns 创建的用户信息
    */
-  async findAll(
-    page = 1,
-    limit = 10,
-  ): Promise<{ users: User[]; total: number }> {
-    const [users, total] = await this.userRepository.findAndCount({
-      skip: (page - 1) * limit, // 跳过的记录数
-      take: limit, // 获取的记录数
-      order: { createdAt: 'DESC' }, // 按创建时间倒序
+  async createFromExternalIdentity(
+    createUserDto: CreateUserDto,
+  ): Promise<User> {
+    const existingUser = await this.findByEmail(createUserDto.email);
+    if (existingUser) {
+      throw new BadRequestException('该邮箱已被注册');
+    }
+
+    const user = this.userRepository.create({
+      ...createUserDto,
+      emailVerified: true,
+      hasPassword: false,
     });
+    return this.userRepository.save(user);
+  }
 
-    return { users, total };
+  /**
+   * 通过注册邀请创建用户
+   * 邀请链接发送到受邀邮箱，能打开链接即证明拥有该邮箱，因此直接标记为已验证
+   * @param createUserDto 用户创建数据（角色和权限来自邀请）
+   * @returns 创建的用户信息
+   */
+  async createFromInvitation(createUserDto: CreateUserDto): Promise<User> {
+    const existingUser = await this.findByEmail(createUserDto.email);
+    if (existingUser) {
+      throw new ConflictException('该邮箱已被注册');
+    }
+
+    const user = this.userRepository.create({
+      ...createUserDto,
+      emailVerified: true,
+    });
+    return this.userRepository.save(user);
+  }
+
+  /**
+   * 获取用户列表（过滤、排序、偏移或游标分页）
+   * @param query 列表查询
+   * @param ability 访问能力，指定时只返回允许查看的用户
+   * @returns 用户列表、总数（按需）和下一页游标
+   */
+  async findAll(
+    query: ListQuery,
+    ability?: Ability,
+  ): Promise<{ users: User[]; total?: number; nextCursor: string | null }> {
+    const { items, ...page } = await findList(
+      this.userRepository,
+      query,
+      USER_LIST_QUERY_SCHEMA,
+      ability
+        ? accessibleWhere<User>(ability, Action.READ, 'User', this.scopeWhere())
+        : [this.scopeWhere()],
+    );
+
+    return { users: items, ...page };
   }
 
   /**
@@ -72,6 +136,22 @@ export class UsersService {
     return this.userRepository.findOne({ where: { id } });
   }
 
+  /**
+   * 根据ID查看用户（在组织内只能查看该组织的成员）
+   * @param id 用户ID
+   * @returns 用户信息
+   * @throws NotFoundException 用户不存在或不在当前组织
+   */
+  async findOne(id: string): Promise<User> {
+    const user = await this.userRepository.findOne({
+      where: this.scopeWhere({ id }),
+    });
+    if (!user) {
+      throw new NotFoundException('用户不存在');
+    }
+    return user;
+  }
+
   /**
    * 根据邮箱查找用户
    * @param email 用户邮箱
@@ -107,18 +187,34 @@ export class UsersService {
    * 更新用户信息
    * @param id 用户ID
    * @param updateUserDto 更新数据
+   * @param ability 访问能力，指定时按记录和字段检查是否允许修改
    * @returns 更新后的用户信息
+   * @throws ForbiddenException 不允许修改该用户或其中的字段
    */
-  async update(id: string, updateUserDto: UpdateUserDto): Promise<User> {
-    // 检查用户是否存在
-    const user = await this.findById(id);
+  async update(
+    id: string,
+    updateUserDto: UpdateUserDto,
+    ability?: Ability,
+  ): Promise<User> {
+    // 检查用户是否存在，条件中用到成员关系，需要一并加载
+    const user = ability
+      ? await this.userRepository.findOne({
+          where: this.scopeWhere({ id }),
+          relations: ['memberships'],
+        })
+      : await this.findById(id);
     if (!user) {
       throw new NotFoundException('用户不存在');
     }
+    if (ability) {
+      this.assertCanUpdate(ability, user, updateUserDto);
+    }
 
     // 如果要更新邮箱，检查新邮箱是否已被使用
-    if (updateUserDto.email && updateUserDto.email !== user.email) {
-      const existingUser = await this.findByEmail(updateUserDto.email);
+    const { email } = updateUserDto;
+    const emailChanged = !!email && email !== user.email;
+    if (emailChanged) {
+      const existingUser = await this.findByEmail(email);
       if (existingUser) {
         throw new BadRequestException('该邮箱已被其他用户使用');
       }
@@ -127,6 +223,16 @@ export class UsersService {
     // 合并更新数据
     Object.assign(user, updateUserDto);
 
+    // 新邮箱需要重新验证，未验证前不能通过邮箱验证守卫，也不会被第三方登录自动关联
+    if (emailChanged && updateUserDto.emailVerified === undefined) {
+      user.emailVerified = false;
+    }
+
+    // 修改后的记录也要满足规则，防止把用户移出限制范围
+    if (ability && !ability.can(Action.UPDATE, 'User', user)) {
+      throw new ForbiddenException('没有权限修改该用户');
+    }
+
     // 保存更新
     return this.userRepository.save(user);
   }
@@ -139,12 +245,25 @@ export class UsersService {
   async updatePassword(id: string, hashedPassword: string): Promise<void> {
     await this.userRepository.update(id, {
       password: hashedPassword,
+      hasPassword: true,
       // 密码更新后重置登录失败次数
       failedLoginAttempts: 0,
-      lockedUntil: undefined,
+      lockedUntil: null,
+      // 之前签发的访问令牌全部失效
+      tokensValidAfter: this.getTokensValidAfter(),
     });
   }
 
+  /**
+   * 替换密码哈希
+   * 仅用于同一密码按新的算法或参数重新加密，不影响已签发的令牌和登录状态
+   * @param id 用户ID
+   * @param hashedPassword 重新加密后的密码哈希
+   */
+  async updatePasswordHash(id: string, hashedPassword: string): Promise<void> {
+    await this.userRepository.update(id, { password: hashedPassword });
+  }
+
   /**
    * 更新密码重置令牌
    * @param id 用户ID
@@ -168,8 +287,8 @@ export class UsersService {
    */
   async clearResetToken(id: string): Promise<void> {
     await this.userRepository.update(id, {
-      resetToken: undefined,
-      resetTokenExpiry: undefined,
+      resetToken: null,
+      resetTokenExpiry: null,
     });
   }
 
@@ -197,54 +316,106 @@ export class UsersService {
   async verifyEmail(id: string): Promise<void> {
     await this.userRepository.update(id, {
       emailVerified: true,
-      emailVerificationToken: undefined,
-      emailVerificationExpiry: undefined,
+      emailVerificationToken: null,
+      emailVerificationExpiry: null,
     });
   }
 
   /**
    * 更新用户角色
+   * 角色变更后，之前签发的访问令牌全部失效
    * @param id 用户ID
    * @param role 新角色
+   * @param context 审计上下文
    */
-  async updateRole(id: string, role: UserRole): Promise<User> {
+  async updateRole(
+    id: string,
+    role: UserRole,
+    context: AuditContext = {},
+  ): Promise<User> {
+    this.assertOutsideTenant();
     const user = await this.findById(id);
     if (!user) {
       throw new NotFoundException('用户不存在');
     }
 
+    const before = { role: user.role };
+    if (user.role !== role) {
+      user.tokensValidAfter = this.getTokensValidAfter();
+    }
     user.role = role;
-    return this.userRepository.save(user);
+    const savedUser = await this.userRepository.save(user);
+
+    await this.recordChange(
+      AuditAction.USER_ROLE_CHANGED,
+      id,
+      before,
+      { role },
+      context,
+    );
+    return savedUser;
   }
 
   /**
    * 更新用户权限
    * @param id 用户ID
    * @param permissions 权限列表
+   * @param context 审计上下文
    */
-  async updatePermissions(id: string, permissions: string[]): Promise<User> {
+  async updatePermissions(
+    id: string,
+    permissions: string[],
+    context: AuditContext = {},
+  ): Promise<User> {
+    this.assertOutsideTenant();
     const user = await this.findById(id);
     if (!user) {
       throw new NotFoundException('用户不存在');
     }
 
+    const before = { permissions: user.permissions ?? [] };
     user.permissions = permissions;
-    return this.userRepository.save(user);
+    const savedUser = await this.userRepository.save(user);
+
+    await this.recordChange(
+      AuditAction.USER_PERMISSIONS_CHANGED,
+      id,
+      before,
+      { permissions },
+      context,
+    );
+    return savedUser;
   }
 
   /**
    * 激活/停用用户账户
+   * 状态变更后，之前签发的访问令牌全部失效
    * @param id 用户ID
    * @param isActive 是否激活
+   * @param context 审计上下文
    */
-  async toggleUserStatus(id: string, isActive: boolean): Promise<User> {
+  async toggleUserStatus(
+    id: string,
+    isActive: boolean,
+    context: AuditContext = {},
+  ): Promise<User> {
+    this.assertOutsideTenant();
     const user = await this.findById(id);
     if (!user) {
       throw new NotFoundException('用户不存在');
     }
 
-    user.isActive = isActive;
-    return this.userRepository.save(user);
+    const before = { isActive: user.isActive };
+    const savedUser = await this.applyStatus(user, isActive);
+
+    await this.recordChange(
+      AuditAction.USER_STATUS_CHANGED,
+      id,
+      before,
+      { isActive },
+      context,
+    );
+    return savedUser;
   }
 
   /**
@@ -252,14 +423,21 @@ export class UsersService {
    * @param id 用户ID
    * @param maxAttempts 最大失败次数，默认5次
    * @param lockDuration 锁定时长（分钟），默认30分钟
+   * @returns 更新后的用户信息，用户不存在时返回null
    */
   async recordFailedLogin(
     id: string,
     maxAttempts = 5,
     lockDuration = 30,
-  ): Promise<void> {
+  ): Promise<User | null> {
     const user = await this.findById(id);
-    if (!user) return;
+    if (!user) return null;
+
+    // 上一次锁定已过期，重新开始计数
+    if (user.lockedUntil && user.lockedUntil <= new Date()) {
+      user.failedLoginAttempts = 0;
+      user.lockedUntil = null;
+    }
 
     user.failedLoginAttempts += 1;
 
@@ -268,7 +446,7 @@ export class UsersService {
       user.lockedUntil = new Date(Date.now() + lockDuration * 60 * 1000);
     }
 
-    await this.userRepository.save(user);
+    return this.userRepository.save(user);
   }
 
   /**
@@ -281,22 +459,102 @@ export class UsersService {
       lastLoginAt: new Date(),
       lastLoginIp: ip,
       failedLoginAttempts: 0, // 重置失败次数
-      lockedUntil: undefined, // 解除锁定
+      lockedUntil: null, // 解除锁定
+    });
+  }
+
+  /**
+   * 解除账户锁定
+   * @param id 用户ID
+   * @returns 解锁后的用户信息
+   */
+  async unlockUser(id: string): Promise<User> {
+    this.assertOutsideTenant();
+    const user = await this.findById(id);
+    if (!user) {
+      throw new NotFoundException('用户不存在');
+    }
+
+    user.failedLoginAttempts = 0;
+    user.lockedUntil = null;
+    return this.userRepository.save(user);
+  }
+
+  /**
+   * 保存待启用的双因素认证密钥
+   * @param id 用户ID
+   * @param secret TOTP 密钥
+   */
+  async setTwoFactorSecret(id: string, secret: string): Promise<void> {
+    await this.userRepository.update(id, {
+      twoFactorSecret: secret,
+      twoFactorEnabled: false,
+    });
+  }
+
+  /**
+   * 启用双因素认证
+   * @param id 用户ID
+   * @param backupCodeHashes 备用码哈希列表
+   */
+  async enableTwoFactor(id: string, backupCodeHashes: string[]): Promise<void> {
+    await this.userRepository.update(id, {
+      twoFactorEnabled: true,
+      twoFactorBackupCodes: backupCodeHashes,
+    });
+  }
+
+  /**
+   * 关闭双因素认证并清除密钥和备用码
+   * @param id 用户ID
+   */
+  async disableTwoFactor(id: string): Promise<void> {
+    await this.userRepository.update(id, {
+      twoFactorEnabled: false,
+      twoFactorSecret: null,
+      twoFactorBackupCodes: null,
+    });
+  }
+
+  /**
+   * 更新剩余的备用码
+   * @param id 用户ID
+   * @param backupCodeHashes 剩余备用码哈希列表
+   */
+  async updateTwoFactorBackupCodes(
+    id: string,
+    backupCodeHashes: string[],
+  ): Promise<void> {
+    await this.userRepository.update(id, {
+      twoFactorBackupCodes: backupCodeHashes,
     });
   }
 
   /**
    * 删除用户（软删除 - 实际上是停用账户）
    * @param id 用户ID
+   * @param context 审计上下文
    */
-  async remove(id: string): Promise<void> {
+  async remove(id: string, context: AuditContext = {}): Promise<void> {
+    this.assertOutsideTenant();
     const user = await this.findById(id);
     if (!user) {
       throw new NotFoundException('用户不存在');
     }
 
     // 软删除：停用账户而不是真正删除
-    await this.toggleUserStatus(id, false);
+    const before = { isActive: user.isActive };
+    await this.applyStatus(user, false);
+
+    await this.auditService.record(
+      {
+        action: AuditAction.USER_DELETED,
+        targetId: id,
+        changes: this.auditService.diff(before, { isActive: false }),
+        metadata: { email: user.email },
+      },
+      context,
+    );
   }
 
   /**
@@ -305,6 +563,7 @@ export class UsersService {
    * @param id 用户ID
    */
   async hardDelete(id: string): Promise<void> {
+    this.assertOutsideTenant();
     const result = await this.userRepository.delete(id);
     if (result.affected === 0) {
       throw new NotFoundException('用户不存在');
@@ -333,6 +592,16 @@ export class UsersService {
       },
     );
 
+    const organizationId = this.tenantContext.getOrganizationId();
+    if (organizationId) {
+      queryBuilder.innerJoin(
+        'user.memberships',
+        'membership',
+        'membership.organizationId = :organizationId AND membership.status = :status',
+        { organizationId, status: MembershipStatus.ACTIVE },
+      );
+    }
+
     // 分页
     queryBuilder
       .skip((page - 1) * limit)
@@ -356,20 +625,33 @@ export class UsersService {
     unverified: number;
     byRole: Record<UserRole, number>;
   }> {
-    const total = await this.userRepository.count();
+    const total = await this.userRepository.count({
+      where: this.scopeWhere(),
+    });
     const active = await this.userRepository.count({
-      where: { isActive: true },
+      where: this.scopeWhere({ isActive: true }),
     });
     const inactive = total - active;
     const verified = await this.userRepository.count({
-      where: { emailVerified: true },
+      where: this.scopeWhere({ emailVerified: true }),
     });
     const unverified = total - verified;
 
-    // 按角色统计
+    // 按角色统计，组织内按成员角色统计
+    const organizationId = this.tenantContext.getOrganizationId();
     const byRole: Record<UserRole, number> = {} as Record<UserRole, number>;
     for (const role of Object.values(UserRole)) {
-      byRole[role] = await this.userRepository.count({ where: { role } });
+      byRole[role] = await this.userRepository.count({
+        where: organizationId
+          ? {
+              memberships: {
+                organizationId,
+                status: MembershipStatus.ACTIVE,
+                role,
+              },
+            }
+          : { role },
+      });
     }
 
     return {
@@ -381,4 +663,92 @@ export class UsersService {
       byRole,
     };
   }
+
+  /**
+   * 确认当前不在组织内
+   * 账户级管理操作会影响用户在所有组织中的身份，不允许组织管理员执行
+   * @throws ForbiddenException 当前请求在组织内
+   */
+  assertOutsideTenant(): void {
+    if (this.tenantContext.getOrganizationId()) {
+      throw new ForbiddenException(
+        '组织内不能修改账户信息，请通过组织成员接口管理或退出组织后操作',
+      );
+    }
+  }
+
+  /**
+   * 检查是否允许修改用户以及本次提交的每个字段
+   * @throws ForbiddenException 不允许修改该用户或其中的字段
+   */
+  private assertCanUpdate(
+    ability: Ability,
+    user: User,
+    updateUserDto: UpdateUserDto,
+  ): void {
+    if (!ability.can(Action.UPDATE, 'User', user)) {
+      throw new ForbiddenException('没有权限修改该用户');
+    }
+    const deniedFields = Object.keys(updateUserDto).filter(
+      (field) =>
+        updateUserDto[field as keyof UpdateUserDto] !== undefined &&
+        !ability.can(Action.UPDATE, 'User', user, field),
+    );
+    if (deniedFields.length > 0) {
+      throw new ForbiddenException(`无权修改字段: ${deniedFields.join(', ')}`);
+    }
+  }
+
+  /**
+   * 为查询条件加上当前组织的成员限制
+   */
+  private scopeWhere(
+    where: FindOptionsWhere<User> = {},
+  ): FindOptionsWhere<User> {
+    const organizationId = this.tenantContext.getOrganizationId();
+    if (!organizationId) {
+      return where;
+    }
+    return {
+      ...where,
+      memberships: { organizationId, status: MembershipStatus.ACTIVE },
+    };
+  }
+
+  /**
+   * 计算新的令牌失效时间点：当前时间的下一整秒
+   * 访问令牌的 iat 精度为秒，取下一整秒才能让本秒内变更前签发的令牌也失效；
+   * 代价是本秒内重新签发的令牌同样失效，客户端最多需要等待一秒后重新登录
+   */
+  private getTokensValidAfter(): Date {
+    return new Date((Math.floor(Date.now() / 1000) + 1) * 1000);
+  }
+
+  /**
+   * 更新账户状态，状态变更后之前签发的访问令牌全部失效
+   */
+  private async applyStatus(user: User, isActive: boolean): Promise<User> {
+    if (user.isActive !== isActive) {
+      user.tokensValidAfter = this.getTokensValidAfter();
+    }
+    user.isActive = isActive;
+    return this.userRepository.save(user);
+  }
+
+  /**
+   * 记录账户变更审计事件，字段值没有变化时不记录
+   */
+  private async recordChange(
+    action: AuditAction,
+    targetId: string,
+    before: Record<string, unknown>,
+    after: Record<string, unknown>,
+    context: AuditContext,
+  ): Promise<void> {
+    const changes = this.auditService.diff(before, after);
+    if (!changes) {
+      return;
+    }
+    await this.auditService.record({ action, targetId, changes }, context);
+  }
 }
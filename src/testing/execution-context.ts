@@ -0,0 +1,23 @@
+import type { ExecutionContext, Type } from '@nestjs/common';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+
+/**
+ * 创建 HTTP 请求的执行上下文，用于直接调用守卫
+ * 处理器取控制器原型上的方法，方法和类上的元数据与实际请求一致
+ * @param controller 控制器类
+ * @param method 处理请求的方法名
+ * @param request 请求对象（通常只需要 user、headers 等字段）
+ * @param response 响应对象（守卫需要设置响应头时传入）
+ */
+export function createHttpContext<T>(
+  controller: Type<T>,
+  method: keyof T & string,
+  request: object,
+  response: object = {},
+): ExecutionContext {
+  return new ExecutionContextHost(
+    [request, response, () => undefined],
+    controller,
+    (controller.prototype as T)[method] as (...args: unknown[]) => unknown,
+  );
+}
@@ -0,0 +1,116 @@
+import type { RedisService } from '../modules/redis/redis.service';
+
+interface Entry {
+  value: string;
+  expiresAt?: number; // 过期时间（毫秒时间戳），为空表示不过期
+}
+
+/**
+ * 内存中的 Redis - 单元测试中代替 RedisService
+ * 与 RedisService 一样以 JSON 保存非字符串的值，过期时间按 Date.now() 计算，可配合 jest 的假定时器使用
+ *
+ * 使用示例：
+ * const redis = new InMemoryRedis();
+ * new TokenRevocationService(redis.asService());
+ */
+export class InMemoryRedis {
+  private readonly store = new Map<string, Entry>();
+
+  /**
+   * 以 RedisService 类型注入到被测服务
+   */
+  asService(): RedisService {
+    return this as unknown as RedisService;
+  }
+
+  get<T = string>(key: string): Promise<T | null> {
+    const entry = this.entry(key);
+    return Promise.resolve(entry ? this.parse<T>(entry.value) : null);
+  }
+
+  set(key: string, value: unknown, ttlSeconds?: number): Promise<'OK'> {
+    this.store.set(key, {
+      value: this.serialize(value),
+      expiresAt:
+        ttlSeconds && ttlSeconds > 0
+          ? Date.now() + ttlSeconds * 1000
+          : undefined,
+    });
+    return Promise.resolve('OK');
+  }
+
+  async setnx(key: string, value: unknown, ttlSeconds: number) {
+    if (this.entry(key)) {
+      return false;
+    }
+    await this.set(key, value, ttlSeconds);
+    return true;
+  }
+
+  del(key: string): Promise<number> {
+    const existed = !!this.entry(key);
+    this.store.delete(key);
+    return Promise.resolve(existed ? 1 : 0);
+  }
+
+  async getdel<T = string>(key: string): Promise<T | null> {
+    const value = await this.get<T>(key);
+    this.store.delete(key);
+    return value;
+  }
+
+  incrby(key: string, by = 1): Promise<number> {
+    const entry = this.entry(key);
+    const value = Number(entry?.value ?? 0) + by;
+    this.store.set(key, { value: String(value), expiresAt: entry?.expiresAt });
+    return Promise.resolve(value);
+  }
+
+  decrby(key: string, by = 1): Promise<number> {
+    return this.incrby(key, -by);
+  }
+
+  expire(key: string, ttlSeconds: number): Promise<number> {
+    const entry = this.entry(key);
+    if (entry) {
+      entry.expiresAt = Date.now() + ttlSeconds * 1000;
+    }
+    return Promise.resolve(entry ? 1 : 0);
+  }
+
+  /**
+   * 剩余有效期（秒），与 Redis 一致：键不存在返回 -2，没有过期时间返回 -1
+   */
+  ttl(key: string): Promise<number> {
+    const entry = this.entry(key);
+    if (!entry) {
+      return Promise.resolve(-2);
+    }
+    return Promise.resolve(
+      entry.expiresAt === undefined
+        ? -1
+        : Math.ceil((entry.expiresAt - Date.now()) / 1000),
+    );
+  }
+
+  private entry(key: string): Entry | undefined {
+    const entry = this.store.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.store.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private serialize(value: unknown): string {
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+
+  private parse<T>(value: string): T {
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return value as unknown as T;
+    }
+  }
+}
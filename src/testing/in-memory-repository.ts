@@ -0,0 +1,360 @@
+import { randomUUID } from 'crypto';
+import {
+  FindOperator,
+  getMetadataArgsStorage,
+  In,
+  type ObjectLiteral,
+  type Repository,
+} from 'typeorm';
+
+type Where = Record<string, unknown>;
+
+interface FindOptions {
+  where?: Where | Where[];
+  relations?: string[];
+  order?: Record<string, 'ASC' | 'DESC'>;
+  skip?: number;
+  take?: number;
+}
+
+/**
+ * 内存中的 TypeORM 仓库 - 单元测试中代替数据库
+ * 只实现业务代码用到的方法；查询条件支持字段值、常用查询运算符和关联实体上的条件，
+ * 关联通过 relations 参数提供的函数加载，未提供时使用保存时写入的关联对象；
+ * 保存时按实体元数据生成 UUID 主键、填充列默认值和创建、更新时间，并按关联对象写入外键列
+ *
+ * 使用示例：
+ * const sessions = new InMemoryRepository(RefreshToken, {
+ *   user: (session) => users.find((user) => user.id === session.userId),
+ * });
+ * new SessionService(sessions.asRepository());
+ */
+export class InMemoryRepository<T extends ObjectLiteral> {
+  readonly rows: T[] = [];
+
+  constructor(
+    private readonly target: new () => T,
+    private readonly relations: Record<string, (row: T) => unknown> = {},
+  ) {}
+
+  /**
+   * 以 TypeORM 仓库类型注入到被测服务
+   */
+  asRepository(): Repository<T> {
+    return this as unknown as Repository<T>;
+  }
+
+  create(data: Partial<T> = {}): T {
+    return Object.assign(new this.target(), data);
+  }
+
+  save(entity: T): Promise<T>;
+  save(entities: T[]): Promise<T[]>;
+  save(entity: T | T[]): Promise<T | T[]> {
+    if (Array.isArray(entity)) {
+      return Promise.all(entity.map((item) => this.save(item)));
+    }
+
+    const now = new Date();
+    const record = entity as Record<string, unknown>;
+    const existing = this.rows.find((row) => this.isSameRow(row, entity));
+    this.syncForeignKeys(record);
+    if (!existing) {
+      for (const column of this.columns()) {
+        const { propertyName, mode, options } = column;
+        if (record[propertyName] !== undefined) {
+          continue;
+        }
+        if (mode === 'createDate' || mode === 'updateDate') {
+          record[propertyName] = now;
+        } else if (
+          options.default !== undefined &&
+          typeof options.default !== 'function'
+        ) {
+          record[propertyName] = options.default;
+        }
+      }
+      for (const { propertyName, strategy } of this.generations()) {
+        if (record[propertyName] === undefined && strategy === 'uuid') {
+          record[propertyName] = randomUUID();
+        }
+      }
+      this.rows.push(this.copy(entity));
+    } else {
+      for (const column of this.columns()) {
+        if (column.mode === 'updateDate') {
+          record[column.propertyName] = now;
+        }
+      }
+      Object.assign(existing, entity);
+    }
+    return Promise.resolve(entity);
+  }
+
+  find(options: FindOptions = {}): Promise<T[]> {
+    let rows = this.rows.filter((row) => this.matchesAny(row, options.where));
+    if (options.order) {
+      rows = this.sort(rows, options.order);
+    }
+    rows = rows.slice(
+      options.skip ?? 0,
+      options.take === undefined
+        ? undefined
+        : (options.skip ?? 0) + options.take,
+    );
+    return Promise.resolve(rows.map((row) => this.load(row, options)));
+  }
+
+  async findOne(options: FindOptions): Promise<T | null> {
+    const [row] = await this.find({ ...options, take: 1 });
+    return row ?? null;
+  }
+
+  findOneBy(where: Where | Where[]): Promise<T | null> {
+    return this.findOne({ where });
+  }
+
+  async findAndCount(options: FindOptions = {}): Promise<[T[], number]> {
+    return [
+      await this.find(options),
+      await this.count({ where: options.where }),
+    ];
+  }
+
+  count(options: FindOptions = {}): Promise<number> {
+    return Promise.resolve(
+      this.rows.filter((row) => this.matchesAny(row, options.where)).length,
+    );
+  }
+
+  async exists(options: FindOptions = {}): Promise<boolean> {
+    return (await this.count(options)) > 0;
+  }
+
+  update(
+    criteria: string | Where,
+    data: Partial<T>,
+  ): Promise<{ affected: number }> {
+    const rows = this.rows.filter((row) =>
+      this.matches(row, this.toWhere(criteria)),
+    );
+    // 与 UpdateQueryBuilder 一致，值为 undefined 的字段不会写入
+    const values = Object.fromEntries(
+      Object.entries(data).filter(([, value]) => value !== undefined),
+    );
+    rows.forEach((row) => Object.assign(row, values));
+    return Promise.resolve({ affected: rows.length });
+  }
+
+  delete(criteria: string | string[] | Where): Promise<{ affected: number }> {
+    const removed = this.rows.filter((row) =>
+      this.matches(row, this.toWhere(criteria)),
+    );
+    removed.forEach((row) => this.rows.splice(this.rows.indexOf(row), 1));
+    return Promise.resolve({ affected: removed.length });
+  }
+
+  private toWhere(criteria: string | string[] | Where): Where {
+    if (Array.isArray(criteria)) {
+      return { id: In(criteria) };
+    }
+    return typeof criteria === 'string' ? { id: criteria } : criteria;
+  }
+
+  private columns() {
+    return getMetadataArgsStorage().columns.filter((column) =>
+      this.inherits(column.target),
+    );
+  }
+
+  private generations() {
+    return getMetadataArgsStorage().generations.filter((generation) =>
+      this.inherits(generation.target),
+    );
+  }
+
+  /**
+   * 与 TypeORM 一致，关联对象有值时（包括 null）以它为准写入对应的外键列
+   */
+  private syncForeignKeys(record: Record<string, unknown>): void {
+    const joinColumns = getMetadataArgsStorage().joinColumns.filter(
+      (joinColumn) => this.inherits(joinColumn.target),
+    );
+    for (const { propertyName, name } of joinColumns) {
+      const related = record[propertyName] as ObjectLiteral | null | undefined;
+      const column = this.columns().find((item) => item.options.name === name);
+      if (column && related !== undefined) {
+        record[column.propertyName] = related?.id ?? null;
+      }
+    }
+  }
+
+  private inherits(target: unknown): boolean {
+    return (
+      target === this.target ||
+      (typeof target === 'function' &&
+        this.target.prototype instanceof (target as new () => unknown))
+    );
+  }
+
+  private isSameRow(row: T, entity: T): boolean {
+    return entity.id !== undefined && row.id === entity.id;
+  }
+
+  /**
+   * 返回记录的副本并加载关联，每次查询得到的都是独立的实体对象
+   */
+  private load(row: T, options: FindOptions): T {
+    const copy = this.copy(row) as Record<string, unknown>;
+    for (const name of options.relations ?? []) {
+      if (this.relations[name]) {
+        copy[name] = this.relations[name](row);
+      }
+    }
+    return copy as T;
+  }
+
+  private copy(row: T): T {
+    return Object.assign(
+      Object.create(Object.getPrototypeOf(row) as object) as T,
+      row,
+    );
+  }
+
+  private sort(rows: T[], order: Record<string, 'ASC' | 'DESC'>): T[] {
+    return [...rows].sort((a, b) => {
+      for (const [field, direction] of Object.entries(order)) {
+        const result = compare(a[field], b[field]);
+        if (result !== 0) {
+          return direction === 'DESC' ? -result : result;
+        }
+      }
+      return 0;
+    });
+  }
+
+  private matchesAny(row: T, where?: Where | Where[]): boolean {
+    if (!where) {
+      return true;
+    }
+    return Array.isArray(where)
+      ? where.length === 0 || where.some((item) => this.matches(row, item))
+      : this.matches(row, where);
+  }
+
+  private matches(row: T, where: Where): boolean {
+    return Object.entries(where).every(([field, condition]) => {
+      const value = this.relations[field]
+        ? this.relations[field](row)
+        : (row as Record<string, unknown>)[field];
+      return matchValue(value, condition);
+    });
+  }
+}
+
+/**
+ * 判断字段值是否满足条件，关联为数组时任一元素满足即可
+ */
+function matchValue(value: unknown, condition: unknown): boolean {
+  if (condition === undefined) {
+    return true; // 与 TypeORM 一致，值为 undefined 的条件被忽略
+  }
+  if (condition instanceof FindOperator) {
+    return matchOperator(value, condition as FindOperator<unknown>);
+  }
+  if (isNestedWhere(condition)) {
+    const related = Array.isArray(value) ? value : [value];
+    return related.some(
+      (item) =>
+        item !== null &&
+        typeof item === 'object' &&
+        Object.entries(condition).every(([field, nested]) =>
+          matchValue((item as Record<string, unknown>)[field], nested),
+        ),
+    );
+  }
+  return compare(value, condition) === 0;
+}
+
+function matchOperator(
+  value: unknown,
+  operator: FindOperator<unknown>,
+): boolean {
+  switch (operator.type) {
+    case 'equal':
+      return compare(value, operator.value) === 0;
+    case 'not':
+      return !matchValue(value, operator.child ?? operator.value);
+    case 'in':
+      return (operator.value as unknown[]).some(
+        (item) => compare(value, item) === 0,
+      );
+    case 'isNull':
+      return value === null || value === undefined;
+    case 'moreThan':
+      return value != null && compare(value, operator.value) > 0;
+    case 'moreThanOrEqual':
+      return value != null && compare(value, operator.value) >= 0;
+    case 'lessThan':
+      return value != null && compare(value, operator.value) < 0;
+    case 'lessThanOrEqual':
+      return value != null && compare(value, operator.value) <= 0;
+    case 'like':
+      return likeToRegExp(operator.value as string).test(String(value));
+    case 'and':
+      return (operator.value as FindOperator<unknown>[]).every((item) =>
+        matchOperator(value, item),
+      );
+    case 'or':
+      return (operator.value as FindOperator<unknown>[]).some((item) =>
+        matchOperator(value, item),
+      );
+    default:
+      throw new Error(`不支持的查询运算符: ${operator.type}`);
+  }
+}
+
+/**
+ * 将 LIKE 模式转换为正则表达式（不区分大小写，与 MySQL 默认排序规则一致）
+ */
+function likeToRegExp(pattern: string): RegExp {
+  const escape = (char: string) => char.replace(/[\\^$.*+?()[\]{}|]/g, '\\$&');
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += escape(pattern[++i]);
+    } else if (char === '%') {
+      source += '.*';
+    } else if (char === '_') {
+      source += '.';
+    } else {
+      source += escape(char);
+    }
+  }
+  return new RegExp(`^${source}$`, 'is');
+}
+
+function compare(a: unknown, b: unknown): number {
+  const left = a instanceof Date ? a.getTime() : a;
+  const right = b instanceof Date ? b.getTime() : b;
+  if (left === right) {
+    return 0;
+  }
+  if (left === null || left === undefined) {
+    return right === null || right === undefined ? 0 : -1;
+  }
+  if (right === null || right === undefined) {
+    return 1;
+  }
+  return (left as number) > (right as number) ? 1 : -1;
+}
+
+function isNestedWhere(value: unknown): value is Where {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    !(value instanceof Date) &&
+    !Array.isArray(value)
+  );
+}
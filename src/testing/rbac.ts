@@ -0,0 +1,32 @@
+import { RbacService } from '../modules/rbac/rbac.service';
+import { Role } from '../modules/rbac/entities/role.entity';
+import { Permission } from '../modules/rbac/entities/permission.entity';
+import { User } from '../modules/users/entities/user.entity';
+import { TenantContextService } from '../modules/organizations/services/tenant-context.service';
+import type { AuditService } from '../modules/audit/audit.service';
+import { InMemoryRepository } from './in-memory-repository';
+import { InMemoryRedis } from './in-memory-redis';
+
+/**
+ * 创建使用内存仓库的 RbacService，并初始化系统内置角色
+ * 角色的继承关系和权限与正式环境一致
+ *
+ * 使用示例：
+ * const rbacService = await createRbacService();
+ * new PermissionsGuard(new Reflector(), rbacService);
+ */
+export async function createRbacService(
+  users = new InMemoryRepository(User),
+  tenantContext = new TenantContextService(),
+): Promise<RbacService> {
+  const rbacService = new RbacService(
+    new InMemoryRepository(Role).asRepository(),
+    new InMemoryRepository(Permission).asRepository(),
+    users.asRepository(),
+    new InMemoryRedis().asService(),
+    {} as AuditService,
+    tenantContext,
+  );
+  await rbacService.onApplicationBootstrap();
+  return rbacService;
+}